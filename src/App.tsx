@@ -11,11 +11,20 @@ import { AppSidebar } from "@/components/AppSidebar";
 import Index from "@/pages/Index";
 import Dashboard from "@/components/Dashboard";
 import ClientManager from "@/components/ClientManager";
+import ClientDetail from "@/components/ClientDetail";
+import ClientStatement from "@/components/ClientStatement";
 import InvoiceManager from "@/components/InvoiceManager";
 import BackdatedInvoiceManager from "@/components/BackdatedInvoiceManager";
+import RecurringInvoiceManager from "@/components/RecurringInvoiceManager";
 import InvoiceView from "@/components/InvoiceView";
+import QuoteManager from "@/components/QuoteManager";
+import AgingReport from "@/components/AgingReport";
+import StockValuationReport from "@/components/StockValuationReport";
 import Inventory from "@/components/Inventory";
 import WarehouseManager from "@/components/WarehouseManager";
+import SupplierManager from "@/components/SupplierManager";
+import PurchaseOrderManager from "@/components/PurchaseOrderManager";
+import StocktakeManager from "@/components/StocktakeManager";
 import CompanyExpenses from "@/components/CompanyExpenses";
 import Settings from "@/components/Settings";
 import DatabaseManager from "@/components/DatabaseManager";
@@ -49,10 +58,19 @@ const App = () => (
                           <Routes>
               <Route path="/" element={<Index />} />
               <Route path="/clients" element={<ClientManager />} />
+              <Route path="/clients/:id" element={<ClientDetail />} />
+              <Route path="/clients/:id/statement" element={<ClientStatement />} />
+              <Route path="/quotes" element={<QuoteManager />} />
               <Route path="/invoices" element={<InvoiceManager />} />
               <Route path="/backdated-invoices" element={<BackdatedInvoiceManager />} />
+              <Route path="/recurring-invoices" element={<RecurringInvoiceManager />} />
+              <Route path="/reports/aging" element={<AgingReport />} />
+              <Route path="/reports/stock-valuation" element={<StockValuationReport />} />
               <Route path="/inventory" element={<Inventory />} />
               <Route path="/warehouses" element={<WarehouseManager />} />
+              <Route path="/suppliers" element={<SupplierManager />} />
+              <Route path="/purchase-orders" element={<PurchaseOrderManager />} />
+              <Route path="/stocktakes" element={<StocktakeManager />} />
               <Route path="/expenses" element={<CompanyExpenses />} />
               <Route path="/settings" element={<Settings />} />
                             <Route path="/database" element={<DatabaseManager />} />
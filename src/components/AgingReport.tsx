@@ -0,0 +1,289 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Download, Hourglass, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { useInvoices, useBackdatedInvoices } from '@/hooks/useInvoices';
+import { AGING_BUCKETS, AgingBucketKey, AgingTotals, buildAgingReport } from '@/lib/aging';
+import { downloadCsv } from '@/lib/csv';
+
+interface Selection {
+  bucket?: AgingBucketKey;
+  clientId?: string;
+}
+
+const bucketColors: Record<AgingBucketKey, string> = {
+  current: 'text-green-600',
+  '1_30': 'text-yellow-600',
+  '31_60': 'text-orange-600',
+  '61_90': 'text-red-600',
+  '90_plus': 'text-red-800',
+};
+
+const AgingReport = () => {
+  const [selection, setSelection] = useState<Selection | null>(null);
+
+  const { data: invoices = [], isLoading: invoicesLoading } = useInvoices();
+  const { data: backdatedInvoices = [], isLoading: backdatedLoading } = useBackdatedInvoices();
+
+  const report = useMemo(
+    () => buildAgingReport([...invoices, ...backdatedInvoices]),
+    [invoices, backdatedInvoices]
+  );
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-NG', {
+      style: 'currency',
+      currency: 'NGN'
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  const bucketLabel = (key: AgingBucketKey) => AGING_BUCKETS.find(bucket => bucket.key === key)?.label || key;
+
+  const selectedLines = selection
+    ? report.lines.filter(line =>
+        (!selection.bucket || line.bucket === selection.bucket) &&
+        (!selection.clientId || line.clientId === selection.clientId)
+      )
+    : [];
+
+  const selectionTitle = selection
+    ? [
+        selection.clientId && report.clients.find(client => client.clientId === selection.clientId)?.clientName,
+        selection.bucket ? bucketLabel(selection.bucket) : 'All balances'
+      ].filter(Boolean).join(' - ')
+    : '';
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const handleExportSummary = () => {
+    const amounts = (totals: AgingTotals) => [
+      ...AGING_BUCKETS.map(bucket => totals[bucket.key].toFixed(2)),
+      totals.total.toFixed(2)
+    ];
+    downloadCsv(
+      `aging-summary-${today}.csv`,
+      ['Client', ...AGING_BUCKETS.map(bucket => bucket.label), 'Total'],
+      [
+        ...report.clients.map(client => [client.clientName, ...amounts(client.totals)]),
+        ['Total', ...amounts(report.totals)]
+      ]
+    );
+  };
+
+  const handleExportInvoices = () => {
+    downloadCsv(
+      `aging-invoices-${today}.csv`,
+      ['Invoice #', 'Client', 'Issue Date', 'Due Date', 'Days Past Due', 'Bucket', 'Total', 'Paid', 'Credited', 'Balance'],
+      selectedLines.map(line => [
+        line.invoice.invoice_number,
+        line.clientName,
+        line.invoice.issue_date,
+        line.invoice.due_date,
+        Math.max(0, line.daysPastDue),
+        bucketLabel(line.bucket),
+        line.invoice.total_amount.toFixed(2),
+        line.invoice.amount_paid.toFixed(2),
+        line.invoice.amount_credited.toFixed(2),
+        line.balance.toFixed(2)
+      ])
+    );
+  };
+
+  const isSelected = (bucket?: AgingBucketKey, clientId?: string) =>
+    selection?.bucket === bucket && selection?.clientId === clientId;
+
+  const amountCell = (amount: number, bucket?: AgingBucketKey, clientId?: string) => (
+    <button
+      type="button"
+      onClick={() => setSelection({ bucket, clientId })}
+      disabled={amount === 0}
+      className={`w-full text-right rounded px-1 ${amount === 0 ? 'text-gray-400 cursor-default' : 'hover:underline hover:text-blue-700'} ${isSelected(bucket, clientId) ? 'bg-blue-100' : ''}`}
+    >
+      {amount === 0 ? '-' : formatCurrency(amount)}
+    </button>
+  );
+
+  if (invoicesLoading || backdatedLoading) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div className="text-center py-8">
+          <div className="text-lg">Loading aging report...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Receivables Aging</h1>
+          <p className="text-gray-600 mt-1">Outstanding balances by days past due, as of {format(new Date(), 'MMM d, yyyy')}</p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={handleExportSummary}
+          disabled={report.clients.length === 0}
+          className="flex items-center gap-2 border-blue-200 text-blue-700 hover:bg-blue-50"
+        >
+          <Download className="w-4 h-4" />
+          Export CSV
+        </Button>
+      </div>
+
+      {/* Bucket totals */}
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+        {AGING_BUCKETS.map(bucket => (
+          <Card
+            key={bucket.key}
+            onClick={() => setSelection({ bucket: bucket.key })}
+            className={`cursor-pointer hover:shadow-md transition-shadow ${isSelected(bucket.key) ? 'ring-2 ring-blue-500' : ''}`}
+          >
+            <CardContent className="pt-6">
+              <p className="text-sm font-medium text-gray-600">{bucket.label}</p>
+              <p className={`text-xl font-bold ${bucketColors[bucket.key]}`}>{formatCurrency(report.totals[bucket.key])}</p>
+            </CardContent>
+          </Card>
+        ))}
+        <Card
+          onClick={() => setSelection({})}
+          className={`cursor-pointer hover:shadow-md transition-shadow ${isSelected() ? 'ring-2 ring-blue-500' : ''}`}
+        >
+          <CardContent className="pt-6">
+            <p className="text-sm font-medium text-gray-600">Total Outstanding</p>
+            <p className="text-xl font-bold text-gray-900">{formatCurrency(report.totals.total)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* By client */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center text-lg font-semibold text-gray-900">
+            <Hourglass className="w-5 h-5 mr-2" />
+            By Client
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {report.clients.length === 0 ? (
+            <p className="text-gray-500 text-sm">No outstanding balances.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Client</th>
+                    {AGING_BUCKETS.map(bucket => (
+                      <th key={bucket.key} className="text-right py-3 px-4 font-medium text-gray-600">{bucket.label}</th>
+                    ))}
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.clients.map(client => (
+                    <tr key={client.clientId} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-3 px-4 font-medium text-gray-900">{client.clientName}</td>
+                      {AGING_BUCKETS.map(bucket => (
+                        <td key={bucket.key} className="py-3 px-4">
+                          {amountCell(client.totals[bucket.key], bucket.key, client.clientId)}
+                        </td>
+                      ))}
+                      <td className="py-3 px-4 font-semibold">
+                        {amountCell(client.totals.total, undefined, client.clientId)}
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="bg-gray-50 font-semibold">
+                    <td className="py-3 px-4 text-gray-900">Total</td>
+                    {AGING_BUCKETS.map(bucket => (
+                      <td key={bucket.key} className="py-3 px-4">{amountCell(report.totals[bucket.key], bucket.key)}</td>
+                    ))}
+                    <td className="py-3 px-4">{amountCell(report.totals.total)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Drill-down */}
+      {selection && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle className="text-lg font-semibold text-gray-900">
+              {selectionTitle} ({selectedLines.length})
+            </CardTitle>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleExportInvoices}
+                disabled={selectedLines.length === 0}
+                className="flex items-center gap-2 border-blue-200 text-blue-700 hover:bg-blue-50"
+              >
+                <Download className="w-4 h-4" />
+                Export CSV
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setSelection(null)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {selectedLines.length === 0 ? (
+              <p className="text-gray-500 text-sm">No invoices in this bucket.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-3 px-4 font-medium text-gray-600">Invoice #</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-600">Client</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-600">Due Date</th>
+                      <th className="text-right py-3 px-4 font-medium text-gray-600">Days Past Due</th>
+                      <th className="text-right py-3 px-4 font-medium text-gray-600">Total</th>
+                      <th className="text-right py-3 px-4 font-medium text-gray-600">Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {selectedLines.map(line => (
+                      <tr key={line.invoice.id} className="border-b border-gray-100 hover:bg-gray-50">
+                        <td className="py-3 px-4 font-medium text-gray-900">
+                          {line.invoice.invoice_number}
+                          {line.invoice.is_backdated && (
+                            <Badge className="ml-2 bg-gray-100 text-gray-700 hover:bg-gray-200">backdated</Badge>
+                          )}
+                        </td>
+                        <td className="py-3 px-4 text-gray-700">{line.clientName}</td>
+                        <td className="py-3 px-4 text-gray-700">{formatDate(line.invoice.due_date)}</td>
+                        <td className={`py-3 px-4 text-right ${bucketColors[line.bucket]}`}>
+                          {line.daysPastDue > 0 ? line.daysPastDue : '-'}
+                        </td>
+                        <td className="py-3 px-4 text-right text-gray-700">{formatCurrency(line.invoice.total_amount)}</td>
+                        <td className="py-3 px-4 text-right font-semibold text-gray-900">{formatCurrency(line.balance)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default AgingReport;
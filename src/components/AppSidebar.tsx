@@ -4,10 +4,17 @@ import {
   LayoutDashboard, 
   Users, 
   FileText, 
+  ClipboardList,
+  Hourglass,
+  Coins,
+  Repeat,
   Package, 
   Receipt, 
   Settings,
   Warehouse,
+  Truck,
+  ShoppingCart,
+  ClipboardCheck,
   LogOut
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
@@ -29,10 +36,17 @@ import {
 const navigationItems = [
   { path: '/', icon: LayoutDashboard, label: 'Dashboard' },
   { path: '/clients', icon: Users, label: 'Clients' },
+  { path: '/quotes', icon: ClipboardList, label: 'Quotes' },
   { path: '/invoices', icon: FileText, label: 'Invoices' },
   { path: '/backdated-invoices', icon: FileText, label: 'Backdated Invoices' },
+  { path: '/recurring-invoices', icon: Repeat, label: 'Recurring Invoices' },
+  { path: '/reports/aging', icon: Hourglass, label: 'Aging Report' },
+  { path: '/reports/stock-valuation', icon: Coins, label: 'Stock Valuation' },
   { path: '/inventory', icon: Package, label: 'Inventory' },
   { path: '/warehouses', icon: Warehouse, label: 'Warehouses' },
+  { path: '/suppliers', icon: Truck, label: 'Suppliers' },
+  { path: '/purchase-orders', icon: ShoppingCart, label: 'Purchase Orders' },
+  { path: '/stocktakes', icon: ClipboardCheck, label: 'Stocktakes' },
   { path: '/expenses', icon: Receipt, label: 'Expenses' },
   { path: '/settings', icon: Settings, label: 'Settings' },
 ];
@@ -8,15 +8,17 @@ import {
   Search, 
   Edit, 
   Trash2, 
+  Ban,
   Eye, 
   FileText,
   Clock
 } from 'lucide-react';
-import { useBackdatedInvoices, useDeleteInvoice } from '@/hooks/useInvoices';
+import { useBackdatedInvoices, useDeleteInvoice, useVoidInvoice } from '@/hooks/useInvoices';
 import { useToast } from '@/hooks/use-toast';
 import BackdatedInvoiceModal from '@/components/modals/BackdatedInvoiceModal';
 import InvoiceView from '@/components/InvoiceView';
 import { Tables } from '@/integrations/supabase/types';
+import { getInvoiceBalance } from '@/lib/invoiceTotals';
 
 type Invoice = Tables<'invoices'> & {
   clients?: {
@@ -37,6 +39,7 @@ const BackdatedInvoiceManager = () => {
 
   const { data: invoices = [], isLoading, error } = useBackdatedInvoices();
   const deleteInvoice = useDeleteInvoice();
+  const voidInvoice = useVoidInvoice();
   const { toast } = useToast();
 
   const handleDelete = async (invoiceId: string) => {
@@ -51,7 +54,26 @@ const BackdatedInvoiceManager = () => {
         console.error('Delete error:', error);
         toast({
           title: "Error",
-          description: "Failed to delete backdated invoice",
+          description: error instanceof Error ? error.message : "Failed to delete backdated invoice",
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  const handleVoid = async (invoiceId: string) => {
+    if (confirm('Void this backdated invoice? It will stay on file but can no longer be edited.')) {
+      try {
+        await voidInvoice.mutateAsync(invoiceId);
+        toast({
+          title: "Success",
+          description: "Backdated invoice voided successfully",
+        });
+      } catch (error) {
+        console.error('Void error:', error);
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to void backdated invoice",
           variant: "destructive",
         });
       }
@@ -95,9 +117,11 @@ const BackdatedInvoiceManager = () => {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'paid': return 'bg-green-100 text-green-700 hover:bg-green-200';
+      case 'partially_paid': return 'bg-blue-100 text-blue-700 hover:bg-blue-200';
       case 'pending': return 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200';
       case 'overdue': return 'bg-red-100 text-red-700 hover:bg-red-200';
       case 'draft': return 'bg-gray-100 text-gray-700 hover:bg-gray-200';
+      case 'void': return 'bg-gray-200 text-gray-500 line-through hover:bg-gray-200';
       default: return 'bg-gray-100 text-gray-700 hover:bg-gray-200';
     }
   };
@@ -188,8 +212,10 @@ const BackdatedInvoiceManager = () => {
                 <option value="all">All Status</option>
                 <option value="draft">Draft</option>
                 <option value="pending">Pending</option>
+                <option value="partially_paid">Partially Paid</option>
                 <option value="paid">Paid</option>
                 <option value="overdue">Overdue</option>
+                <option value="void">Void</option>
               </select>
             </div>
           </div>
@@ -247,6 +273,7 @@ const BackdatedInvoiceManager = () => {
                     <th className="text-left py-3 px-4 font-medium text-gray-600">Invoice #</th>
                     <th className="text-left py-3 px-4 font-medium text-gray-600">Client</th>
                     <th className="text-left py-3 px-4 font-medium text-gray-600">Amount</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Balance Due</th>
                     <th className="text-left py-3 px-4 font-medium text-gray-600">Issue Date</th>
                     <th className="text-left py-3 px-4 font-medium text-gray-600">Due Date</th>
                     <th className="text-left py-3 px-4 font-medium text-gray-600">Status</th>
@@ -264,11 +291,12 @@ const BackdatedInvoiceManager = () => {
                       </td>
                       <td className="py-3 px-4 text-gray-700">{invoice.clients?.company_name || 'Unknown Client'}</td>
                       <td className="py-3 px-4 font-medium text-gray-900">{formatCurrency(invoice.total_amount)}</td>
+                      <td className="py-3 px-4 text-gray-700">{formatCurrency(getInvoiceBalance(invoice))}</td>
                       <td className="py-3 px-4 text-gray-700">{formatDate(invoice.issue_date)}</td>
                       <td className="py-3 px-4 text-gray-700">{formatDate(invoice.due_date)}</td>
                       <td className="py-3 px-4">
                         <Badge className={getStatusColor(invoice.status)}>
-                          {invoice.status}
+                          {invoice.status.replace('_', ' ')}
                         </Badge>
                       </td>
                       <td className="py-3 px-4">
@@ -281,14 +309,27 @@ const BackdatedInvoiceManager = () => {
                           >
                             <Eye className="w-4 h-4" />
                           </Button>
-                          <Button 
-                            variant="ghost" 
-                            size="sm" 
-                            onClick={() => handleEditInvoice(invoice)}
-                            className="text-gray-600 hover:text-gray-700"
-                          >
-                            <Edit className="w-4 h-4" />
-                          </Button>
+                          {invoice.status !== 'void' && (
+                            <>
+                              <Button 
+                                variant="ghost" 
+                                size="sm" 
+                                onClick={() => handleEditInvoice(invoice)}
+                                className="text-gray-600 hover:text-gray-700"
+                              >
+                                <Edit className="w-4 h-4" />
+                              </Button>
+                              <Button 
+                                variant="ghost" 
+                                size="sm" 
+                                onClick={() => handleVoid(invoice.id)}
+                                className="text-gray-600 hover:text-gray-700"
+                                title="Void invoice"
+                              >
+                                <Ban className="w-4 h-4" />
+                              </Button>
+                            </>
+                          )}
                           <Button 
                             variant="ghost" 
                             size="sm" 
@@ -0,0 +1,285 @@
+import React, { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  ArrowLeft,
+  Building,
+  Clock,
+  DollarSign,
+  Edit,
+  FileText,
+  Mail,
+  Package,
+  Phone,
+  ScrollText,
+  Wallet
+} from 'lucide-react';
+import { useClient } from '@/hooks/useClients';
+import { useClientHistory } from '@/hooks/useClientHistory';
+import ClientModal from '@/components/modals/ClientModal';
+import { getInvoiceBalance } from '@/lib/invoiceTotals';
+
+const ClientDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  const { data: client, isLoading: clientLoading } = useClient(id);
+  const { data: history, isLoading: historyLoading } = useClientHistory(id);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-NG', {
+      style: 'currency',
+      currency: 'NGN'
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'paid': return 'bg-green-100 text-green-700 hover:bg-green-200';
+      case 'partially_paid': return 'bg-blue-100 text-blue-700 hover:bg-blue-200';
+      case 'pending': return 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200';
+      case 'overdue': return 'bg-red-100 text-red-700 hover:bg-red-200';
+      case 'draft': return 'bg-gray-100 text-gray-700 hover:bg-gray-200';
+      case 'void': return 'bg-gray-200 text-gray-500 line-through hover:bg-gray-200';
+      default: return 'bg-gray-100 text-gray-700 hover:bg-gray-200';
+    }
+  };
+
+  if (clientLoading) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div className="text-center py-8">
+          <div className="text-lg">Loading client...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!client) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div className="text-center py-8">
+          <div className="text-red-600 text-lg">Client not found</div>
+          <Button variant="outline" onClick={() => navigate('/clients')} className="mt-4">
+            Back to Clients
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const summary = history?.summary;
+  const invoices = history?.invoices || [];
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" onClick={() => navigate('/clients')} className="flex items-center gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            Clients
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{client.company_name}</h1>
+            <p className="text-gray-600 mt-1">{client.contact_name}</p>
+          </div>
+          {client.vat_exempt && <Badge variant="secondary">VAT exempt</Badge>}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => navigate(`/clients/${client.id}/statement`)} className="flex items-center gap-2">
+            <ScrollText className="w-4 h-4" />
+            Statement
+          </Button>
+          <Button className="steel-button" onClick={() => setIsModalOpen(true)}>
+            <Edit className="w-4 h-4 mr-2" />
+            Edit Client
+          </Button>
+        </div>
+      </div>
+
+      {/* Contact */}
+      <Card className="steel-card">
+        <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-steel-600">
+          <div className="flex items-center">
+            <Mail className="w-4 h-4 mr-2" />
+            <a href={`mailto:${client.email}`} className="hover:underline truncate">{client.email}</a>
+          </div>
+          <div className="flex items-center">
+            <Phone className="w-4 h-4 mr-2" />
+            <span>{client.phone || '-'}</span>
+          </div>
+          <div className="flex items-center">
+            <Building className="w-4 h-4 mr-2" />
+            <span>{client.address || '-'}</span>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <Card className="steel-card">
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-steel-600">Lifetime Revenue</p>
+                <p className="text-2xl font-bold text-green-600">{formatCurrency(summary?.lifetimeRevenue || 0)}</p>
+              </div>
+              <DollarSign className="w-8 h-8 text-green-600" />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="steel-card">
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-steel-600">Outstanding Balance</p>
+                <p className={`text-2xl font-bold ${(summary?.outstandingBalance || 0) > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                  {formatCurrency(summary?.outstandingBalance || 0)}
+                </p>
+              </div>
+              <Wallet className="w-8 h-8 text-red-600" />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="steel-card">
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-steel-600">Average Days to Pay</p>
+                <p className="text-2xl font-bold text-yellow-600">
+                  {summary?.averageDaysToPay != null ? `${Math.round(summary.averageDaysToPay)} days` : '-'}
+                </p>
+              </div>
+              <Clock className="w-8 h-8 text-yellow-600" />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="steel-card">
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-steel-600">Invoices</p>
+                <p className="text-2xl font-bold text-blue-600">{summary?.invoiceCount || 0}</p>
+              </div>
+              <FileText className="w-8 h-8 text-blue-600" />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Top products */}
+        <Card className="steel-card">
+          <CardHeader>
+            <CardTitle className="flex items-center text-lg font-semibold text-gray-900">
+              <Package className="w-5 h-5 mr-2" />
+              Most Bought Products
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {historyLoading ? (
+              <p className="text-gray-500 text-sm">Loading...</p>
+            ) : !summary || summary.topProducts.length === 0 ? (
+              <p className="text-gray-500 text-sm">No inventory products invoiced yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {summary.topProducts.map(product => (
+                  <li key={product.inventoryItemId} className="py-2 flex justify-between gap-4">
+                    <div>
+                      <p className="font-medium text-gray-900">{product.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {product.quantity} units on {product.invoiceCount} invoice{product.invoiceCount === 1 ? '' : 's'}
+                      </p>
+                    </div>
+                    <span className="text-sm font-medium text-gray-900 whitespace-nowrap">{formatCurrency(product.revenue)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Invoices */}
+        <Card className="steel-card lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center text-lg font-semibold text-gray-900">
+              <FileText className="w-5 h-5 mr-2" />
+              Invoices ({invoices.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {historyLoading ? (
+              <p className="text-gray-500 text-sm">Loading...</p>
+            ) : invoices.length === 0 ? (
+              <p className="text-gray-500 text-sm">No invoices for this client yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-3 px-4 font-medium text-gray-600">Invoice #</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-600">Issued</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-600">Due</th>
+                      <th className="text-right py-3 px-4 font-medium text-gray-600">Total</th>
+                      <th className="text-right py-3 px-4 font-medium text-gray-600">Balance</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-600">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {invoices.map(invoice => {
+                      const balance = getInvoiceBalance(invoice);
+                      return (
+                        <tr key={invoice.id} className="border-b border-gray-100 hover:bg-gray-50">
+                          <td className="py-3 px-4 font-medium text-gray-900">
+                            {invoice.invoice_number}
+                            {invoice.is_backdated && (
+                              <Badge className="ml-2 bg-gray-100 text-gray-700 hover:bg-gray-200">backdated</Badge>
+                            )}
+                          </td>
+                          <td className="py-3 px-4 text-gray-700">{formatDate(invoice.issue_date)}</td>
+                          <td className="py-3 px-4 text-gray-700">{formatDate(invoice.due_date)}</td>
+                          <td className="py-3 px-4 text-right text-gray-900">{formatCurrency(invoice.total_amount)}</td>
+                          <td className={`py-3 px-4 text-right ${balance > 0 ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                            {formatCurrency(balance)}
+                          </td>
+                          <td className="py-3 px-4">
+                            <Badge className={getStatusColor(invoice.status)}>
+                              {invoice.status.replace('_', ' ')}
+                            </Badge>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <ClientModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        client={client}
+      />
+    </div>
+  );
+};
+
+export default ClientDetail;
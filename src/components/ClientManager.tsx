@@ -1,5 +1,6 @@
 
 import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -13,7 +14,8 @@ import {
   Phone,
   Mail,
   Building,
-  FileText
+  FileText,
+  ScrollText
 } from 'lucide-react';
 import { useClients, useDeleteClient } from '@/hooks/useClients';
 import ClientModal from '@/components/modals/ClientModal';
@@ -26,6 +28,7 @@ const ClientManager = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedClient, setSelectedClient] = useState<Client | undefined>();
+  const navigate = useNavigate();
 
   const { data: clients = [], isLoading } = useClients();
   const deleteClient = useDeleteClient();
@@ -126,13 +129,25 @@ const ClientManager = () => {
                     <Building className="w-5 h-5 text-primary-600" />
                   </div>
                   <div>
-                    <CardTitle className="text-lg font-semibold text-gray-900">
+                    <CardTitle
+                      className="text-lg font-semibold text-gray-900 cursor-pointer hover:text-primary-600"
+                      onClick={() => navigate(`/clients/${client.id}`)}
+                    >
                       {client.company_name}
                     </CardTitle>
                     <p className="text-sm text-steel-600">{client.contact_name}</p>
+                    {client.vat_exempt && (
+                      <Badge variant="secondary" className="mt-1">VAT exempt</Badge>
+                    )}
                   </div>
                 </div>
                 <div className="flex space-x-1">
+                  <Button variant="ghost" size="sm" onClick={() => navigate(`/clients/${client.id}`)} title="View history">
+                    <Eye className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => navigate(`/clients/${client.id}/statement`)} title="Statement of account">
+                    <ScrollText className="w-4 h-4" />
+                  </Button>
                   <Button variant="ghost" size="sm" onClick={() => handleEdit(client)}>
                     <Edit className="w-4 h-4" />
                   </Button>
@@ -0,0 +1,271 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { format, startOfYear } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ArrowLeft, Download, Printer } from 'lucide-react';
+import { useClient } from '@/hooks/useClients';
+import { useClientStatement } from '@/hooks/useClientStatement';
+import { useCompanyInfo } from '@/hooks/useCompanyInfo';
+import { downloadStatementPdf } from '@/lib/statementPdf';
+
+const ClientStatement = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [from, setFrom] = useState(format(startOfYear(new Date()), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+  const { data: client, isLoading: clientLoading } = useClient(id);
+  const { data: companyInfo } = useCompanyInfo();
+  const { data: statement, isLoading: statementLoading } = useClientStatement(id, from, to);
+
+  // Print only the statement itself, as InvoiceView does for invoices
+  useEffect(() => {
+    const printStyles = `
+      <style id="statement-print-styles">
+        @media print {
+          @page { size: A4; margin: 0.4in; }
+          * { -webkit-print-color-adjust: exact !important; color-adjust: exact !important; }
+          body * { visibility: hidden; }
+          .statement-print-content, .statement-print-content * { visibility: visible; }
+          .statement-print-content {
+            position: absolute;
+            left: 0;
+            top: 0;
+            width: 100%;
+            background: white !important;
+          }
+          .print\\:hidden { display: none !important; }
+        }
+      </style>
+    `;
+
+    document.getElementById('statement-print-styles')?.remove();
+    document.head.insertAdjacentHTML('beforeend', printStyles);
+
+    return () => {
+      document.getElementById('statement-print-styles')?.remove();
+    };
+  }, []);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-NG', {
+      style: 'currency',
+      currency: 'NGN'
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+  };
+
+  const handleDownload = () => {
+    if (!client || !statement) return;
+    downloadStatementPdf({ client, statement, companyInfo });
+  };
+
+  if (clientLoading) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div className="text-center py-8">
+          <div className="text-lg">Loading statement...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!client) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div className="text-center py-8">
+          <div className="text-red-600 text-lg">Client not found</div>
+          <Button variant="outline" onClick={() => navigate('/clients')} className="mt-4">
+            Back to Clients
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6 space-y-6 animate-fade-in">
+      {/* Header Actions */}
+      <div className="flex flex-col md:flex-row md:justify-between md:items-end gap-4 print:hidden">
+        <Button variant="outline" onClick={() => navigate('/clients')} className="flex items-center gap-2 border-blue-200 text-blue-700 hover:bg-blue-50 w-fit">
+          <ArrowLeft className="w-4 h-4" />
+          Back to Clients
+        </Button>
+
+        <div className="flex flex-wrap items-end gap-2">
+          <div>
+            <Label htmlFor="statementFrom">From</Label>
+            <Input id="statementFrom" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="statementTo">To</Label>
+            <Input id="statementTo" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          <Button variant="outline" onClick={() => window.print()} className="flex items-center gap-2 border-blue-200 text-blue-700 hover:bg-blue-50">
+            <Printer className="w-4 h-4" />
+            Print
+          </Button>
+          <Button onClick={handleDownload} disabled={!statement} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white">
+            <Download className="w-4 h-4" />
+            Download PDF
+          </Button>
+        </div>
+      </div>
+
+      {/* Statement Content */}
+      <div className="statement-print-content">
+        <div className="max-w-4xl mx-auto bg-white shadow-lg">
+          <div className="bg-gradient-to-r from-blue-600 to-blue-500 text-white p-6">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <h1 className="text-2xl font-bold mb-1">
+                  {companyInfo?.company_name || 'Your Company'}
+                </h1>
+                {companyInfo?.tagline && <p className="text-sm text-blue-100 mb-2">{companyInfo.tagline}</p>}
+                <div className="text-blue-100 text-xs space-y-1">
+                  {companyInfo?.address && <p>{companyInfo.address}</p>}
+                  {companyInfo?.phone && <p>Phone: {companyInfo.phone}</p>}
+                  {companyInfo?.email && <p>Email: {companyInfo.email}</p>}
+                  {companyInfo?.tax_id && <p>TIN: {companyInfo.tax_id}</p>}
+                </div>
+              </div>
+
+              <div className="text-right">
+                <h2 className="text-xl font-bold mb-2">STATEMENT</h2>
+                <div className="bg-white/10 backdrop-blur-sm rounded-lg p-2 space-y-1 text-xs">
+                  <p><span className="font-medium">From:</span> {formatDate(from)}</p>
+                  <p><span className="font-medium">To:</span> {formatDate(to)}</p>
+                  {statement && (
+                    <p><span className="font-medium">Balance Due:</span> {formatCurrency(statement.closingBalance)}</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="p-6">
+            {/* Account */}
+            <div className="mb-6 max-w-sm">
+              <div className="bg-blue-600 text-white px-3 py-1 rounded-t-lg">
+                <h3 className="text-sm font-semibold">Account:</h3>
+              </div>
+              <div className="border border-blue-200 border-t-0 rounded-b-lg p-3 bg-blue-50/30 text-sm text-gray-700 space-y-1">
+                <p className="font-medium text-blue-800">{client.company_name}</p>
+                {client.address && <p>{client.address}</p>}
+                {client.email && <p>{client.email}</p>}
+                {client.contact_name && <p>Contact: {client.contact_name}</p>}
+              </div>
+            </div>
+
+            {statementLoading || !statement ? (
+              <p className="text-gray-500 text-sm">Loading transactions...</p>
+            ) : (
+              <>
+                {/* Transactions */}
+                <div className="mb-6 overflow-hidden rounded-lg border border-blue-200">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="bg-blue-600 text-white">
+                        <th className="text-left py-2 px-3 font-semibold text-sm">Date</th>
+                        <th className="text-left py-2 px-3 font-semibold text-sm">Reference</th>
+                        <th className="text-left py-2 px-3 font-semibold text-sm">Details</th>
+                        <th className="text-right py-2 px-3 font-semibold text-sm">Invoiced</th>
+                        <th className="text-right py-2 px-3 font-semibold text-sm">Paid / Credited</th>
+                        <th className="text-right py-2 px-3 font-semibold text-sm">Balance</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      <tr className="bg-blue-50/30 border-b border-blue-100">
+                        <td className="py-2 px-3 text-gray-800 text-sm">{formatDate(statement.from)}</td>
+                        <td className="py-2 px-3 text-sm"></td>
+                        <td className="py-2 px-3 text-gray-800 text-sm font-medium">Opening balance</td>
+                        <td className="py-2 px-3 text-sm"></td>
+                        <td className="py-2 px-3 text-sm"></td>
+                        <td className="py-2 px-3 text-right text-gray-800 font-medium text-sm">{formatCurrency(statement.openingBalance)}</td>
+                      </tr>
+                      {statement.lines.map((line, index) => (
+                        <tr key={index} className={`${index % 2 === 1 ? 'bg-blue-50/30' : 'bg-white'} border-b border-blue-100`}>
+                          <td className="py-2 px-3 text-gray-800 text-sm">{formatDate(line.date)}</td>
+                          <td className="py-2 px-3 text-gray-800 text-sm">{line.reference}</td>
+                          <td className="py-2 px-3 text-gray-800 text-sm">
+                            {line.description}
+                            {line.dueDate && <span className="text-gray-500"> (due {formatDate(line.dueDate)})</span>}
+                          </td>
+                          <td className="py-2 px-3 text-right text-gray-800 text-sm">{line.debit ? formatCurrency(line.debit) : ''}</td>
+                          <td className="py-2 px-3 text-right text-green-700 text-sm">{line.credit ? formatCurrency(line.credit) : ''}</td>
+                          <td className="py-2 px-3 text-right text-gray-800 font-medium text-sm">{formatCurrency(line.balance)}</td>
+                        </tr>
+                      ))}
+                      {statement.lines.length === 0 && (
+                        <tr>
+                          <td colSpan={6} className="py-4 px-3 text-center text-gray-500 text-sm">No activity in this period</td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+
+                {/* Totals */}
+                <div className="flex justify-end mb-6">
+                  <div className="w-72 space-y-1 text-sm">
+                    <div className="flex justify-between text-gray-700">
+                      <span>Opening Balance</span>
+                      <span>{formatCurrency(statement.openingBalance)}</span>
+                    </div>
+                    <div className="flex justify-between text-gray-700">
+                      <span>Invoiced</span>
+                      <span>{formatCurrency(statement.totalInvoiced)}</span>
+                    </div>
+                    <div className="flex justify-between text-gray-700">
+                      <span>Paid</span>
+                      <span>-{formatCurrency(statement.totalPaid)}</span>
+                    </div>
+                    {statement.totalCredited > 0 && (
+                      <div className="flex justify-between text-gray-700">
+                        <span>Credited</span>
+                        <span>-{formatCurrency(statement.totalCredited)}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between border-t border-blue-200 pt-2 text-lg font-bold text-blue-800">
+                      <span>Closing Balance</span>
+                      <span>{formatCurrency(statement.closingBalance)}</span>
+                    </div>
+                  </div>
+                </div>
+              </>
+            )}
+
+            {/* Payment Information */}
+            {companyInfo?.bank_name && (
+              <div className="mb-6 rounded-lg border border-blue-200 p-3 bg-blue-50/30 text-sm text-gray-700">
+                <h4 className="font-semibold text-blue-800 mb-1">Payment Information</h4>
+                <div className="grid grid-cols-2 gap-1">
+                  <p>Bank: {companyInfo.bank_name}</p>
+                  <p>Account Number: {companyInfo.account_number}</p>
+                  <p>Account Name: {companyInfo.account_name}</p>
+                  {companyInfo.sort_code && <p>Sort Code: {companyInfo.sort_code}</p>}
+                </div>
+              </div>
+            )}
+
+            <div className="text-center text-gray-500 border-t border-blue-200 pt-2 text-sm">
+              <p className="font-medium text-blue-700">Thank you for your business!</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+    </div>
+  );
+};
+
+export default ClientStatement;
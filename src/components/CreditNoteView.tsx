@@ -0,0 +1,236 @@
+import React, { useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Download, Printer } from 'lucide-react';
+import { useCompanyInfo } from '@/hooks/useCompanyInfo';
+import { Tables } from '@/integrations/supabase/types';
+import { downloadCreditNotePdf } from '@/lib/creditNotePdf';
+import { formatWeight, getLineWeight, getPricingUnitShort } from '@/lib/steelWeight';
+import { formatSoldQuantity } from '@/lib/units';
+
+type CreditNote = Tables<'credit_notes'> & {
+  credit_note_items: Tables<'credit_note_items'>[];
+};
+
+type Invoice = Tables<'invoices'> & {
+  clients?: {
+    id: string;
+    company_name: string;
+    contact_name: string;
+    email: string;
+    address: string | null;
+  };
+};
+
+interface CreditNoteViewProps {
+  creditNote: CreditNote;
+  invoice: Invoice;
+  onBack: () => void;
+}
+
+const CreditNoteView: React.FC<CreditNoteViewProps> = ({ creditNote, invoice, onBack }) => {
+  const { data: companyInfo } = useCompanyInfo();
+
+  // Print only the credit note itself, as InvoiceView does for invoices
+  useEffect(() => {
+    const printStyles = `
+      <style id="credit-note-print-styles">
+        @media print {
+          @page { size: A4; margin: 0.4in; }
+          * { -webkit-print-color-adjust: exact !important; color-adjust: exact !important; }
+          body * { visibility: hidden; }
+          .credit-note-print-content, .credit-note-print-content * { visibility: visible; }
+          .credit-note-print-content {
+            position: absolute;
+            left: 0;
+            top: 0;
+            width: 100%;
+            background: white !important;
+          }
+          .print\\:hidden { display: none !important; }
+        }
+      </style>
+    `;
+
+    document.getElementById('credit-note-print-styles')?.remove();
+    document.head.insertAdjacentHTML('beforeend', printStyles);
+
+    return () => {
+      document.getElementById('credit-note-print-styles')?.remove();
+    };
+  }, []);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-NG', {
+      style: 'currency',
+      currency: 'NGN'
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+  };
+
+  const hasWeights = creditNote.credit_note_items.some(item => item.unit_weight_kg);
+  const totalWeight = creditNote.credit_note_items.reduce((sum, item) => sum + (getLineWeight(item) || 0), 0);
+
+  const handleDownload = () => {
+    downloadCreditNotePdf({ creditNote, invoice, companyInfo });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6 space-y-6 animate-fade-in">
+      {/* Header Actions */}
+      <div className="flex justify-between items-center print:hidden">
+        <Button variant="outline" onClick={onBack} className="flex items-center gap-2 border-blue-200 text-blue-700 hover:bg-blue-50">
+          <ArrowLeft className="w-4 h-4" />
+          Back to Invoice
+        </Button>
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => window.print()} className="flex items-center gap-2 border-blue-200 text-blue-700 hover:bg-blue-50">
+            <Printer className="w-4 h-4" />
+            Print
+          </Button>
+          <Button onClick={handleDownload} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white">
+            <Download className="w-4 h-4" />
+            Download
+          </Button>
+        </div>
+      </div>
+
+      {/* Credit Note Content */}
+      <div className="credit-note-print-content">
+        <div className="max-w-4xl mx-auto bg-white shadow-lg">
+          <div className="bg-gradient-to-r from-blue-600 to-blue-500 text-white p-6">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <h1 className="text-2xl font-bold mb-1">
+                  {companyInfo?.company_name || 'Your Company'}
+                </h1>
+                {companyInfo?.tagline && <p className="text-sm text-blue-100 mb-2">{companyInfo.tagline}</p>}
+                <div className="text-blue-100 text-xs space-y-1">
+                  {companyInfo?.address && <p>{companyInfo.address}</p>}
+                  {companyInfo?.phone && <p>Phone: {companyInfo.phone}</p>}
+                  {companyInfo?.email && <p>Email: {companyInfo.email}</p>}
+                  {companyInfo?.tax_id && <p>TIN: {companyInfo.tax_id}</p>}
+                </div>
+              </div>
+
+              <div className="text-right">
+                <h2 className="text-xl font-bold mb-2">CREDIT NOTE</h2>
+                <div className="bg-white/10 backdrop-blur-sm rounded-lg p-2 space-y-1 text-xs">
+                  <p><span className="font-medium">Credit Note #:</span> {creditNote.credit_note_number}</p>
+                  <p><span className="font-medium">Date:</span> {formatDate(creditNote.issue_date)}</p>
+                  <p><span className="font-medium">Invoice #:</span> {invoice.invoice_number}</p>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="p-6">
+            {/* Credit To */}
+            <div className="mb-6">
+              <div className="bg-blue-600 text-white px-3 py-1 rounded-t-lg">
+                <h3 className="text-sm font-semibold">Credit To:</h3>
+              </div>
+              <div className="border border-blue-200 border-t-0 rounded-b-lg p-3 bg-blue-50/30 text-sm text-gray-700 space-y-1">
+                <p className="font-medium text-blue-800">{invoice.clients?.company_name || 'Client Name'}</p>
+                {invoice.clients?.address && <p>{invoice.clients.address}</p>}
+                {invoice.clients?.email && <p>{invoice.clients.email}</p>}
+                {invoice.clients?.contact_name && <p>Contact: {invoice.clients.contact_name}</p>}
+              </div>
+            </div>
+
+            {/* Credited Items */}
+            <div className="mb-6 overflow-hidden rounded-lg border border-blue-200">
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-blue-600 text-white">
+                    <th className="text-left py-2 px-3 font-semibold text-sm">Description</th>
+                    <th className="text-right py-2 px-3 font-semibold text-sm">Qty</th>
+                    {hasWeights && <th className="text-right py-2 px-3 font-semibold text-sm">Weight</th>}
+                    <th className="text-right py-2 px-3 font-semibold text-sm">Unit Price</th>
+                    <th className="text-right py-2 px-3 font-semibold text-sm">VAT</th>
+                    <th className="text-right py-2 px-3 font-semibold text-sm">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {creditNote.credit_note_items.map((item, index) => (
+                    <tr key={item.id} className={`${index % 2 === 0 ? 'bg-blue-50/30' : 'bg-white'} border-b border-blue-100`}>
+                      <td className="py-2 px-3 text-gray-800 text-sm">{item.description}</td>
+                      <td className="py-2 px-3 text-right text-gray-800 text-sm">{formatSoldQuantity(item)}</td>
+                      {hasWeights && (
+                        <td className="py-2 px-3 text-right text-gray-800 text-sm">
+                          {item.unit_weight_kg ? formatWeight(getLineWeight(item) || 0) : '-'}
+                        </td>
+                      )}
+                      <td className="py-2 px-3 text-right text-gray-800 text-sm">
+                        {formatCurrency(item.unit_price)}
+                        {item.pricing_unit !== 'piece' ? `/${getPricingUnitShort(item.pricing_unit)}` : item.unit_name && `/${item.unit_name}`}
+                      </td>
+                      <td className="py-2 px-3 text-right text-gray-800 text-sm">{formatCurrency(item.tax_amount)}</td>
+                      <td className="py-2 px-3 text-right text-gray-800 font-medium text-sm">{formatCurrency(item.line_total)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Totals */}
+            <div className="flex justify-end mb-6">
+              <div className="w-64 space-y-1">
+                {hasWeights && (
+                  <div className="flex justify-between text-gray-700 text-sm">
+                    <span>Weight Returned:</span>
+                    <span>{formatWeight(totalWeight)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between text-gray-700 text-sm">
+                  <span>Subtotal:</span>
+                  <span>{formatCurrency(creditNote.subtotal)}</span>
+                </div>
+                <div className="flex justify-between text-gray-700 text-sm">
+                  <span>VAT:</span>
+                  <span>{formatCurrency(creditNote.tax_amount)}</span>
+                </div>
+                {creditNote.wht_amount > 0 && (
+                  <div className="flex justify-between text-gray-700 text-sm">
+                    <span>Less WHT ({invoice.wht_rate}%):</span>
+                    <span>-{formatCurrency(creditNote.wht_amount)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-bold text-blue-800 border-t border-blue-200 pt-1 text-lg">
+                  <span>Total Credit:</span>
+                  <span>{formatCurrency(creditNote.total_amount)}</span>
+                </div>
+              </div>
+            </div>
+
+            {creditNote.reason && (
+              <div className="mb-6">
+                <div className="bg-blue-600 text-white px-3 py-1 rounded-t-lg">
+                  <h3 className="text-sm font-semibold">Reason:</h3>
+                </div>
+                <div className="border border-blue-200 border-t-0 rounded-b-lg p-3 bg-blue-50/30">
+                  <p className="text-gray-700 whitespace-pre-wrap text-sm">{creditNote.reason}</p>
+                </div>
+              </div>
+            )}
+
+            <div className="text-center text-gray-500 border-t border-blue-200 pt-2 text-sm">
+              <p className="font-medium text-blue-700">
+                This amount has been credited against invoice {invoice.invoice_number}.
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CreditNoteView;
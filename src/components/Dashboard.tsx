@@ -14,8 +14,10 @@ import { useNavigate } from 'react-router-dom';
 import { useInvoices, useBackdatedInvoices } from '@/hooks/useInvoices';
 import { useInventory } from '@/hooks/useInventory';
 import Profit from '@/components/Profit';
+import LowStockAlerts from '@/components/LowStockAlerts';
 import SalesChart from '@/components/charts/SalesChart';
 import ExpensesChart from '@/components/charts/ExpensesChart';
+import { getInvoiceBalance } from '@/lib/invoiceTotals';
 
 const Dashboard: React.FC = () => {
   const navigate = useNavigate();
@@ -26,17 +28,17 @@ const Dashboard: React.FC = () => {
   // Combine regular and backdated invoices for calculations
   const allInvoices = [...invoices, ...backdatedInvoices];
 
-  // Calculate stats
+  // Calculate stats - revenue is what has actually been received, including deposits
+  // Void invoices are kept for the audit trail but never count towards totals
   const totalRevenue = allInvoices
-    .filter(inv => inv.status === 'paid')
-    .reduce((sum, inv) => sum + inv.total_amount, 0);
+    .filter(inv => inv.status !== 'void')
+    .reduce((sum, inv) => sum + inv.amount_paid, 0);
   
   const pendingAmount = allInvoices
-    .filter(inv => inv.status === 'pending')
-    .reduce((sum, inv) => sum + inv.total_amount, 0);
+    .filter(inv => ['pending', 'partially_paid', 'overdue'].includes(inv.status))
+    .reduce((sum, inv) => sum + getInvoiceBalance(inv), 0);
   
   const overdueInvoices = invoices.filter(inv => inv.status === 'overdue');
-  const lowStockItems = inventory.filter(item => item.status === 'low_stock' || item.status === 'out_of_stock');
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-NG', {
@@ -128,54 +130,32 @@ const Dashboard: React.FC = () => {
       </div>
 
       {/* Alerts */}
-      {(overdueInvoices.length > 0 || lowStockItems.length > 0) && (
+      {overdueInvoices.length > 0 && (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {overdueInvoices.length > 0 && (
-            <Card className="border-red-200 bg-red-50">
-              <CardHeader className="pb-4">
-                <CardTitle className="text-red-700 flex items-center">
-                  <AlertCircle className="w-5 h-5 mr-2" />
-                  Overdue Invoices ({overdueInvoices.length})
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <p className="text-red-600 mb-3">You have {overdueInvoices.length} overdue invoice(s) requiring attention.</p>
-                <Button 
-                  variant="outline" 
-                  size="sm"
-                  onClick={() => navigate('/invoices')}
-                  className="border-red-300 text-red-700 hover:bg-red-100"
-                >
-                  View Overdue Invoices
-                </Button>
-              </CardContent>
-            </Card>
-          )}
-
-          {lowStockItems.length > 0 && (
-            <Card className="border-yellow-200 bg-yellow-50">
-              <CardHeader className="pb-4">
-                <CardTitle className="text-yellow-700 flex items-center">
-                  <Package className="w-5 h-5 mr-2" />
-                  Low Stock Alert ({lowStockItems.length})
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <p className="text-yellow-600 mb-3">You have {lowStockItems.length} item(s) with low or no stock.</p>
-                <Button 
-                  variant="outline" 
-                  size="sm"
-                  onClick={() => navigate('/inventory')}
-                  className="border-yellow-300 text-yellow-700 hover:bg-yellow-100"
-                >
-                  Manage Inventory
-                </Button>
-              </CardContent>
-            </Card>
-          )}
+          <Card className="border-red-200 bg-red-50">
+            <CardHeader className="pb-4">
+              <CardTitle className="text-red-700 flex items-center">
+                <AlertCircle className="w-5 h-5 mr-2" />
+                Overdue Invoices ({overdueInvoices.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-red-600 mb-3">You have {overdueInvoices.length} overdue invoice(s) requiring attention.</p>
+              <Button 
+                variant="outline" 
+                size="sm"
+                onClick={() => navigate('/invoices')}
+                className="border-red-300 text-red-700 hover:bg-red-100"
+              >
+                View Overdue Invoices
+              </Button>
+            </CardContent>
+          </Card>
         </div>
       )}
 
+      <LowStockAlerts />
+
       {/* Recent Activity */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <Card className="steel-card">
@@ -208,10 +188,12 @@ const Dashboard: React.FC = () => {
                       <p className="font-medium text-gray-900">{formatCurrency(invoice.total_amount)}</p>
                       <span className={`inline-block px-2 py-1 text-xs rounded-full ${
                         invoice.status === 'paid' ? 'bg-green-100 text-green-700' :
+                        invoice.status === 'partially_paid' ? 'bg-blue-100 text-blue-700' :
                         invoice.status === 'pending' ? 'bg-yellow-100 text-yellow-700' :
+                        invoice.status === 'void' ? 'bg-gray-100 text-gray-500' :
                         'bg-red-100 text-red-700'
                       }`}>
-                        {invoice.status}
+                        {invoice.status.replace('_', ' ')}
                       </span>
                     </div>
                   </div>
@@ -9,12 +9,18 @@ import {
   Search, 
   Edit, 
   Trash2, 
-  Package
+  Package,
+  ArrowUpDown,
+  History
 } from 'lucide-react';
-import { useInventory, useDeleteInventoryItem } from '@/hooks/useInventory';
+import { useInventory, useInventoryStock, useInventoryUnits, useDeleteInventoryItem } from '@/hooks/useInventory';
 import { useWarehouseLocations } from '@/hooks/useWarehouseLocations';
 import { useToast } from '@/hooks/use-toast';
 import InventoryModal from '@/components/modals/InventoryModal';
+import StockAdjustmentModal from '@/components/modals/StockAdjustmentModal';
+import StockMovementsModal from '@/components/modals/StockMovementsModal';
+import { describeSteelItem, formatWeight, getPieceWeight } from '@/lib/steelWeight';
+import { formatInLargestUnit, formatQuantity } from '@/lib/units';
 import { Tables } from '@/integrations/supabase/types';
 
 type InventoryItem = Tables<'inventory'>;
@@ -23,8 +29,12 @@ const Inventory = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedItem, setSelectedItem] = useState<InventoryItem | undefined>();
+  const [adjustingItem, setAdjustingItem] = useState<InventoryItem | undefined>();
+  const [historyItem, setHistoryItem] = useState<InventoryItem | undefined>();
   
   const { data: items = [], isLoading, error } = useInventory();
+  const { data: stock = [] } = useInventoryStock();
+  const { data: units = [] } = useInventoryUnits();
   const { data: warehouseLocations = [] } = useWarehouseLocations();
   const deleteItem = useDeleteInventoryItem();
   const { toast } = useToast();
@@ -80,6 +90,14 @@ const Inventory = () => {
     return location ? location.name : '-';
   };
 
+  const getStockLocations = (item: InventoryItem) => {
+    return stock
+      .filter(row => row.inventory_item_id === item.id && row.quantity > 0)
+      .map(row => ({ id: row.warehouse_location_id, name: getWarehouseLocationName(row.warehouse_location_id), quantity: row.quantity }));
+  };
+
+  const getItemUnits = (item: InventoryItem) => units.filter(unit => unit.inventory_item_id === item.id);
+
   const filteredItems = items.filter(item =>
     item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     (item.description && item.description.toLowerCase().includes(searchTerm.toLowerCase()))
@@ -170,6 +188,7 @@ const Inventory = () => {
                     <th className="text-left py-3 px-4 font-medium text-gray-600">Category</th>
                     <th className="text-left py-3 px-4 font-medium text-gray-600">Warehouse</th>
                     <th className="text-right py-3 px-4 font-medium text-gray-600">Quantity</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">Avg Cost</th>
                     <th className="text-right py-3 px-4 font-medium text-gray-600">Unit Price</th>
                     <th className="text-right py-3 px-4 font-medium text-gray-600">Total Value</th>
                     <th className="text-left py-3 px-4 font-medium text-gray-600">Status</th>
@@ -179,12 +198,41 @@ const Inventory = () => {
                 <tbody>
                   {filteredItems.map((item) => (
                     <tr key={item.id} className="border-b border-gray-100 hover:bg-gray-50">
-                      <td className="py-3 px-4 font-medium text-gray-900">{item.name}</td>
+                      <td className="py-3 px-4">
+                        <div className="font-medium text-gray-900">{item.name}</div>
+                        {describeSteelItem(item) && (
+                          <div className="text-xs text-gray-500">
+                            {describeSteelItem(item)}
+                            {getPieceWeight(item) && ` - ${formatWeight(getPieceWeight(item) || 0)} each`}
+                          </div>
+                        )}
+                      </td>
                       <td className="py-3 px-4 text-gray-700">{item.description || '-'}</td>
                       <td className="py-3 px-4 text-gray-700">{item.category || '-'}</td>
-                      <td className="py-3 px-4 text-gray-700">{getWarehouseLocationName(item.warehouse_location_id)}</td>
-                      <td className="py-3 px-4 text-right font-medium text-gray-900">{item.quantity}</td>
-                      <td className="py-3 px-4 text-right font-medium text-gray-900">{formatCurrency(item.unit_price)}</td>
+                      <td className="py-3 px-4 text-gray-700">
+                        {getStockLocations(item).length === 0 ? (
+                          getWarehouseLocationName(item.warehouse_location_id)
+                        ) : (
+                          <div className="space-y-0.5 text-sm">
+                            {getStockLocations(item).map(location => (
+                              <div key={location.id}>{location.name}: {formatQuantity(location.quantity, item.base_unit)}</div>
+                            ))}
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-right font-medium text-gray-900">
+                        {formatQuantity(item.quantity, item.base_unit)}
+                        {formatInLargestUnit(item.quantity, getItemUnits(item)) && (
+                          <div className="text-xs font-normal text-gray-500">
+                            {formatInLargestUnit(item.quantity, getItemUnits(item))}
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-right text-gray-700">{item.cost_price > 0 ? formatCurrency(item.cost_price) : '-'}</td>
+                      <td className="py-3 px-4 text-right font-medium text-gray-900">
+                        {formatCurrency(item.unit_price)}
+                        <div className="text-xs font-normal text-gray-500">per {item.base_unit}</div>
+                      </td>
                       <td className="py-3 px-4 text-right font-medium text-gray-900">
                         {formatCurrency(item.quantity * item.unit_price)}
                       </td>
@@ -203,6 +251,24 @@ const Inventory = () => {
                           >
                             <Edit className="w-4 h-4" />
                           </Button>
+                          <Button 
+                            variant="ghost" 
+                            size="sm" 
+                            onClick={() => setAdjustingItem(item)}
+                            className="text-blue-600 hover:text-blue-700"
+                            title="Adjust stock"
+                          >
+                            <ArrowUpDown className="w-4 h-4" />
+                          </Button>
+                          <Button 
+                            variant="ghost" 
+                            size="sm" 
+                            onClick={() => setHistoryItem(item)}
+                            className="text-gray-600 hover:text-gray-700"
+                            title="Stock history"
+                          >
+                            <History className="w-4 h-4" />
+                          </Button>
                           <Button 
                             variant="ghost" 
                             size="sm" 
@@ -290,6 +356,18 @@ const Inventory = () => {
         onClose={() => setIsModalOpen(false)}
         item={selectedItem}
       />
+
+      <StockAdjustmentModal
+        isOpen={!!adjustingItem}
+        onClose={() => setAdjustingItem(undefined)}
+        item={adjustingItem}
+      />
+
+      <StockMovementsModal
+        isOpen={!!historyItem}
+        onClose={() => setHistoryItem(undefined)}
+        item={historyItem}
+      />
     </div>
   );
 };
@@ -8,14 +8,18 @@ import {
   Search, 
   Edit, 
   Trash2, 
+  Ban,
   Eye, 
-  FileText
+  FileText,
+  Mail
 } from 'lucide-react';
-import { useInvoices, useDeleteInvoice } from '@/hooks/useInvoices';
+import { useInvoices, useDeleteInvoice, useVoidInvoice } from '@/hooks/useInvoices';
+import { useSendInvoiceEmail } from '@/hooks/useInvoiceEvents';
 import { useToast } from '@/hooks/use-toast';
 import InvoiceModal from '@/components/modals/InvoiceModal';
 import InvoiceView from '@/components/InvoiceView';
 import { Tables } from '@/integrations/supabase/types';
+import { getInvoiceBalance } from '@/lib/invoiceTotals';
 
 type Invoice = Tables<'invoices'> & {
   clients?: {
@@ -36,10 +40,12 @@ const InvoiceManager = () => {
 
   const { data: invoices = [], isLoading, error } = useInvoices();
   const deleteInvoice = useDeleteInvoice();
+  const voidInvoice = useVoidInvoice();
+  const sendInvoiceEmail = useSendInvoiceEmail();
   const { toast } = useToast();
 
   const handleDelete = async (invoiceId: string) => {
-    if (confirm('Are you sure you want to delete this invoice?')) {
+    if (confirm('Are you sure you want to delete this invoice? Any stock sold on it will be returned to inventory.')) {
       try {
         await deleteInvoice.mutateAsync(invoiceId);
         toast({
@@ -50,7 +56,54 @@ const InvoiceManager = () => {
         console.error('Delete error:', error);
         toast({
           title: "Error",
-          description: "Failed to delete invoice",
+          description: error instanceof Error ? error.message : "Failed to delete invoice",
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  const handleVoid = async (invoiceId: string) => {
+    if (confirm('Void this invoice? Any stock sold on it will be returned to inventory and the invoice can no longer be edited.')) {
+      try {
+        await voidInvoice.mutateAsync(invoiceId);
+        toast({
+          title: "Success",
+          description: "Invoice voided successfully",
+        });
+      } catch (error) {
+        console.error('Void error:', error);
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to void invoice",
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  const handleSend = async (invoice: Invoice) => {
+    if (!invoice.clients?.email) {
+      toast({
+        title: "Error",
+        description: "This client has no email address",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (confirm(`Email invoice ${invoice.invoice_number} to ${invoice.clients.email}?`)) {
+      try {
+        await sendInvoiceEmail.mutateAsync({ invoice });
+        toast({
+          title: "Success",
+          description: `Invoice sent to ${invoice.clients.email}`,
+        });
+      } catch (error) {
+        console.error('Send error:', error);
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to send invoice",
           variant: "destructive",
         });
       }
@@ -98,9 +151,11 @@ const InvoiceManager = () => {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'paid': return 'bg-green-100 text-green-700 hover:bg-green-200';
+      case 'partially_paid': return 'bg-blue-100 text-blue-700 hover:bg-blue-200';
       case 'pending': return 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200';
       case 'overdue': return 'bg-red-100 text-red-700 hover:bg-red-200';
       case 'draft': return 'bg-gray-100 text-gray-700 hover:bg-gray-200';
+      case 'void': return 'bg-gray-200 text-gray-500 line-through hover:bg-gray-200';
       default: return 'bg-gray-100 text-gray-700 hover:bg-gray-200';
     }
   };
@@ -188,8 +243,10 @@ const InvoiceManager = () => {
                 <option value="all">All Status</option>
                 <option value="draft">Draft</option>
                 <option value="pending">Pending</option>
+                <option value="partially_paid">Partially Paid</option>
                 <option value="paid">Paid</option>
                 <option value="overdue">Overdue</option>
+                <option value="void">Void</option>
               </select>
             </div>
           </div>
@@ -232,6 +289,7 @@ const InvoiceManager = () => {
                     <th className="text-left py-3 px-4 font-medium text-gray-600">Invoice #</th>
                     <th className="text-left py-3 px-4 font-medium text-gray-600">Client</th>
                     <th className="text-left py-3 px-4 font-medium text-gray-600">Amount</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Balance Due</th>
                     <th className="text-left py-3 px-4 font-medium text-gray-600">Issue Date</th>
                     <th className="text-left py-3 px-4 font-medium text-gray-600">Due Date</th>
                     <th className="text-left py-3 px-4 font-medium text-gray-600">Status</th>
@@ -244,11 +302,12 @@ const InvoiceManager = () => {
                       <td className="py-3 px-4 font-medium text-gray-900">{invoice.invoice_number}</td>
                       <td className="py-3 px-4 text-gray-700">{invoice.clients?.company_name || 'Unknown Client'}</td>
                       <td className="py-3 px-4 font-medium text-gray-900">{formatCurrency(invoice.total_amount)}</td>
+                      <td className="py-3 px-4 text-gray-700">{formatCurrency(getInvoiceBalance(invoice))}</td>
                       <td className="py-3 px-4 text-gray-700">{formatDate(invoice.issue_date)}</td>
                       <td className="py-3 px-4 text-gray-700">{formatDate(invoice.due_date)}</td>
                       <td className="py-3 px-4">
                         <Badge className={getStatusColor(invoice.status)}>
-                          {invoice.status}
+                          {invoice.status.replace('_', ' ')}
                         </Badge>
                       </td>
                       <td className="py-3 px-4">
@@ -261,14 +320,37 @@ const InvoiceManager = () => {
                           >
                             <Eye className="w-4 h-4" />
                           </Button>
-                          <Button 
-                            variant="ghost" 
-                            size="sm" 
-                            onClick={() => handleEditInvoice(invoice)}
-                            className="text-gray-600 hover:text-gray-700"
-                          >
-                            <Edit className="w-4 h-4" />
-                          </Button>
+                          {invoice.status !== 'void' && (
+                            <>
+                              <Button 
+                                variant="ghost" 
+                                size="sm" 
+                                onClick={() => handleEditInvoice(invoice)}
+                                className="text-gray-600 hover:text-gray-700"
+                              >
+                                <Edit className="w-4 h-4" />
+                              </Button>
+                              <Button 
+                                variant="ghost" 
+                                size="sm" 
+                                onClick={() => handleSend(invoice)}
+                                disabled={sendInvoiceEmail.isPending}
+                                className="text-gray-600 hover:text-gray-700"
+                                title="Email to client"
+                              >
+                                <Mail className="w-4 h-4" />
+                              </Button>
+                              <Button 
+                                variant="ghost" 
+                                size="sm" 
+                                onClick={() => handleVoid(invoice.id)}
+                                className="text-gray-600 hover:text-gray-700"
+                                title="Void invoice"
+                              >
+                                <Ban className="w-4 h-4" />
+                              </Button>
+                            </>
+                          )}
                           <Button 
                             variant="ghost" 
                             size="sm" 
@@ -1,12 +1,23 @@
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, Edit, Download, Printer } from 'lucide-react';
+import { ArrowLeft, Edit, Download, Printer, Plus, Trash2, Wallet, Mail, History, FileMinus } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
-import { useAuth } from '@/contexts/AuthContext';
+import { useCompanyInfo } from '@/hooks/useCompanyInfo';
 import { Tables } from '@/integrations/supabase/types';
+import { usePayments, useDeletePayment } from '@/hooks/usePayments';
+import { useInvoiceEvents, useSendInvoiceEmail } from '@/hooks/useInvoiceEvents';
+import { useCreditNotes, useDeleteCreditNote } from '@/hooks/useCreditNotes';
+import { useToast } from '@/hooks/use-toast';
+import PaymentModal from '@/components/modals/PaymentModal';
+import CreditNoteModal from '@/components/modals/CreditNoteModal';
+import CreditNoteView from '@/components/CreditNoteView';
+import { formatDiscount, getInvoiceBalance } from '@/lib/invoiceTotals';
+import { downloadInvoicePdf } from '@/lib/invoicePdf';
+import { formatWeight, getLineWeight, getPricingUnitShort } from '@/lib/steelWeight';
+import { formatSoldQuantity } from '@/lib/units';
 
 type Invoice = Tables<'invoices'> & {
   clients?: {
@@ -25,7 +36,16 @@ interface InvoiceViewProps {
 }
 
 const InvoiceView: React.FC<InvoiceViewProps> = ({ invoice, onBack, onEdit }) => {
-  const { user } = useAuth();
+  const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
+  const [isCreditNoteModalOpen, setIsCreditNoteModalOpen] = useState(false);
+  const [viewingCreditNoteId, setViewingCreditNoteId] = useState<string | null>(null);
+  const { data: payments = [] } = usePayments(invoice.id);
+  const deletePayment = useDeletePayment();
+  const { data: creditNotes = [] } = useCreditNotes(invoice.id);
+  const deleteCreditNote = useDeleteCreditNote();
+  const { data: events = [] } = useInvoiceEvents(invoice.id);
+  const sendInvoiceEmail = useSendInvoiceEmail();
+  const { toast } = useToast();
 
   // Add print styles when component mounts
   useEffect(() => {
@@ -72,23 +92,8 @@ const InvoiceView: React.FC<InvoiceViewProps> = ({ invoice, onBack, onEdit }) =>
     };
   }, []);
 
-  // Fetch company info
-  const { data: companyInfo } = useQuery({
-    queryKey: ['company-info', user?.id],
-    queryFn: async () => {
-      if (!user) throw new Error('User not authenticated');
-      
-      const { data, error } = await supabase
-        .from('company_info')
-        .select('*')
-        .eq('user_id', user.id)
-        .single();
-      
-      if (error) throw error;
-      return data;
-    },
-    enabled: !!user,
-  });
+  // Company details for the header and bank details, shared with the PDF
+  const { data: companyInfo } = useCompanyInfo();
 
   // Fetch invoice items
   const { data: invoiceItems = [] } = useQuery({
@@ -120,54 +125,120 @@ const InvoiceView: React.FC<InvoiceViewProps> = ({ invoice, onBack, onEdit }) =>
     });
   };
 
+  // Derive from the payments and credit notes queries so the view stays current
+  // after recording a payment or issuing a credit note
+  const amountPaid = payments.reduce((sum, payment) => sum + payment.amount, 0);
+  const amountCredited = creditNotes.reduce((sum, creditNote) => sum + creditNote.total_amount, 0);
+  const isVoid = invoice.status === 'void';
+  const balanceDue = getInvoiceBalance({ ...invoice, amount_paid: amountPaid, amount_credited: amountCredited });
+  // Steel lines carry the weight of a piece, so the invoice shows what was
+  // delivered by weight as well as by count
+  const hasWeights = invoiceItems.some(item => item.unit_weight_kg);
+  const totalWeight = invoiceItems.reduce((sum, item) => sum + (getLineWeight(item) || 0), 0);
+  const canCredit = !isVoid && invoice.status !== 'draft' && invoiceItems.length > 0 && amountCredited < invoice.total_amount;
+
+  const handleDeletePayment = async (paymentId: string) => {
+    if (confirm('Are you sure you want to delete this payment?')) {
+      try {
+        await deletePayment.mutateAsync(paymentId);
+        toast({
+          title: "Success",
+          description: "Payment deleted successfully",
+        });
+      } catch (error) {
+        console.error('Delete payment error:', error);
+        toast({
+          title: "Error",
+          description: "Failed to delete payment",
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  const handleDeleteCreditNote = async (creditNoteId: string) => {
+    if (confirm('Are you sure you want to delete this credit note? Any restocked quantities will be taken back out of inventory.')) {
+      try {
+        await deleteCreditNote.mutateAsync(creditNoteId);
+        toast({
+          title: "Success",
+          description: "Credit note deleted successfully",
+        });
+      } catch (error) {
+        console.error('Delete credit note error:', error);
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to delete credit note",
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
   const handlePrint = () => {
     window.print();
   };
 
   const handleDownload = () => {
-    // For now, we'll just trigger print dialog
-    // In a real app, you might want to generate a PDF
-    handlePrint();
+    downloadInvoicePdf({ invoice, items: invoiceItems, companyInfo, amountPaid, amountCredited });
   };
 
-  // Dynamic sizing based on number of items
-  const itemCount = Math.max(invoiceItems.length, 1);
-  
-  // Calculate scaling factor based on content density
-  const getScaleFactor = () => {
-    if (itemCount <= 3) return 1; // Full size for few items
-    if (itemCount <= 6) return 0.9; // Slightly smaller
-    if (itemCount <= 10) return 0.8; // Medium size
-    if (itemCount <= 15) return 0.7; // Smaller
-    return 0.6; // Smallest for many items
-  };
-
-  const scaleFactor = getScaleFactor();
+  const handleSend = async () => {
+    if (!invoice.clients?.email) {
+      toast({
+        title: "Error",
+        description: "This client has no email address",
+        variant: "destructive",
+      });
+      return;
+    }
 
-  // Dynamic class generation based on scale factor
-  const getDynamicClass = (baseClass: string, printClass: string) => {
-    const sizeMap = {
-      1: baseClass,
-      0.9: baseClass.replace('text-', 'text-').replace('xl', 'lg').replace('lg', 'base').replace('base', 'sm'),
-      0.8: baseClass.replace('text-', 'text-').replace('xl', 'base').replace('lg', 'sm').replace('base', 'xs'),
-      0.7: baseClass.replace('text-', 'text-').replace('xl', 'sm').replace('lg', 'xs').replace('base', 'xs'),
-      0.6: 'text-xs'
-    };
-    return `${sizeMap[scaleFactor] || 'text-xs'} ${printClass}`;
+    if (confirm(`Email invoice ${invoice.invoice_number} to ${invoice.clients.email}?`)) {
+      try {
+        await sendInvoiceEmail.mutateAsync({ invoice: { ...invoice, amount_paid: amountPaid, amount_credited: amountCredited } });
+        toast({
+          title: "Success",
+          description: `Invoice sent to ${invoice.clients.email}`,
+        });
+      } catch (error) {
+        console.error('Send invoice error:', error);
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to send invoice",
+          variant: "destructive",
+        });
+      }
+    }
   };
 
-  const getPadding = () => {
-    if (scaleFactor >= 1) return 'p-6';
-    if (scaleFactor >= 0.8) return 'p-4';
-    return 'p-3';
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    });
   };
 
-  const getSpacing = () => {
-    if (scaleFactor >= 1) return 'space-y-6';
-    if (scaleFactor >= 0.8) return 'space-y-4';
-    return 'space-y-3';
+  const eventLabels: Record<string, string> = {
+    sent: 'Invoice emailed',
+    reminder_sent: 'Reminder emailed',
+    send_failed: 'Email failed',
+    voided: 'Invoice voided',
   };
 
+  const viewingCreditNote = creditNotes.find(creditNote => creditNote.id === viewingCreditNoteId);
+  if (viewingCreditNote) {
+    return (
+      <CreditNoteView
+        creditNote={viewingCreditNote}
+        invoice={invoice}
+        onBack={() => setViewingCreditNoteId(null)}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 p-6 space-y-6 animate-fade-in">
       {/* Header Actions */}
@@ -186,37 +257,59 @@ const InvoiceView: React.FC<InvoiceViewProps> = ({ invoice, onBack, onEdit }) =>
             <Download className="w-4 h-4" />
             Download
           </Button>
-          <Button onClick={onEdit} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white">
-            <Edit className="w-4 h-4" />
-            Edit Invoice
-          </Button>
+          {!isVoid && (
+            <Button
+              variant="outline"
+              onClick={handleSend}
+              disabled={sendInvoiceEmail.isPending}
+              className="flex items-center gap-2 border-blue-200 text-blue-700 hover:bg-blue-50"
+            >
+              <Mail className="w-4 h-4" />
+              {sendInvoiceEmail.isPending ? 'Sending...' : 'Send'}
+            </Button>
+          )}
+          {!isVoid && (
+            <Button onClick={onEdit} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white">
+              <Edit className="w-4 h-4" />
+              Edit Invoice
+            </Button>
+          )}
         </div>
       </div>
 
       {/* Invoice Content */}
       <div className="invoice-print-content">
-        <div className="max-w-4xl mx-auto bg-white shadow-lg">
+        <div className="relative max-w-4xl mx-auto bg-white shadow-lg">
+          {/* Void watermark - kept on screen and in print so cancelled copies can't be mistaken for live ones */}
+          {isVoid && (
+            <div className="absolute inset-0 z-10 flex items-center justify-center pointer-events-none overflow-hidden">
+              <span className="text-[10rem] font-extrabold tracking-widest text-red-600/20 -rotate-45 select-none">
+                VOID
+              </span>
+            </div>
+          )}
           {/* Header with Blue Gradient */}
-          <div className={`invoice-header-bg bg-gradient-to-r from-blue-600 to-blue-500 text-white ${getPadding()}`}>
+          <div className="invoice-header-bg bg-gradient-to-r from-blue-600 to-blue-500 text-white p-6">
             <div className="grid grid-cols-2 gap-4">
               <div>
-                <h1 className={getDynamicClass('text-2xl', 'font-bold mb-1')}>
+                <h1 className="text-2xl font-bold mb-1">
                   {companyInfo?.company_name || 'Your Company'}
                 </h1>
-                <p className={getDynamicClass('text-sm', 'text-blue-100 mb-2')}>
+                <p className="text-sm text-blue-100 mb-2">
                   {companyInfo?.tagline ? companyInfo.tagline.replace(' Solutions', '') : 'Professional Services'}
                 </p>
-                <div className={`text-blue-100 ${getSpacing().replace('space-y-', 'space-y-')} ${getDynamicClass('text-xs', '')}`}>
+                <div className="text-blue-100 space-y-6 text-xs">
                   {companyInfo?.address && <p>{companyInfo.address}</p>}
                   {companyInfo?.phone && <p>Phone: {companyInfo.phone}</p>}
                   {companyInfo?.email && <p>Email: {companyInfo.email}</p>}
                   {companyInfo?.website && <p>Website: {companyInfo.website}</p>}
+                  {companyInfo?.tax_id && <p>TIN: {companyInfo.tax_id}</p>}
                 </div>
               </div>
               
               <div className="text-right">
-                <h2 className={getDynamicClass('text-xl', 'font-bold mb-2')}>INVOICE</h2>
-                <div className={`bg-white/10 backdrop-blur-sm rounded-lg p-2 space-y-1 ${getDynamicClass('text-xs', '')}`}>
+                <h2 className="text-xl font-bold mb-2">INVOICE</h2>
+                <div className="bg-white/10 backdrop-blur-sm rounded-lg p-2 space-y-1 text-xs">
                   <p><span className="font-medium">Invoice #:</span> {invoice.invoice_number}</p>
                   <p><span className="font-medium">Issue Date:</span> {formatDate(invoice.issue_date)}</p>
                   <p><span className="font-medium">Due Date:</span> {formatDate(invoice.due_date)}</p>
@@ -225,15 +318,15 @@ const InvoiceView: React.FC<InvoiceViewProps> = ({ invoice, onBack, onEdit }) =>
             </div>
           </div>
 
-          <div className={getPadding()}>
+          <div className="p-6">
             {/* Bill To Section */}
-            <div className={`mb-${scaleFactor >= 1 ? '6' : scaleFactor >= 0.8 ? '4' : '3'}`}>
+            <div className="mb-6">
               <div className="invoice-blue-accent bg-blue-600 text-white px-3 py-1 rounded-t-lg">
-                <h3 className={getDynamicClass('text-sm', 'font-semibold')}>Bill To:</h3>
+                <h3 className="text-sm font-semibold">Bill To:</h3>
               </div>
               <div className="border border-blue-200 border-t-0 rounded-b-lg p-3 bg-blue-50/30">
-                <div className={`text-gray-700 ${getSpacing().replace('space-y-', 'space-y-')} ${getDynamicClass('text-sm', '')}`}>
-                  <p className={`font-medium invoice-blue-text text-blue-800 ${getDynamicClass('text-sm', '')}`}>{invoice.clients?.company_name || 'Client Name'}</p>
+                <div className="text-gray-700 space-y-6 text-sm">
+                  <p className="font-medium invoice-blue-text text-blue-800 text-sm">{invoice.clients?.company_name || 'Client Name'}</p>
                   {invoice.clients?.address && <p>{invoice.clients.address}</p>}
                   {invoice.clients?.email && <p>{invoice.clients.email}</p>}
                   {invoice.clients?.contact_name && <p>Contact: {invoice.clients.contact_name}</p>}
@@ -242,32 +335,47 @@ const InvoiceView: React.FC<InvoiceViewProps> = ({ invoice, onBack, onEdit }) =>
             </div>
 
             {/* Invoice Items Table */}
-            <div className={`mb-${scaleFactor >= 1 ? '6' : scaleFactor >= 0.8 ? '4' : '3'} overflow-hidden rounded-lg border border-blue-200`}>
+            <div className="mb-6 overflow-hidden rounded-lg border border-blue-200">
               <table className="w-full">
                 <thead>
                   <tr className="invoice-blue-accent bg-blue-600 text-white">
-                    <th className={`text-left py-2 px-3 font-semibold ${getDynamicClass('text-sm', '')}`}>Description</th>
-                    <th className={`text-right py-2 px-3 font-semibold ${getDynamicClass('text-sm', '')}`}>Qty</th>
-                    <th className={`text-right py-2 px-3 font-semibold ${getDynamicClass('text-sm', '')}`}>Unit Price</th>
-                    <th className={`text-right py-2 px-3 font-semibold ${getDynamicClass('text-sm', '')}`}>Total</th>
+                    <th className="text-left py-2 px-3 font-semibold text-sm">Description</th>
+                    <th className="text-right py-2 px-3 font-semibold text-sm">Qty</th>
+                    {hasWeights && <th className="text-right py-2 px-3 font-semibold text-sm">Weight</th>}
+                    <th className="text-right py-2 px-3 font-semibold text-sm">Unit Price</th>
+                    <th className="text-right py-2 px-3 font-semibold text-sm">Discount</th>
+                    <th className="text-right py-2 px-3 font-semibold text-sm">VAT</th>
+                    <th className="text-right py-2 px-3 font-semibold text-sm">Total</th>
                   </tr>
                 </thead>
                 <tbody>
                   {invoiceItems.length > 0 ? (
                     invoiceItems.map((item, index) => (
                       <tr key={index} className={`${index % 2 === 0 ? 'bg-blue-50/30' : 'bg-white'} border-b border-blue-100`}>
-                        <td className={`py-2 px-3 text-gray-800 ${getDynamicClass('text-sm', '')}`}>{item.description}</td>
-                        <td className={`py-2 px-3 text-right text-gray-800 ${getDynamicClass('text-sm', '')}`}>{item.quantity}</td>
-                        <td className={`py-2 px-3 text-right text-gray-800 ${getDynamicClass('text-sm', '')}`}>{formatCurrency(item.unit_price)}</td>
-                        <td className={`py-2 px-3 text-right text-gray-800 font-medium ${getDynamicClass('text-sm', '')}`}>{formatCurrency(item.line_total)}</td>
+                        <td className="py-2 px-3 text-gray-800 text-sm">{item.description}</td>
+                        <td className="py-2 px-3 text-right text-gray-800 text-sm">{formatSoldQuantity(item)}</td>
+                        {hasWeights && (
+                          <td className="py-2 px-3 text-right text-gray-800 text-sm">
+                            {item.unit_weight_kg ? formatWeight(getLineWeight(item) || 0) : '-'}
+                          </td>
+                        )}
+                        <td className="py-2 px-3 text-right text-gray-800 text-sm">
+                          {formatCurrency(item.unit_price)}
+                          {item.pricing_unit !== 'piece' ? `/${getPricingUnitShort(item.pricing_unit)}` : item.unit_name && `/${item.unit_name}`}
+                        </td>
+                        <td className="py-2 px-3 text-right text-gray-800 text-sm">{item.discount_amount > 0 ? formatDiscount(item.discount_type, item.discount_value) : '-'}</td>
+                        <td className="py-2 px-3 text-right text-gray-800 text-sm">{item.tax_rate > 0 ? `${item.tax_rate}%` : '-'}</td>
+                        <td className="py-2 px-3 text-right text-gray-800 font-medium text-sm">{formatCurrency(item.line_total)}</td>
                       </tr>
                     ))
                   ) : (
                     <tr className="bg-blue-50/30 border-b border-blue-100">
-                      <td className={`py-2 px-3 text-gray-800 ${getDynamicClass('text-sm', '')}`}>Professional Services</td>
-                      <td className={`py-2 px-3 text-right text-gray-800 ${getDynamicClass('text-sm', '')}`}>1</td>
-                      <td className={`py-2 px-3 text-right text-gray-800 ${getDynamicClass('text-sm', '')}`}>{formatCurrency(invoice.subtotal)}</td>
-                      <td className={`py-2 px-3 text-right text-gray-800 font-medium ${getDynamicClass('text-sm', '')}`}>{formatCurrency(invoice.subtotal)}</td>
+                      <td className="py-2 px-3 text-gray-800 text-sm">Professional Services</td>
+                      <td className="py-2 px-3 text-right text-gray-800 text-sm">1</td>
+                      <td className="py-2 px-3 text-right text-gray-800 text-sm">{formatCurrency(invoice.subtotal)}</td>
+                      <td className="py-2 px-3 text-right text-gray-800 text-sm">-</td>
+                      <td className="py-2 px-3 text-right text-gray-800 text-sm">-</td>
+                      <td className="py-2 px-3 text-right text-gray-800 font-medium text-sm">{formatCurrency(invoice.subtotal)}</td>
                     </tr>
                   )}
                 </tbody>
@@ -275,34 +383,81 @@ const InvoiceView: React.FC<InvoiceViewProps> = ({ invoice, onBack, onEdit }) =>
             </div>
 
             {/* Totals Section */}
-            <div className={`flex justify-end mb-${scaleFactor >= 1 ? '6' : scaleFactor >= 0.8 ? '4' : '3'}`}>
-              <div className="w-48">
-                <div className={`font-bold invoice-blue-text text-blue-800 text-right ${getDynamicClass('text-lg', '')}`}>
-                  <span>Total: {formatCurrency(invoice.total_amount)}</span>
+            <div className="flex justify-end mb-6">
+              <div className="w-64 space-y-1">
+                {hasWeights && (
+                  <div className="flex justify-between text-gray-700 text-sm">
+                    <span>Total Weight:</span>
+                    <span>{formatWeight(totalWeight)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between text-gray-700 text-sm">
+                  <span>Subtotal:</span>
+                  <span>{formatCurrency(invoice.subtotal)}</span>
+                </div>
+                {invoice.discount_amount > 0 && (
+                  <div className="flex justify-between text-gray-700 text-sm">
+                    <span>Discount ({formatDiscount(invoice.discount_type, invoice.discount_value)}):</span>
+                    <span>-{formatCurrency(invoice.discount_amount)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between text-gray-700 text-sm">
+                  <span>VAT:</span>
+                  <span>{formatCurrency(invoice.tax_amount)}</span>
                 </div>
+                {invoice.wht_amount > 0 && (
+                  <div className="flex justify-between text-gray-700 text-sm">
+                    <span>Less WHT ({invoice.wht_rate}%):</span>
+                    <span>-{formatCurrency(invoice.wht_amount)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-bold invoice-blue-text text-blue-800 border-t border-blue-200 pt-1 text-lg">
+                  <span>Total:</span>
+                  <span>{formatCurrency(invoice.total_amount)}</span>
+                </div>
+                {amountPaid > 0 && (
+                  <div className="flex justify-between text-gray-700 text-sm">
+                    <span>Amount Paid:</span>
+                    <span>{formatCurrency(amountPaid)}</span>
+                  </div>
+                )}
+                {amountCredited > 0 && (
+                  <div className="flex justify-between text-gray-700 text-sm">
+                    <span>Credited:</span>
+                    <span>-{formatCurrency(amountCredited)}</span>
+                  </div>
+                )}
+                {(amountPaid > 0 || amountCredited > 0) && (
+                  <>
+                    <div className="flex justify-between font-semibold invoice-blue-text text-blue-800 border-t border-blue-200 pt-1 text-sm">
+                      <span>Balance Due:</span>
+                      <span>{formatCurrency(balanceDue)}</span>
+                    </div>
+                  </>
+                )}
               </div>
             </div>
 
             {/* Notes Section */}
             {invoice.notes && (
-              <div className={`mb-${scaleFactor >= 1 ? '6' : scaleFactor >= 0.8 ? '4' : '3'}`}>
+              <div className="mb-6">
                 <div className="invoice-blue-accent bg-blue-600 text-white px-3 py-1 rounded-t-lg">
-                  <h3 className={getDynamicClass('text-sm', 'font-semibold')}>Notes:</h3>
+                  <h3 className="text-sm font-semibold">Notes:</h3>
                 </div>
                 <div className="border border-blue-200 border-t-0 rounded-b-lg p-3 bg-blue-50/30">
-                  <p className={`text-gray-700 whitespace-pre-wrap ${getDynamicClass('text-sm', '')}`}>{invoice.notes}</p>
+                  <p className="text-gray-700 whitespace-pre-wrap text-sm">{invoice.notes}</p>
                 </div>
               </div>
             )}
 
             {/* Payment Information */}
             {companyInfo?.bank_name && (
-              <div className={`mb-${scaleFactor >= 1 ? '6' : scaleFactor >= 0.8 ? '4' : '3'}`}>
+              <div className="mb-6">
                 <div className="invoice-blue-accent bg-blue-600 text-white px-3 py-1 rounded-t-lg">
-                  <h3 className={getDynamicClass('text-sm', 'font-semibold')}>Payment Information:</h3>
+                  <h3 className="text-sm font-semibold">Payment Information:</h3>
                 </div>
                 <div className="border border-blue-200 border-t-0 rounded-b-lg p-3 bg-blue-50/30">
-                  <div className={`grid grid-cols-2 gap-3 text-gray-700 ${getDynamicClass('text-sm', '')}`}>
+                  <div className="grid grid-cols-2 gap-3 text-gray-700 text-sm">
                     <div>
                       <p><span className="font-medium invoice-blue-text text-blue-700">Bank:</span> {companyInfo.bank_name}</p>
                       <p><span className="font-medium invoice-blue-text text-blue-700">Account Name:</span> {companyInfo.account_name}</p>
@@ -317,7 +472,7 @@ const InvoiceView: React.FC<InvoiceViewProps> = ({ invoice, onBack, onEdit }) =>
             )}
 
             {/* Footer */}
-            <div className={`text-center text-gray-500 border-t border-blue-200 pt-2 ${getDynamicClass('text-sm', '')}`}>
+            <div className="text-center text-gray-500 border-t border-blue-200 pt-2 text-sm">
               <p className="font-medium invoice-blue-text text-blue-700">Thank you for your business!</p>
               <p className="mt-1">
                 {companyInfo?.company_name || 'Your Company'} - Professional Invoice Management
@@ -326,6 +481,200 @@ const InvoiceView: React.FC<InvoiceViewProps> = ({ invoice, onBack, onEdit }) =>
           </div>
         </div>
       </div>
+
+      {/* Payments */}
+      <Card className="max-w-4xl mx-auto print:hidden">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center text-lg font-semibold text-gray-900">
+            <Wallet className="w-5 h-5 mr-2" />
+            Payments
+          </CardTitle>
+          <Button
+            onClick={() => setIsPaymentModalOpen(true)}
+            disabled={isVoid || balanceDue <= 0}
+            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            <Plus className="w-4 h-4" />
+            Record Payment
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Invoice Total</p>
+              <p className="text-xl font-bold text-gray-900">{formatCurrency(invoice.total_amount)}</p>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-600">Amount Paid</p>
+              <p className="text-xl font-bold text-green-600">{formatCurrency(amountPaid)}</p>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-600">Balance Due</p>
+              <p className={`text-xl font-bold ${balanceDue > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {formatCurrency(balanceDue)}
+              </p>
+            </div>
+          </div>
+
+          {payments.length === 0 ? (
+            <p className="text-gray-500 text-sm">No payments recorded yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-2 px-3 font-medium text-gray-600">Date</th>
+                    <th className="text-left py-2 px-3 font-medium text-gray-600">Method</th>
+                    <th className="text-left py-2 px-3 font-medium text-gray-600">Reference</th>
+                    <th className="text-right py-2 px-3 font-medium text-gray-600">Amount</th>
+                    <th className="py-2 px-3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {payments.map((payment) => (
+                    <tr key={payment.id} className="border-b border-gray-100">
+                      <td className="py-2 px-3 text-gray-700">{formatDate(payment.payment_date)}</td>
+                      <td className="py-2 px-3 text-gray-700 capitalize">{payment.method.replace('_', ' ')}</td>
+                      <td className="py-2 px-3 text-gray-700">{payment.reference || '-'}</td>
+                      <td className="py-2 px-3 text-right font-medium text-gray-900">{formatCurrency(payment.amount)}</td>
+                      <td className="py-2 px-3 text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDeletePayment(payment.id)}
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Credit notes */}
+      <Card className="max-w-4xl mx-auto print:hidden">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center text-lg font-semibold text-gray-900">
+            <FileMinus className="w-5 h-5 mr-2" />
+            Credit Notes
+          </CardTitle>
+          <Button
+            variant="outline"
+            onClick={() => setIsCreditNoteModalOpen(true)}
+            disabled={!canCredit}
+            className="flex items-center gap-2 border-blue-200 text-blue-700 hover:bg-blue-50"
+          >
+            <Plus className="w-4 h-4" />
+            Credit Note
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {creditNotes.length === 0 ? (
+            <p className="text-gray-500 text-sm">No credit notes issued against this invoice.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-2 px-3 font-medium text-gray-600">Credit Note #</th>
+                    <th className="text-left py-2 px-3 font-medium text-gray-600">Date</th>
+                    <th className="text-left py-2 px-3 font-medium text-gray-600">Reason</th>
+                    <th className="text-left py-2 px-3 font-medium text-gray-600">Restocked</th>
+                    <th className="text-right py-2 px-3 font-medium text-gray-600">Amount</th>
+                    <th className="py-2 px-3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {creditNotes.map((creditNote) => (
+                    <tr key={creditNote.id} className="border-b border-gray-100">
+                      <td className="py-2 px-3">
+                        <button
+                          type="button"
+                          onClick={() => setViewingCreditNoteId(creditNote.id)}
+                          className="font-medium text-blue-700 hover:underline"
+                        >
+                          {creditNote.credit_note_number}
+                        </button>
+                      </td>
+                      <td className="py-2 px-3 text-gray-700">{formatDate(creditNote.issue_date)}</td>
+                      <td className="py-2 px-3 text-gray-700">{creditNote.reason || '-'}</td>
+                      <td className="py-2 px-3 text-gray-700">{creditNote.restock ? 'Yes' : 'No'}</td>
+                      <td className="py-2 px-3 text-right font-medium text-gray-900">{formatCurrency(creditNote.total_amount)}</td>
+                      <td className="py-2 px-3 text-right">
+                        {!isVoid && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDeleteCreditNote(creditNote.id)}
+                            className="text-red-600 hover:text-red-700"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Email activity */}
+      <Card className="max-w-4xl mx-auto print:hidden">
+        <CardHeader>
+          <CardTitle className="flex items-center text-lg font-semibold text-gray-900">
+            <History className="w-5 h-5 mr-2" />
+            Activity
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {events.length === 0 ? (
+            <p className="text-gray-500 text-sm">This invoice has not been emailed or voided yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {events.map((event) => {
+                const details = (event.details || {}) as { subject?: string; error?: string };
+                return (
+                  <li key={event.id} className="py-2 flex justify-between gap-4">
+                    <div>
+                      <p className={`font-medium ${event.event_type === 'send_failed' ? 'text-red-600' : 'text-gray-900'}`}>
+                        {eventLabels[event.event_type] || event.event_type}
+                        {event.recipient && <span className="font-normal text-gray-600"> to {event.recipient}</span>}
+                      </p>
+                      {details.error && <p className="text-sm text-red-600">{details.error}</p>}
+                      {!details.error && details.subject && <p className="text-sm text-gray-500">{details.subject}</p>}
+                    </div>
+                    <span className="text-sm text-gray-500 whitespace-nowrap">{formatDateTime(event.created_at)}</span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <PaymentModal
+        isOpen={isPaymentModalOpen}
+        onClose={() => setIsPaymentModalOpen(false)}
+        invoiceId={invoice.id}
+        invoiceNumber={invoice.invoice_number}
+        balanceDue={balanceDue}
+      />
+
+      <CreditNoteModal
+        isOpen={isCreditNoteModalOpen}
+        onClose={() => setIsCreditNoteModalOpen(false)}
+        invoice={invoice}
+        items={invoiceItems}
+        creditNotes={creditNotes}
+      />
     </div>
   );
 };
@@ -0,0 +1,623 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Plus, Trash2, Search } from 'lucide-react';
+import { useInventory, useInventoryUnits } from '@/hooks/useInventory';
+import { useWarehouseLocations } from '@/hooks/useWarehouseLocations';
+import { useToast } from '@/hooks/use-toast';
+import {
+  calculateLineAmounts,
+  createEmptyLineItem,
+  DiscountType,
+  EditableLineItem,
+  InvoiceAdjustments,
+  InvoiceTotals,
+  roundMoney
+} from '@/lib/invoiceTotals';
+import {
+  formatWeight,
+  getLineWeight,
+  getPieceWeight,
+  getPricedQuantity,
+  getPricingUnitShort,
+  PRICING_UNITS,
+  PricingUnit
+} from '@/lib/steelWeight';
+import { formatQuantity, fromBaseQuantity, getItemUnits, toBaseQuantity } from '@/lib/units';
+
+interface LineItemsEditorProps {
+  label: string;
+  items: EditableLineItem[];
+  setItems: React.Dispatch<React.SetStateAction<EditableLineItem[]>>;
+  adjustments: InvoiceAdjustments;
+  onAdjustmentsChange: (changes: Partial<InvoiceAdjustments>) => void;
+  totals: InvoiceTotals;
+  defaultTaxRate: number;
+  defaultWhtRate: number;
+  // When given, quantities are held to what is available and each line picks
+  // the location it ships from; quotes leave it out because nothing is taken
+  // from stock until they become an invoice
+  getAvailableQuantity?: (inventoryId: string, warehouseLocationId?: string) => number;
+  // Invoices can charge steel by weight or length; quotes and templates are
+  // priced per piece
+  allowWeightPricing?: boolean;
+  // Invoices can sell in any of an item's units; stock is always taken in the
+  // base unit
+  allowSellingUnits?: boolean;
+}
+
+const LineItemsEditor: React.FC<LineItemsEditorProps> = ({
+  label,
+  items,
+  setItems,
+  adjustments,
+  onAdjustmentsChange,
+  totals,
+  defaultTaxRate,
+  defaultWhtRate,
+  getAvailableQuantity,
+  allowWeightPricing = false,
+  allowSellingUnits = false
+}) => {
+  const [inventorySearches, setInventorySearches] = useState<Record<string, string>>({});
+
+  const { data: inventory = [] } = useInventory();
+  const { data: warehouseLocations = [] } = useWarehouseLocations();
+  const { data: inventoryUnits = [] } = useInventoryUnits();
+  const { toast } = useToast();
+
+  const getBaseUnit = (inventoryId: string) => inventory.find(inv => inv.id === inventoryId)?.base_unit;
+
+  const getUnits = (inventoryId: string) => {
+    return getItemUnits(getBaseUnit(inventoryId), inventoryUnits.filter(unit => unit.inventory_item_id === inventoryId));
+  };
+
+  const formatStock = (inventoryId: string, quantity: number) => formatQuantity(quantity, getBaseUnit(inventoryId));
+
+  const checksStock = !!getAvailableQuantity;
+  const getQuantity = (inventoryId: string, warehouseLocationId?: string) => {
+    if (getAvailableQuantity) return getAvailableQuantity(inventoryId, warehouseLocationId);
+    return inventory.find(inv => inv.id === inventoryId)?.quantity || 0;
+  };
+
+  const getLineQuantity = (item: EditableLineItem) => getQuantity(item.inventory_id, item.warehouse_location_id);
+
+  const getShippingLocations = (item: EditableLineItem) => {
+    return warehouseLocations.filter(location =>
+      location.id === item.warehouse_location_id || getQuantity(item.inventory_id, location.id) > 0
+    );
+  };
+
+  // Ship from the item's default location while it has stock, otherwise from
+  // wherever holds the most
+  const getDefaultShippingLocation = (inventoryItemId: string) => {
+    const defaultLocationId = inventory.find(inv => inv.id === inventoryItemId)?.warehouse_location_id;
+    if (defaultLocationId && getQuantity(inventoryItemId, defaultLocationId) > 0) return defaultLocationId;
+
+    const best = warehouseLocations
+      .map(location => ({ id: location.id, quantity: getQuantity(inventoryItemId, location.id) }))
+      .filter(location => location.quantity > 0)
+      .sort((a, b) => b.quantity - a.quantity)[0];
+    return best?.id || defaultLocationId || undefined;
+  };
+
+  // Filter inventory based on search and, for invoices, availability
+  const getFilteredInventory = (searchTerm: string) => {
+    return inventory.filter(item =>
+      (!checksStock || getQuantity(item.id) > 0) && (
+        item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        (item.description && item.description.toLowerCase().includes(searchTerm.toLowerCase())) ||
+        (item.category && item.category.toLowerCase().includes(searchTerm.toLowerCase()))
+      )
+    );
+  };
+
+  const handleItemChange = (id: string, field: keyof EditableLineItem, value: string | number) => {
+    setItems(items.map(item => {
+      if (item.id === id) {
+        const updatedItem = { ...item, [field]: value };
+
+        if (field === 'quantity') {
+          const newQuantity = Number(value);
+
+          // Check if quantity exceeds available inventory
+          const inventoryItem = inventory.find(inv => inv.id === updatedItem.inventory_id);
+          const available = checksStock && updatedItem.inventory_id ? getLineQuantity(updatedItem) : Infinity;
+          if (inventoryItem && newQuantity > available) {
+            toast({
+              title: "Insufficient Inventory",
+              description: `Only ${formatStock(inventoryItem.id, available)} available for ${inventoryItem.name} at this location`,
+              variant: "destructive",
+            });
+            // Set quantity to maximum available
+            updatedItem.quantity = available;
+          } else {
+            updatedItem.quantity = newQuantity;
+          }
+        }
+
+        if (field === 'unit_price' || field === 'tax_rate' || field === 'discount_value') {
+          updatedItem[field] = Number(value);
+        }
+
+        return { ...updatedItem, ...calculateLineAmounts(updatedItem) };
+      }
+      return item;
+    }));
+  };
+
+  const handleInventorySelect = (itemId: string, inventoryItemId: string) => {
+    const inventoryItem = inventory.find(item => item.id === inventoryItemId);
+    if (inventoryItem) {
+      setItems(prevItems => prevItems.map(item => {
+        if (item.id === itemId) {
+          const warehouseLocationId = checksStock ? getDefaultShippingLocation(inventoryItemId) : undefined;
+
+          // Validate quantity doesn't exceed available stock
+          const validQuantity = checksStock ? Math.min(item.quantity, getQuantity(inventoryItemId, warehouseLocationId)) : item.quantity;
+
+          const updatedItem = {
+            ...item,
+            inventory_id: inventoryItemId,
+            warehouse_location_id: warehouseLocationId,
+            description: inventoryItem.name,
+            unit_price: inventoryItem.unit_price,
+            unit_name: null,
+            unit_factor: 1,
+            pricing_unit: 'piece' as PricingUnit,
+            unit_weight_kg: getPieceWeight(inventoryItem),
+            unit_length_m: inventoryItem.length_m,
+            quantity: validQuantity
+          };
+          return { ...updatedItem, ...calculateLineAmounts(updatedItem) };
+        }
+        return item;
+      }));
+
+      // Clear the search for this item
+      setInventorySearches(prev => ({
+        ...prev,
+        [itemId]: ''
+      }));
+    }
+  };
+
+  const handleLocationChange = (itemId: string, warehouseLocationId: string) => {
+    setItems(prevItems => prevItems.map(item => {
+      if (item.id === itemId) {
+        const updatedItem = {
+          ...item,
+          warehouse_location_id: warehouseLocationId,
+          quantity: Math.min(item.quantity, getQuantity(item.inventory_id, warehouseLocationId))
+        };
+        return { ...updatedItem, ...calculateLineAmounts(updatedItem) };
+      }
+      return item;
+    }));
+  };
+
+  // Keeps the same count in the new unit, and converts a per-unit price so
+  // it is still for one of what is being sold
+  const handleSellingUnitChange = (itemId: string, unitName: string) => {
+    setItems(prevItems => prevItems.map(item => {
+      if (item.id === itemId) {
+        const units = getUnits(item.inventory_id);
+        const unit = units.find(option => option.unit_name === unitName) || units[0];
+        const count = fromBaseQuantity(item.quantity, item.unit_factor);
+        const quantity = toBaseQuantity(count, unit.factor);
+        const available = checksStock ? getLineQuantity(item) : Infinity;
+        const updatedItem = {
+          ...item,
+          unit_name: unit === units[0] ? null : unit.unit_name,
+          unit_factor: unit.factor,
+          quantity: Math.min(quantity, available),
+          unit_price: item.pricing_unit === 'piece'
+            ? roundMoney(item.unit_price / item.unit_factor * unit.factor)
+            : item.unit_price
+        };
+        return { ...updatedItem, ...calculateLineAmounts(updatedItem) };
+      }
+      return item;
+    }));
+  };
+
+  const getPricingUnits = (item: EditableLineItem) => {
+    return PRICING_UNITS.filter(unit =>
+      unit.value === 'piece' ||
+      ((unit.value === 'kg' || unit.value === 'tonne') && item.unit_weight_kg) ||
+      (unit.value === 'metre' && item.unit_length_m)
+    );
+  };
+
+  // The price is converted so switching unit does not change the line total
+  const handlePricingUnitChange = (itemId: string, pricingUnit: PricingUnit) => {
+    setItems(prevItems => prevItems.map(item => {
+      if (item.id === itemId) {
+        const pricePerPiece = item.unit_price * getPricedQuantity({ ...item, quantity: 1 });
+        const piecesPerUnit = getPricedQuantity({ ...item, quantity: 1, pricing_unit: pricingUnit });
+        const updatedItem = {
+          ...item,
+          pricing_unit: pricingUnit,
+          unit_price: piecesPerUnit > 0 ? roundMoney(pricePerPiece / piecesPerUnit) : item.unit_price
+        };
+        return { ...updatedItem, ...calculateLineAmounts(updatedItem) };
+      }
+      return item;
+    }));
+  };
+
+  const addItem = () => {
+    setItems([...items, createEmptyLineItem(defaultTaxRate)]);
+  };
+
+  const removeItem = (id: string) => {
+    if (items.length > 1) {
+      setItems(items.filter(item => item.id !== id));
+      // Remove search state for this item
+      setInventorySearches(prev => {
+        const newSearches = { ...prev };
+        delete newSearches[id];
+        return newSearches;
+      });
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-NG', {
+      style: 'currency',
+      currency: 'NGN'
+    }).format(amount);
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <Label className="text-lg font-semibold">{label} *</Label>
+        <Button type="button" onClick={addItem} variant="outline" size="sm">
+          <Plus className="w-4 h-4 mr-2" />
+          Add Item
+        </Button>
+      </div>
+
+      {checksStock && inventory.filter(item => item.quantity > 0).length === 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-4">
+          <p className="text-yellow-800 text-sm">
+            No inventory items available. Please add inventory items before creating an invoice.
+          </p>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {items.map((item, index) => (
+          <div key={item.id} className="border rounded-lg p-4 space-y-4">
+            <div className="flex justify-between items-center">
+              <span className="font-medium">Item #{index + 1}</span>
+              {items.length > 1 && (
+                <Button
+                  type="button"
+                  onClick={() => removeItem(item.id)}
+                  variant="outline"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="md:col-span-2">
+                <Label htmlFor={`inventory-${item.id}`}>Select Inventory Item *</Label>
+
+                {/* Show selected item if one is chosen */}
+                {item.description ? (
+                  <div className="border rounded-md p-4 bg-gray-50">
+                    <div className="flex justify-between items-center">
+                      <div>
+                        <div className="font-medium">{item.description}</div>
+                        <div className="text-sm text-gray-600">
+                          {formatCurrency(item.unit_price)}
+                          {item.pricing_unit !== 'piece' ? `/${getPricingUnitShort(item.pricing_unit)}` : item.unit_name && `/${item.unit_name}`}
+                          {item.inventory_id && ` - ${checksStock ? 'Available' : 'In stock'}: ${formatStock(item.inventory_id, getLineQuantity(item))}`}
+                        </div>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setItems(prevItems => prevItems.map(prevItem =>
+                            prevItem.id === item.id
+                              ? { ...prevItem, inventory_id: '', warehouse_location_id: undefined, description: '', unit_price: 0, unit_name: null, unit_factor: 1, pricing_unit: 'piece', unit_weight_kg: null, unit_length_m: null, line_total: 0, tax_amount: 0 }
+                              : prevItem
+                          ));
+                        }}
+                      >
+                        Change Item
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="relative">
+                    <div className="relative">
+                      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                      <Input
+                        placeholder="Search inventory items..."
+                        value={inventorySearches[item.id] || ''}
+                        onChange={(e) => setInventorySearches(prev => ({
+                          ...prev,
+                          [item.id]: e.target.value
+                        }))}
+                        className="pl-10"
+                      />
+                    </div>
+                    {inventorySearches[item.id] && (
+                      <div className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-md shadow-lg max-h-48 overflow-y-auto">
+                        {getFilteredInventory(inventorySearches[item.id]).map((inventoryItem) => (
+                          <div
+                            key={inventoryItem.id}
+                            className="px-3 py-2 hover:bg-gray-100 cursor-pointer"
+                            onClick={() => {
+                              handleInventorySelect(item.id, inventoryItem.id);
+                            }}
+                          >
+                            <div className="font-medium">{inventoryItem.name}</div>
+                            <div className="text-sm text-gray-600">
+                              {formatCurrency(inventoryItem.unit_price)} - Qty: {formatStock(inventoryItem.id, getQuantity(inventoryItem.id))}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Fallback select dropdown */}
+                {!item.description && !inventorySearches[item.id] && (
+                  <Select
+                    value={item.inventory_id}
+                    onValueChange={(value) => handleInventorySelect(item.id, value)}
+                    required
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select inventory item" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {inventory.filter(inventoryItem => !checksStock || getQuantity(inventoryItem.id) > 0).map((inventoryItem) => (
+                        <SelectItem key={inventoryItem.id} value={inventoryItem.id}>
+                          {inventoryItem.name} - {formatCurrency(inventoryItem.unit_price)} (Qty: {formatStock(inventoryItem.id, getQuantity(inventoryItem.id))})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+
+              {checksStock && item.inventory_id && (
+                <div className="md:col-span-2">
+                  <Label htmlFor={`warehouse_location-${item.id}`}>Ship From *</Label>
+                  <Select
+                    value={item.warehouse_location_id || ''}
+                    onValueChange={(value) => handleLocationChange(item.id, value)}
+                  >
+                    <SelectTrigger id={`warehouse_location-${item.id}`}>
+                      <SelectValue placeholder="Select warehouse location" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getShippingLocations(item).map((location) => (
+                        <SelectItem key={location.id} value={location.id}>
+                          {location.name} (Qty: {formatStock(item.inventory_id, getQuantity(item.inventory_id, location.id))})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div>
+                <Label htmlFor={`quantity-${item.id}`}>Quantity *</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id={`quantity-${item.id}`}
+                    type="number"
+                    min="0"
+                    step={item.unit_factor === 1 ? '1' : 'any'}
+                    max={checksStock && item.inventory_id ? fromBaseQuantity(getLineQuantity(item), item.unit_factor) : undefined}
+                    value={fromBaseQuantity(item.quantity, item.unit_factor)}
+                    onChange={(e) => handleItemChange(item.id, 'quantity', toBaseQuantity(parseFloat(e.target.value) || 1, item.unit_factor))}
+                    required
+                  />
+                  {allowSellingUnits && item.inventory_id && getUnits(item.inventory_id).length > 1 && (
+                    <Select
+                      value={item.unit_name || getUnits(item.inventory_id)[0].unit_name}
+                      onValueChange={(value) => handleSellingUnitChange(item.id, value)}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {getUnits(item.inventory_id).map((unit) => (
+                          <SelectItem key={unit.unit_name} value={unit.unit_name}>
+                            {unit.unit_name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+                {item.inventory_id && (
+                  <div className="text-xs text-gray-500 mt-1">
+                    {item.unit_name && `${formatStock(item.inventory_id, item.quantity)} - `}
+                    {checksStock ? 'Available' : 'In stock'}: {formatStock(item.inventory_id, getLineQuantity(item))}
+                    {allowWeightPricing && item.unit_weight_kg && ` - Weight: ${formatWeight(getLineWeight(item) || 0)}`}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <Label htmlFor={`unit_price-${item.id}`}>Unit Price (₦) *</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id={`unit_price-${item.id}`}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={item.unit_price}
+                    onChange={(e) => handleItemChange(item.id, 'unit_price', parseFloat(e.target.value) || 0)}
+                    required
+                  />
+                  {allowWeightPricing && getPricingUnits(item).length > 1 && (
+                    <Select
+                      value={item.pricing_unit}
+                      onValueChange={(value: PricingUnit) => handlePricingUnitChange(item.id, value)}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {getPricingUnits(item).map((unit) => (
+                          <SelectItem key={unit.value} value={unit.value}>
+                            {unit.value === 'piece' ? `Per ${item.unit_name || getBaseUnit(item.inventory_id) || 'piece'}` : unit.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor={`discount_value-${item.id}`}>Discount</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id={`discount_value-${item.id}`}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={item.discount_value}
+                    onChange={(e) => handleItemChange(item.id, 'discount_value', parseFloat(e.target.value) || 0)}
+                  />
+                  <Select
+                    value={item.discount_type}
+                    onValueChange={(value) => handleItemChange(item.id, 'discount_type', value)}
+                  >
+                    <SelectTrigger className="w-20">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="percentage">%</SelectItem>
+                      <SelectItem value="fixed">₦</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor={`tax_rate-${item.id}`}>VAT (%)</Label>
+                <Input
+                  id={`tax_rate-${item.id}`}
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={item.tax_rate}
+                  onChange={(e) => handleItemChange(item.id, 'tax_rate', parseFloat(e.target.value) || 0)}
+                />
+              </div>
+
+              <div className="md:col-span-2">
+                <Label>Line Total</Label>
+                <div className="text-lg font-semibold text-gray-900">
+                  {formatCurrency(item.line_total)}
+                </div>
+                {item.discount_amount > 0 && (
+                  <div className="text-xs text-gray-500">
+                    after {formatCurrency(item.discount_amount)} discount
+                  </div>
+                )}
+                {totals.lines[index]?.tax_amount > 0 && (
+                  <div className="text-xs text-gray-500">
+                    + {formatCurrency(totals.lines[index].tax_amount)} VAT
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Totals */}
+      <div className="border-t pt-4 mt-4">
+        <div className="flex justify-end">
+          <div className="w-72 space-y-2">
+            <div className="flex justify-between">
+              <span>Subtotal:</span>
+              <span>{formatCurrency(totals.subtotal)}</span>
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span>Discount</span>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={adjustments.discount_value}
+                  onChange={(e) => onAdjustmentsChange({ discount_value: parseFloat(e.target.value) || 0 })}
+                  className="h-8 w-20"
+                />
+                <Select
+                  value={adjustments.discount_type}
+                  onValueChange={(value: DiscountType) => onAdjustmentsChange({ discount_type: value })}
+                >
+                  <SelectTrigger className="h-8 w-16">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percentage">%</SelectItem>
+                    <SelectItem value="fixed">₦</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <span>{totals.discount_amount > 0 ? `-${formatCurrency(totals.discount_amount)}` : formatCurrency(0)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>VAT:</span>
+              <span>{formatCurrency(totals.tax_amount)}</span>
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="apply_wht"
+                  checked={adjustments.wht_rate > 0}
+                  onCheckedChange={(checked) => onAdjustmentsChange({ wht_rate: checked ? defaultWhtRate : 0 })}
+                />
+                <Label htmlFor="apply_wht" className="font-normal">WHT</Label>
+                {adjustments.wht_rate > 0 && (
+                  <Input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={adjustments.wht_rate}
+                    onChange={(e) => onAdjustmentsChange({ wht_rate: parseFloat(e.target.value) || 0 })}
+                    className="h-8 w-20"
+                  />
+                )}
+              </div>
+              <span>{totals.wht_amount > 0 ? `-${formatCurrency(totals.wht_amount)}` : formatCurrency(0)}</span>
+            </div>
+            <div className="flex justify-between text-lg font-bold border-t pt-2">
+              <span>Total:</span>
+              <span>{formatCurrency(totals.total_amount)}</span>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LineItemsEditor;
@@ -0,0 +1,153 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Download, Package } from 'lucide-react';
+import { format } from 'date-fns';
+import { useInventory } from '@/hooks/useInventory';
+import { usePurchaseOrders } from '@/hooks/usePurchaseOrders';
+import { buildReorderList } from '@/lib/reorder';
+import { downloadCsv } from '@/lib/csv';
+
+const LowStockAlerts = () => {
+  const navigate = useNavigate();
+  const { data: inventory = [] } = useInventory();
+  const { data: purchaseOrders = [] } = usePurchaseOrders();
+
+  // Quantities and ticks are kept per item so they survive a refetch
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [excluded, setExcluded] = useState<Record<string, boolean>>({});
+
+  const lines = useMemo(() => buildReorderList(inventory, purchaseOrders), [inventory, purchaseOrders]);
+
+  useEffect(() => {
+    setQuantities(prev => {
+      const next = { ...prev };
+      lines.forEach(line => {
+        if (next[line.item.id] === undefined) next[line.item.id] = String(line.suggestedQuantity);
+      });
+      return next;
+    });
+  }, [lines]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-NG', {
+      style: 'currency',
+      currency: 'NGN'
+    }).format(amount);
+  };
+
+  const getQuantity = (itemId: string) => parseInt(quantities[itemId] || '') || 0;
+
+  const selectedLines = lines.filter(line => !excluded[line.item.id] && getQuantity(line.item.id) > 0);
+  const estimatedCost = selectedLines.reduce((sum, line) => sum + getQuantity(line.item.id) * line.item.cost_price, 0);
+
+  const handleExport = () => {
+    downloadCsv(
+      `purchase-list-${format(new Date(), 'yyyy-MM-dd')}.csv`,
+      ['Item', 'Category', 'On Hand', 'Reorder Level', 'On Order', 'Order Quantity', 'Last Supplier', 'Unit Cost', 'Estimated Cost'],
+      selectedLines.map(line => [
+        line.item.name,
+        line.item.category || '',
+        line.item.quantity,
+        line.item.reorder_level,
+        line.onOrder,
+        getQuantity(line.item.id),
+        line.lastSupplier || '',
+        line.item.cost_price.toFixed(2),
+        (getQuantity(line.item.id) * line.item.cost_price).toFixed(2)
+      ])
+    );
+  };
+
+  if (lines.length === 0) return null;
+
+  return (
+    <Card className="border-yellow-200 bg-yellow-50">
+      <CardHeader className="pb-4 flex flex-row items-center justify-between">
+        <CardTitle className="text-yellow-700 flex items-center">
+          <Package className="w-5 h-5 mr-2" />
+          Low Stock Alerts ({lines.length})
+        </CardTitle>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => navigate('/inventory')}
+            className="border-yellow-300 text-yellow-700 hover:bg-yellow-100"
+          >
+            Manage Inventory
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleExport}
+            disabled={selectedLines.length === 0}
+            className="flex items-center gap-2 border-yellow-300 text-yellow-700 hover:bg-yellow-100"
+          >
+            <Download className="w-4 h-4" />
+            Export Purchase List
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <p className="text-yellow-600 mb-3">
+          {lines.length} item(s) below their reorder level. Tick what to buy and adjust the quantities to draft a purchase list.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-yellow-200">
+                <th className="py-2 px-2 w-8"></th>
+                <th className="text-left py-2 px-2 font-medium text-yellow-800">Item</th>
+                <th className="text-right py-2 px-2 font-medium text-yellow-800">On Hand</th>
+                <th className="text-right py-2 px-2 font-medium text-yellow-800">Reorder Level</th>
+                <th className="text-right py-2 px-2 font-medium text-yellow-800">On Order</th>
+                <th className="text-right py-2 px-2 font-medium text-yellow-800 w-28">Order Qty</th>
+                <th className="text-left py-2 px-2 font-medium text-yellow-800">Last Supplier</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lines.map(line => (
+                <tr key={line.item.id} className="border-b border-yellow-100">
+                  <td className="py-2 px-2">
+                    <Checkbox
+                      checked={!excluded[line.item.id]}
+                      onCheckedChange={(checked) => setExcluded(prev => ({ ...prev, [line.item.id]: !checked }))}
+                    />
+                  </td>
+                  <td className="py-2 px-2 font-medium text-gray-900">{line.item.name}</td>
+                  <td className={`py-2 px-2 text-right ${line.item.quantity <= 0 ? 'text-red-600 font-semibold' : 'text-gray-700'}`}>
+                    {line.item.quantity}
+                  </td>
+                  <td className="py-2 px-2 text-right text-gray-700">{line.item.reorder_level}</td>
+                  <td className="py-2 px-2 text-right text-gray-700">{line.onOrder > 0 ? line.onOrder : '-'}</td>
+                  <td className="py-2 px-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      step="1"
+                      className="h-8 text-right bg-white"
+                      value={quantities[line.item.id] ?? ''}
+                      onChange={(e) => setQuantities(prev => ({ ...prev, [line.item.id]: e.target.value }))}
+                    />
+                  </td>
+                  <td className="py-2 px-2 text-gray-700">{line.lastSupplier || '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {estimatedCost > 0 && (
+          <p className="text-sm text-yellow-800 mt-3 text-right">
+            Estimated cost of {selectedLines.length} selected item(s): <span className="font-semibold">{formatCurrency(estimatedCost)}</span>
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LowStockAlerts;
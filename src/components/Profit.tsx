@@ -1,22 +1,32 @@
 
 import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { TrendingUp, TrendingDown } from 'lucide-react';
-import { useInvoices, useBackdatedInvoices } from '@/hooks/useInvoices';
+import { TrendingUp, TrendingDown, Landmark, Package } from 'lucide-react';
+import { useInvoices, useBackdatedInvoices, useCostOfSales } from '@/hooks/useInvoices';
 import { useCompanyExpenses } from '@/hooks/useCompanyExpenses';
 
 const Profit = () => {
   const { data: invoices = [] } = useInvoices();
   const { data: backdatedInvoices = [] } = useBackdatedInvoices();
   const { data: expenses = [] } = useCompanyExpenses();
+  const { data: issuedSales = [] } = useCostOfSales();
 
   // Combine regular and backdated invoices for revenue calculation
   const allInvoices = [...invoices, ...backdatedInvoices];
 
-  // Calculate total revenue from paid invoices (including backdated)
-  const totalRevenue = allInvoices
-    .filter(inv => inv.status === 'paid')
-    .reduce((sum, inv) => sum + inv.total_amount, 0);
+  // A credit note cancels part of the sale, so money received beyond what is
+  // still owed after credits is a refund due to the client, not revenue
+  const keptAmount = (inv: typeof allInvoices[number]) => Math.max(0, Math.min(inv.amount_paid, inv.total_amount - inv.amount_credited));
+
+  // Payments received include VAT we collect on behalf of FIRS. Each payment
+  // carries VAT in the same proportion as the invoice total does.
+  const vatCollected = allInvoices
+    .filter(inv => inv.status !== 'void' && inv.total_amount > 0)
+    .reduce((sum, inv) => sum + keptAmount(inv) * (inv.tax_amount / inv.total_amount), 0);
+
+  // Calculate total revenue from payments received (including backdated and part-paid invoices), net of VAT and credits
+  const totalReceived = allInvoices.reduce((sum, inv) => sum + keptAmount(inv), 0);
+  const totalRevenue = totalReceived - vatCollected;
   
   // Calculate total expenses
   const totalExpenses = expenses.reduce((sum, expense) => sum + expense.amount, 0);
@@ -25,6 +35,39 @@ const Profit = () => {
   const profit = totalRevenue - totalExpenses;
   const isPositive = profit >= 0;
 
+  // Gross margin is worked out on what was invoiced rather than what has been
+  // paid, so sales and the cost of the goods that went out line up. Sales are
+  // net of discounts, VAT and credit notes; restocked returns give their cost
+  // back because the goods are on the shelf again.
+  const netSales = issuedSales.reduce((sum, inv) =>
+    sum + inv.subtotal - inv.discount_amount - inv.credit_notes.reduce((credited, note) => credited + note.subtotal, 0), 0);
+
+  // Backdated invoices and lines without a recorded cost have no cost of
+  // sales to set against them, so they are left out of the margin instead of
+  // counting as pure profit
+  const costedLines = issuedSales
+    .filter(inv => !inv.is_backdated)
+    .flatMap(inv => {
+      const discountShare = inv.subtotal > 0 ? inv.discount_amount / inv.subtotal : 0;
+      return inv.invoice_items
+        .filter(line => line.unit_cost !== null)
+        .map(line => {
+          const credited = line.credit_note_items.reduce((sum, credit) => sum + credit.line_total, 0);
+          const restocked = line.credit_note_items
+            .filter(credit => credit.credit_notes?.restock)
+            .reduce((quantity, credit) => quantity + credit.quantity, 0);
+          return {
+            sales: line.line_total * (1 - discountShare) - credited,
+            cost: (line.quantity - restocked) * line.unit_cost
+          };
+        });
+    });
+  const costedSales = costedLines.reduce((sum, line) => sum + line.sales, 0);
+  const costOfSales = costedLines.reduce((sum, line) => sum + line.cost, 0);
+  const uncostedSales = netSales - costedSales;
+  const grossMargin = costedSales - costOfSales;
+  const isMarginPositive = grossMargin >= 0;
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-NG', {
       style: 'currency',
@@ -33,70 +76,140 @@ const Profit = () => {
   };
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-      {/* Revenue Card */}
-      <Card className="steel-card">
-        <CardContent className="pt-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm font-medium text-steel-600">Total Revenue</p>
-              <p className="text-2xl font-bold text-green-600">{formatCurrency(totalRevenue)}</p>
-            </div>
-            <TrendingUp className="w-8 h-8 text-green-600" />
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Expenses Card */}
-      <Card className="steel-card">
-        <CardContent className="pt-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm font-medium text-steel-600">Total Expenses</p>
-              <p className="text-2xl font-bold text-red-600">{formatCurrency(totalExpenses)}</p>
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
+        {/* Revenue Card */}
+        <Card className="steel-card">
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-steel-600">Total Revenue</p>
+                <p className="text-2xl font-bold text-green-600">{formatCurrency(totalRevenue)}</p>
+              </div>
+              <TrendingUp className="w-8 h-8 text-green-600" />
             </div>
-            <TrendingDown className="w-8 h-8 text-red-600" />
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Profit Card - Removed DollarSign icon */}
-      <Card className="steel-card">
-        <CardContent className="pt-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm font-medium text-steel-600">Net Profit</p>
-              <p className={`text-2xl font-bold ${isPositive ? 'text-green-600' : 'text-red-600'}`}>
-                {formatCurrency(profit)}
-              </p>
+          </CardContent>
+        </Card>
+
+        {/* VAT Card */}
+        <Card className="steel-card">
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-steel-600">VAT Collected</p>
+                <p className="text-2xl font-bold text-gray-900">{formatCurrency(vatCollected)}</p>
+              </div>
+              <Landmark className="w-8 h-8 text-steel-600" />
             </div>
-            {isPositive ? (
-              <TrendingUp className="w-8 h-8 text-green-600" />
-            ) : (
+          </CardContent>
+        </Card>
+
+        {/* Expenses Card */}
+        <Card className="steel-card">
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-steel-600">Total Expenses</p>
+                <p className="text-2xl font-bold text-red-600">{formatCurrency(totalExpenses)}</p>
+              </div>
               <TrendingDown className="w-8 h-8 text-red-600" />
-            )}
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Profit Margin Card */}
-      <Card className="steel-card">
-        <CardContent className="pt-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm font-medium text-steel-600">Profit Margin</p>
-              <p className={`text-2xl font-bold ${isPositive ? 'text-green-600' : 'text-red-600'}`}>
-                {totalRevenue > 0 ? `${((profit / totalRevenue) * 100).toFixed(1)}%` : '0%'}
-              </p>
             </div>
-            {isPositive ? (
-              <TrendingUp className="w-8 h-8 text-green-600" />
-            ) : (
-              <TrendingDown className="w-8 h-8 text-red-600" />
-            )}
-          </div>
-        </CardContent>
-      </Card>
+          </CardContent>
+        </Card>
+
+        {/* Profit Card - Removed DollarSign icon */}
+        <Card className="steel-card">
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-steel-600">Net Profit</p>
+                <p className={`text-2xl font-bold ${isPositive ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatCurrency(profit)}
+                </p>
+              </div>
+              {isPositive ? (
+                <TrendingUp className="w-8 h-8 text-green-600" />
+              ) : (
+                <TrendingDown className="w-8 h-8 text-red-600" />
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Profit Margin Card */}
+        <Card className="steel-card">
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-steel-600">Profit Margin</p>
+                <p className={`text-2xl font-bold ${isPositive ? 'text-green-600' : 'text-red-600'}`}>
+                  {totalRevenue > 0 ? `${((profit / totalRevenue) * 100).toFixed(1)}%` : '0%'}
+                </p>
+              </div>
+              {isPositive ? (
+                <TrendingUp className="w-8 h-8 text-green-600" />
+              ) : (
+                <TrendingDown className="w-8 h-8 text-red-600" />
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {/* Net Sales Card */}
+        <Card className="steel-card">
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-steel-600">Net Sales</p>
+                <p className="text-2xl font-bold text-gray-900">{formatCurrency(netSales)}</p>
+                {uncostedSales > 0.005 && (
+                  <p className="text-xs text-steel-600 mt-1">
+                    {formatCurrency(uncostedSales)} uncosted, left out of the margin
+                  </p>
+                )}
+              </div>
+              <TrendingUp className="w-8 h-8 text-steel-600" />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Cost of Goods Sold Card */}
+        <Card className="steel-card">
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-steel-600">Cost of Goods Sold</p>
+                <p className="text-2xl font-bold text-red-600">{formatCurrency(costOfSales)}</p>
+              </div>
+              <Package className="w-8 h-8 text-red-600" />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Gross Margin Card */}
+        <Card className="steel-card">
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-steel-600">Gross Margin</p>
+                <p className={`text-2xl font-bold ${isMarginPositive ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatCurrency(grossMargin)}
+                </p>
+                <p className="text-xs text-steel-600 mt-1">
+                  {costedSales > 0 ? `${((grossMargin / costedSales) * 100).toFixed(1)}% of costed sales` : 'No costed sales yet'}
+                </p>
+              </div>
+              {isMarginPositive ? (
+                <TrendingUp className="w-8 h-8 text-green-600" />
+              ) : (
+                <TrendingDown className="w-8 h-8 text-red-600" />
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,348 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Plus,
+  Search,
+  Edit,
+  Trash2,
+  Send,
+  PackageCheck,
+  ShoppingCart
+} from 'lucide-react';
+import {
+  usePurchaseOrders,
+  useMarkPurchaseOrderSent,
+  useDeletePurchaseOrder
+} from '@/hooks/usePurchaseOrders';
+import { useWarehouseLocations } from '@/hooks/useWarehouseLocations';
+import { useToast } from '@/hooks/use-toast';
+import PurchaseOrderModal from '@/components/modals/PurchaseOrderModal';
+import ReceivePurchaseOrderModal from '@/components/modals/ReceivePurchaseOrderModal';
+import { Tables } from '@/integrations/supabase/types';
+
+type PurchaseOrder = Tables<'purchase_orders'> & {
+  suppliers?: {
+    id: string;
+    company_name: string;
+    email: string | null;
+  };
+  purchase_order_items: Tables<'purchase_order_items'>[];
+};
+
+const PurchaseOrderManager = () => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedPurchaseOrder, setSelectedPurchaseOrder] = useState<PurchaseOrder | undefined>();
+  const [receivingPurchaseOrder, setReceivingPurchaseOrder] = useState<PurchaseOrder | undefined>();
+
+  const { data: purchaseOrders = [], isLoading, error } = usePurchaseOrders();
+  const { data: warehouseLocations = [] } = useWarehouseLocations();
+  const markSent = useMarkPurchaseOrderSent();
+  const deletePurchaseOrder = useDeletePurchaseOrder();
+  const { toast } = useToast();
+
+  const handleDelete = async (purchaseOrder: PurchaseOrder) => {
+    if (confirm(`Are you sure you want to delete ${purchaseOrder.po_number}?`)) {
+      try {
+        await deletePurchaseOrder.mutateAsync(purchaseOrder.id);
+        toast({
+          title: "Success",
+          description: "Purchase order deleted successfully",
+        });
+      } catch (error) {
+        console.error('Delete error:', error);
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to delete purchase order",
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  const handleMarkSent = async (purchaseOrder: PurchaseOrder) => {
+    try {
+      await markSent.mutateAsync(purchaseOrder.id);
+      toast({
+        title: "Success",
+        description: `${purchaseOrder.po_number} marked as sent`,
+      });
+    } catch (error) {
+      console.error('Status update error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update purchase order",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleNewPurchaseOrder = () => {
+    setSelectedPurchaseOrder(undefined);
+    setIsModalOpen(true);
+  };
+
+  const handleEditPurchaseOrder = (purchaseOrder: PurchaseOrder) => {
+    setSelectedPurchaseOrder(purchaseOrder);
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setSelectedPurchaseOrder(undefined);
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-NG', {
+      style: 'currency',
+      currency: 'NGN'
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  const getWarehouseLocationName = (locationId: string | null) => {
+    if (!locationId) return '-';
+    return warehouseLocations.find(loc => loc.id === locationId)?.name || '-';
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'received': return 'bg-green-100 text-green-700 hover:bg-green-200';
+      case 'partially_received': return 'bg-orange-100 text-orange-700 hover:bg-orange-200';
+      case 'sent': return 'bg-blue-100 text-blue-700 hover:bg-blue-200';
+      case 'draft': return 'bg-gray-100 text-gray-700 hover:bg-gray-200';
+      default: return 'bg-gray-100 text-gray-700 hover:bg-gray-200';
+    }
+  };
+
+  const getReceivedSummary = (purchaseOrder: PurchaseOrder) => {
+    const ordered = purchaseOrder.purchase_order_items.reduce((sum, item) => sum + item.quantity_ordered, 0);
+    const received = purchaseOrder.purchase_order_items.reduce((sum, item) => sum + item.quantity_received, 0);
+    return `${received} / ${ordered}`;
+  };
+
+  const filteredPurchaseOrders = purchaseOrders.filter(purchaseOrder => {
+    const matchesSearch = purchaseOrder.suppliers?.company_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         purchaseOrder.po_number.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesStatus = statusFilter === 'all' || purchaseOrder.status === statusFilter;
+    return matchesSearch && matchesStatus;
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div className="text-center py-8">
+          <div className="text-lg">Loading purchase orders...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div className="text-center py-8">
+          <div className="text-red-600 text-lg">Error loading purchase orders</div>
+          <p className="text-gray-600 mt-2">Please check your connection and try again</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Purchase Orders</h1>
+          <p className="text-gray-600 mt-1">Order stock from suppliers and receive deliveries into inventory</p>
+        </div>
+        <Button
+          className="bg-blue-600 hover:bg-blue-700 text-white"
+          onClick={handleNewPurchaseOrder}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          New Purchase Order
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-col md:flex-row gap-4">
+            <div className="flex-1">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                <Input
+                  placeholder="Search purchase orders..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="all">All Status</option>
+                <option value="draft">Draft</option>
+                <option value="sent">Sent</option>
+                <option value="partially_received">Partially Received</option>
+                <option value="received">Received</option>
+              </select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Purchase Orders Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold text-gray-900">
+            Purchase Orders ({filteredPurchaseOrders.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {filteredPurchaseOrders.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="text-gray-400 mb-4">
+                <ShoppingCart className="w-16 h-16 mx-auto" />
+              </div>
+              <h3 className="text-xl font-medium text-gray-900 mb-2">No purchase orders found</h3>
+              <p className="text-gray-600 mb-6">
+                {searchTerm || statusFilter !== 'all'
+                  ? 'Try adjusting your search criteria or create a new purchase order.'
+                  : 'Get started by creating your first purchase order.'
+                }
+              </p>
+              <Button
+                className="bg-blue-600 hover:bg-blue-700 text-white"
+                onClick={handleNewPurchaseOrder}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Create First Purchase Order
+              </Button>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">PO #</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Supplier</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Amount</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Order Date</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Expected</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Deliver To</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Received</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Status</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredPurchaseOrders.map((purchaseOrder) => {
+                    const isOpen = purchaseOrder.status === 'sent' || purchaseOrder.status === 'partially_received';
+                    const isEditable = purchaseOrder.status === 'draft' || purchaseOrder.status === 'sent';
+
+                    return (
+                      <tr key={purchaseOrder.id} className="border-b border-gray-100 hover:bg-gray-50">
+                        <td className="py-3 px-4 font-medium text-gray-900">{purchaseOrder.po_number}</td>
+                        <td className="py-3 px-4 text-gray-700">{purchaseOrder.suppliers?.company_name || 'Unknown Supplier'}</td>
+                        <td className="py-3 px-4 font-medium text-gray-900">{formatCurrency(purchaseOrder.total_amount)}</td>
+                        <td className="py-3 px-4 text-gray-700">{formatDate(purchaseOrder.order_date)}</td>
+                        <td className="py-3 px-4 text-gray-700">{purchaseOrder.expected_date ? formatDate(purchaseOrder.expected_date) : '-'}</td>
+                        <td className="py-3 px-4 text-gray-700">{getWarehouseLocationName(purchaseOrder.warehouse_location_id)}</td>
+                        <td className="py-3 px-4 text-gray-700">{getReceivedSummary(purchaseOrder)}</td>
+                        <td className="py-3 px-4">
+                          <Badge className={getStatusColor(purchaseOrder.status)}>
+                            {purchaseOrder.status.replace('_', ' ')}
+                          </Badge>
+                        </td>
+                        <td className="py-3 px-4">
+                          <div className="flex items-center gap-2">
+                            {isEditable && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleEditPurchaseOrder(purchaseOrder)}
+                                className="text-gray-600 hover:text-gray-700"
+                              >
+                                <Edit className="w-4 h-4" />
+                              </Button>
+                            )}
+                            {purchaseOrder.status === 'draft' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleMarkSent(purchaseOrder)}
+                                disabled={markSent.isPending}
+                                className="text-blue-600 hover:text-blue-700"
+                                title="Mark as sent"
+                              >
+                                <Send className="w-4 h-4" />
+                              </Button>
+                            )}
+                            {isOpen && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setReceivingPurchaseOrder(purchaseOrder)}
+                                className="text-green-600 hover:text-green-700"
+                                title="Receive delivery"
+                              >
+                                <PackageCheck className="w-4 h-4" />
+                              </Button>
+                            )}
+                            {isEditable && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDelete(purchaseOrder)}
+                                className="text-red-600 hover:text-red-700"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <PurchaseOrderModal
+        isOpen={isModalOpen}
+        onClose={handleCloseModal}
+        purchaseOrder={selectedPurchaseOrder}
+      />
+
+      <ReceivePurchaseOrderModal
+        isOpen={!!receivingPurchaseOrder}
+        onClose={() => setReceivingPurchaseOrder(undefined)}
+        purchaseOrder={receivingPurchaseOrder}
+        warehouseName={receivingPurchaseOrder ? getWarehouseLocationName(receivingPurchaseOrder.warehouse_location_id) : undefined}
+      />
+    </div>
+  );
+};
+
+export default PurchaseOrderManager;
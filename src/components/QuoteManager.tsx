@@ -0,0 +1,373 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Plus,
+  Search,
+  Edit,
+  Trash2,
+  Check,
+  X,
+  FileOutput,
+  ClipboardList
+} from 'lucide-react';
+import { addDays, format } from 'date-fns';
+import {
+  useQuotes,
+  useDeleteQuote,
+  useUpdateQuoteStatus,
+  useConvertQuoteToInvoice
+} from '@/hooks/useQuotes';
+import { useInvoiceSettings } from '@/hooks/useInvoiceSettings';
+import { useToast } from '@/hooks/use-toast';
+import QuoteModal from '@/components/modals/QuoteModal';
+import { Tables } from '@/integrations/supabase/types';
+
+type Quote = Tables<'quotes'> & {
+  clients?: {
+    id: string;
+    company_name: string;
+    contact_name: string;
+    email: string;
+    address: string | null;
+  };
+};
+
+// Expired is not stored: an open quote past its expiry date shows as expired
+const getDisplayStatus = (quote: Quote) => {
+  const isOpen = quote.status !== 'rejected' && quote.status !== 'converted';
+  if (isOpen && quote.expiry_date < format(new Date(), 'yyyy-MM-dd')) {
+    return 'expired';
+  }
+  return quote.status;
+};
+
+const QuoteManager = () => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedQuote, setSelectedQuote] = useState<Quote | undefined>();
+
+  const { data: quotes = [], isLoading, error } = useQuotes();
+  const deleteQuote = useDeleteQuote();
+  const updateQuoteStatus = useUpdateQuoteStatus();
+  const convertQuote = useConvertQuoteToInvoice();
+  const { defaultDueDays } = useInvoiceSettings();
+  const { toast } = useToast();
+
+  const handleDelete = async (quoteId: string) => {
+    if (confirm('Are you sure you want to delete this quote?')) {
+      try {
+        await deleteQuote.mutateAsync(quoteId);
+        toast({
+          title: "Success",
+          description: "Quote deleted successfully",
+        });
+      } catch (error) {
+        console.error('Delete error:', error);
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to delete quote",
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  const handleStatusChange = async (quoteId: string, status: 'accepted' | 'rejected') => {
+    try {
+      await updateQuoteStatus.mutateAsync({ id: quoteId, status });
+      toast({
+        title: "Success",
+        description: `Quote marked as ${status}`,
+      });
+    } catch (error) {
+      console.error('Status update error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update quote",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleConvert = async (quote: Quote) => {
+    if (confirm(`Convert ${quote.quote_number} into an invoice? The quoted items will be deducted from inventory.`)) {
+      try {
+        await convertQuote.mutateAsync({
+          id: quote.id,
+          dueDate: format(addDays(new Date(), defaultDueDays), 'yyyy-MM-dd')
+        });
+        toast({
+          title: "Success",
+          description: "Quote converted to an invoice",
+        });
+      } catch (error) {
+        console.error('Convert error:', error);
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to convert quote",
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  const handleNewQuote = () => {
+    setSelectedQuote(undefined);
+    setIsModalOpen(true);
+  };
+
+  const handleEditQuote = (quote: Quote) => {
+    setSelectedQuote(quote);
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setSelectedQuote(undefined);
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-NG', {
+      style: 'currency',
+      currency: 'NGN'
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'accepted': return 'bg-green-100 text-green-700 hover:bg-green-200';
+      case 'sent': return 'bg-blue-100 text-blue-700 hover:bg-blue-200';
+      case 'converted': return 'bg-purple-100 text-purple-700 hover:bg-purple-200';
+      case 'rejected': return 'bg-red-100 text-red-700 hover:bg-red-200';
+      case 'expired': return 'bg-orange-100 text-orange-700 hover:bg-orange-200';
+      case 'draft': return 'bg-gray-100 text-gray-700 hover:bg-gray-200';
+      default: return 'bg-gray-100 text-gray-700 hover:bg-gray-200';
+    }
+  };
+
+  const filteredQuotes = quotes.filter(quote => {
+    const matchesSearch = quote.clients?.company_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         quote.quote_number.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesStatus = statusFilter === 'all' || getDisplayStatus(quote) === statusFilter;
+    return matchesSearch && matchesStatus;
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div className="text-center py-8">
+          <div className="text-lg">Loading quotes...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div className="text-center py-8">
+          <div className="text-red-600 text-lg">Error loading quotes</div>
+          <p className="text-gray-600 mt-2">Please check your connection and try again</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Quotes</h1>
+          <p className="text-gray-600 mt-1">Price jobs for clients and turn accepted quotes into invoices</p>
+        </div>
+        <Button
+          className="bg-blue-600 hover:bg-blue-700 text-white"
+          onClick={handleNewQuote}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          New Quote
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-col md:flex-row gap-4">
+            <div className="flex-1">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                <Input
+                  placeholder="Search quotes..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="all">All Status</option>
+                <option value="draft">Draft</option>
+                <option value="sent">Sent</option>
+                <option value="accepted">Accepted</option>
+                <option value="rejected">Rejected</option>
+                <option value="expired">Expired</option>
+                <option value="converted">Converted</option>
+              </select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Quotes Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold text-gray-900">
+            Quotes ({filteredQuotes.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {filteredQuotes.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="text-gray-400 mb-4">
+                <ClipboardList className="w-16 h-16 mx-auto" />
+              </div>
+              <h3 className="text-xl font-medium text-gray-900 mb-2">No quotes found</h3>
+              <p className="text-gray-600 mb-6">
+                {searchTerm || statusFilter !== 'all'
+                  ? 'Try adjusting your search criteria or create a new quote.'
+                  : 'Get started by creating your first quote.'
+                }
+              </p>
+              <Button
+                className="bg-blue-600 hover:bg-blue-700 text-white"
+                onClick={handleNewQuote}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Create First Quote
+              </Button>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Quote #</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Client</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Amount</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Issue Date</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Valid Until</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Status</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredQuotes.map((quote) => {
+                    const displayStatus = getDisplayStatus(quote);
+                    const canConvert = displayStatus !== 'rejected' && displayStatus !== 'converted' && displayStatus !== 'expired';
+
+                    return (
+                      <tr key={quote.id} className="border-b border-gray-100 hover:bg-gray-50">
+                        <td className="py-3 px-4 font-medium text-gray-900">{quote.quote_number}</td>
+                        <td className="py-3 px-4 text-gray-700">{quote.clients?.company_name || 'Unknown Client'}</td>
+                        <td className="py-3 px-4 font-medium text-gray-900">{formatCurrency(quote.total_amount)}</td>
+                        <td className="py-3 px-4 text-gray-700">{formatDate(quote.issue_date)}</td>
+                        <td className="py-3 px-4 text-gray-700">{formatDate(quote.expiry_date)}</td>
+                        <td className="py-3 px-4">
+                          <Badge className={getStatusColor(displayStatus)}>
+                            {displayStatus}
+                          </Badge>
+                        </td>
+                        <td className="py-3 px-4">
+                          <div className="flex items-center gap-2">
+                            {quote.status !== 'converted' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleEditQuote(quote)}
+                                className="text-gray-600 hover:text-gray-700"
+                              >
+                                <Edit className="w-4 h-4" />
+                              </Button>
+                            )}
+                            {canConvert && quote.status !== 'accepted' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleStatusChange(quote.id, 'accepted')}
+                                className="text-green-600 hover:text-green-700"
+                                title="Mark as accepted"
+                              >
+                                <Check className="w-4 h-4" />
+                              </Button>
+                            )}
+                            {canConvert && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleStatusChange(quote.id, 'rejected')}
+                                className="text-gray-600 hover:text-gray-700"
+                                title="Mark as rejected"
+                              >
+                                <X className="w-4 h-4" />
+                              </Button>
+                            )}
+                            {canConvert && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleConvert(quote)}
+                                disabled={convertQuote.isPending}
+                                className="text-blue-600 hover:text-blue-700"
+                                title="Convert to invoice"
+                              >
+                                <FileOutput className="w-4 h-4" />
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(quote.id)}
+                              className="text-red-600 hover:text-red-700"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <QuoteModal
+        isOpen={isModalOpen}
+        onClose={handleCloseModal}
+        quote={selectedQuote}
+      />
+    </div>
+  );
+};
+
+export default QuoteManager;
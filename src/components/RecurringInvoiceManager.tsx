@@ -0,0 +1,387 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Plus,
+  Search,
+  Edit,
+  Trash2,
+  Pause,
+  Play,
+  Repeat,
+  History
+} from 'lucide-react';
+import {
+  useRecurringInvoices,
+  useRecurringInvoiceRuns,
+  useSetRecurringInvoiceActive,
+  useDeleteRecurringInvoice
+} from '@/hooks/useRecurringInvoices';
+import { getFrequencyLabel, getUpcomingRunDates } from '@/lib/recurrence';
+import { useToast } from '@/hooks/use-toast';
+import RecurringInvoiceModal from '@/components/modals/RecurringInvoiceModal';
+import { Tables } from '@/integrations/supabase/types';
+
+type RecurringInvoice = Tables<'recurring_invoices'> & {
+  clients?: {
+    id: string;
+    company_name: string;
+    email: string;
+  };
+};
+
+// A template past its end date with nothing left to run is shown as ended
+const getDisplayStatus = (recurringInvoice: RecurringInvoice) => {
+  if (recurringInvoice.end_date && recurringInvoice.next_run_date > recurringInvoice.end_date) {
+    return 'ended';
+  }
+  return recurringInvoice.active ? 'active' : 'paused';
+};
+
+const RecurringInvoiceManager = () => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedRecurringInvoice, setSelectedRecurringInvoice] = useState<RecurringInvoice | undefined>();
+
+  const { data: recurringInvoices = [], isLoading, error } = useRecurringInvoices();
+  const { data: runs = [] } = useRecurringInvoiceRuns();
+  const setActive = useSetRecurringInvoiceActive();
+  const deleteRecurringInvoice = useDeleteRecurringInvoice();
+  const { toast } = useToast();
+
+  const handleDelete = async (recurringInvoice: RecurringInvoice) => {
+    if (confirm(`Delete "${recurringInvoice.name}"? Invoices it has already generated are kept.`)) {
+      try {
+        await deleteRecurringInvoice.mutateAsync(recurringInvoice.id);
+        toast({
+          title: "Success",
+          description: "Recurring invoice deleted successfully",
+        });
+      } catch (error) {
+        console.error('Delete error:', error);
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to delete recurring invoice",
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  const handleToggleActive = async (recurringInvoice: RecurringInvoice) => {
+    try {
+      await setActive.mutateAsync({ id: recurringInvoice.id, active: !recurringInvoice.active });
+      toast({
+        title: "Success",
+        description: recurringInvoice.active ? "Recurring invoice paused" : "Recurring invoice resumed",
+      });
+    } catch (error) {
+      console.error('Status update error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update recurring invoice",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleNewRecurringInvoice = () => {
+    setSelectedRecurringInvoice(undefined);
+    setIsModalOpen(true);
+  };
+
+  const handleEditRecurringInvoice = (recurringInvoice: RecurringInvoice) => {
+    setSelectedRecurringInvoice(recurringInvoice);
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setSelectedRecurringInvoice(undefined);
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-NG', {
+      style: 'currency',
+      currency: 'NGN'
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'active': return 'bg-green-100 text-green-700 hover:bg-green-200';
+      case 'paused': return 'bg-orange-100 text-orange-700 hover:bg-orange-200';
+      case 'ended': return 'bg-gray-100 text-gray-700 hover:bg-gray-200';
+      default: return 'bg-gray-100 text-gray-700 hover:bg-gray-200';
+    }
+  };
+
+  const getRunStatusColor = (status: string) => {
+    switch (status) {
+      case 'sent': return 'bg-green-100 text-green-700 hover:bg-green-200';
+      case 'generated': return 'bg-blue-100 text-blue-700 hover:bg-blue-200';
+      case 'send_failed': return 'bg-orange-100 text-orange-700 hover:bg-orange-200';
+      case 'failed': return 'bg-red-100 text-red-700 hover:bg-red-200';
+      default: return 'bg-gray-100 text-gray-700 hover:bg-gray-200';
+    }
+  };
+
+  const filteredRecurringInvoices = recurringInvoices.filter(recurringInvoice => {
+    const matchesSearch = recurringInvoice.clients?.company_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         recurringInvoice.name.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesStatus = statusFilter === 'all' || getDisplayStatus(recurringInvoice) === statusFilter;
+    return matchesSearch && matchesStatus;
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div className="text-center py-8">
+          <div className="text-lg">Loading recurring invoices...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div className="text-center py-8">
+          <div className="text-red-600 text-lg">Error loading recurring invoices</div>
+          <p className="text-gray-600 mt-2">Please check your connection and try again</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Recurring Invoices</h1>
+          <p className="text-gray-600 mt-1">Bill contract customers automatically on a fixed schedule</p>
+        </div>
+        <Button
+          className="bg-blue-600 hover:bg-blue-700 text-white"
+          onClick={handleNewRecurringInvoice}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          New Recurring Invoice
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-col md:flex-row gap-4">
+            <div className="flex-1">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                <Input
+                  placeholder="Search recurring invoices..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="all">All Status</option>
+                <option value="active">Active</option>
+                <option value="paused">Paused</option>
+                <option value="ended">Ended</option>
+              </select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Templates Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold text-gray-900">
+            Templates ({filteredRecurringInvoices.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {filteredRecurringInvoices.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="text-gray-400 mb-4">
+                <Repeat className="w-16 h-16 mx-auto" />
+              </div>
+              <h3 className="text-xl font-medium text-gray-900 mb-2">No recurring invoices found</h3>
+              <p className="text-gray-600 mb-6">
+                {searchTerm || statusFilter !== 'all'
+                  ? 'Try adjusting your search criteria or create a new recurring invoice.'
+                  : 'Set up a template for customers you bill on a regular schedule.'
+                }
+              </p>
+              <Button
+                className="bg-blue-600 hover:bg-blue-700 text-white"
+                onClick={handleNewRecurringInvoice}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Create First Recurring Invoice
+              </Button>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Name</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Client</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Amount</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Frequency</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Upcoming Runs</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Delivery</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Status</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredRecurringInvoices.map((recurringInvoice) => {
+                    const displayStatus = getDisplayStatus(recurringInvoice);
+                    const upcoming = getUpcomingRunDates(recurringInvoice);
+
+                    return (
+                      <tr key={recurringInvoice.id} className="border-b border-gray-100 hover:bg-gray-50">
+                        <td className="py-3 px-4 font-medium text-gray-900">{recurringInvoice.name}</td>
+                        <td className="py-3 px-4 text-gray-700">{recurringInvoice.clients?.company_name || 'Unknown Client'}</td>
+                        <td className="py-3 px-4 font-medium text-gray-900">{formatCurrency(recurringInvoice.total_amount)}</td>
+                        <td className="py-3 px-4 text-gray-700">{getFrequencyLabel(recurringInvoice.frequency)}</td>
+                        <td className="py-3 px-4 text-gray-700 text-sm">
+                          {upcoming.length > 0 ? (
+                            <div className="space-y-0.5">
+                              {upcoming.map(date => (
+                                <div key={date}>{formatDate(date)}</div>
+                              ))}
+                            </div>
+                          ) : (
+                            <span className="text-gray-400">—</span>
+                          )}
+                        </td>
+                        <td className="py-3 px-4 text-gray-700 text-sm">
+                          {recurringInvoice.auto_send ? 'Emailed' : 'Draft for review'}
+                        </td>
+                        <td className="py-3 px-4">
+                          <Badge className={getStatusColor(displayStatus)}>
+                            {displayStatus}
+                          </Badge>
+                        </td>
+                        <td className="py-3 px-4">
+                          <div className="flex items-center gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleEditRecurringInvoice(recurringInvoice)}
+                              className="text-gray-600 hover:text-gray-700"
+                            >
+                              <Edit className="w-4 h-4" />
+                            </Button>
+                            {displayStatus !== 'ended' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleToggleActive(recurringInvoice)}
+                                disabled={setActive.isPending}
+                                className={recurringInvoice.active ? 'text-orange-600 hover:text-orange-700' : 'text-green-600 hover:text-green-700'}
+                                title={recurringInvoice.active ? 'Pause' : 'Resume'}
+                              >
+                                {recurringInvoice.active ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(recurringInvoice)}
+                              className="text-red-600 hover:text-red-700"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Past Runs */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Past Runs
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {runs.length === 0 ? (
+            <p className="text-gray-500 text-sm">No invoices have been generated yet. Templates run daily shortly after midnight (UTC).</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Run Date</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Template</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Client</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Invoice #</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Amount</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {runs.map((run) => (
+                    <tr key={run.id} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-3 px-4 text-gray-700">{formatDate(run.run_date)}</td>
+                      <td className="py-3 px-4 font-medium text-gray-900">{run.recurring_invoices?.name}</td>
+                      <td className="py-3 px-4 text-gray-700">{run.recurring_invoices?.clients?.company_name || 'Unknown Client'}</td>
+                      <td className="py-3 px-4 text-gray-700">{run.invoices?.invoice_number || '—'}</td>
+                      <td className="py-3 px-4 text-gray-900">{run.invoices ? formatCurrency(run.invoices.total_amount) : '—'}</td>
+                      <td className="py-3 px-4">
+                        <Badge className={getRunStatusColor(run.status)}>
+                          {run.status.replace('_', ' ')}
+                        </Badge>
+                        {run.error && <p className="text-xs text-red-600 mt-1">{run.error}</p>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <RecurringInvoiceModal
+        isOpen={isModalOpen}
+        onClose={handleCloseModal}
+        recurringInvoice={selectedRecurringInvoice}
+      />
+    </div>
+  );
+};
+
+export default RecurringInvoiceManager;
@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { 
   Building, 
   CreditCard,
@@ -12,6 +13,7 @@ import {
 import { useToast } from '@/hooks/use-toast';
 import { useCompanyInfo, useUpdateCompanyInfo } from '@/hooks/useCompanyInfo';
 import { useAuth } from '@/contexts/AuthContext';
+import { formatInvoiceNumber, getNextSequenceNumber } from '@/lib/invoiceNumbering';
 
 const Settings = () => {
   const { toast } = useToast();
@@ -25,6 +27,8 @@ const Settings = () => {
     email: 'info@marvellous-steel.com',
     website: 'www.marvellous-steel.com',
     tax_id: 'TAX123456789',
+    vat_rate: '7.5',
+    wht_rate: '5',
     bank_name: 'Access Bank Plc',
     account_name: 'Marvellous Steel Enterprise',
     account_number: '0123456789',
@@ -33,10 +37,18 @@ const Settings = () => {
 
   const [invoiceSettings, setInvoiceSettings] = useState({
     defaultDueDays: '30',
-    invoicePrefix: 'INV-',
-    nextInvoiceNumber: '001',
     defaultTerms: 'Payment due within 30 days of invoice date.',
-    reminderDays: '7'
+    reminderDays: '7',
+    remindOnDueDate: true,
+    overdueReminderDays: '14',
+    autoRemindersEnabled: true
+  });
+
+  const [numberingSettings, setNumberingSettings] = useState({
+    invoice_prefix: 'INV-',
+    invoice_number_padding: '4',
+    invoice_number_reset_yearly: false,
+    next_invoice_number: '1'
   });
 
   // Load company info when it's available
@@ -49,11 +61,27 @@ const Settings = () => {
         email: companyInfo.email || 'info@marvellous-steel.com',
         website: companyInfo.website || 'www.marvellous-steel.com',
         tax_id: companyInfo.tax_id || 'TAX123456789',
+        vat_rate: String(companyInfo.vat_rate ?? 7.5),
+        wht_rate: String(companyInfo.wht_rate ?? 5),
         bank_name: companyInfo.bank_name || 'Access Bank Plc',
         account_name: companyInfo.account_name || 'Marvellous Steel Enterprise',
         account_number: companyInfo.account_number || '0123456789',
         sort_code: companyInfo.sort_code || '044150149'
       });
+      setInvoiceSettings({
+        defaultDueDays: String(companyInfo.default_due_days),
+        defaultTerms: companyInfo.default_terms || '',
+        reminderDays: String(companyInfo.reminder_days),
+        remindOnDueDate: companyInfo.remind_on_due_date,
+        overdueReminderDays: String(companyInfo.overdue_reminder_days),
+        autoRemindersEnabled: companyInfo.auto_reminders_enabled
+      });
+      setNumberingSettings({
+        invoice_prefix: companyInfo.invoice_prefix,
+        invoice_number_padding: String(companyInfo.invoice_number_padding),
+        invoice_number_reset_yearly: companyInfo.invoice_number_reset_yearly,
+        next_invoice_number: String(getNextSequenceNumber(companyInfo))
+      });
     }
   }, [companyInfo]);
 
@@ -67,6 +95,8 @@ const Settings = () => {
         email: companySettings.email,
         website: companySettings.website,
         tax_id: companySettings.tax_id,
+        vat_rate: parseFloat(companySettings.vat_rate) || 0,
+        wht_rate: parseFloat(companySettings.wht_rate) || 0,
         bank_name: companySettings.bank_name,
         account_name: companySettings.account_name,
         account_number: companySettings.account_number,
@@ -86,14 +116,74 @@ const Settings = () => {
     }
   };
 
-  const handleSaveInvoice = () => {
-    console.log('Saving invoice settings:', invoiceSettings);
-    toast({
-      title: "Success",
-      description: "Invoice settings saved successfully",
-    });
+  const handleSaveInvoice = async () => {
+    const dueDays = parseInt(invoiceSettings.defaultDueDays);
+    const reminderDays = parseInt(invoiceSettings.reminderDays);
+    const overdueReminderDays = parseInt(invoiceSettings.overdueReminderDays);
+    if (isNaN(dueDays) || dueDays < 0 || isNaN(reminderDays) || reminderDays < 0 ||
+        isNaN(overdueReminderDays) || overdueReminderDays < 0) {
+      toast({
+        title: "Error",
+        description: "Due days and reminder days must be whole numbers of zero or more",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const nextNumber = parseInt(numberingSettings.next_invoice_number);
+    const padding = parseInt(numberingSettings.invoice_number_padding);
+    if (!nextNumber || nextNumber < 1 || !padding || padding < 1 || padding > 10) {
+      toast({
+        title: "Error",
+        description: "Next invoice number must be at least 1 and padding between 1 and 10 digits",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // The counter is only written when the number was edited here, so saving
+    // other settings neither rewinds it nor hides a new year from the yearly
+    // reset
+    const numberChanged = !companyInfo || nextNumber !== getNextSequenceNumber(companyInfo);
+
+    try {
+      await updateCompanyInfo.mutateAsync({
+        default_due_days: dueDays,
+        default_terms: invoiceSettings.defaultTerms,
+        reminder_days: reminderDays,
+        remind_on_due_date: invoiceSettings.remindOnDueDate,
+        overdue_reminder_days: overdueReminderDays,
+        auto_reminders_enabled: invoiceSettings.autoRemindersEnabled,
+        invoice_prefix: numberingSettings.invoice_prefix,
+        invoice_number_padding: padding,
+        invoice_number_reset_yearly: numberingSettings.invoice_number_reset_yearly,
+        ...(numberChanged && {
+          next_invoice_number: nextNumber,
+          invoice_number_year: new Date().getFullYear(),
+        }),
+      });
+      toast({
+        title: "Success",
+        description: "Invoice settings saved successfully",
+      });
+    } catch (error) {
+      console.error('Save error:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save invoice settings",
+        variant: "destructive",
+      });
+    }
   };
 
+  const numberPreview = formatInvoiceNumber(
+    numberingSettings.invoice_prefix,
+    new Date().getFullYear(),
+    parseInt(numberingSettings.next_invoice_number) || 1,
+    parseInt(numberingSettings.invoice_number_padding) || 1,
+    numberingSettings.invoice_number_reset_yearly
+  );
+
   if (isLoading) {
     return (
       <div className="space-y-6 animate-fade-in">
@@ -176,6 +266,34 @@ const Settings = () => {
                 />
               </div>
             </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="vatRate">VAT Rate (%)</Label>
+                <Input
+                  id="vatRate"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={companySettings.vat_rate}
+                  onChange={(e) => setCompanySettings({...companySettings, vat_rate: e.target.value})}
+                />
+                <p className="text-xs text-gray-500 mt-1">Applied to new invoice lines unless the client is VAT exempt</p>
+              </div>
+              <div>
+                <Label htmlFor="whtRate">Withholding Tax Rate (%)</Label>
+                <Input
+                  id="whtRate"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={companySettings.wht_rate}
+                  onChange={(e) => setCompanySettings({...companySettings, wht_rate: e.target.value})}
+                />
+                <p className="text-xs text-gray-500 mt-1">Used when an invoice is marked as having WHT deducted</p>
+              </div>
+            </div>
 
             {/* Bank Details Section */}
             <div className="pt-4 border-t border-steel-200">
@@ -241,36 +359,56 @@ const Settings = () => {
                 <Label htmlFor="defaultDueDays">Default Due Days</Label>
                 <Input
                   id="defaultDueDays"
+                  type="number"
+                  min="0"
                   value={invoiceSettings.defaultDueDays}
                   onChange={(e) => setInvoiceSettings({...invoiceSettings, defaultDueDays: e.target.value})}
                 />
               </div>
-              <div>
-                <Label htmlFor="reminderDays">Reminder Days Before Due</Label>
-                <Input
-                  id="reminderDays"
-                  value={invoiceSettings.reminderDays}
-                  onChange={(e) => setInvoiceSettings({...invoiceSettings, reminderDays: e.target.value})}
-                />
-              </div>
             </div>
-            <div className="grid grid-cols-2 gap-4">
+            <div className="grid grid-cols-3 gap-4">
               <div>
                 <Label htmlFor="invoicePrefix">Invoice Number Prefix</Label>
                 <Input
                   id="invoicePrefix"
-                  value={invoiceSettings.invoicePrefix}
-                  onChange={(e) => setInvoiceSettings({...invoiceSettings, invoicePrefix: e.target.value})}
+                  value={numberingSettings.invoice_prefix}
+                  onChange={(e) => setNumberingSettings({...numberingSettings, invoice_prefix: e.target.value})}
                 />
               </div>
               <div>
                 <Label htmlFor="nextInvoiceNumber">Next Invoice Number</Label>
                 <Input
                   id="nextInvoiceNumber"
-                  value={invoiceSettings.nextInvoiceNumber}
-                  onChange={(e) => setInvoiceSettings({...invoiceSettings, nextInvoiceNumber: e.target.value})}
+                  type="number"
+                  min="1"
+                  value={numberingSettings.next_invoice_number}
+                  onChange={(e) => setNumberingSettings({...numberingSettings, next_invoice_number: e.target.value})}
+                />
+              </div>
+              <div>
+                <Label htmlFor="invoiceNumberPadding">Digits</Label>
+                <Input
+                  id="invoiceNumberPadding"
+                  type="number"
+                  min="1"
+                  max="10"
+                  value={numberingSettings.invoice_number_padding}
+                  onChange={(e) => setNumberingSettings({...numberingSettings, invoice_number_padding: e.target.value})}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="resetYearly"
+                  checked={numberingSettings.invoice_number_reset_yearly}
+                  onCheckedChange={(checked) => setNumberingSettings({...numberingSettings, invoice_number_reset_yearly: checked === true})}
                 />
+                <Label htmlFor="resetYearly" className="font-normal">Restart numbering every year</Label>
               </div>
+              <p className="text-sm text-gray-600">
+                Next invoice: <span className="font-medium text-gray-900">{numberPreview}</span>
+              </p>
             </div>
             <div>
               <Label htmlFor="defaultTerms">Default Payment Terms</Label>
@@ -281,10 +419,61 @@ const Settings = () => {
                 value={invoiceSettings.defaultTerms}
                 onChange={(e) => setInvoiceSettings({...invoiceSettings, defaultTerms: e.target.value})}
               />
+              <p className="text-xs text-gray-500 mt-1">Prefilled into the notes of new invoices</p>
             </div>
-            <Button onClick={handleSaveInvoice} className="steel-button">
+            <div className="space-y-3 border-t border-gray-200 pt-4">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="autoReminders"
+                  checked={invoiceSettings.autoRemindersEnabled}
+                  onCheckedChange={(checked) => setInvoiceSettings({...invoiceSettings, autoRemindersEnabled: checked === true})}
+                />
+                <Label htmlFor="autoReminders" className="font-normal">Email payment reminders to clients automatically</Label>
+              </div>
+              <div className="grid grid-cols-3 gap-4 items-end">
+                <div>
+                  <Label htmlFor="reminderDays">Days Before Due</Label>
+                  <Input
+                    id="reminderDays"
+                    type="number"
+                    min="0"
+                    value={invoiceSettings.reminderDays}
+                    disabled={!invoiceSettings.autoRemindersEnabled}
+                    onChange={(e) => setInvoiceSettings({...invoiceSettings, reminderDays: e.target.value})}
+                  />
+                </div>
+                <div className="flex items-center gap-2 h-10">
+                  <Checkbox
+                    id="remindOnDueDate"
+                    checked={invoiceSettings.remindOnDueDate}
+                    disabled={!invoiceSettings.autoRemindersEnabled}
+                    onCheckedChange={(checked) => setInvoiceSettings({...invoiceSettings, remindOnDueDate: checked === true})}
+                  />
+                  <Label htmlFor="remindOnDueDate" className="font-normal">On the due date</Label>
+                </div>
+                <div>
+                  <Label htmlFor="overdueReminderDays">Days After Due</Label>
+                  <Input
+                    id="overdueReminderDays"
+                    type="number"
+                    min="0"
+                    value={invoiceSettings.overdueReminderDays}
+                    disabled={!invoiceSettings.autoRemindersEnabled}
+                    onChange={(e) => setInvoiceSettings({...invoiceSettings, overdueReminderDays: e.target.value})}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">
+                Set a number of days to 0 to skip that reminder. Unpaid invoices are marked overdue automatically the day after they fall due.
+              </p>
+            </div>
+            <Button 
+              onClick={handleSaveInvoice} 
+              className="steel-button"
+              disabled={updateCompanyInfo.isPending}
+            >
               <Save className="w-4 h-4 mr-2" />
-              Save Invoice Settings
+              {updateCompanyInfo.isPending ? 'Saving...' : 'Save Invoice Settings'}
             </Button>
           </CardContent>
         </Card>
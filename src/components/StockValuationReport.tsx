@@ -0,0 +1,227 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Coins, Download } from 'lucide-react';
+import { format } from 'date-fns';
+import { useInventory, useInventoryStock } from '@/hooks/useInventory';
+import { useWarehouseLocations } from '@/hooks/useWarehouseLocations';
+import { downloadCsv } from '@/lib/csv';
+
+const StockValuationReport = () => {
+  const [locationFilter, setLocationFilter] = useState('all');
+
+  const { data: inventory = [], isLoading: inventoryLoading } = useInventory();
+  const { data: stock = [], isLoading: stockLoading } = useInventoryStock();
+  const { data: warehouseLocations = [] } = useWarehouseLocations();
+
+  // Stock is valued at average cost; the selling value shows what it would
+  // bring in at today's prices
+  const rows = useMemo(() => {
+    return inventory
+      .map(item => {
+        const quantity = locationFilter === 'all'
+          ? item.quantity
+          : stock.find(row => row.inventory_item_id === item.id && row.warehouse_location_id === locationFilter)?.quantity || 0;
+        return {
+          item,
+          quantity,
+          costValue: quantity * item.cost_price,
+          sellingValue: quantity * item.unit_price
+        };
+      })
+      .filter(row => row.quantity > 0)
+      .sort((a, b) => b.costValue - a.costValue);
+  }, [inventory, stock, locationFilter]);
+
+  const totals = rows.reduce((sum, row) => ({
+    quantity: sum.quantity + row.quantity,
+    costValue: sum.costValue + row.costValue,
+    sellingValue: sum.sellingValue + row.sellingValue
+  }), { quantity: 0, costValue: 0, sellingValue: 0 });
+
+  const uncostedCount = rows.filter(row => row.item.cost_price <= 0).length;
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-NG', {
+      style: 'currency',
+      currency: 'NGN'
+    }).format(amount);
+  };
+
+  const formatMargin = (cost: number, selling: number) => {
+    if (selling <= 0) return '-';
+    return `${(((selling - cost) / selling) * 100).toFixed(1)}%`;
+  };
+
+  const locationName = locationFilter === 'all'
+    ? 'All locations'
+    : warehouseLocations.find(location => location.id === locationFilter)?.name || 'Unknown location';
+
+  const handleExport = () => {
+    const slug = locationFilter === 'all' ? 'all' : locationName.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    downloadCsv(
+      `stock-valuation-${slug}-${format(new Date(), 'yyyy-MM-dd')}.csv`,
+      ['Item', 'Category', 'Quantity', 'Average Cost', 'Cost Value', 'Unit Price', 'Selling Value', 'Margin'],
+      [
+        ...rows.map(row => [
+          row.item.name,
+          row.item.category || '',
+          row.quantity,
+          row.item.cost_price.toFixed(2),
+          row.costValue.toFixed(2),
+          row.item.unit_price.toFixed(2),
+          row.sellingValue.toFixed(2),
+          formatMargin(row.costValue, row.sellingValue)
+        ]),
+        ['Total', '', totals.quantity, '', totals.costValue.toFixed(2), '', totals.sellingValue.toFixed(2), formatMargin(totals.costValue, totals.sellingValue)]
+      ]
+    );
+  };
+
+  if (inventoryLoading || stockLoading) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div className="text-center py-8">
+          <div className="text-lg">Loading stock valuation...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Stock Valuation</h1>
+          <p className="text-gray-600 mt-1">Stock on hand at average cost, as of {format(new Date(), 'MMM d, yyyy')}</p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={handleExport}
+          disabled={rows.length === 0}
+          className="flex items-center gap-2 border-blue-200 text-blue-700 hover:bg-blue-50"
+        >
+          <Download className="w-4 h-4" />
+          Export CSV
+        </Button>
+      </div>
+
+      {/* Filter */}
+      <Card>
+        <CardContent className="pt-6">
+          <Select value={locationFilter} onValueChange={setLocationFilter}>
+            <SelectTrigger className="w-full md:w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All locations</SelectItem>
+              {warehouseLocations.map((location) => (
+                <SelectItem key={location.id} value={location.id}>
+                  {location.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      {/* Totals */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm font-medium text-gray-600">Units on Hand</p>
+            <p className="text-xl font-bold text-gray-900">{totals.quantity.toLocaleString('en-NG')}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm font-medium text-gray-600">Value at Cost</p>
+            <p className="text-xl font-bold text-gray-900">{formatCurrency(totals.costValue)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm font-medium text-gray-600">Value at Selling Price</p>
+            <p className="text-xl font-bold text-gray-900">{formatCurrency(totals.sellingValue)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm font-medium text-gray-600">Potential Margin</p>
+            <p className="text-xl font-bold text-green-600">
+              {formatCurrency(totals.sellingValue - totals.costValue)}
+              <span className="text-sm font-medium text-gray-500 ml-2">{formatMargin(totals.costValue, totals.sellingValue)}</span>
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {uncostedCount > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <p className="text-yellow-800 text-sm">
+            {uncostedCount} {uncostedCount === 1 ? 'item has' : 'items have'} no cost price yet, so {uncostedCount === 1 ? 'it is' : 'they are'} valued at nothing.
+            Receive a delivery with its cost or set the cost price on the item.
+          </p>
+        </div>
+      )}
+
+      {/* Items */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center text-lg font-semibold text-gray-900">
+            <Coins className="w-5 h-5 mr-2" />
+            {locationName} ({rows.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {rows.length === 0 ? (
+            <p className="text-gray-500 text-sm">Nothing is in stock here.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Item</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Category</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">Quantity</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">Avg Cost</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">Value at Cost</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">Selling Value</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">Margin</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.item.id} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-3 px-4 font-medium text-gray-900">{row.item.name}</td>
+                      <td className="py-3 px-4 text-gray-700">{row.item.category || '-'}</td>
+                      <td className="py-3 px-4 text-right text-gray-700">{row.quantity}</td>
+                      <td className={`py-3 px-4 text-right ${row.item.cost_price > 0 ? 'text-gray-700' : 'text-yellow-700'}`}>
+                        {row.item.cost_price > 0 ? formatCurrency(row.item.cost_price) : 'Not set'}
+                      </td>
+                      <td className="py-3 px-4 text-right font-medium text-gray-900">{formatCurrency(row.costValue)}</td>
+                      <td className="py-3 px-4 text-right text-gray-700">{formatCurrency(row.sellingValue)}</td>
+                      <td className="py-3 px-4 text-right text-gray-700">{formatMargin(row.costValue, row.sellingValue)}</td>
+                    </tr>
+                  ))}
+                  <tr className="bg-gray-50 font-semibold">
+                    <td className="py-3 px-4 text-gray-900" colSpan={2}>Total</td>
+                    <td className="py-3 px-4 text-right text-gray-900">{totals.quantity}</td>
+                    <td className="py-3 px-4"></td>
+                    <td className="py-3 px-4 text-right text-gray-900">{formatCurrency(totals.costValue)}</td>
+                    <td className="py-3 px-4 text-right text-gray-900">{formatCurrency(totals.sellingValue)}</td>
+                    <td className="py-3 px-4 text-right text-gray-900">{formatMargin(totals.costValue, totals.sellingValue)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default StockValuationReport;
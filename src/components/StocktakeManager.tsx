@@ -0,0 +1,276 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Plus,
+  ClipboardCheck,
+  Eye,
+  XCircle
+} from 'lucide-react';
+import { useStocktakes, useCancelStocktake } from '@/hooks/useStocktakes';
+import { useWarehouseLocations } from '@/hooks/useWarehouseLocations';
+import { useToast } from '@/hooks/use-toast';
+import { getVariance } from '@/lib/stocktake';
+import NewStocktakeModal from '@/components/modals/NewStocktakeModal';
+import StocktakeCountModal, { Stocktake } from '@/components/modals/StocktakeCountModal';
+
+const StocktakeManager = () => {
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [isNewModalOpen, setIsNewModalOpen] = useState(false);
+  const [openStocktakeId, setOpenStocktakeId] = useState<string | undefined>();
+
+  const { data: stocktakes = [], isLoading, error } = useStocktakes();
+  const { data: warehouseLocations = [] } = useWarehouseLocations();
+  const cancelStocktake = useCancelStocktake();
+  const { toast } = useToast();
+
+  const openStocktake = stocktakes.find(stocktake => stocktake.id === openStocktakeId);
+
+  const handleCancel = async (stocktake: Stocktake) => {
+    if (confirm(`Cancel ${stocktake.stocktake_number}? The counts entered so far will not be posted.`)) {
+      try {
+        await cancelStocktake.mutateAsync(stocktake.id);
+        toast({
+          title: "Success",
+          description: `${stocktake.stocktake_number} cancelled`,
+        });
+      } catch (error) {
+        console.error('Cancel stocktake error:', error);
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to cancel stocktake",
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  const handleCreated = (stocktakeId: string) => {
+    setIsNewModalOpen(false);
+    setOpenStocktakeId(stocktakeId);
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-NG', {
+      style: 'currency',
+      currency: 'NGN'
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  const getWarehouseLocationName = (locationId: string | null) => {
+    if (!locationId) return 'Removed location';
+    return warehouseLocations.find(loc => loc.id === locationId)?.name || 'Removed location';
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'posted': return 'bg-green-100 text-green-700 hover:bg-green-200';
+      case 'counting': return 'bg-blue-100 text-blue-700 hover:bg-blue-200';
+      case 'cancelled': return 'bg-gray-100 text-gray-700 hover:bg-gray-200';
+      default: return 'bg-gray-100 text-gray-700 hover:bg-gray-200';
+    }
+  };
+
+  const getCountedSummary = (stocktake: Stocktake) => {
+    const counted = stocktake.stocktake_items.filter(item => item.counted_quantity !== null).length;
+    return `${counted} / ${stocktake.stocktake_items.length}`;
+  };
+
+  const getNetImpact = (stocktake: Stocktake) => {
+    return stocktake.stocktake_items.reduce((sum, item) => sum + getVariance(item) * item.unit_cost, 0);
+  };
+
+  const busyLocationIds = stocktakes
+    .filter(stocktake => stocktake.status === 'counting' && stocktake.warehouse_location_id)
+    .map(stocktake => stocktake.warehouse_location_id as string);
+
+  const filteredStocktakes = stocktakes.filter(stocktake => statusFilter === 'all' || stocktake.status === statusFilter);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div className="text-center py-8">
+          <div className="text-lg">Loading stocktakes...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div className="text-center py-8">
+          <div className="text-red-600 text-lg">Error loading stocktakes</div>
+          <p className="text-gray-600 mt-2">Please check your connection and try again</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Stocktakes</h1>
+          <p className="text-gray-600 mt-1">Count each warehouse, review the variances and post the adjustments</p>
+        </div>
+        <Button
+          className="bg-blue-600 hover:bg-blue-700 text-white"
+          onClick={() => setIsNewModalOpen(true)}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          New Stocktake
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="all">All Status</option>
+            <option value="counting">Counting</option>
+            <option value="posted">Posted</option>
+            <option value="cancelled">Cancelled</option>
+          </select>
+        </CardContent>
+      </Card>
+
+      {/* Stocktakes Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold text-gray-900">
+            Stocktakes ({filteredStocktakes.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {filteredStocktakes.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="text-gray-400 mb-4">
+                <ClipboardCheck className="w-16 h-16 mx-auto" />
+              </div>
+              <h3 className="text-xl font-medium text-gray-900 mb-2">No stocktakes found</h3>
+              <p className="text-gray-600 mb-6">
+                {statusFilter !== 'all'
+                  ? 'Try a different status or start a new stocktake.'
+                  : 'Start a stocktake to count a warehouse location.'
+                }
+              </p>
+              <Button
+                className="bg-blue-600 hover:bg-blue-700 text-white"
+                onClick={() => setIsNewModalOpen(true)}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Start First Stocktake
+              </Button>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Stocktake #</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Location</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Started</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Counted</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Net Impact</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Counted By</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Approved By</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Status</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredStocktakes.map((stocktake) => {
+                    const netImpact = getNetImpact(stocktake);
+
+                    return (
+                      <tr key={stocktake.id} className="border-b border-gray-100 hover:bg-gray-50">
+                        <td className="py-3 px-4 font-medium text-gray-900">{stocktake.stocktake_number}</td>
+                        <td className="py-3 px-4 text-gray-700">{getWarehouseLocationName(stocktake.warehouse_location_id)}</td>
+                        <td className="py-3 px-4 text-gray-700">{formatDate(stocktake.created_at)}</td>
+                        <td className="py-3 px-4 text-gray-700">{getCountedSummary(stocktake)}</td>
+                        <td className={`py-3 px-4 font-medium ${netImpact < 0 ? 'text-red-600' : netImpact > 0 ? 'text-green-600' : 'text-gray-700'}`}>
+                          {formatCurrency(netImpact)}
+                        </td>
+                        <td className="py-3 px-4 text-gray-700">{stocktake.counted_by || '-'}</td>
+                        <td className="py-3 px-4 text-gray-700">
+                          {stocktake.approved_by_email || '-'}
+                          {stocktake.posted_at && (
+                            <div className="text-xs text-gray-500">{formatDate(stocktake.posted_at)}</div>
+                          )}
+                        </td>
+                        <td className="py-3 px-4">
+                          <Badge className={getStatusColor(stocktake.status)}>
+                            {stocktake.status}
+                          </Badge>
+                        </td>
+                        <td className="py-3 px-4">
+                          <div className="flex items-center gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setOpenStocktakeId(stocktake.id)}
+                              className={stocktake.status === 'counting' ? 'text-blue-600 hover:text-blue-700' : 'text-gray-600 hover:text-gray-700'}
+                              title={stocktake.status === 'counting' ? 'Enter counts' : 'View variances'}
+                            >
+                              {stocktake.status === 'counting' ? <ClipboardCheck className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                            </Button>
+                            {stocktake.status === 'counting' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleCancel(stocktake)}
+                                disabled={cancelStocktake.isPending}
+                                className="text-red-600 hover:text-red-700"
+                                title="Cancel stocktake"
+                              >
+                                <XCircle className="w-4 h-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <NewStocktakeModal
+        isOpen={isNewModalOpen}
+        onClose={() => setIsNewModalOpen(false)}
+        onCreated={handleCreated}
+        busyLocationIds={busyLocationIds}
+      />
+
+      {openStocktake && (
+        <StocktakeCountModal
+          key={openStocktake.id}
+          isOpen
+          onClose={() => setOpenStocktakeId(undefined)}
+          stocktake={openStocktake}
+          warehouseName={getWarehouseLocationName(openStocktake.warehouse_location_id)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default StocktakeManager;
@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Plus,
+  Search,
+  Edit,
+  Trash2,
+  Truck
+} from 'lucide-react';
+import { useSuppliers, useDeleteSupplier } from '@/hooks/useSuppliers';
+import { useToast } from '@/hooks/use-toast';
+import SupplierModal from '@/components/modals/SupplierModal';
+import { Tables } from '@/integrations/supabase/types';
+
+type Supplier = Tables<'suppliers'>;
+
+const SupplierManager = () => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedSupplier, setSelectedSupplier] = useState<Supplier | undefined>();
+
+  const { data: suppliers = [], isLoading, error } = useSuppliers();
+  const deleteSupplier = useDeleteSupplier();
+  const { toast } = useToast();
+
+  const handleDelete = async (supplierId: string) => {
+    if (confirm('Are you sure you want to delete this supplier?')) {
+      try {
+        await deleteSupplier.mutateAsync(supplierId);
+        toast({
+          title: "Success",
+          description: "Supplier deleted successfully",
+        });
+      } catch (error) {
+        console.error('Delete error:', error);
+        toast({
+          title: "Error",
+          description: "Suppliers with purchase orders cannot be deleted",
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  const handleNewSupplier = () => {
+    setSelectedSupplier(undefined);
+    setIsModalOpen(true);
+  };
+
+  const handleEditSupplier = (supplier: Supplier) => {
+    setSelectedSupplier(supplier);
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setSelectedSupplier(undefined);
+  };
+
+  const filteredSuppliers = suppliers.filter(supplier =>
+    supplier.company_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (supplier.contact_name && supplier.contact_name.toLowerCase().includes(searchTerm.toLowerCase())) ||
+    (supplier.email && supplier.email.toLowerCase().includes(searchTerm.toLowerCase()))
+  );
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div className="text-center py-8">
+          <div className="text-lg">Loading suppliers...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div className="text-center py-8">
+          <div className="text-red-600 text-lg">Error loading suppliers</div>
+          <p className="text-gray-600 mt-2">Please check your connection and try again</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Suppliers</h1>
+          <p className="text-gray-600 mt-1">Keep track of the mills and merchants you buy stock from</p>
+        </div>
+        <Button className="bg-blue-600 hover:bg-blue-700 text-white" onClick={handleNewSupplier}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Supplier
+        </Button>
+      </div>
+
+      {/* Search */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+            <Input
+              placeholder="Search suppliers by company, contact name, or email..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Supplier Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold text-gray-900">
+            Suppliers ({filteredSuppliers.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {filteredSuppliers.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="text-gray-400 mb-4">
+                <Truck className="w-16 h-16 mx-auto" />
+              </div>
+              <h3 className="text-xl font-medium text-gray-900 mb-2">No suppliers found</h3>
+              <p className="text-gray-600 mb-6">
+                {searchTerm
+                  ? 'Try adjusting your search criteria.'
+                  : 'Start by adding your first supplier.'
+                }
+              </p>
+              <Button className="bg-blue-600 hover:bg-blue-700 text-white" onClick={handleNewSupplier}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add First Supplier
+              </Button>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Company</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Contact</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Email</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Phone</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Address</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredSuppliers.map((supplier) => (
+                    <tr key={supplier.id} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-3 px-4 font-medium text-gray-900">
+                        {supplier.company_name}
+                        {supplier.notes && <p className="text-xs text-gray-500 font-normal">{supplier.notes}</p>}
+                      </td>
+                      <td className="py-3 px-4 text-gray-700">{supplier.contact_name || '-'}</td>
+                      <td className="py-3 px-4 text-gray-700">{supplier.email || '-'}</td>
+                      <td className="py-3 px-4 text-gray-700">{supplier.phone || '-'}</td>
+                      <td className="py-3 px-4 text-gray-700">{supplier.address || '-'}</td>
+                      <td className="py-3 px-4">
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleEditSupplier(supplier)}
+                            className="text-gray-600 hover:text-gray-700"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(supplier.id)}
+                            className="text-red-600 hover:text-red-700"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <SupplierModal
+        isOpen={isModalOpen}
+        onClose={handleCloseModal}
+        supplier={selectedSupplier}
+      />
+    </div>
+  );
+};
+
+export default SupplierManager;
@@ -9,22 +9,40 @@ import {
   Search, 
   Edit, 
   Trash2, 
-  Warehouse
+  Warehouse,
+  Boxes,
+  ArrowRightLeft,
+  PackageCheck,
+  XCircle
 } from 'lucide-react';
 import { useWarehouseLocations, useDeleteWarehouseLocation } from '@/hooks/useWarehouseLocations';
+import { useInventoryStock } from '@/hooks/useInventory';
+import { useStockTransfers, useReceiveStockTransfer, useCancelStockTransfer } from '@/hooks/useStockTransfers';
 import { useToast } from '@/hooks/use-toast';
 import WarehouseModal from '@/components/modals/WarehouseModal';
+import WarehouseStockModal from '@/components/modals/WarehouseStockModal';
+import StockTransferModal from '@/components/modals/StockTransferModal';
 import { Tables } from '@/integrations/supabase/types';
 
 type WarehouseLocation = Tables<'warehouse_locations'>;
+type StockTransfer = Tables<'stock_transfers'> & {
+  stock_transfer_items: (Tables<'stock_transfer_items'> & { inventory: { name: string } | null })[];
+};
 
 const WarehouseManager = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedWarehouse, setSelectedWarehouse] = useState<WarehouseLocation | undefined>();
+  const [isStockModalOpen, setIsStockModalOpen] = useState(false);
+  const [isTransferModalOpen, setIsTransferModalOpen] = useState(false);
+  const [transferFromId, setTransferFromId] = useState<string | undefined>();
   
   const { data: warehouses = [], isLoading, error } = useWarehouseLocations();
+  const { data: stock = [] } = useInventoryStock();
+  const { data: transfers = [] } = useStockTransfers();
   const deleteWarehouse = useDeleteWarehouseLocation();
+  const receiveTransfer = useReceiveStockTransfer();
+  const cancelTransfer = useCancelStockTransfer();
   const { toast } = useToast();
 
   const handleDelete = async (warehouseId: string) => {
@@ -39,7 +57,7 @@ const WarehouseManager = () => {
         console.error('Delete error:', error);
         toast({
           title: "Error",
-          description: "Failed to delete warehouse location",
+          description: error instanceof Error ? error.message : "Failed to delete warehouse location",
           variant: "destructive",
         });
       }
@@ -56,6 +74,92 @@ const WarehouseManager = () => {
     setIsModalOpen(true);
   };
 
+  const handleViewStock = (warehouse: WarehouseLocation) => {
+    setSelectedWarehouse(warehouse);
+    setIsStockModalOpen(true);
+  };
+
+  const handleNewTransfer = (fromWarehouseLocationId?: string) => {
+    setTransferFromId(fromWarehouseLocationId);
+    setIsTransferModalOpen(true);
+  };
+
+  const handleReceiveTransfer = async (transfer: StockTransfer) => {
+    try {
+      await receiveTransfer.mutateAsync(transfer.id);
+      toast({
+        title: "Success",
+        description: `${transfer.transfer_number} received at ${getWarehouseLocationName(transfer.to_warehouse_location_id)}`,
+      });
+    } catch (error) {
+      console.error('Receive transfer error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to receive transfer",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCancelTransfer = async (transfer: StockTransfer) => {
+    if (confirm(`Cancel ${transfer.transfer_number}? The stock will go back to ${getWarehouseLocationName(transfer.from_warehouse_location_id)}.`)) {
+      try {
+        await cancelTransfer.mutateAsync(transfer.id);
+        toast({
+          title: "Success",
+          description: `${transfer.transfer_number} cancelled`,
+        });
+      } catch (error) {
+        console.error('Cancel transfer error:', error);
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to cancel transfer",
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  const getWarehouseLocationName = (locationId: string | null) => {
+    if (!locationId) return 'a removed location';
+    return warehouses.find(loc => loc.id === locationId)?.name || 'a removed location';
+  };
+
+  const getStockSummary = (warehouseId: string) => {
+    const rows = stock.filter(row => row.warehouse_location_id === warehouseId && row.quantity > 0);
+    const incoming = transfers
+      .filter(transfer => transfer.status === 'in_transit' && transfer.to_warehouse_location_id === warehouseId)
+      .reduce((sum, transfer) => sum + transfer.stock_transfer_items.reduce((total, line) => total + line.quantity, 0), 0);
+    return {
+      items: rows.length,
+      units: rows.reduce((sum, row) => sum + row.quantity, 0),
+      incoming
+    };
+  };
+
+  const getTransferSummary = (transfer: StockTransfer) => {
+    return transfer.stock_transfer_items
+      .map(line => `${line.quantity}x ${line.inventory?.name || 'Removed item'}`)
+      .join(', ');
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'received': return 'bg-green-100 text-green-700 hover:bg-green-200';
+      case 'in_transit': return 'bg-orange-100 text-orange-700 hover:bg-orange-200';
+      case 'cancelled': return 'bg-gray-100 text-gray-700 hover:bg-gray-200';
+      default: return 'bg-gray-100 text-gray-700 hover:bg-gray-200';
+    }
+  };
+
   const filteredWarehouses = warehouses.filter(warehouse =>
     warehouse.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     (warehouse.address && warehouse.address.toLowerCase().includes(searchTerm.toLowerCase()))
@@ -88,12 +192,18 @@ const WarehouseManager = () => {
       <div className="flex justify-between items-center">
         <div>
           <h1 className="text-3xl font-bold text-gray-900">Warehouse Management</h1>
-          <p className="text-gray-600 mt-1">Manage your warehouse locations and addresses</p>
+          <p className="text-gray-600 mt-1">Manage your warehouse locations, the stock at each site and transfers between them</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => handleNewTransfer()} disabled={warehouses.length < 2}>
+            <ArrowRightLeft className="w-4 h-4 mr-2" />
+            New Transfer
+          </Button>
+          <Button className="bg-blue-600 hover:bg-blue-700 text-white" onClick={handleNewWarehouse}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Warehouse
+          </Button>
         </div>
-        <Button className="bg-blue-600 hover:bg-blue-700 text-white" onClick={handleNewWarehouse}>
-          <Plus className="w-4 h-4 mr-2" />
-          Add Warehouse
-        </Button>
       </div>
 
       {/* Search */}
@@ -138,46 +248,159 @@ const WarehouseManager = () => {
             </div>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {filteredWarehouses.map((warehouse) => (
-                <Card key={warehouse.id} className="hover:shadow-md transition-shadow">
-                  <CardContent className="pt-6">
-                    <div className="flex items-start justify-between mb-4">
-                      <div className="flex items-center">
-                        <Warehouse className="w-8 h-8 text-blue-600 mr-3" />
-                        <div>
-                          <h3 className="font-semibold text-gray-900">{warehouse.name}</h3>
-                          <p className="text-sm text-gray-600">{warehouse.address || 'No address provided'}</p>
+              {filteredWarehouses.map((warehouse) => {
+                const summary = getStockSummary(warehouse.id);
+                return (
+                  <Card key={warehouse.id} className="hover:shadow-md transition-shadow">
+                    <CardContent className="pt-6">
+                      <div className="flex items-start justify-between mb-4">
+                        <div className="flex items-center">
+                          <Warehouse className="w-8 h-8 text-blue-600 mr-3" />
+                          <div>
+                            <h3 className="font-semibold text-gray-900">{warehouse.name}</h3>
+                            <p className="text-sm text-gray-600">{warehouse.address || 'No address provided'}</p>
+                          </div>
+                        </div>
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-2 mb-4 text-sm">
+                        <div className="p-2 bg-gray-50 rounded">
+                          <div className="text-gray-600">Items</div>
+                          <div className="font-semibold text-gray-900">{summary.items}</div>
+                        </div>
+                        <div className="p-2 bg-gray-50 rounded">
+                          <div className="text-gray-600">Units on hand</div>
+                          <div className="font-semibold text-gray-900">{summary.units}</div>
                         </div>
+                        {summary.incoming > 0 && (
+                          <div className="col-span-2 text-orange-700">
+                            {summary.incoming} units in transit to this site
+                          </div>
+                        )}
                       </div>
-                    </div>
-                    
-                    <div className="flex items-center justify-between">
-                      <Badge variant="outline" className="text-xs">
-                        Created {new Date(warehouse.created_at).toLocaleDateString()}
-                      </Badge>
                       
-                      <div className="flex items-center gap-2">
-                        <Button 
-                          variant="ghost" 
-                          size="sm" 
-                          onClick={() => handleEditWarehouse(warehouse)}
-                          className="text-gray-600 hover:text-gray-700"
-                        >
-                          <Edit className="w-4 h-4" />
-                        </Button>
-                        <Button 
-                          variant="ghost" 
-                          size="sm" 
-                          onClick={() => handleDelete(warehouse.id)}
-                          className="text-red-600 hover:text-red-700"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
+                      <div className="flex items-center justify-between">
+                        <Badge variant="outline" className="text-xs">
+                          Created {new Date(warehouse.created_at).toLocaleDateString()}
+                        </Badge>
+                        
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleViewStock(warehouse)}
+                            className="text-blue-600 hover:text-blue-700"
+                            title="View stock"
+                          >
+                            <Boxes className="w-4 h-4" />
+                          </Button>
+                          {summary.units > 0 && warehouses.length > 1 && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleNewTransfer(warehouse.id)}
+                              className="text-purple-600 hover:text-purple-700"
+                              title="Transfer stock"
+                            >
+                              <ArrowRightLeft className="w-4 h-4" />
+                            </Button>
+                          )}
+                          <Button 
+                            variant="ghost" 
+                            size="sm" 
+                            onClick={() => handleEditWarehouse(warehouse)}
+                            className="text-gray-600 hover:text-gray-700"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button 
+                            variant="ghost" 
+                            size="sm" 
+                            onClick={() => handleDelete(warehouse.id)}
+                            className="text-red-600 hover:text-red-700"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
                       </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Stock Transfers */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold text-gray-900">
+            Stock Transfers ({transfers.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {transfers.length === 0 ? (
+            <div className="text-center py-8 text-gray-600">
+              No stock has been transferred between locations yet.
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Transfer #</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">From</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">To</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Items</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Dispatched</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Status</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {transfers.map((transfer) => (
+                    <tr key={transfer.id} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-3 px-4 font-medium text-gray-900">{transfer.transfer_number}</td>
+                      <td className="py-3 px-4 text-gray-700">{getWarehouseLocationName(transfer.from_warehouse_location_id)}</td>
+                      <td className="py-3 px-4 text-gray-700">{getWarehouseLocationName(transfer.to_warehouse_location_id)}</td>
+                      <td className="py-3 px-4 text-gray-700 text-sm">{getTransferSummary(transfer)}</td>
+                      <td className="py-3 px-4 text-gray-700">{formatDate(transfer.dispatched_at)}</td>
+                      <td className="py-3 px-4">
+                        <Badge className={getStatusColor(transfer.status)}>
+                          {transfer.status.replace('_', ' ')}
+                        </Badge>
+                      </td>
+                      <td className="py-3 px-4">
+                        {transfer.status === 'in_transit' && (
+                          <div className="flex items-center gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleReceiveTransfer(transfer)}
+                              className="text-green-600 hover:text-green-700"
+                              title="Receive at destination"
+                              disabled={receiveTransfer.isPending}
+                            >
+                              <PackageCheck className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleCancelTransfer(transfer)}
+                              className="text-red-600 hover:text-red-700"
+                              title="Cancel transfer"
+                              disabled={cancelTransfer.isPending}
+                            >
+                              <XCircle className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
             </div>
           )}
         </CardContent>
@@ -188,6 +411,18 @@ const WarehouseManager = () => {
         onClose={() => setIsModalOpen(false)}
         warehouse={selectedWarehouse}
       />
+
+      <WarehouseStockModal
+        isOpen={isStockModalOpen}
+        onClose={() => setIsStockModalOpen(false)}
+        warehouse={selectedWarehouse}
+      />
+
+      <StockTransferModal
+        isOpen={isTransferModalOpen}
+        onClose={() => setIsTransferModalOpen(false)}
+        fromWarehouseLocationId={transferFromId}
+      />
     </div>
   );
 };
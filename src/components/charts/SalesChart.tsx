@@ -21,11 +21,15 @@ const SalesChart = () => {
           status,
           is_backdated,
           total_amount,
+          subtotal,
+          discount_amount,
           items:invoice_items (
             quantity,
             unit_price,
+            line_total,
             description,
-            inventory:inventory_item_id ( name )
+            inventory:inventory_item_id ( name ),
+            credit_note_items ( line_total )
           )
         `)
         .eq('status', 'paid');
@@ -42,19 +46,27 @@ const SalesChart = () => {
         return [];
       }
 
-      // Flatten items; fallback to invoice total when no items exist (historical invoices)
+      // Flatten items; fallback to invoice total when no items exist (historical invoices).
+      // Sales are net of discounts: line_total already excludes the line discount and
+      // the invoice discount is shared across lines in proportion to their value.
+      // Credit notes are stored net of the invoice discount and come straight off.
       const combinedItems = paidInvoices.flatMap((inv: any) => {
         const items = inv.items || [];
+        const subtotal = Number(inv.subtotal) || 0;
+        const discountShare = subtotal > 0 ? (Number(inv.discount_amount) || 0) / subtotal : 0;
         if (items.length > 0) {
           return items.map((it: any) => ({
             ...it,
+            sales_amount: (Number(it.line_total) || 0) * (1 - discountShare)
+              - (it.credit_note_items || []).reduce((sum: number, credit: { line_total: number }) => sum + (Number(credit.line_total) || 0), 0),
             invoice_issue_date: inv.issue_date
           }));
         }
         return [{
           description: 'Invoice Total',
           quantity: 1,
-          unit_price: Number(inv.total_amount) || 0,
+          unit_price: subtotal - (Number(inv.discount_amount) || 0),
+          sales_amount: subtotal - (Number(inv.discount_amount) || 0),
           inventory: null,
           invoice_issue_date: inv.issue_date
         }];
@@ -88,9 +100,7 @@ const SalesChart = () => {
         const monthName = months[date.getMonth()];
         // Use inventory name if available, otherwise use description
         const productName = item.inventory?.name || item.description || 'Unknown Product';
-        const qty = Number(item.quantity) || 0;
-        const price = Number(item.unit_price) || 0;
-        const salesAmount = qty * price;
+        const salesAmount = Number(item.sales_amount) || 0;
         
         console.log(`Adding ${salesAmount} for ${productName} in ${monthName}`);
         
@@ -5,14 +5,19 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { CalendarIcon, Plus, Trash2, Search, UserPlus, Clock } from 'lucide-react';
-import { format } from 'date-fns';
+import { addDays, format } from 'date-fns';
 import { useClients } from '@/hooks/useClients';
 import { useInventory } from '@/hooks/useInventory';
 import { useCreateBackdatedInvoice, useUpdateInvoice } from '@/hooks/useInvoices';
 import { useCreateInvoiceItems } from '@/hooks/useInvoiceItems';
+import { useCompanyInfo } from '@/hooks/useCompanyInfo';
+import { useInvoiceSettings } from '@/hooks/useInvoiceSettings';
+import { applyClientTaxRate, calculateInvoiceTotals, calculateLineAmounts, DiscountType, getDefaultTaxRate, roundMoney } from '@/lib/invoiceTotals';
+import { previewNextInvoiceNumber } from '@/lib/invoiceNumbering';
 import { useToast } from '@/hooks/use-toast';
 import { Tables } from '@/integrations/supabase/types';
 import ClientModal from './ClientModal';
@@ -34,6 +39,11 @@ interface InvoiceItem {
   quantity: number;
   unit_price: number;
   line_total: number;
+  tax_rate: number;
+  tax_amount: number;
+  discount_type: DiscountType;
+  discount_value: number;
+  discount_amount: number;
 }
 
 interface BackdatedInvoiceModalProps {
@@ -42,7 +52,7 @@ interface BackdatedInvoiceModalProps {
   invoice?: Invoice;
 }
 
-type InvoiceStatus = 'draft' | 'pending' | 'paid' | 'overdue';
+type InvoiceStatus = 'draft' | 'pending' | 'partially_paid' | 'paid' | 'overdue';
 
 const BackdatedInvoiceModal: React.FC<BackdatedInvoiceModalProps> = ({ isOpen, onClose, invoice }) => {
   const [formData, setFormData] = useState<{
@@ -52,17 +62,24 @@ const BackdatedInvoiceModal: React.FC<BackdatedInvoiceModalProps> = ({ isOpen, o
     due_date: Date;
     notes: string;
     status: InvoiceStatus;
+    discount_type: DiscountType;
+    discount_value: number;
+    wht_rate: number;
   }>({
     client_id: '',
     invoice_number: '',
     issue_date: new Date(),
     due_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
     notes: '',
-    status: 'draft'
+    status: 'draft',
+    discount_type: 'percentage',
+    discount_value: 0,
+    wht_rate: 0
   });
 
+  const { data: companyInfo } = useCompanyInfo();
   const [items, setItems] = useState<InvoiceItem[]>([
-    { id: '1', inventory_name: '', description: '', quantity: 1, unit_price: 0, line_total: 0 }
+    { id: '1', inventory_name: '', description: '', quantity: 1, unit_price: 0, line_total: 0, tax_rate: getDefaultTaxRate(undefined, companyInfo?.vat_rate), tax_amount: 0, discount_type: 'percentage', discount_value: 0, discount_amount: 0 }
   ]);
 
   const [clientSearch, setClientSearch] = useState('');
@@ -75,6 +92,7 @@ const BackdatedInvoiceModal: React.FC<BackdatedInvoiceModalProps> = ({ isOpen, o
   const createBackdatedInvoice = useCreateBackdatedInvoice();
   const updateInvoice = useUpdateInvoice();
   const createInvoiceItems = useCreateInvoiceItems();
+  const { defaultDueDays, defaultTerms } = useInvoiceSettings();
   const { toast } = useToast();
 
   // Filter clients based on search
@@ -83,6 +101,16 @@ const BackdatedInvoiceModal: React.FC<BackdatedInvoiceModalProps> = ({ isOpen, o
     client.contact_name.toLowerCase().includes(clientSearch.toLowerCase())
   );
 
+  const getClientTaxRate = (clientId: string) => {
+    return getDefaultTaxRate(clients.find(c => c.id === clientId), companyInfo?.vat_rate);
+  };
+
+  const handleClientChange = (clientId: string) => {
+    const previousRate = getClientTaxRate(formData.client_id);
+    setFormData(prev => ({ ...prev, client_id: clientId }));
+    setItems(prevItems => applyClientTaxRate(prevItems, previousRate, getClientTaxRate(clientId)));
+  };
+
   // Filter inventory based on search (don't check availability for backdated invoices)
   const getFilteredInventory = (searchTerm: string) => {
     return inventory.filter(item => 
@@ -100,7 +128,10 @@ const BackdatedInvoiceModal: React.FC<BackdatedInvoiceModalProps> = ({ isOpen, o
         issue_date: new Date(invoice.issue_date),
         due_date: new Date(invoice.due_date),
         notes: invoice.notes || '',
-        status: invoice.status as InvoiceStatus
+        status: invoice.status as InvoiceStatus,
+        discount_type: invoice.discount_type as DiscountType,
+        discount_value: invoice.discount_value,
+        wht_rate: invoice.wht_rate
       });
       
       setItems([{
@@ -109,44 +140,47 @@ const BackdatedInvoiceModal: React.FC<BackdatedInvoiceModalProps> = ({ isOpen, o
         description: 'Steel fabrication services',
         quantity: 1,
         unit_price: invoice.subtotal,
-        line_total: invoice.subtotal
+        line_total: invoice.subtotal,
+        tax_rate: invoice.subtotal > invoice.discount_amount
+          ? roundMoney(invoice.tax_amount / (invoice.subtotal - invoice.discount_amount) * 100)
+          : 0,
+        tax_amount: invoice.tax_amount,
+        discount_type: 'percentage',
+        discount_value: 0,
+        discount_amount: 0
       }]);
     } else if (!invoice && isOpen) {
-      const invoiceCount = Date.now().toString().slice(-4);
+      // Blank takes the next number in the sequence; the original paper
+      // number can be typed in instead
       setFormData({
         client_id: '',
-        invoice_number: `BD-INV-${invoiceCount}`,
+        invoice_number: '',
         issue_date: new Date(),
-        due_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
-        notes: '',
-        status: 'draft'
+        due_date: addDays(new Date(), defaultDueDays),
+        notes: defaultTerms,
+        status: 'draft',
+        discount_type: 'percentage',
+        discount_value: 0,
+        wht_rate: 0
       });
-      setItems([{ id: '1', inventory_name: '', description: '', quantity: 1, unit_price: 0, line_total: 0 }]);
+      // No client is chosen yet, so the first line starts at the company rate
+      setItems([{ id: '1', inventory_name: '', description: '', quantity: 1, unit_price: 0, line_total: 0, tax_rate: getDefaultTaxRate(undefined, companyInfo?.vat_rate), tax_amount: 0, discount_type: 'percentage', discount_value: 0, discount_amount: 0 }]);
       setInventorySearches({});
     }
-  }, [invoice, isOpen]);
-
-  const calculateItemTotal = (quantity: number, unitPrice: number) => {
-    return quantity * unitPrice;
-  };
+  }, [invoice, isOpen, defaultDueDays, defaultTerms, companyInfo?.vat_rate]);
 
-  const calculateSubtotal = () => {
-    return items.reduce((sum, item) => sum + item.line_total, 0);
-  };
+  const totals = calculateInvoiceTotals(items, formData);
 
   const handleItemChange = (id: string, field: keyof InvoiceItem, value: string | number) => {
     setItems(items.map(item => {
       if (item.id === id) {
         const updatedItem = { ...item, [field]: value };
         
-        if (field === 'quantity' || field === 'unit_price') {
-          updatedItem.line_total = calculateItemTotal(
-            field === 'quantity' ? Number(value) : updatedItem.quantity,
-            field === 'unit_price' ? Number(value) : updatedItem.unit_price
-          );
+        if (field === 'quantity' || field === 'unit_price' || field === 'tax_rate' || field === 'discount_value') {
+          updatedItem[field] = Number(value);
         }
         
-        return updatedItem;
+        return { ...updatedItem, ...calculateLineAmounts(updatedItem) };
       }
       return item;
     }));
@@ -161,10 +195,9 @@ const BackdatedInvoiceModal: React.FC<BackdatedInvoiceModalProps> = ({ isOpen, o
             ...item,
             inventory_name: inventoryItem.name,
             description: inventoryItem.name,
-            unit_price: inventoryItem.unit_price,
-            line_total: calculateItemTotal(item.quantity, inventoryItem.unit_price)
+            unit_price: inventoryItem.unit_price
           };
-          return updatedItem;
+          return { ...updatedItem, ...calculateLineAmounts(updatedItem) };
         }
         return item;
       }));
@@ -183,7 +216,12 @@ const BackdatedInvoiceModal: React.FC<BackdatedInvoiceModalProps> = ({ isOpen, o
       description: '',
       quantity: 1,
       unit_price: 0,
-      line_total: 0
+      line_total: 0,
+      tax_rate: getClientTaxRate(formData.client_id),
+      tax_amount: 0,
+      discount_type: 'percentage',
+      discount_value: 0,
+      discount_amount: 0
     };
     setItems([...items, newItem]);
   };
@@ -238,7 +276,6 @@ const BackdatedInvoiceModal: React.FC<BackdatedInvoiceModalProps> = ({ isOpen, o
       return;
     }
 
-    const subtotal = calculateSubtotal();
     const itemsSummary = items.map(item => `${item.quantity}x ${item.description}`).join(', ');
     const invoiceData = {
       client_id: formData.client_id,
@@ -247,9 +284,14 @@ const BackdatedInvoiceModal: React.FC<BackdatedInvoiceModalProps> = ({ isOpen, o
       due_date: format(formData.due_date, 'yyyy-MM-dd'),
       notes: formData.notes,
       status: formData.status,
-      subtotal: subtotal,
-      tax_amount: 0,
-      total_amount: subtotal,
+      subtotal: totals.subtotal,
+      discount_type: formData.discount_type,
+      discount_value: formData.discount_value,
+      discount_amount: totals.discount_amount,
+      tax_amount: totals.tax_amount,
+      wht_rate: formData.wht_rate,
+      wht_amount: totals.wht_amount,
+      total_amount: totals.total_amount,
       items_summary: itemsSummary,
       is_backdated: true
     };
@@ -268,13 +310,18 @@ const BackdatedInvoiceModal: React.FC<BackdatedInvoiceModalProps> = ({ isOpen, o
         invoiceId = newInvoice.id;
         
         // Create invoice items (no inventory reduction for backdated invoices)
-        const invoiceItems = items.map(item => ({
+        const invoiceItems = items.map((item, index) => ({
           invoice_id: invoiceId,
           inventory_item_id: null, // Backdated invoices don't link to current inventory
           description: item.description,
           quantity: item.quantity,
           unit_price: item.unit_price,
-          line_total: item.line_total
+          line_total: item.line_total,
+          tax_rate: item.tax_rate,
+          tax_amount: totals.lines[index].tax_amount,
+          discount_type: item.discount_type,
+          discount_value: item.discount_value,
+          discount_amount: item.discount_amount
         }));
         
         await createInvoiceItems.mutateAsync(invoiceItems);
@@ -289,7 +336,7 @@ const BackdatedInvoiceModal: React.FC<BackdatedInvoiceModalProps> = ({ isOpen, o
       console.error('Save error:', error);
       toast({
         title: "Error",
-        description: "Failed to save backdated invoice",
+        description: error instanceof Error ? error.message : "Failed to save backdated invoice",
         variant: "destructive",
       });
     }
@@ -351,7 +398,7 @@ const BackdatedInvoiceModal: React.FC<BackdatedInvoiceModalProps> = ({ isOpen, o
                               key={client.id}
                               className="px-3 py-2 hover:bg-gray-100 cursor-pointer"
                               onClick={() => {
-                                setFormData({ ...formData, client_id: client.id });
+                                handleClientChange(client.id);
                                 setClientSearch(client.company_name);
                                 setIsClientDropdownOpen(false);
                               }}
@@ -382,7 +429,7 @@ const BackdatedInvoiceModal: React.FC<BackdatedInvoiceModalProps> = ({ isOpen, o
                 </div>
                 {!clientSearch && (
                   <Select value={formData.client_id} onValueChange={(value) => {
-                    setFormData({ ...formData, client_id: value });
+                    handleClientChange(value);
                     const selectedClient = clients.find(c => c.id === value);
                     if (selectedClient) {
                       setClientSearch(selectedClient.company_name);
@@ -403,13 +450,19 @@ const BackdatedInvoiceModal: React.FC<BackdatedInvoiceModalProps> = ({ isOpen, o
               </div>
 
               <div>
-                <Label htmlFor="invoice_number">Invoice Number *</Label>
+                <Label htmlFor="invoice_number">Invoice Number{invoice && ' *'}</Label>
                 <Input
                   id="invoice_number"
                   value={formData.invoice_number}
                   onChange={(e) => setFormData({ ...formData, invoice_number: e.target.value })}
-                  required
+                  placeholder={previewNextInvoiceNumber(companyInfo, formData.issue_date)}
+                  required={!!invoice}
                 />
+                {!invoice && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Enter the original invoice number, or leave blank to use the next number in the sequence.
+                  </p>
+                )}
               </div>
             </div>
 
@@ -428,7 +481,12 @@ const BackdatedInvoiceModal: React.FC<BackdatedInvoiceModalProps> = ({ isOpen, o
                     <Calendar
                       mode="single"
                       selected={formData.issue_date}
-                      onSelect={(date) => date && setFormData({ ...formData, issue_date: date })}
+                      onSelect={(date) => date && setFormData({
+                        ...formData,
+                        issue_date: date,
+                        // New invoices keep the default payment window from the issue date
+                        due_date: invoice ? formData.due_date : addDays(date, defaultDueDays)
+                      })}
                       initialFocus
                       className="p-3 pointer-events-auto"
                     />
@@ -468,10 +526,17 @@ const BackdatedInvoiceModal: React.FC<BackdatedInvoiceModalProps> = ({ isOpen, o
                 <SelectContent>
                   <SelectItem value="draft">Draft</SelectItem>
                   <SelectItem value="pending">Pending</SelectItem>
-                  <SelectItem value="paid">Paid</SelectItem>
                   <SelectItem value="overdue">Overdue</SelectItem>
+                  {(formData.status === 'paid' || formData.status === 'partially_paid') && (
+                    <SelectItem value={formData.status} disabled>
+                      {formData.status === 'paid' ? 'Paid' : 'Partially Paid'}
+                    </SelectItem>
+                  )}
                 </SelectContent>
               </Select>
+              <p className="text-xs text-gray-500 mt-1">
+                Paid and partially paid are set automatically from the payments recorded on the invoice.
+              </p>
             </div>
 
             {/* Line Items */}
@@ -488,7 +553,7 @@ const BackdatedInvoiceModal: React.FC<BackdatedInvoiceModalProps> = ({ isOpen, o
                 {items.map((item) => (
                   <div key={item.id} className="border rounded-lg p-4">
                     <div className="grid grid-cols-12 gap-3 items-end">
-                      <div className="col-span-4">
+                      <div className="col-span-3">
                         <Label>Item</Label>
                         <div className="relative">
                           <Input
@@ -538,6 +603,17 @@ const BackdatedInvoiceModal: React.FC<BackdatedInvoiceModalProps> = ({ isOpen, o
                           onChange={(e) => handleItemChange(item.id, 'unit_price', Number(e.target.value))}
                         />
                       </div>
+                      <div className="col-span-2">
+                        <Label>VAT (%)</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.01"
+                          value={item.tax_rate}
+                          onChange={(e) => handleItemChange(item.id, 'tax_rate', Number(e.target.value))}
+                        />
+                      </div>
                       <div className="col-span-2">
                         <Label>Total</Label>
                         <Input
@@ -547,7 +623,7 @@ const BackdatedInvoiceModal: React.FC<BackdatedInvoiceModalProps> = ({ isOpen, o
                           className="bg-gray-50"
                         />
                       </div>
-                      <div className="col-span-2">
+                      <div className="col-span-1">
                         <Button
                           type="button"
                           variant="outline"
@@ -560,13 +636,39 @@ const BackdatedInvoiceModal: React.FC<BackdatedInvoiceModalProps> = ({ isOpen, o
                         </Button>
                       </div>
                     </div>
-                    <div className="mt-3">
-                      <Label>Description</Label>
-                      <Input
-                        placeholder="Item description..."
-                        value={item.description}
-                        onChange={(e) => handleItemChange(item.id, 'description', e.target.value)}
-                      />
+                    <div className="grid grid-cols-12 gap-3 mt-3">
+                      <div className="col-span-8">
+                        <Label>Description</Label>
+                        <Input
+                          placeholder="Item description..."
+                          value={item.description}
+                          onChange={(e) => handleItemChange(item.id, 'description', e.target.value)}
+                        />
+                      </div>
+                      <div className="col-span-4">
+                        <Label>Discount</Label>
+                        <div className="flex gap-2">
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={item.discount_value}
+                            onChange={(e) => handleItemChange(item.id, 'discount_value', Number(e.target.value))}
+                          />
+                          <Select
+                            value={item.discount_type}
+                            onValueChange={(value) => handleItemChange(item.id, 'discount_type', value)}
+                          >
+                            <SelectTrigger className="w-20">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="percentage">%</SelectItem>
+                              <SelectItem value="fixed">₦</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
                     </div>
                   </div>
                 ))}
@@ -588,9 +690,69 @@ const BackdatedInvoiceModal: React.FC<BackdatedInvoiceModalProps> = ({ isOpen, o
             {/* Summary */}
             <div className="border-t pt-4">
               <div className="flex justify-end">
-                <div className="text-right">
-                  <div className="text-lg font-medium">
-                    Total: {formatCurrency(calculateSubtotal())}
+                <div className="w-72 space-y-2">
+                  <div className="flex justify-between">
+                    <span>Subtotal:</span>
+                    <span>{formatCurrency(totals.subtotal)}</span>
+                  </div>
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <span>Discount</span>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={formData.discount_value}
+                        onChange={(e) => setFormData(prev => ({ ...prev, discount_value: parseFloat(e.target.value) || 0 }))}
+                        className="h-8 w-20"
+                      />
+                      <Select
+                        value={formData.discount_type}
+                        onValueChange={(value: DiscountType) => setFormData(prev => ({ ...prev, discount_type: value }))}
+                      >
+                        <SelectTrigger className="h-8 w-16">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="percentage">%</SelectItem>
+                          <SelectItem value="fixed">₦</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <span>{totals.discount_amount > 0 ? `-${formatCurrency(totals.discount_amount)}` : formatCurrency(0)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>VAT:</span>
+                    <span>{formatCurrency(totals.tax_amount)}</span>
+                  </div>
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="backdated_apply_wht"
+                        checked={formData.wht_rate > 0}
+                        onCheckedChange={(checked) => setFormData(prev => ({
+                          ...prev,
+                          wht_rate: checked ? (companyInfo?.wht_rate || 5) : 0
+                        }))}
+                      />
+                      <Label htmlFor="backdated_apply_wht" className="font-normal">WHT</Label>
+                      {formData.wht_rate > 0 && (
+                        <Input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.01"
+                          value={formData.wht_rate}
+                          onChange={(e) => setFormData(prev => ({ ...prev, wht_rate: parseFloat(e.target.value) || 0 }))}
+                          className="h-8 w-20"
+                        />
+                      )}
+                    </div>
+                    <span>{totals.wht_amount > 0 ? `-${formatCurrency(totals.wht_amount)}` : formatCurrency(0)}</span>
+                  </div>
+                  <div className="flex justify-between text-lg font-medium border-t pt-2">
+                    <span>Total:</span>
+                    <span>{formatCurrency(totals.total_amount)}</span>
                   </div>
                 </div>
               </div>
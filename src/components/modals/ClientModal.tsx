@@ -4,6 +4,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { useCreateClient, useUpdateClient } from '@/hooks/useClients';
 import { Tables } from '@/integrations/supabase/types';
 import { useToast } from '@/hooks/use-toast';
@@ -23,6 +24,7 @@ const ClientModal: React.FC<ClientModalProps> = ({ isOpen, onClose, client }) =>
     email: '',
     phone: '',
     address: '',
+    vat_exempt: false,
   });
 
   const createClient = useCreateClient();
@@ -37,6 +39,7 @@ const ClientModal: React.FC<ClientModalProps> = ({ isOpen, onClose, client }) =>
         email: client.email || '',
         phone: client.phone || '',
         address: client.address || '',
+        vat_exempt: client.vat_exempt,
       });
     } else {
       setFormData({
@@ -45,6 +48,7 @@ const ClientModal: React.FC<ClientModalProps> = ({ isOpen, onClose, client }) =>
         email: '',
         phone: '',
         address: '',
+        vat_exempt: false,
       });
     }
   }, [client, isOpen]);
@@ -138,6 +142,14 @@ const ClientModal: React.FC<ClientModalProps> = ({ isOpen, onClose, client }) =>
               onChange={handleChange}
             />
           </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="vat_exempt"
+              checked={formData.vat_exempt}
+              onCheckedChange={(checked) => setFormData(prev => ({ ...prev, vat_exempt: checked === true }))}
+            />
+            <Label htmlFor="vat_exempt" className="font-normal">VAT exempt (no VAT charged on invoices)</Label>
+          </div>
           <div className="flex gap-2 pt-4">
             <Button type="button" variant="outline" onClick={onClose} className="flex-1">
               Cancel
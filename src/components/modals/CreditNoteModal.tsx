@@ -0,0 +1,258 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useCreateCreditNote } from '@/hooks/useCreditNotes';
+import { useToast } from '@/hooks/use-toast';
+import { Tables } from '@/integrations/supabase/types';
+import { calculateCreditLine, calculateCreditTotals } from '@/lib/invoiceTotals';
+import { formatSoldQuantity, fromBaseQuantity, toBaseQuantity } from '@/lib/units';
+
+interface CreditNoteModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  invoice: Tables<'invoices'>;
+  items: Tables<'invoice_items'>[];
+  creditNotes: (Tables<'credit_notes'> & { credit_note_items: Tables<'credit_note_items'>[] })[];
+}
+
+const CreditNoteModal: React.FC<CreditNoteModalProps> = ({ isOpen, onClose, invoice, items, creditNotes }) => {
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [issueDate, setIssueDate] = useState(new Date().toISOString().split('T')[0]);
+  const [reason, setReason] = useState('');
+  const [restock, setRestock] = useState(true);
+
+  const createCreditNote = useCreateCreditNote();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuantities({});
+      setIssueDate(new Date().toISOString().split('T')[0]);
+      setReason('');
+      setRestock(true);
+    }
+  }, [isOpen]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-NG', {
+      style: 'currency',
+      currency: 'NGN'
+    }).format(amount);
+  };
+
+  // Quantities already returned on earlier credit notes can't be credited again
+  const alreadyCredited = (itemId: string) => {
+    return creditNotes.reduce((sum, note) => (
+      sum + note.credit_note_items
+        .filter(line => line.invoice_item_id === itemId)
+        .reduce((lineSum, line) => lineSum + line.quantity, 0)
+    ), 0);
+  };
+
+  // Returns are entered in the unit the line was sold in and credited in the
+  // item's base unit, as the invoice line is stored
+  const lines = items.map(item => {
+    const available = Math.max(0, item.quantity - alreadyCredited(item.id));
+    const entered = parseFloat(quantities[item.id] || '') || 0;
+    const quantity = item.unit_name ? toBaseQuantity(entered, item.unit_factor) : entered;
+    // Stock is counted in whole base units, so a line that came out of
+    // inventory can't have part of one returned
+    const baseQuantity = item.unit_name ? entered * item.unit_factor : entered;
+    const isWholeQuantity = !item.inventory_item_id || Math.abs(baseQuantity - Math.round(baseQuantity)) < 1e-9;
+    return {
+      item,
+      available,
+      quantity,
+      isWholeQuantity,
+      ...calculateCreditLine(item, invoice, quantity)
+    };
+  });
+
+  const selectedLines = lines.filter(line => line.quantity > 0);
+  const totals = calculateCreditTotals(selectedLines, invoice.wht_rate);
+  const hasStockLines = selectedLines.some(line => line.item.inventory_item_id);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (selectedLines.length === 0) {
+      toast({
+        title: "Error",
+        description: "Enter a returned quantity for at least one line",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const partLine = selectedLines.find(line => !line.isWholeQuantity);
+    if (partLine) {
+      toast({
+        title: "Error",
+        description: `The returned quantity for ${partLine.item.description} must come to a whole number of the item's base unit`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const overLine = selectedLines.find(line => line.quantity > line.available);
+    if (overLine) {
+      toast({
+        title: "Error",
+        description: `Only ${formatSoldQuantity({ ...overLine.item, quantity: overLine.available })} of ${overLine.item.description} can still be credited`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await createCreditNote.mutateAsync({
+        invoiceId: invoice.id,
+        issueDate,
+        reason,
+        restock: restock && !invoice.is_backdated,
+        items: selectedLines.map(line => ({ invoice_item_id: line.item.id, quantity: line.quantity }))
+      });
+      toast({
+        title: "Success",
+        description: "Credit note created successfully",
+      });
+      onClose();
+    } catch (error) {
+      console.error('Credit note error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create credit note",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Credit Note for {invoice.invoice_number}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-2 px-2 font-medium text-gray-600">Description</th>
+                  <th className="text-right py-2 px-2 font-medium text-gray-600">Sold</th>
+                  <th className="text-right py-2 px-2 font-medium text-gray-600">Available</th>
+                  <th className="text-right py-2 px-2 font-medium text-gray-600">Return Qty</th>
+                  <th className="text-right py-2 px-2 font-medium text-gray-600">Credit</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map(line => (
+                  <tr key={line.item.id} className="border-b border-gray-100">
+                    <td className="py-2 px-2 text-gray-800">{line.item.description}</td>
+                    <td className="py-2 px-2 text-right text-gray-700">{formatSoldQuantity(line.item)}</td>
+                    <td className="py-2 px-2 text-right text-gray-700">{formatSoldQuantity({ ...line.item, quantity: line.available })}</td>
+                    <td className="py-2 px-2 text-right">
+                      <Input
+                        type="number"
+                        step="any"
+                        min="0"
+                        max={fromBaseQuantity(line.available, line.item.unit_factor)}
+                        value={quantities[line.item.id] || ''}
+                        onChange={(e) => setQuantities({ ...quantities, [line.item.id]: e.target.value })}
+                        disabled={line.available <= 0}
+                        className="w-24 ml-auto text-right"
+                        placeholder="0"
+                      />
+                    </td>
+                    <td className="py-2 px-2 text-right text-gray-900">
+                      {line.quantity > 0 ? formatCurrency(line.line_total + line.tax_amount) : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-end">
+            <div className="w-64 space-y-1 text-sm">
+              <div className="flex justify-between text-gray-700">
+                <span>Subtotal:</span>
+                <span>{formatCurrency(totals.subtotal)}</span>
+              </div>
+              <div className="flex justify-between text-gray-700">
+                <span>VAT:</span>
+                <span>{formatCurrency(totals.tax_amount)}</span>
+              </div>
+              {totals.wht_amount > 0 && (
+                <div className="flex justify-between text-gray-700">
+                  <span>Less WHT ({invoice.wht_rate}%):</span>
+                  <span>-{formatCurrency(totals.wht_amount)}</span>
+                </div>
+              )}
+              <div className="flex justify-between font-semibold text-blue-800 border-t border-blue-200 pt-1">
+                <span>Credit Total:</span>
+                <span>{formatCurrency(totals.total_amount)}</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="credit_note_date">Credit Note Date *</Label>
+              <Input
+                id="credit_note_date"
+                type="date"
+                value={issueDate}
+                onChange={(e) => setIssueDate(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="credit_note_reason">Reason</Label>
+            <Textarea
+              id="credit_note_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Damaged on delivery, wrong gauge supplied"
+              rows={2}
+            />
+          </div>
+
+          {/* Backdated invoices never took stock out, so there is nothing to put back */}
+          {!invoice.is_backdated && hasStockLines && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="credit_note_restock"
+                checked={restock}
+                onCheckedChange={(checked) => setRestock(checked === true)}
+              />
+              <Label htmlFor="credit_note_restock" className="font-normal">Return the credited quantities to inventory</Label>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={createCreditNote.isPending}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              {createCreditNote.isPending ? 'Saving...' : 'Create Credit Note'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CreditNoteModal;
@@ -6,13 +6,33 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { useCreateInventoryItem, useUpdateInventoryItem } from '@/hooks/useInventory';
+import { Plus, Trash2 } from 'lucide-react';
+import { useCreateInventoryItem, useUpdateInventoryItem, useInventoryUnits, useSaveInventoryUnits, useInventoryMovements } from '@/hooks/useInventory';
 import { useWarehouseLocations } from '@/hooks/useWarehouseLocations';
 import { useToast } from '@/hooks/use-toast';
+import { formatWeight, getPieceWeight, getWeightPerMetre, SECTION_TYPES, SHEET_GAUGES } from '@/lib/steelWeight';
+import { DEFAULT_BASE_UNIT } from '@/lib/units';
 import { Tables } from '@/integrations/supabase/types';
 
 type InventoryItem = Tables<'inventory'>;
 
+const emptyDimensions = {
+  section_type: '',
+  gauge: 0,
+  thickness_mm: 0,
+  width_mm: 0,
+  height_mm: 0,
+  outer_diameter_mm: 0,
+  length_m: 0,
+  grade: ''
+};
+
+interface UnitLine {
+  id: string;
+  unit_name: string;
+  factor: number;
+}
+
 interface InventoryModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -25,13 +45,22 @@ const InventoryModal: React.FC<InventoryModalProps> = ({ isOpen, onClose, item }
     description: '',
     quantity: 0,
     unit_price: 0,
+    cost_price: 0,
+    reorder_level: 25,
+    reorder_quantity: 0,
     category: '',
+    base_unit: DEFAULT_BASE_UNIT,
     status: 'in_stock' as 'in_stock' | 'low_stock' | 'out_of_stock',
-    warehouse_location_id: ''
+    warehouse_location_id: '',
+    ...emptyDimensions
   });
+  const [units, setUnits] = useState<UnitLine[]>([]);
 
   const createItem = useCreateInventoryItem();
   const updateItem = useUpdateInventoryItem();
+  const { data: allUnits } = useInventoryUnits();
+  const saveUnits = useSaveInventoryUnits();
+  const { data: movements = [] } = useInventoryMovements(item?.id);
   const { data: warehouseLocations = [] } = useWarehouseLocations();
   const { toast } = useToast();
 
@@ -42,22 +71,74 @@ const InventoryModal: React.FC<InventoryModalProps> = ({ isOpen, onClose, item }
         description: item.description || '',
         quantity: item.quantity,
         unit_price: item.unit_price,
+        cost_price: item.cost_price,
+        reorder_level: item.reorder_level,
+        reorder_quantity: item.reorder_quantity,
         category: item.category || '',
+        base_unit: item.base_unit,
         status: (item.status as 'in_stock' | 'low_stock' | 'out_of_stock') || 'in_stock',
-        warehouse_location_id: item.warehouse_location_id || ''
+        warehouse_location_id: item.warehouse_location_id || '',
+        section_type: item.section_type || '',
+        gauge: item.gauge || 0,
+        thickness_mm: item.thickness_mm || 0,
+        width_mm: item.width_mm || 0,
+        height_mm: item.height_mm || 0,
+        outer_diameter_mm: item.outer_diameter_mm || 0,
+        length_m: item.length_m || 0,
+        grade: item.grade || ''
       });
+      setUnits((allUnits || [])
+        .filter(unit => unit.inventory_item_id === item.id)
+        .map(unit => ({ id: unit.id, unit_name: unit.unit_name, factor: unit.factor })));
     } else {
       setFormData({
         name: '',
         description: '',
         quantity: 0,
         unit_price: 0,
+        cost_price: 0,
+        reorder_level: 25,
+        reorder_quantity: 0,
         category: '',
+        base_unit: DEFAULT_BASE_UNIT,
         status: 'in_stock',
-        warehouse_location_id: ''
+        warehouse_location_id: '',
+        ...emptyDimensions
       });
+      setUnits([]);
     }
-  }, [item, isOpen]);
+  }, [item, isOpen, allUnits]);
+
+  const updateUnit = (unitId: string, changes: Partial<UnitLine>) => {
+    setUnits(prev => prev.map(unit => unit.id === unitId ? { ...unit, ...changes } : unit));
+  };
+
+  // Stock and its history are counted in the base unit, so renaming it
+  // would change what they mean
+  const isBaseUnitLocked = !!item && (item.quantity !== 0 || movements.length > 0);
+
+  const section = SECTION_TYPES.find(type => type.value === formData.section_type);
+
+  // Only the dimensions the chosen section is measured by are kept
+  const usesDimension = (field: string) => !!section?.dimensions.some(dimension => dimension.field === field);
+  const dimensions = {
+    section_type: section ? section.value : null,
+    gauge: section?.value === 'sheet' && formData.gauge > 0 ? formData.gauge : null,
+    thickness_mm: usesDimension('thickness_mm') && formData.thickness_mm > 0 ? formData.thickness_mm : null,
+    width_mm: usesDimension('width_mm') && formData.width_mm > 0 ? formData.width_mm : null,
+    height_mm: usesDimension('height_mm') && formData.height_mm > 0 ? formData.height_mm : null,
+    outer_diameter_mm: usesDimension('outer_diameter_mm') && formData.outer_diameter_mm > 0 ? formData.outer_diameter_mm : null,
+    length_m: section && formData.length_m > 0 ? formData.length_m : null,
+    grade: formData.grade.trim() || null
+  };
+  const weightPerMetre = getWeightPerMetre(dimensions);
+  const pieceWeight = getPieceWeight(dimensions);
+
+  const handleGaugeChange = (value: string) => {
+    const gauge = parseInt(value) || 0;
+    const thickness = SHEET_GAUGES.find(entry => entry.gauge === gauge)?.thickness_mm;
+    setFormData({ ...formData, gauge, thickness_mm: thickness || formData.thickness_mm });
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -71,16 +152,39 @@ const InventoryModal: React.FC<InventoryModalProps> = ({ isOpen, onClose, item }
       });
       return;
     }
-    
+
+    if (units.some(unit => !unit.unit_name.trim() || unit.factor <= 0)) {
+      toast({
+        title: "Error",
+        description: "Give every alternate unit a name and how many base units it holds",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const baseUnit = formData.base_unit.trim() || DEFAULT_BASE_UNIT;
+    const unitPayload = units.map(unit => ({ unit_name: unit.unit_name.trim(), factor: unit.factor }));
+
     try {
       if (item) {
-        await updateItem.mutateAsync({ id: item.id, ...formData });
+        // Stock on hand only changes through Adjust Stock, which records why.
+        // The average cost is only sent when corrected here, so a delivery
+        // booked while the form was open keeps the average it set.
+        const { quantity: _quantity, cost_price, ...details } = formData;
+        await updateItem.mutateAsync({
+          id: item.id,
+          ...details,
+          ...dimensions,
+          base_unit: baseUnit,
+          ...(cost_price !== item.cost_price && { cost_price })
+        });
+        await saveUnits.mutateAsync({ inventoryItemId: item.id, units: unitPayload });
         toast({
           title: "Success",
           description: "Item updated successfully",
         });
       } else {
-        await createItem.mutateAsync(formData);
+        await createItem.mutateAsync({ item: { ...formData, ...dimensions, base_unit: baseUnit }, units: unitPayload });
         toast({
           title: "Success",
           description: "Item created successfully",
@@ -91,7 +195,7 @@ const InventoryModal: React.FC<InventoryModalProps> = ({ isOpen, onClose, item }
       console.error('Save error:', error);
       toast({
         title: "Error",
-        description: "Failed to save item",
+        description: error instanceof Error ? error.message : "Failed to save item",
         variant: "destructive",
       });
     }
@@ -99,7 +203,7 @@ const InventoryModal: React.FC<InventoryModalProps> = ({ isOpen, onClose, item }
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{item ? 'Edit Item' : 'Add New Item'}</DialogTitle>
         </DialogHeader>
@@ -135,7 +239,7 @@ const InventoryModal: React.FC<InventoryModalProps> = ({ isOpen, onClose, item }
           </div>
 
           <div>
-            <Label htmlFor="warehouse_location">Warehouse Location *</Label>
+            <Label htmlFor="warehouse_location">Default Location *</Label>
             <Select 
               value={formData.warehouse_location_id} 
               onValueChange={(value) => setFormData({ ...formData, warehouse_location_id: value })}
@@ -152,23 +256,92 @@ const InventoryModal: React.FC<InventoryModalProps> = ({ isOpen, onClose, item }
                 ))}
               </SelectContent>
             </Select>
+            <p className="text-xs text-gray-500 mt-1">
+              {item ? 'Sales ship from here by default' : 'Opening stock is held here, and sales ship from here by default'}
+            </p>
+          </div>
+
+          <div className="border rounded-lg p-4 space-y-3">
+            <div>
+              <Label htmlFor="base_unit">Base Unit *</Label>
+              <Input
+                id="base_unit"
+                value={formData.base_unit}
+                onChange={(e) => setFormData({ ...formData, base_unit: e.target.value })}
+                placeholder="e.g. pcs, rods, sheets, kg"
+                disabled={isBaseUnitLocked}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                {isBaseUnitLocked
+                  ? 'Stock, prices and costs are all per base unit, so it is fixed once the item has stock or stock movements'
+                  : 'Stock, prices and costs are all per base unit'}
+              </p>
+            </div>
+
+            <div className="flex justify-between items-center">
+              <Label>Alternate Units</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setUnits(prev => [...prev, { id: Date.now().toString(), unit_name: '', factor: 1 }])}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Unit
+              </Button>
+            </div>
+
+            {units.map((unit) => (
+              <div key={unit.id} className="flex items-center gap-2 text-sm">
+                <span className="text-gray-600">1</span>
+                <Input
+                  value={unit.unit_name}
+                  onChange={(e) => updateUnit(unit.id, { unit_name: e.target.value })}
+                  placeholder="bundle"
+                  className="flex-1"
+                />
+                <span className="text-gray-600">=</span>
+                <Input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={unit.factor || ''}
+                  onChange={(e) => updateUnit(unit.id, { factor: parseFloat(e.target.value) || 0 })}
+                  className="w-24 text-right"
+                />
+                <span className="text-gray-600 w-12 truncate">{formData.base_unit || DEFAULT_BASE_UNIT}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setUnits(prev => prev.filter(line => line.id !== unit.id))}
+                  className="text-red-600 hover:text-red-700"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
           </div>
 
           <div className="grid grid-cols-2 gap-4">
             <div>
-              <Label htmlFor="quantity">Quantity *</Label>
+              <Label htmlFor="quantity">Quantity ({formData.base_unit || DEFAULT_BASE_UNIT}) *</Label>
               <Input
                 id="quantity"
                 type="number"
                 min="0"
                 value={formData.quantity}
                 onChange={(e) => setFormData({ ...formData, quantity: parseInt(e.target.value) || 0 })}
+                disabled={!!item}
                 required
               />
+              {item && (
+                <p className="text-xs text-gray-500 mt-1">Use Adjust Stock to change the quantity</p>
+              )}
             </div>
 
             <div>
-              <Label htmlFor="unit_price">Unit Price (₦) *</Label>
+              <Label htmlFor="unit_price">Price per {formData.base_unit || DEFAULT_BASE_UNIT} (₦) *</Label>
               <Input
                 id="unit_price"
                 type="number"
@@ -181,6 +354,139 @@ const InventoryModal: React.FC<InventoryModalProps> = ({ isOpen, onClose, item }
             </div>
           </div>
 
+          <div>
+            <Label htmlFor="cost_price">Cost Price (₦)</Label>
+            <Input
+              id="cost_price"
+              type="number"
+              min="0"
+              step="0.01"
+              value={formData.cost_price}
+              onChange={(e) => setFormData({ ...formData, cost_price: parseFloat(e.target.value) || 0 })}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Average cost per unit. Deliveries update it automatically; change it here only to correct it.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="reorder_level">Reorder Level</Label>
+              <Input
+                id="reorder_level"
+                type="number"
+                min="0"
+                step="1"
+                value={formData.reorder_level}
+                onChange={(e) => setFormData({ ...formData, reorder_level: parseInt(e.target.value) || 0 })}
+              />
+              <p className="text-xs text-gray-500 mt-1">Low stock below this; 0 never alerts</p>
+            </div>
+
+            <div>
+              <Label htmlFor="reorder_quantity">Reorder Quantity</Label>
+              <Input
+                id="reorder_quantity"
+                type="number"
+                min="0"
+                step="1"
+                value={formData.reorder_quantity}
+                onChange={(e) => setFormData({ ...formData, reorder_quantity: parseInt(e.target.value) || 0 })}
+              />
+              <p className="text-xs text-gray-500 mt-1">0 tops up to the reorder level</p>
+            </div>
+          </div>
+
+          <div className="border rounded-lg p-4 space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="section_type">Steel Section</Label>
+                <Select
+                  value={formData.section_type || 'none'}
+                  onValueChange={(value) => setFormData({ ...formData, section_type: value === 'none' ? '' : value })}
+                >
+                  <SelectTrigger id="section_type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not steel stock</SelectItem>
+                    {SECTION_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="grade">Grade</Label>
+                <Input
+                  id="grade"
+                  value={formData.grade}
+                  onChange={(e) => setFormData({ ...formData, grade: e.target.value })}
+                  placeholder="e.g. S275"
+                />
+              </div>
+            </div>
+
+            {section && (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  {section.value === 'sheet' && (
+                    <div>
+                      <Label htmlFor="gauge">Gauge</Label>
+                      <Select value={formData.gauge ? String(formData.gauge) : ''} onValueChange={handleGaugeChange}>
+                        <SelectTrigger id="gauge">
+                          <SelectValue placeholder="Select gauge" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SHEET_GAUGES.map((entry) => (
+                            <SelectItem key={entry.gauge} value={String(entry.gauge)}>
+                              {entry.gauge}G ({entry.thickness_mm} mm)
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {section.dimensions.map((dimension) => (
+                    <div key={dimension.field}>
+                      <Label htmlFor={dimension.field}>{dimension.label}</Label>
+                      <Input
+                        id={dimension.field}
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={formData[dimension.field] || ''}
+                        onChange={(e) => setFormData({ ...formData, [dimension.field]: parseFloat(e.target.value) || 0 })}
+                      />
+                    </div>
+                  ))}
+
+                  <div>
+                    <Label htmlFor="length_m">Length (m)</Label>
+                    <Input
+                      id="length_m"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={formData.length_m || ''}
+                      onChange={(e) => setFormData({ ...formData, length_m: parseFloat(e.target.value) || 0 })}
+                    />
+                  </div>
+                </div>
+
+                <p className="text-xs text-gray-500">
+                  {weightPerMetre > 0
+                    ? `About ${formatWeight(weightPerMetre)} per metre${pieceWeight ? `, ${formatWeight(pieceWeight)} per piece` : ''}. Lets invoices price this item by weight.`
+                    : 'Enter the dimensions to work out the weight.'}
+                </p>
+              </>
+            )}
+          </div>
+
           <div>
             <Label htmlFor="status">Status</Label>
             <Select value={formData.status} onValueChange={(value: 'in_stock' | 'low_stock' | 'out_of_stock') => setFormData({ ...formData, status: value })}>
@@ -199,8 +505,8 @@ const InventoryModal: React.FC<InventoryModalProps> = ({ isOpen, onClose, item }
             <Button type="button" variant="outline" onClick={onClose}>
               Cancel
             </Button>
-            <Button type="submit" disabled={createItem.isPending || updateItem.isPending}>
-              {createItem.isPending || updateItem.isPending ? 'Saving...' : (item ? 'Update Item' : 'Add Item')}
+            <Button type="submit" disabled={createItem.isPending || updateItem.isPending || saveUnits.isPending}>
+              {createItem.isPending || updateItem.isPending || saveUnits.isPending ? 'Saving...' : (item ? 'Update Item' : 'Add Item')}
             </Button>
           </div>
         </form>
@@ -8,14 +8,21 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { CalendarIcon, Plus, Trash2, Search, UserPlus } from 'lucide-react';
-import { format } from 'date-fns';
+import { CalendarIcon, Search, UserPlus } from 'lucide-react';
+import { addDays, format } from 'date-fns';
 import { useClients, useCreateClient } from '@/hooks/useClients';
-import { useInventory } from '@/hooks/useInventory';
-import { useCreateInvoice, useUpdateInvoice } from '@/hooks/useInvoices';
-import { useCreateInvoiceItems, useUpdateInventoryQuantity } from '@/hooks/useInvoiceItems';
+import { useInventory, useInventoryStock } from '@/hooks/useInventory';
+import { useWarehouseLocations } from '@/hooks/useWarehouseLocations';
+import { useCreateInvoiceWithItems, useUpdateInvoiceWithItems } from '@/hooks/useInvoices';
+import { useInvoiceItems } from '@/hooks/useInvoiceItems';
+import { useCompanyInfo } from '@/hooks/useCompanyInfo';
+import { useInvoiceSettings } from '@/hooks/useInvoiceSettings';
+import { applyClientTaxRate, calculateInvoiceTotals, createEmptyLineItem, DiscountType, EditableLineItem, getDefaultTaxRate, toEditableLineItem, toLineItemPayload } from '@/lib/invoiceTotals';
 import { useToast } from '@/hooks/use-toast';
 import { Tables } from '@/integrations/supabase/types';
+import { previewNextInvoiceNumber } from '@/lib/invoiceNumbering';
+import { formatQuantity } from '@/lib/units';
+import LineItemsEditor from '@/components/LineItemsEditor';
 import ClientModal from './ClientModal';
 
 type Invoice = Tables<'invoices'> & {
@@ -28,22 +35,13 @@ type Invoice = Tables<'invoices'> & {
   };
 };
 
-interface InvoiceItem {
-  id: string;
-  inventory_id: string;
-  description: string;
-  quantity: number;
-  unit_price: number;
-  line_total: number;
-}
-
 interface InvoiceModalProps {
   isOpen: boolean;
   onClose: () => void;
   invoice?: Invoice;
 }
 
-type InvoiceStatus = 'draft' | 'pending' | 'paid' | 'overdue';
+type InvoiceStatus = 'draft' | 'pending' | 'partially_paid' | 'paid' | 'overdue';
 
 const InvoiceModal: React.FC<InvoiceModalProps> = ({ isOpen, onClose, invoice }) => {
   const [formData, setFormData] = useState<{
@@ -53,30 +51,40 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ isOpen, onClose, invoice })
     due_date: Date;
     notes: string;
     status: InvoiceStatus;
+    discount_type: DiscountType;
+    discount_value: number;
+    wht_rate: number;
   }>({
     client_id: '',
     invoice_number: '',
     issue_date: new Date(),
     due_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
     notes: '',
-    status: 'draft'
+    status: 'draft',
+    discount_type: 'percentage',
+    discount_value: 0,
+    wht_rate: 0
   });
 
-  const [items, setItems] = useState<InvoiceItem[]>([
-    { id: '1', inventory_id: '', description: '', quantity: 1, unit_price: 0, line_total: 0 }
-  ]);
+  const { data: companyInfo, isLoading: isCompanyInfoLoading } = useCompanyInfo();
+  const [items, setItems] = useState<EditableLineItem[]>([createEmptyLineItem(getDefaultTaxRate(undefined, companyInfo?.vat_rate), '1')]);
+
+  // Set once the form has been filled for this opening, so a refetch in the
+  // background does not throw away what is being typed
+  const [isSeeded, setIsSeeded] = useState(false);
 
   const [clientSearch, setClientSearch] = useState('');
-  const [inventorySearches, setInventorySearches] = useState<Record<string, string>>({});
   const [isClientDropdownOpen, setIsClientDropdownOpen] = useState(false);
   const [isClientModalOpen, setIsClientModalOpen] = useState(false);
 
   const { data: clients = [] } = useClients();
   const { data: inventory = [] } = useInventory();
-  const createInvoice = useCreateInvoice();
-  const updateInvoice = useUpdateInvoice();
-  const createInvoiceItems = useCreateInvoiceItems();
-  const updateInventoryQuantity = useUpdateInventoryQuantity();
+  const { data: stock = [] } = useInventoryStock();
+  const { data: warehouseLocations = [] } = useWarehouseLocations();
+  const createInvoiceWithItems = useCreateInvoiceWithItems();
+  const updateInvoiceWithItems = useUpdateInvoiceWithItems();
+  const { data: invoiceItems } = useInvoiceItems(invoice?.id);
+  const { defaultDueDays, defaultTerms, isLoading: isSettingsLoading } = useInvoiceSettings();
   const createClient = useCreateClient();
   const { toast } = useToast();
 
@@ -86,19 +94,39 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ isOpen, onClose, invoice })
     client.contact_name.toLowerCase().includes(clientSearch.toLowerCase())
   );
 
-  // Filter inventory based on search and availability
-  const getFilteredInventory = (searchTerm: string) => {
-    return inventory.filter(item => 
-      item.quantity > 0 && (
-        item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        (item.description && item.description.toLowerCase().includes(searchTerm.toLowerCase())) ||
-        (item.category && item.category.toLowerCase().includes(searchTerm.toLowerCase()))
-      )
-    );
+  const getClientTaxRate = (clientId: string) => {
+    return getDefaultTaxRate(clients.find(c => c.id === clientId), companyInfo?.vat_rate);
+  };
+
+  const handleClientChange = (clientId: string) => {
+    const previousRate = getClientTaxRate(formData.client_id);
+    setFormData(prev => ({ ...prev, client_id: clientId }));
+    setItems(prevItems => applyClientTaxRate(prevItems, previousRate, getClientTaxRate(clientId)));
+  };
+
+  // Units already on this invoice go back on the shelf they came from when it
+  // is saved, so they count as available there while editing. Without a
+  // location this is what the item has across every site.
+  const getAvailableQuantity = (inventoryId: string, warehouseLocationId?: string) => {
+    const inStock = warehouseLocationId
+      ? stock.find(row => row.inventory_item_id === inventoryId && row.warehouse_location_id === warehouseLocationId)?.quantity || 0
+      : inventory.find(inv => inv.id === inventoryId)?.quantity || 0;
+    const alreadyInvoiced = (invoiceItems || [])
+      .filter(line => line.inventory_item_id === inventoryId)
+      .filter(line => !warehouseLocationId || line.warehouse_location_id === warehouseLocationId)
+      .reduce((sum, line) => sum + line.quantity, 0);
+    return inStock + alreadyInvoiced;
   };
 
   useEffect(() => {
-    if (invoice && isOpen) {
+    if (!isOpen) {
+      setIsSeeded(false);
+      return;
+    }
+    if (isSeeded) return;
+
+    if (invoice) {
+      if (!invoiceItems) return;
       console.log('Loading invoice data:', invoice);
       setFormData({
         client_id: invoice.client_id,
@@ -106,151 +134,49 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ isOpen, onClose, invoice })
         issue_date: new Date(invoice.issue_date),
         due_date: new Date(invoice.due_date),
         notes: invoice.notes || '',
-        status: invoice.status as InvoiceStatus
+        status: invoice.status as InvoiceStatus,
+        discount_type: invoice.discount_type as DiscountType,
+        discount_value: invoice.discount_value,
+        wht_rate: invoice.wht_rate
       });
-      
-      // For existing invoices, show a simple line item
-      setItems([{
-        id: '1',
-        inventory_id: '',
-        description: 'Steel fabrication services',
-        quantity: 1,
-        unit_price: invoice.subtotal,
-        line_total: invoice.subtotal
-      }]);
-    } else if (!invoice && isOpen) {
-      const invoiceCount = Date.now().toString().slice(-4);
+      setItems(invoiceItems.map(toEditableLineItem));
+      setIsSeeded(true);
+    } else if (!isSettingsLoading && !isCompanyInfoLoading) {
+      // Left blank so the database assigns the next number in the sequence
       setFormData({
         client_id: '',
-        invoice_number: `INV-${invoiceCount}`,
+        invoice_number: '',
         issue_date: new Date(),
-        due_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
-        notes: '',
-        status: 'draft'
+        due_date: addDays(new Date(), defaultDueDays),
+        notes: defaultTerms,
+        status: 'draft',
+        discount_type: 'percentage',
+        discount_value: 0,
+        wht_rate: 0
       });
-      setItems([{ id: '1', inventory_id: '', description: '', quantity: 1, unit_price: 0, line_total: 0 }]);
-      setInventorySearches({});
+      // No client is chosen yet, so the first line starts at the company rate
+      setItems([createEmptyLineItem(getDefaultTaxRate(undefined, companyInfo?.vat_rate), '1')]);
+      setIsSeeded(true);
     }
-  }, [invoice, isOpen]);
-
-  const calculateItemTotal = (quantity: number, unitPrice: number) => {
-    return quantity * unitPrice;
-  };
+  }, [invoice, isOpen, isSeeded, invoiceItems, isSettingsLoading, isCompanyInfoLoading, defaultDueDays, defaultTerms, companyInfo?.vat_rate]);
 
-  const calculateSubtotal = () => {
-    return items.reduce((sum, item) => sum + item.line_total, 0);
-  };
-
-  const handleItemChange = (id: string, field: keyof InvoiceItem, value: string | number) => {
-    console.log('Updating item:', id, field, value);
-    setItems(items.map(item => {
-      if (item.id === id) {
-        const updatedItem = { ...item, [field]: value };
-        
-        if (field === 'quantity') {
-          const newQuantity = Number(value);
-          
-          // Check if quantity exceeds available inventory
-          if (updatedItem.inventory_id) {
-            const inventoryItem = inventory.find(inv => inv.id === updatedItem.inventory_id);
-            if (inventoryItem && newQuantity > inventoryItem.quantity) {
-              toast({
-                title: "Insufficient Inventory",
-                description: `Only ${inventoryItem.quantity} units available for ${inventoryItem.name}`,
-                variant: "destructive",
-              });
-              // Set quantity to maximum available
-              updatedItem.quantity = inventoryItem.quantity;
-            } else {
-              updatedItem.quantity = newQuantity;
-            }
-          } else {
-            updatedItem.quantity = newQuantity;
-          }
-        }
-        
-        if (field === 'quantity' || field === 'unit_price') {
-          updatedItem.line_total = calculateItemTotal(
-            field === 'quantity' ? updatedItem.quantity : updatedItem.quantity,
-            field === 'unit_price' ? Number(value) : updatedItem.unit_price
-          );
-        }
-        
-        console.log('Updated item:', updatedItem);
-        return updatedItem;
-      }
-      return item;
-    }));
-  };
-
-  const handleInventorySelect = (itemId: string, inventoryItemId: string) => {
-    console.log('Selecting inventory item:', itemId, inventoryItemId);
-    const inventoryItem = inventory.find(item => item.id === inventoryItemId);
-    if (inventoryItem) {
-      console.log('Found inventory item:', inventoryItem);
-      setItems(prevItems => prevItems.map(item => {
-        if (item.id === itemId) {
-          // Validate quantity doesn't exceed available stock
-          const validQuantity = Math.min(item.quantity, inventoryItem.quantity);
-          
-          const updatedItem = {
-            ...item,
-            inventory_id: inventoryItemId,
-            description: inventoryItem.name,
-            unit_price: inventoryItem.unit_price,
-            quantity: validQuantity,
-            line_total: calculateItemTotal(validQuantity, inventoryItem.unit_price)
-          };
-          console.log('Updated item with inventory:', updatedItem);
-          return updatedItem;
-        }
-        return item;
-      }));
-      
-      // Clear the search for this item
-      setInventorySearches(prev => ({
-        ...prev,
-        [itemId]: ''
-      }));
-    }
-  };
-
-  const addItem = () => {
-    const newItem: InvoiceItem = {
-      id: Date.now().toString(),
-      inventory_id: '',
-      description: '',
-      quantity: 1,
-      unit_price: 0,
-      line_total: 0
-    };
-    setItems([...items, newItem]);
-  };
-
-  const removeItem = (id: string) => {
-    if (items.length > 1) {
-      setItems(items.filter(item => item.id !== id));
-      // Remove search state for this item
-      setInventorySearches(prev => {
-        const newSearches = { ...prev };
-        delete newSearches[id];
-        return newSearches;
-      });
-    }
-  };
+  const totals = calculateInvoiceTotals(items, formData);
 
   const validateItems = () => {
     for (const item of items) {
-      if (!item.inventory_id || !item.description || item.quantity <= 0 || item.unit_price <= 0) {
+      // Lines saved before items were linked to inventory keep their description only
+      if (!item.description || item.quantity <= 0 || item.unit_price <= 0) {
         return false;
       }
       
       // Check inventory availability
       const inventoryItem = inventory.find(inv => inv.id === item.inventory_id);
-      if (inventoryItem && item.quantity > inventoryItem.quantity) {
+      const available = getAvailableQuantity(item.inventory_id, item.warehouse_location_id);
+      if (inventoryItem && item.quantity > available) {
+        const locationName = warehouseLocations.find(location => location.id === item.warehouse_location_id)?.name;
         toast({
           title: "Insufficient Inventory",
-          description: `Only ${inventoryItem.quantity} units available for ${inventoryItem.name}`,
+          description: `Only ${formatQuantity(available, inventoryItem.base_unit)} available for ${inventoryItem.name}${locationName ? ` at ${locationName}` : ''}`,
           variant: "destructive",
         });
         return false;
@@ -280,7 +206,7 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ isOpen, onClose, invoice })
       return;
     }
 
-    if (!invoice && !validateItems()) {
+    if (!validateItems()) {
       toast({
         title: "Error",
         description: "Please select inventory items for all line items",
@@ -289,7 +215,6 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ isOpen, onClose, invoice })
       return;
     }
 
-    const subtotal = calculateSubtotal();
     const itemsSummary = items.map(item => `${item.quantity}x ${item.description}`).join(', ');
     const invoiceData = {
       client_id: formData.client_id,
@@ -298,50 +223,35 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ isOpen, onClose, invoice })
       due_date: format(formData.due_date, 'yyyy-MM-dd'),
       notes: formData.notes,
       status: formData.status,
-      subtotal: subtotal,
-      tax_amount: 0,
-      total_amount: subtotal,
+      subtotal: totals.subtotal,
+      discount_type: formData.discount_type,
+      discount_value: formData.discount_value,
+      discount_amount: totals.discount_amount,
+      tax_amount: totals.tax_amount,
+      wht_rate: formData.wht_rate,
+      wht_amount: totals.wht_amount,
+      total_amount: totals.total_amount,
       items_summary: itemsSummary
     };
 
     console.log('Final invoice data being submitted:', invoiceData);
 
     try {
-      let invoiceId: string;
+      const lineItems = toLineItemPayload(items, totals);
 
       if (invoice) {
-        // Update existing invoice
-        const updatedInvoice = await updateInvoice.mutateAsync({ 
-          id: invoice.id, 
-          ...invoiceData
+        // Replace the items and reconcile stock against what was invoiced before
+        await updateInvoiceWithItems.mutateAsync({
+          id: invoice.id,
+          invoice: invoiceData,
+          items: lineItems
         });
-        invoiceId = invoice.id;
       } else {
-        // Create new invoice
-        const newInvoice = await createInvoice.mutateAsync(invoiceData);
-        invoiceId = newInvoice.id;
-        
-        // Create invoice items with inventory_id
-        const invoiceItems = items.map(item => ({
-          invoice_id: invoiceId,
-          inventory_item_id: item.inventory_id || null,
-          description: item.description,
-          quantity: item.quantity,
-          unit_price: item.unit_price,
-          line_total: item.line_total
-        }));
-        
-        await createInvoiceItems.mutateAsync(invoiceItems);
-        
-        // Reduce inventory quantities
-        for (const item of items) {
-          if (item.inventory_id && item.quantity > 0) {
-            await updateInventoryQuantity.mutateAsync({
-              inventoryId: item.inventory_id,
-              quantityToReduce: item.quantity
-            });
-          }
-        }
+        // Create the invoice, its items and the stock deductions in one transaction
+        await createInvoiceWithItems.mutateAsync({
+          invoice: invoiceData,
+          items: lineItems
+        });
       }
 
       toast({
@@ -353,19 +263,12 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ isOpen, onClose, invoice })
       console.error('Save error:', error);
       toast({
         title: "Error",
-        description: "Failed to save invoice",
+        description: error instanceof Error ? error.message : "Failed to save invoice",
         variant: "destructive",
       });
     }
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-NG', {
-      style: 'currency',
-      currency: 'NGN'
-    }).format(amount);
-  };
-
   return (
     <>
       <Dialog open={isOpen} onOpenChange={onClose}>
@@ -402,7 +305,7 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ isOpen, onClose, invoice })
                               key={client.id}
                               className="px-3 py-2 hover:bg-gray-100 cursor-pointer"
                               onClick={() => {
-                                setFormData({ ...formData, client_id: client.id });
+                                handleClientChange(client.id);
                                 setClientSearch(client.company_name);
                                 setIsClientDropdownOpen(false);
                               }}
@@ -433,7 +336,7 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ isOpen, onClose, invoice })
                 </div>
                 {!clientSearch && (
                   <Select value={formData.client_id} onValueChange={(value) => {
-                    setFormData({ ...formData, client_id: value });
+                    handleClientChange(value);
                     const selectedClient = clients.find(c => c.id === value);
                     if (selectedClient) {
                       setClientSearch(selectedClient.company_name);
@@ -454,13 +357,18 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ isOpen, onClose, invoice })
               </div>
 
               <div>
-                <Label htmlFor="invoice_number">Invoice Number *</Label>
+                <Label htmlFor="invoice_number">Invoice Number</Label>
                 <Input
                   id="invoice_number"
-                  value={formData.invoice_number}
-                  onChange={(e) => setFormData({ ...formData, invoice_number: e.target.value })}
-                  required
+                  value={invoice ? formData.invoice_number : previewNextInvoiceNumber(companyInfo, formData.issue_date)}
+                  readOnly
+                  className="bg-gray-50"
                 />
+                {!invoice && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Assigned from the numbering sequence when the invoice is saved.
+                  </p>
+                )}
               </div>
             </div>
 
@@ -479,7 +387,12 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ isOpen, onClose, invoice })
                     <Calendar
                       mode="single"
                       selected={formData.issue_date}
-                      onSelect={(date) => date && setFormData({ ...formData, issue_date: date })}
+                      onSelect={(date) => date && setFormData({
+                        ...formData,
+                        issue_date: date,
+                        // New invoices keep the default payment window from the issue date
+                        due_date: invoice ? formData.due_date : addDays(date, defaultDueDays)
+                      })}
                       initialFocus
                     />
                   </PopoverContent>
@@ -522,192 +435,33 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ isOpen, onClose, invoice })
                 <SelectContent>
                   <SelectItem value="draft">Draft</SelectItem>
                   <SelectItem value="pending">Pending</SelectItem>
-                  <SelectItem value="paid">Paid</SelectItem>
                   <SelectItem value="overdue">Overdue</SelectItem>
+                  {(formData.status === 'paid' || formData.status === 'partially_paid') && (
+                    <SelectItem value={formData.status} disabled>
+                      {formData.status === 'paid' ? 'Paid' : 'Partially Paid'}
+                    </SelectItem>
+                  )}
                 </SelectContent>
               </Select>
+              <p className="text-xs text-gray-500 mt-1">
+                Paid and partially paid are set automatically from the payments recorded on the invoice.
+              </p>
             </div>
 
-            {/* Line Items - only show for new invoices */}
-            {!invoice && (
-              <div>
-                <div className="flex justify-between items-center mb-4">
-                  <Label className="text-lg font-semibold">Invoice Items *</Label>
-                  <Button type="button" onClick={addItem} variant="outline" size="sm">
-                    <Plus className="w-4 h-4 mr-2" />
-                    Add Item
-                  </Button>
-                </div>
-
-                {inventory.filter(item => item.quantity > 0).length === 0 && (
-                  <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-4">
-                    <p className="text-yellow-800 text-sm">
-                      No inventory items available. Please add inventory items before creating an invoice.
-                    </p>
-                  </div>
-                )}
-
-                <div className="space-y-4">
-                  {items.map((item, index) => (
-                    <div key={item.id} className="border rounded-lg p-4 space-y-4">
-                      <div className="flex justify-between items-center">
-                        <span className="font-medium">Item #{index + 1}</span>
-                        {items.length > 1 && (
-                          <Button 
-                            type="button" 
-                            onClick={() => removeItem(item.id)}
-                            variant="outline" 
-                            size="sm"
-                            className="text-red-600 hover:text-red-700"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
-                        )}
-                      </div>
-
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        <div className="md:col-span-2">
-                          <Label htmlFor={`inventory-${item.id}`}>Select Inventory Item *</Label>
-                          
-                          {/* Show selected item if one is chosen */}
-                          {item.inventory_id && item.description ? (
-                            <div className="border rounded-md p-4 bg-gray-50">
-                              <div className="flex justify-between items-center">
-                                <div>
-                                  <div className="font-medium">{item.description}</div>
-                                  <div className="text-sm text-gray-600">
-                                    {formatCurrency(item.unit_price)} - Available: {
-                                      inventory.find(inv => inv.id === item.inventory_id)?.quantity || 0
-                                    }
-                                  </div>
-                                </div>
-                                <Button
-                                  type="button"
-                                  variant="outline"
-                                  size="sm"
-                                  onClick={() => {
-                                    setItems(prevItems => prevItems.map(prevItem => 
-                                      prevItem.id === item.id 
-                                        ? { ...prevItem, inventory_id: '', description: '', unit_price: 0, line_total: 0 }
-                                        : prevItem
-                                    ));
-                                  }}
-                                >
-                                  Change Item
-                                </Button>
-                              </div>
-                            </div>
-                          ) : (
-                            <div className="relative">
-                              <div className="relative">
-                                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
-                                <Input
-                                  placeholder="Search inventory items..."
-                                  value={inventorySearches[item.id] || ''}
-                                  onChange={(e) => setInventorySearches(prev => ({
-                                    ...prev,
-                                    [item.id]: e.target.value
-                                  }))}
-                                  className="pl-10"
-                                />
-                              </div>
-                              {inventorySearches[item.id] && (
-                                <div className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-md shadow-lg max-h-48 overflow-y-auto">
-                                  {getFilteredInventory(inventorySearches[item.id]).map((inventoryItem) => (
-                                    <div
-                                      key={inventoryItem.id}
-                                      className="px-3 py-2 hover:bg-gray-100 cursor-pointer"
-                                      onClick={() => {
-                                        handleInventorySelect(item.id, inventoryItem.id);
-                                      }}
-                                    >
-                                      <div className="font-medium">{inventoryItem.name}</div>
-                                      <div className="text-sm text-gray-600">
-                                        {formatCurrency(inventoryItem.unit_price)} - Qty: {inventoryItem.quantity}
-                                      </div>
-                                    </div>
-                                  ))}
-                                </div>
-                              )}
-                            </div>
-                          )}
-                          
-                          {/* Fallback select dropdown */}
-                          {!item.inventory_id && !inventorySearches[item.id] && (
-                            <Select 
-                              value={item.inventory_id} 
-                              onValueChange={(value) => handleInventorySelect(item.id, value)}
-                              required
-                            >
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select inventory item" />
-                              </SelectTrigger>
-                              <SelectContent>
-                                {inventory.filter(inventoryItem => inventoryItem.quantity > 0).map((inventoryItem) => (
-                                  <SelectItem key={inventoryItem.id} value={inventoryItem.id}>
-                                    {inventoryItem.name} - {formatCurrency(inventoryItem.unit_price)} (Qty: {inventoryItem.quantity})
-                                  </SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
-                          )}
-                        </div>
-
-                        <div>
-                          <Label htmlFor={`quantity-${item.id}`}>Quantity *</Label>
-                          <Input
-                            id={`quantity-${item.id}`}
-                            type="number"
-                            min="1"
-                            max={inventory.find(inv => inv.id === item.inventory_id)?.quantity || 999}
-                            value={item.quantity}
-                            onChange={(e) => handleItemChange(item.id, 'quantity', parseInt(e.target.value) || 1)}
-                            required
-                          />
-                          {item.inventory_id && (
-                            <div className="text-xs text-gray-500 mt-1">
-                              Available: {inventory.find(inv => inv.id === item.inventory_id)?.quantity || 0}
-                            </div>
-                          )}
-                        </div>
-
-                        <div>
-                          <Label htmlFor={`unit_price-${item.id}`}>Unit Price (₦) *</Label>
-                          <Input
-                            id={`unit_price-${item.id}`}
-                            type="number"
-                            min="0"
-                            step="0.01"
-                            value={item.unit_price}
-                            onChange={(e) => handleItemChange(item.id, 'unit_price', parseFloat(e.target.value) || 0)}
-                            required
-                          />
-                        </div>
-
-                        <div className="md:col-span-2">
-                          <Label>Line Total</Label>
-                          <div className="text-lg font-semibold text-gray-900">
-                            {formatCurrency(item.line_total)}
-                          </div>
-                        </div>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-
-                {/* Totals */}
-                <div className="border-t pt-4 mt-4">
-                  <div className="flex justify-end">
-                    <div className="w-64 space-y-2">
-                      <div className="flex justify-between text-lg font-bold">
-                        <span>Total:</span>
-                        <span>{formatCurrency(calculateSubtotal())}</span>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              </div>
-            )}
+            {/* Line Items */}
+            <LineItemsEditor
+              label="Invoice Items"
+              items={items}
+              setItems={setItems}
+              adjustments={formData}
+              onAdjustmentsChange={(changes) => setFormData(prev => ({ ...prev, ...changes }))}
+              totals={totals}
+              defaultTaxRate={getClientTaxRate(formData.client_id)}
+              defaultWhtRate={companyInfo?.wht_rate || 5}
+              getAvailableQuantity={getAvailableQuantity}
+              allowWeightPricing
+              allowSellingUnits
+            />
 
             {/* Notes */}
             <div>
@@ -725,8 +479,8 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ isOpen, onClose, invoice })
               <Button type="button" variant="outline" onClick={onClose}>
                 Cancel
               </Button>
-              <Button type="submit" disabled={createInvoice.isPending || updateInvoice.isPending}>
-                {createInvoice.isPending || updateInvoice.isPending ? 'Saving...' : (invoice ? 'Update Invoice' : 'Create Invoice')}
+              <Button type="submit" disabled={createInvoiceWithItems.isPending || updateInvoiceWithItems.isPending}>
+                {createInvoiceWithItems.isPending || updateInvoiceWithItems.isPending ? 'Saving...' : (invoice ? 'Update Invoice' : 'Create Invoice')}
               </Button>
             </div>
           </form>
@@ -0,0 +1,115 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useWarehouseLocations } from '@/hooks/useWarehouseLocations';
+import { useCreateStocktake } from '@/hooks/useStocktakes';
+import { useToast } from '@/hooks/use-toast';
+
+interface NewStocktakeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCreated: (stocktakeId: string) => void;
+  // Locations that already have a count in progress
+  busyLocationIds: string[];
+}
+
+const NewStocktakeModal: React.FC<NewStocktakeModalProps> = ({ isOpen, onClose, onCreated, busyLocationIds }) => {
+  const [warehouseLocationId, setWarehouseLocationId] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const { data: warehouseLocations = [] } = useWarehouseLocations();
+  const createStocktake = useCreateStocktake();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (isOpen) {
+      setWarehouseLocationId('');
+      setNotes('');
+    }
+  }, [isOpen]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!warehouseLocationId) {
+      toast({
+        title: "Error",
+        description: "Please choose the warehouse location to count",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const stocktakeId = await createStocktake.mutateAsync({ warehouseLocationId, notes });
+      toast({
+        title: "Success",
+        description: "Stocktake started. Stock levels at this location have been frozen for counting.",
+      });
+      onCreated(stocktakeId);
+    } catch (error) {
+      console.error('Stocktake error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start stocktake",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>New Stocktake</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="stocktake_location">Warehouse Location *</Label>
+            <Select value={warehouseLocationId} onValueChange={setWarehouseLocationId}>
+              <SelectTrigger id="stocktake_location">
+                <SelectValue placeholder="Select warehouse location" />
+              </SelectTrigger>
+              <SelectContent>
+                {warehouseLocations.map((location) => (
+                  <SelectItem key={location.id} value={location.id} disabled={busyLocationIds.includes(location.id)}>
+                    {location.name}{busyLocationIds.includes(location.id) ? ' (count in progress)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500 mt-1">
+              The stock on hand here is snapshotted now. Sales can carry on during the count.
+            </p>
+          </div>
+
+          <div>
+            <Label htmlFor="stocktake_notes">Notes</Label>
+            <Textarea
+              id="stocktake_notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              placeholder="e.g. Q3 physical count"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={createStocktake.isPending}>
+              {createStocktake.isPending ? 'Starting...' : 'Start Count'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NewStocktakeModal;
@@ -0,0 +1,201 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCreatePayment } from '@/hooks/usePayments';
+import { useToast } from '@/hooks/use-toast';
+
+interface PaymentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  invoiceId: string;
+  invoiceNumber: string;
+  balanceDue: number;
+}
+
+const paymentMethods = [
+  { value: 'bank_transfer', label: 'Bank Transfer' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'cheque', label: 'Cheque' },
+  { value: 'pos', label: 'POS' },
+  { value: 'other', label: 'Other' },
+];
+
+const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, invoiceId, invoiceNumber, balanceDue }) => {
+  const [formData, setFormData] = useState({
+    amount: '',
+    payment_date: new Date().toISOString().split('T')[0],
+    method: 'bank_transfer',
+    reference: '',
+    notes: ''
+  });
+
+  const createPayment = useCreatePayment();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData({
+        amount: balanceDue > 0 ? balanceDue.toFixed(2) : '',
+        payment_date: new Date().toISOString().split('T')[0],
+        method: 'bank_transfer',
+        reference: '',
+        notes: ''
+      });
+    }
+  }, [isOpen, balanceDue]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-NG', {
+      style: 'currency',
+      currency: 'NGN'
+    }).format(amount);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = parseFloat(formData.amount);
+    if (!amount || amount <= 0) {
+      toast({
+        title: "Error",
+        description: "Please enter a payment amount greater than zero",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Round to kobo so a full settlement typed from the balance isn't rejected
+    if (Math.round(amount * 100) > Math.round(balanceDue * 100)) {
+      toast({
+        title: "Error",
+        description: `Payment exceeds the balance due of ${formatCurrency(balanceDue)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await createPayment.mutateAsync({
+        invoice_id: invoiceId,
+        amount,
+        payment_date: formData.payment_date,
+        method: formData.method,
+        reference: formData.reference || null,
+        notes: formData.notes || null
+      });
+      toast({
+        title: "Success",
+        description: "Payment recorded successfully",
+      });
+      onClose();
+    } catch (error) {
+      console.error('Payment error:', error);
+      toast({
+        title: "Error",
+        description: "Failed to record payment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Record Payment for {invoiceNumber}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm text-blue-800">
+            Balance due: <span className="font-semibold">{formatCurrency(balanceDue)}</span>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="payment_amount">Amount (₦) *</Label>
+              <Input
+                id="payment_amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                placeholder="0.00"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="payment_date">Payment Date *</Label>
+              <Input
+                id="payment_date"
+                type="date"
+                value={formData.payment_date}
+                onChange={(e) => setFormData({ ...formData, payment_date: e.target.value })}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="payment_method">Method</Label>
+              <Select value={formData.method} onValueChange={(value) => setFormData({ ...formData, method: value })}>
+                <SelectTrigger id="payment_method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {paymentMethods.map((method) => (
+                    <SelectItem key={method.value} value={method.value}>
+                      {method.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="payment_reference">Reference</Label>
+              <Input
+                id="payment_reference"
+                value={formData.reference}
+                onChange={(e) => setFormData({ ...formData, reference: e.target.value })}
+                placeholder="Teller or transfer reference"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="payment_notes">Notes</Label>
+            <Textarea
+              id="payment_notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              placeholder="Optional notes"
+              rows={2}
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={createPayment.isPending}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              {createPayment.isPending ? 'Saving...' : 'Record Payment'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PaymentModal;
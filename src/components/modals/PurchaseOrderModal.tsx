@@ -0,0 +1,366 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { useSuppliers } from '@/hooks/useSuppliers';
+import { useInventory } from '@/hooks/useInventory';
+import { useWarehouseLocations } from '@/hooks/useWarehouseLocations';
+import { useSavePurchaseOrder } from '@/hooks/usePurchaseOrders';
+import { useToast } from '@/hooks/use-toast';
+import { Tables } from '@/integrations/supabase/types';
+
+type PurchaseOrder = Tables<'purchase_orders'> & {
+  purchase_order_items: Tables<'purchase_order_items'>[];
+};
+
+interface PurchaseOrderLine {
+  id: string;
+  inventory_item_id: string;
+  description: string;
+  quantity_ordered: number;
+  unit_cost: number;
+}
+
+interface PurchaseOrderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  purchaseOrder?: PurchaseOrder;
+}
+
+const createEmptyLine = (id = Date.now().toString()): PurchaseOrderLine => ({
+  id,
+  inventory_item_id: '',
+  description: '',
+  quantity_ordered: 1,
+  unit_cost: 0
+});
+
+const PurchaseOrderModal: React.FC<PurchaseOrderModalProps> = ({ isOpen, onClose, purchaseOrder }) => {
+  const [formData, setFormData] = useState({
+    supplier_id: '',
+    order_date: new Date().toISOString().split('T')[0],
+    expected_date: '',
+    warehouse_location_id: '',
+    notes: ''
+  });
+  const [lines, setLines] = useState<PurchaseOrderLine[]>([createEmptyLine('1')]);
+
+  const { data: suppliers = [] } = useSuppliers();
+  const { data: inventory = [] } = useInventory();
+  const { data: warehouseLocations = [] } = useWarehouseLocations();
+  const savePurchaseOrder = useSavePurchaseOrder();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (purchaseOrder && isOpen) {
+      setFormData({
+        supplier_id: purchaseOrder.supplier_id,
+        order_date: purchaseOrder.order_date,
+        expected_date: purchaseOrder.expected_date || '',
+        warehouse_location_id: purchaseOrder.warehouse_location_id || '',
+        notes: purchaseOrder.notes || ''
+      });
+      setLines(purchaseOrder.purchase_order_items.map(item => ({
+        id: item.id,
+        inventory_item_id: item.inventory_item_id,
+        description: item.description,
+        quantity_ordered: item.quantity_ordered,
+        unit_cost: item.unit_cost
+      })));
+    } else if (!purchaseOrder && isOpen) {
+      setFormData({
+        supplier_id: '',
+        order_date: new Date().toISOString().split('T')[0],
+        expected_date: '',
+        warehouse_location_id: '',
+        notes: ''
+      });
+      setLines([createEmptyLine('1')]);
+    }
+  }, [purchaseOrder, isOpen]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-NG', {
+      style: 'currency',
+      currency: 'NGN'
+    }).format(amount);
+  };
+
+  const updateLine = (lineId: string, changes: Partial<PurchaseOrderLine>) => {
+    setLines(prev => prev.map(line => line.id === lineId ? { ...line, ...changes } : line));
+  };
+
+  const handleInventorySelect = (lineId: string, inventoryItemId: string) => {
+    const inventoryItem = inventory.find(item => item.id === inventoryItemId);
+    const line = lines.find(l => l.id === lineId);
+    updateLine(lineId, {
+      inventory_item_id: inventoryItemId,
+      description: inventoryItem?.name || '',
+      // Start from what the item last averaged so the buyer only edits changes
+      ...(line && !line.unit_cost && inventoryItem ? { unit_cost: inventoryItem.cost_price } : {})
+    });
+    // Default the delivery location to where the first item is kept
+    if (!formData.warehouse_location_id && inventoryItem?.warehouse_location_id) {
+      setFormData(prev => ({ ...prev, warehouse_location_id: inventoryItem.warehouse_location_id || '' }));
+    }
+  };
+
+  const total = lines.reduce((sum, line) => sum + line.quantity_ordered * line.unit_cost, 0);
+
+  const handleSubmit = async (e: React.FormEvent, status: 'draft' | 'sent') => {
+    e.preventDefault();
+
+    if (!formData.supplier_id) {
+      toast({
+        title: "Error",
+        description: "Please select a supplier",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!formData.warehouse_location_id) {
+      toast({
+        title: "Error",
+        description: "Please select the warehouse location the goods will be delivered to",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (lines.some(line => !line.inventory_item_id || line.quantity_ordered <= 0)) {
+      toast({
+        title: "Error",
+        description: "Please select an inventory item and quantity for every line",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await savePurchaseOrder.mutateAsync({
+        id: purchaseOrder?.id,
+        purchaseOrder: {
+          supplier_id: formData.supplier_id,
+          status,
+          order_date: formData.order_date,
+          expected_date: formData.expected_date || null,
+          warehouse_location_id: formData.warehouse_location_id,
+          notes: formData.notes
+        },
+        items: lines.map(line => ({
+          inventory_item_id: line.inventory_item_id,
+          description: line.description,
+          quantity_ordered: line.quantity_ordered,
+          unit_cost: line.unit_cost
+        }))
+      });
+
+      toast({
+        title: "Success",
+        description: purchaseOrder ? "Purchase order updated successfully" : "Purchase order created successfully",
+      });
+      onClose();
+    } catch (error) {
+      console.error('Save error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save purchase order",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {purchaseOrder ? `Edit Purchase Order ${purchaseOrder.po_number}` : 'New Purchase Order'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={(e) => handleSubmit(e, (purchaseOrder?.status as 'draft' | 'sent') || 'draft')} className="space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="po_supplier">Supplier *</Label>
+              <Select value={formData.supplier_id} onValueChange={(value) => setFormData(prev => ({ ...prev, supplier_id: value }))}>
+                <SelectTrigger id="po_supplier">
+                  <SelectValue placeholder="Select a supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>
+                      {supplier.company_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="po_location">Deliver To *</Label>
+              <Select value={formData.warehouse_location_id} onValueChange={(value) => setFormData(prev => ({ ...prev, warehouse_location_id: value }))}>
+                <SelectTrigger id="po_location">
+                  <SelectValue placeholder="Select warehouse location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {warehouseLocations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="po_order_date">Order Date *</Label>
+              <Input
+                id="po_order_date"
+                type="date"
+                value={formData.order_date}
+                onChange={(e) => setFormData({ ...formData, order_date: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="po_expected_date">Expected Delivery</Label>
+              <Input
+                id="po_expected_date"
+                type="date"
+                value={formData.expected_date}
+                onChange={(e) => setFormData({ ...formData, expected_date: e.target.value })}
+              />
+            </div>
+          </div>
+
+          {/* Lines */}
+          <div>
+            <div className="flex justify-between items-center mb-4">
+              <Label className="text-lg font-semibold">Order Items *</Label>
+              <Button type="button" onClick={() => setLines(prev => [...prev, createEmptyLine()])} variant="outline" size="sm">
+                <Plus className="w-4 h-4 mr-2" />
+                Add Item
+              </Button>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-2 px-2 font-medium text-gray-600">Item</th>
+                    <th className="text-right py-2 px-2 font-medium text-gray-600 w-28">Quantity</th>
+                    <th className="text-right py-2 px-2 font-medium text-gray-600 w-36">Unit Cost (₦)</th>
+                    <th className="text-right py-2 px-2 font-medium text-gray-600 w-36">Total</th>
+                    <th className="w-12"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lines.map((line) => (
+                    <tr key={line.id} className="border-b border-gray-100">
+                      <td className="py-2 px-2">
+                        <Select value={line.inventory_item_id} onValueChange={(value) => handleInventorySelect(line.id, value)}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select inventory item" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {inventory.map((inventoryItem) => (
+                              <SelectItem key={inventoryItem.id} value={inventoryItem.id}>
+                                {inventoryItem.name} (in stock: {inventoryItem.quantity})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </td>
+                      <td className="py-2 px-2">
+                        <Input
+                          type="number"
+                          min="1"
+                          step="1"
+                          className="text-right"
+                          value={line.quantity_ordered}
+                          onChange={(e) => updateLine(line.id, { quantity_ordered: parseInt(e.target.value) || 0 })}
+                        />
+                      </td>
+                      <td className="py-2 px-2">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          className="text-right"
+                          value={line.unit_cost}
+                          onChange={(e) => updateLine(line.id, { unit_cost: parseFloat(e.target.value) || 0 })}
+                        />
+                      </td>
+                      <td className="py-2 px-2 text-right font-medium text-gray-900">
+                        {formatCurrency(line.quantity_ordered * line.unit_cost)}
+                      </td>
+                      <td className="py-2 px-2">
+                        {lines.length > 1 && (
+                          <Button
+                            type="button"
+                            onClick={() => setLines(prev => prev.filter(l => l.id !== line.id))}
+                            variant="ghost"
+                            size="sm"
+                            className="text-red-600 hover:text-red-700"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-end mt-4">
+              <div className="text-lg font-semibold text-gray-900">
+                Total: {formatCurrency(total)}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="po_notes">Notes</Label>
+            <Textarea
+              id="po_notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={3}
+              placeholder="Delivery instructions, agreed prices or other notes for the supplier..."
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            {(!purchaseOrder || purchaseOrder.status === 'draft') && (
+              <Button
+                type="button"
+                variant="outline"
+                disabled={savePurchaseOrder.isPending}
+                onClick={(e) => handleSubmit(e, 'sent')}
+              >
+                Save as Sent
+              </Button>
+            )}
+            <Button type="submit" disabled={savePurchaseOrder.isPending}>
+              {savePurchaseOrder.isPending ? 'Saving...' : (purchaseOrder ? 'Update Purchase Order' : 'Save Draft')}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PurchaseOrderModal;
@@ -0,0 +1,326 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarIcon } from 'lucide-react';
+import { format } from 'date-fns';
+import { useClients } from '@/hooks/useClients';
+import { useCompanyInfo } from '@/hooks/useCompanyInfo';
+import { useQuoteItems, useSaveQuote } from '@/hooks/useQuotes';
+import {
+  applyClientTaxRate,
+  calculateInvoiceTotals,
+  createEmptyLineItem,
+  DiscountType,
+  EditableLineItem,
+  getDefaultTaxRate,
+  toEditableLineItem,
+  toLineItemPayload
+} from '@/lib/invoiceTotals';
+import { useToast } from '@/hooks/use-toast';
+import { Tables } from '@/integrations/supabase/types';
+import LineItemsEditor from '@/components/LineItemsEditor';
+
+type Quote = Tables<'quotes'>;
+
+interface QuoteModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  quote?: Quote;
+}
+
+type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'rejected';
+
+const QuoteModal: React.FC<QuoteModalProps> = ({ isOpen, onClose, quote }) => {
+  const [formData, setFormData] = useState<{
+    client_id: string;
+    quote_number: string;
+    issue_date: Date;
+    expiry_date: Date;
+    notes: string;
+    status: QuoteStatus;
+    discount_type: DiscountType;
+    discount_value: number;
+    wht_rate: number;
+  }>({
+    client_id: '',
+    quote_number: '',
+    issue_date: new Date(),
+    expiry_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+    notes: '',
+    status: 'draft',
+    discount_type: 'percentage',
+    discount_value: 0,
+    wht_rate: 0
+  });
+
+  const { data: companyInfo } = useCompanyInfo();
+  const [items, setItems] = useState<EditableLineItem[]>([createEmptyLineItem(getDefaultTaxRate(undefined, companyInfo?.vat_rate), '1')]);
+
+  const { data: clients = [] } = useClients();
+  const { data: quoteItems } = useQuoteItems(quote?.id);
+  const saveQuote = useSaveQuote();
+  const { toast } = useToast();
+
+  const getClientTaxRate = (clientId: string) => {
+    return getDefaultTaxRate(clients.find(c => c.id === clientId), companyInfo?.vat_rate);
+  };
+
+  const handleClientChange = (clientId: string) => {
+    const previousRate = getClientTaxRate(formData.client_id);
+    setFormData(prev => ({ ...prev, client_id: clientId }));
+    setItems(prevItems => applyClientTaxRate(prevItems, previousRate, getClientTaxRate(clientId)));
+  };
+
+  useEffect(() => {
+    if (quote && isOpen) {
+      setFormData({
+        client_id: quote.client_id,
+        quote_number: quote.quote_number,
+        issue_date: new Date(quote.issue_date),
+        expiry_date: new Date(quote.expiry_date),
+        notes: quote.notes || '',
+        status: quote.status as QuoteStatus,
+        discount_type: quote.discount_type as DiscountType,
+        discount_value: quote.discount_value,
+        wht_rate: quote.wht_rate
+      });
+
+      if (quoteItems) {
+        setItems(quoteItems.map(toEditableLineItem));
+      }
+    } else if (!quote && isOpen) {
+      const quoteCount = Date.now().toString().slice(-4);
+      setFormData({
+        client_id: '',
+        quote_number: `QUO-${quoteCount}`,
+        issue_date: new Date(),
+        expiry_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+        notes: '',
+        status: 'draft',
+        discount_type: 'percentage',
+        discount_value: 0,
+        wht_rate: 0
+      });
+      // No client is chosen yet, so the first line starts at the company rate
+      setItems([createEmptyLineItem(getDefaultTaxRate(undefined, companyInfo?.vat_rate), '1')]);
+    }
+  }, [quote, isOpen, quoteItems, companyInfo?.vat_rate]);
+
+  const totals = calculateInvoiceTotals(items, formData);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.client_id) {
+      toast({
+        title: "Error",
+        description: "Please select a client",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (items.some(item => !item.description || item.quantity <= 0 || item.unit_price <= 0)) {
+      toast({
+        title: "Error",
+        description: "Please select inventory items for all line items",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.expiry_date < formData.issue_date) {
+      toast({
+        title: "Error",
+        description: "The expiry date cannot be before the issue date",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await saveQuote.mutateAsync({
+        id: quote?.id,
+        quote: {
+          client_id: formData.client_id,
+          quote_number: formData.quote_number,
+          issue_date: format(formData.issue_date, 'yyyy-MM-dd'),
+          expiry_date: format(formData.expiry_date, 'yyyy-MM-dd'),
+          notes: formData.notes,
+          status: formData.status,
+          subtotal: totals.subtotal,
+          discount_type: formData.discount_type,
+          discount_value: formData.discount_value,
+          discount_amount: totals.discount_amount,
+          tax_amount: totals.tax_amount,
+          wht_rate: formData.wht_rate,
+          wht_amount: totals.wht_amount,
+          total_amount: totals.total_amount
+        },
+        items: toLineItemPayload(items, totals)
+      });
+
+      toast({
+        title: "Success",
+        description: quote ? "Quote updated successfully" : "Quote created successfully",
+      });
+      onClose();
+    } catch (error) {
+      console.error('Save error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save quote",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{quote ? 'Edit Quote' : 'Create New Quote'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Basic Information */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="quote_client">Client *</Label>
+              <Select value={formData.client_id} onValueChange={handleClientChange}>
+                <SelectTrigger id="quote_client">
+                  <SelectValue placeholder="Select a client" />
+                </SelectTrigger>
+                <SelectContent>
+                  {clients.map((client) => (
+                    <SelectItem key={client.id} value={client.id}>
+                      {client.company_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="quote_number">Quote Number *</Label>
+              <Input
+                id="quote_number"
+                value={formData.quote_number}
+                onChange={(e) => setFormData({ ...formData, quote_number: e.target.value })}
+                required
+              />
+            </div>
+          </div>
+
+          {/* Dates */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Issue Date *</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-full justify-start text-left font-normal">
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {format(formData.issue_date, 'PPP')}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar
+                    mode="single"
+                    selected={formData.issue_date}
+                    onSelect={(date) => date && setFormData({ ...formData, issue_date: date })}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+
+            <div>
+              <Label>Valid Until *</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-full justify-start text-left font-normal">
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {format(formData.expiry_date, 'PPP')}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar
+                    mode="single"
+                    selected={formData.expiry_date}
+                    onSelect={(date) => date && setFormData({ ...formData, expiry_date: date })}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+          </div>
+
+          {/* Status */}
+          <div>
+            <Label htmlFor="quote_status">Status</Label>
+            <Select
+              value={formData.status}
+              onValueChange={(value: QuoteStatus) => {
+                setFormData(prev => ({ ...prev, status: value }));
+              }}
+            >
+              <SelectTrigger id="quote_status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="draft">Draft</SelectItem>
+                <SelectItem value="sent">Sent</SelectItem>
+                <SelectItem value="accepted">Accepted</SelectItem>
+                <SelectItem value="rejected">Rejected</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500 mt-1">
+              Stock is not reserved for quotes; it is only deducted when the quote is converted to an invoice.
+            </p>
+          </div>
+
+          {/* Line Items */}
+          <LineItemsEditor
+            label="Quote Items"
+            items={items}
+            setItems={setItems}
+            adjustments={formData}
+            onAdjustmentsChange={(changes) => setFormData(prev => ({ ...prev, ...changes }))}
+            totals={totals}
+            defaultTaxRate={getClientTaxRate(formData.client_id)}
+            defaultWhtRate={companyInfo?.wht_rate || 5}
+          />
+
+          {/* Notes */}
+          <div>
+            <Label htmlFor="quote_notes">Notes</Label>
+            <Textarea
+              id="quote_notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={3}
+              placeholder="Terms, delivery lead times or other notes for this quote..."
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveQuote.isPending}>
+              {saveQuote.isPending ? 'Saving...' : (quote ? 'Update Quote' : 'Create Quote')}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuoteModal;
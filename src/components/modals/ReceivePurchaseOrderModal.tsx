@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useReceivePurchaseOrder } from '@/hooks/usePurchaseOrders';
+import { useToast } from '@/hooks/use-toast';
+import { Tables } from '@/integrations/supabase/types';
+
+type PurchaseOrder = Tables<'purchase_orders'> & {
+  purchase_order_items: Tables<'purchase_order_items'>[];
+};
+
+interface ReceivePurchaseOrderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  purchaseOrder?: PurchaseOrder;
+  warehouseName?: string;
+}
+
+const ReceivePurchaseOrderModal: React.FC<ReceivePurchaseOrderModalProps> = ({ isOpen, onClose, purchaseOrder, warehouseName }) => {
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [reference, setReference] = useState('');
+
+  const receivePurchaseOrder = useReceivePurchaseOrder();
+  const { toast } = useToast();
+
+  const items = purchaseOrder?.purchase_order_items || [];
+
+  // Start with everything still outstanding, which is the usual full delivery
+  useEffect(() => {
+    if (isOpen && purchaseOrder) {
+      setQuantities(Object.fromEntries(
+        purchaseOrder.purchase_order_items.map(item => [
+          item.id,
+          String(Math.max(0, item.quantity_ordered - item.quantity_received))
+        ])
+      ));
+      setReference('');
+    }
+  }, [isOpen, purchaseOrder]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!purchaseOrder) return;
+
+    const received = items
+      .map(item => ({ purchase_order_item_id: item.id, quantity: parseInt(quantities[item.id] || '') || 0 }))
+      .filter(line => line.quantity > 0);
+
+    if (received.length === 0) {
+      toast({
+        title: "Error",
+        description: "Enter a received quantity for at least one line",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await receivePurchaseOrder.mutateAsync({ id: purchaseOrder.id, items: received, reference });
+      toast({
+        title: "Success",
+        description: `Delivery against ${purchaseOrder.po_number} added to stock`,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Receive error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to receive delivery",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Receive Delivery{purchaseOrder ? ` - ${purchaseOrder.po_number}` : ''}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {warehouseName && (
+            <p className="text-sm text-gray-600">
+              Received goods are added to stock at <span className="font-medium text-gray-900">{warehouseName}</span>.
+            </p>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-2 px-2 font-medium text-gray-600">Item</th>
+                  <th className="text-right py-2 px-2 font-medium text-gray-600">Ordered</th>
+                  <th className="text-right py-2 px-2 font-medium text-gray-600">Received</th>
+                  <th className="text-right py-2 px-2 font-medium text-gray-600 w-32">Receiving Now</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item) => {
+                  const outstanding = Math.max(0, item.quantity_ordered - item.quantity_received);
+                  return (
+                    <tr key={item.id} className="border-b border-gray-100">
+                      <td className="py-2 px-2 text-gray-900">{item.description}</td>
+                      <td className="py-2 px-2 text-right text-gray-700">{item.quantity_ordered}</td>
+                      <td className="py-2 px-2 text-right text-gray-700">{item.quantity_received}</td>
+                      <td className="py-2 px-2">
+                        <Input
+                          type="number"
+                          min="0"
+                          max={outstanding}
+                          step="1"
+                          className="text-right"
+                          value={quantities[item.id] ?? ''}
+                          onChange={(e) => setQuantities(prev => ({ ...prev, [item.id]: e.target.value }))}
+                          disabled={outstanding === 0}
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <Label htmlFor="receipt_reference">Delivery Reference</Label>
+            <Input
+              id="receipt_reference"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              placeholder="Waybill or delivery note number"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={receivePurchaseOrder.isPending}>
+              {receivePurchaseOrder.isPending ? 'Receiving...' : 'Receive Delivery'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReceivePurchaseOrderModal;
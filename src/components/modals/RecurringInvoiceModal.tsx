@@ -0,0 +1,363 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarIcon } from 'lucide-react';
+import { format } from 'date-fns';
+import { useClients } from '@/hooks/useClients';
+import { useCompanyInfo } from '@/hooks/useCompanyInfo';
+import { useRecurringInvoiceItems, useSaveRecurringInvoice } from '@/hooks/useRecurringInvoices';
+import {
+  applyClientTaxRate,
+  calculateInvoiceTotals,
+  createEmptyLineItem,
+  DiscountType,
+  EditableLineItem,
+  getDefaultTaxRate,
+  toEditableLineItem,
+  toLineItemPayload
+} from '@/lib/invoiceTotals';
+import { RECURRING_FREQUENCIES, RecurringFrequency } from '@/lib/recurrence';
+import { useToast } from '@/hooks/use-toast';
+import { Tables } from '@/integrations/supabase/types';
+import LineItemsEditor from '@/components/LineItemsEditor';
+
+type RecurringInvoice = Tables<'recurring_invoices'>;
+
+interface RecurringInvoiceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  recurringInvoice?: RecurringInvoice;
+}
+
+const RecurringInvoiceModal: React.FC<RecurringInvoiceModalProps> = ({ isOpen, onClose, recurringInvoice }) => {
+  const [formData, setFormData] = useState<{
+    client_id: string;
+    name: string;
+    frequency: RecurringFrequency;
+    start_date: Date;
+    end_date: Date | undefined;
+    payment_terms_days: number;
+    auto_send: boolean;
+    notes: string;
+    discount_type: DiscountType;
+    discount_value: number;
+    wht_rate: number;
+  }>({
+    client_id: '',
+    name: '',
+    frequency: 'monthly',
+    start_date: new Date(),
+    end_date: undefined,
+    payment_terms_days: 30,
+    auto_send: false,
+    notes: '',
+    discount_type: 'percentage',
+    discount_value: 0,
+    wht_rate: 0
+  });
+
+  const { data: companyInfo } = useCompanyInfo();
+  const [items, setItems] = useState<EditableLineItem[]>([createEmptyLineItem(getDefaultTaxRate(undefined, companyInfo?.vat_rate), '1')]);
+
+  const { data: clients = [] } = useClients();
+  const { data: recurringItems } = useRecurringInvoiceItems(recurringInvoice?.id);
+  const saveRecurringInvoice = useSaveRecurringInvoice();
+  const { toast } = useToast();
+
+  const getClientTaxRate = (clientId: string) => {
+    return getDefaultTaxRate(clients.find(c => c.id === clientId), companyInfo?.vat_rate);
+  };
+
+  const handleClientChange = (clientId: string) => {
+    const previousRate = getClientTaxRate(formData.client_id);
+    setFormData(prev => ({ ...prev, client_id: clientId }));
+    setItems(prevItems => applyClientTaxRate(prevItems, previousRate, getClientTaxRate(clientId)));
+  };
+
+  useEffect(() => {
+    if (recurringInvoice && isOpen) {
+      setFormData({
+        client_id: recurringInvoice.client_id,
+        name: recurringInvoice.name,
+        frequency: recurringInvoice.frequency as RecurringFrequency,
+        start_date: new Date(recurringInvoice.start_date),
+        end_date: recurringInvoice.end_date ? new Date(recurringInvoice.end_date) : undefined,
+        payment_terms_days: recurringInvoice.payment_terms_days,
+        auto_send: recurringInvoice.auto_send,
+        notes: recurringInvoice.notes || '',
+        discount_type: recurringInvoice.discount_type as DiscountType,
+        discount_value: recurringInvoice.discount_value,
+        wht_rate: recurringInvoice.wht_rate
+      });
+
+      if (recurringItems) {
+        setItems(recurringItems.map(toEditableLineItem));
+      }
+    } else if (!recurringInvoice && isOpen) {
+      setFormData({
+        client_id: '',
+        name: '',
+        frequency: 'monthly',
+        start_date: new Date(),
+        end_date: undefined,
+        payment_terms_days: 30,
+        auto_send: false,
+        notes: '',
+        discount_type: 'percentage',
+        discount_value: 0,
+        wht_rate: 0
+      });
+      // No client is chosen yet, so the first line starts at the company rate
+      setItems([createEmptyLineItem(getDefaultTaxRate(undefined, companyInfo?.vat_rate), '1')]);
+    }
+  }, [recurringInvoice, isOpen, recurringItems, companyInfo?.vat_rate]);
+
+  const totals = calculateInvoiceTotals(items, formData);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.client_id) {
+      toast({
+        title: "Error",
+        description: "Please select a client",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (items.some(item => !item.description || item.quantity <= 0 || item.unit_price <= 0)) {
+      toast({
+        title: "Error",
+        description: "Please select inventory items for all line items",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.end_date && formData.end_date < formData.start_date) {
+      toast({
+        title: "Error",
+        description: "The end date cannot be before the start date",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await saveRecurringInvoice.mutateAsync({
+        id: recurringInvoice?.id,
+        recurringInvoice: {
+          client_id: formData.client_id,
+          name: formData.name,
+          frequency: formData.frequency,
+          start_date: format(formData.start_date, 'yyyy-MM-dd'),
+          end_date: formData.end_date ? format(formData.end_date, 'yyyy-MM-dd') : null,
+          payment_terms_days: formData.payment_terms_days,
+          auto_send: formData.auto_send,
+          notes: formData.notes,
+          subtotal: totals.subtotal,
+          discount_type: formData.discount_type,
+          discount_value: formData.discount_value,
+          discount_amount: totals.discount_amount,
+          tax_amount: totals.tax_amount,
+          wht_rate: formData.wht_rate,
+          wht_amount: totals.wht_amount,
+          total_amount: totals.total_amount
+        },
+        items: toLineItemPayload(items, totals)
+      });
+
+      toast({
+        title: "Success",
+        description: recurringInvoice ? "Recurring invoice updated successfully" : "Recurring invoice created successfully",
+      });
+      onClose();
+    } catch (error) {
+      console.error('Save error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save recurring invoice",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{recurringInvoice ? 'Edit Recurring Invoice' : 'Create Recurring Invoice'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Basic Information */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="recurring_client">Client *</Label>
+              <Select value={formData.client_id} onValueChange={handleClientChange}>
+                <SelectTrigger id="recurring_client">
+                  <SelectValue placeholder="Select a client" />
+                </SelectTrigger>
+                <SelectContent>
+                  {clients.map((client) => (
+                    <SelectItem key={client.id} value={client.id}>
+                      {client.company_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="recurring_name">Name *</Label>
+              <Input
+                id="recurring_name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. Monthly rebar supply contract"
+                required
+              />
+            </div>
+          </div>
+
+          {/* Schedule */}
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="recurring_frequency">Frequency *</Label>
+              <Select
+                value={formData.frequency}
+                onValueChange={(value: RecurringFrequency) => {
+                  setFormData(prev => ({ ...prev, frequency: value }));
+                }}
+              >
+                <SelectTrigger id="recurring_frequency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RECURRING_FREQUENCIES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label>Start Date *</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-full justify-start text-left font-normal">
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {format(formData.start_date, 'PPP')}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar
+                    mode="single"
+                    selected={formData.start_date}
+                    onSelect={(date) => date && setFormData({ ...formData, start_date: date })}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+
+            <div>
+              <Label>End Date</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-full justify-start text-left font-normal">
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {formData.end_date ? format(formData.end_date, 'PPP') : 'No end date'}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar
+                    mode="single"
+                    selected={formData.end_date}
+                    onSelect={(date) => setFormData({ ...formData, end_date: date })}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="recurring_terms">Payment Terms (days)</Label>
+              <Input
+                id="recurring_terms"
+                type="number"
+                min="0"
+                value={formData.payment_terms_days}
+                onChange={(e) => setFormData({ ...formData, payment_terms_days: parseInt(e.target.value) || 0 })}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Each invoice is due this many days after it is generated.
+              </p>
+            </div>
+
+            <div className="pt-6">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="recurring_auto_send"
+                  checked={formData.auto_send}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, auto_send: checked === true }))}
+                />
+                <Label htmlFor="recurring_auto_send" className="font-normal">Email each invoice to the client automatically</Label>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Otherwise invoices are generated as drafts for you to review and send.
+              </p>
+            </div>
+          </div>
+
+          {/* Line Items */}
+          <LineItemsEditor
+            label="Invoice Items"
+            items={items}
+            setItems={setItems}
+            adjustments={formData}
+            onAdjustmentsChange={(changes) => setFormData(prev => ({ ...prev, ...changes }))}
+            totals={totals}
+            defaultTaxRate={getClientTaxRate(formData.client_id)}
+            defaultWhtRate={companyInfo?.wht_rate || 5}
+          />
+
+          {/* Notes */}
+          <div>
+            <Label htmlFor="recurring_notes">Notes</Label>
+            <Textarea
+              id="recurring_notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={3}
+              placeholder="Notes copied onto every generated invoice..."
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveRecurringInvoice.isPending}>
+              {saveRecurringInvoice.isPending ? 'Saving...' : (recurringInvoice ? 'Update Recurring Invoice' : 'Create Recurring Invoice')}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecurringInvoiceModal;
@@ -0,0 +1,230 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAdjustInventoryQuantity, useReceiveInventoryStock, useInventoryStock } from '@/hooks/useInventory';
+import { useWarehouseLocations } from '@/hooks/useWarehouseLocations';
+import { useToast } from '@/hooks/use-toast';
+import { Tables } from '@/integrations/supabase/types';
+
+type InventoryItem = Tables<'inventory'>;
+
+type AdjustmentMode = 'receipt' | 'adjustment';
+
+interface StockAdjustmentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  item?: InventoryItem;
+}
+
+const StockAdjustmentModal: React.FC<StockAdjustmentModalProps> = ({ isOpen, onClose, item }) => {
+  const [mode, setMode] = useState<AdjustmentMode>('receipt');
+  const [quantity, setQuantity] = useState('');
+  const [reason, setReason] = useState('');
+  const [unitCost, setUnitCost] = useState('');
+  const [warehouseLocationId, setWarehouseLocationId] = useState('');
+
+  const { data: stock = [] } = useInventoryStock();
+  const { data: warehouseLocations = [] } = useWarehouseLocations();
+  const adjustQuantity = useAdjustInventoryQuantity();
+  const receiveStock = useReceiveInventoryStock();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (isOpen) {
+      setMode('receipt');
+      setQuantity('');
+      setReason('');
+      setUnitCost('');
+      setWarehouseLocationId(item?.warehouse_location_id || '');
+    }
+  }, [isOpen, item]);
+
+  const enteredQuantity = parseInt(quantity) || 0;
+  const currentQuantity = stock.find(row =>
+    row.inventory_item_id === item?.id && row.warehouse_location_id === warehouseLocationId
+  )?.quantity ?? 0;
+  const locationName = warehouseLocations.find(location => location.id === warehouseLocationId)?.name;
+  const resultingQuantity = mode === 'receipt' ? currentQuantity + enteredQuantity : enteredQuantity;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!item) return;
+
+    if (!warehouseLocationId) {
+      toast({
+        title: "Error",
+        description: "Please select the warehouse location",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (mode === 'receipt' && enteredQuantity <= 0) {
+      toast({
+        title: "Error",
+        description: "Enter the quantity received",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (mode === 'adjustment' && (quantity === '' || enteredQuantity < 0)) {
+      toast({
+        title: "Error",
+        description: "Enter the quantity now on hand",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (mode === 'adjustment' && !reason.trim()) {
+      toast({
+        title: "Error",
+        description: "Please give a reason for the adjustment",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      if (mode === 'receipt') {
+        await receiveStock.mutateAsync({
+          id: item.id,
+          warehouseLocationId,
+          quantity: enteredQuantity,
+          reason,
+          unitCost: unitCost === '' ? undefined : parseFloat(unitCost) || 0
+        });
+      } else {
+        await adjustQuantity.mutateAsync({ id: item.id, warehouseLocationId, newQuantity: enteredQuantity, reason });
+      }
+      toast({
+        title: "Success",
+        description: `${item.name} now has ${resultingQuantity} units at ${locationName}`,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Stock adjustment error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update stock",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const isPending = adjustQuantity.isPending || receiveStock.isPending;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Adjust Stock{item ? ` - ${item.name}` : ''}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="adjustment_location">Warehouse Location *</Label>
+            <Select value={warehouseLocationId} onValueChange={setWarehouseLocationId}>
+              <SelectTrigger id="adjustment_location">
+                <SelectValue placeholder="Select warehouse location" />
+              </SelectTrigger>
+              <SelectContent>
+                {warehouseLocations.map((location) => (
+                  <SelectItem key={location.id} value={location.id}>
+                    {location.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="p-3 bg-gray-50 rounded-lg text-sm text-gray-700">
+            Currently in stock{locationName ? ` at ${locationName}` : ''}: <span className="font-medium text-gray-900">{currentQuantity}</span>
+          </div>
+
+          <div>
+            <Label htmlFor="adjustment_mode">Type</Label>
+            <Select value={mode} onValueChange={(value: AdjustmentMode) => setMode(value)}>
+              <SelectTrigger id="adjustment_mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="receipt">Receive stock</SelectItem>
+                <SelectItem value="adjustment">Correct quantity on hand</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="adjustment_quantity">
+              {mode === 'receipt' ? 'Quantity Received *' : 'Quantity On Hand *'}
+            </Label>
+            <Input
+              id="adjustment_quantity"
+              type="number"
+              min="0"
+              step="1"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              required
+            />
+            {quantity !== '' && (
+              <p className="text-xs text-gray-500 mt-1">
+                Stock will go from {currentQuantity} to {resultingQuantity}.
+              </p>
+            )}
+          </div>
+
+          {mode === 'receipt' && (
+            <div>
+              <Label htmlFor="adjustment_unit_cost">Unit Cost (₦)</Label>
+              <Input
+                id="adjustment_unit_cost"
+                type="number"
+                min="0"
+                step="0.01"
+                value={unitCost}
+                onChange={(e) => setUnitCost(e.target.value)}
+                placeholder={item ? `Average cost ${item.cost_price}` : ''}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                What each unit cost to buy. It is blended into the item's average cost; leave blank to keep the average as it is.
+              </p>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="adjustment_reason">
+              {mode === 'receipt' ? 'Reference' : 'Reason *'}
+            </Label>
+            <Textarea
+              id="adjustment_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              placeholder={mode === 'receipt'
+                ? 'Supplier, waybill or delivery note number...'
+                : 'Stock count, damaged rods, offcuts scrapped...'}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPending}>
+              {isPending ? 'Saving...' : 'Update Stock'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StockAdjustmentModal;
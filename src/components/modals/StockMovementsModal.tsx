@@ -0,0 +1,126 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { useInventoryMovements } from '@/hooks/useInventory';
+import { useWarehouseLocations } from '@/hooks/useWarehouseLocations';
+import { Tables } from '@/integrations/supabase/types';
+
+type InventoryItem = Tables<'inventory'>;
+
+interface StockMovementsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  item?: InventoryItem;
+}
+
+const StockMovementsModal: React.FC<StockMovementsModalProps> = ({ isOpen, onClose, item }) => {
+  const { data: movements = [], isLoading } = useInventoryMovements(isOpen ? item?.id : undefined);
+  const { data: warehouseLocations = [] } = useWarehouseLocations();
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  };
+
+  const getWarehouseLocationName = (locationId: string | null) => {
+    if (!locationId) return 'no location';
+    return warehouseLocations.find(loc => loc.id === locationId)?.name || 'a removed location';
+  };
+
+  const getTypeColor = (type: string) => {
+    switch (type) {
+      case 'sale': return 'bg-blue-100 text-blue-700 hover:bg-blue-200';
+      case 'return': return 'bg-purple-100 text-purple-700 hover:bg-purple-200';
+      case 'receipt': return 'bg-green-100 text-green-700 hover:bg-green-200';
+      case 'transfer': return 'bg-gray-100 text-gray-700 hover:bg-gray-200';
+      case 'adjustment': return 'bg-orange-100 text-orange-700 hover:bg-orange-200';
+      default: return 'bg-gray-100 text-gray-700 hover:bg-gray-200';
+    }
+  };
+
+  const getDetails = (movement: typeof movements[number]) => {
+    if (movement.movement_type === 'transfer' && movement.stock_transfers) {
+      if (movement.quantity_change < 0) {
+        return `${movement.stock_transfers.transfer_number} sent to ${getWarehouseLocationName(movement.to_warehouse_location_id)}`;
+      }
+      // A cancelled transfer puts the stock back where it was sent from
+      return movement.reason || `${movement.stock_transfers.transfer_number} received from ${getWarehouseLocationName(movement.from_warehouse_location_id)}`;
+    }
+
+    if (movement.movement_type === 'transfer') {
+      return `Moved from ${getWarehouseLocationName(movement.from_warehouse_location_id)} to ${getWarehouseLocationName(movement.to_warehouse_location_id)}`;
+    }
+
+    const references = [
+      movement.invoices?.invoice_number && `Invoice ${movement.invoices.invoice_number}`,
+      movement.credit_notes?.credit_note_number && `Credit note ${movement.credit_notes.credit_note_number}`,
+      movement.purchase_orders?.po_number && `Purchase order ${movement.purchase_orders.po_number}`,
+      movement.reason
+    ].filter(Boolean);
+
+    return references.join(' · ') || '-';
+  };
+
+  const formatChange = (change: number) => {
+    if (change > 0) return `+${change}`;
+    return change.toString();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Stock History{item ? ` - ${item.name}` : ''}</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-gray-600">Loading stock history...</div>
+        ) : movements.length === 0 ? (
+          <div className="text-center py-8 text-gray-600">No stock movements have been recorded for this item.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-3 px-4 font-medium text-gray-600">Date</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-600">Type</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-600">Location</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-600">Details</th>
+                  <th className="text-right py-3 px-4 font-medium text-gray-600">Change</th>
+                  <th className="text-right py-3 px-4 font-medium text-gray-600">Balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {movements.map((movement) => (
+                  <tr key={movement.id} className="border-b border-gray-100 hover:bg-gray-50">
+                    <td className="py-3 px-4 text-gray-700 text-sm whitespace-nowrap">{formatDateTime(movement.created_at)}</td>
+                    <td className="py-3 px-4">
+                      <Badge className={getTypeColor(movement.movement_type)}>
+                        {movement.movement_type}
+                      </Badge>
+                    </td>
+                    <td className="py-3 px-4 text-gray-700 text-sm">
+                      {movement.warehouse_location_id ? getWarehouseLocationName(movement.warehouse_location_id) : '-'}
+                    </td>
+                    <td className="py-3 px-4 text-gray-700 text-sm">{getDetails(movement)}</td>
+                    <td className={`py-3 px-4 text-right font-medium ${movement.quantity_change < 0 ? 'text-red-600' : movement.quantity_change > 0 ? 'text-green-600' : 'text-gray-500'}`}>
+                      {formatChange(movement.quantity_change)}
+                    </td>
+                    <td className="py-3 px-4 text-right font-medium text-gray-900">{movement.balance_after}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StockMovementsModal;
@@ -0,0 +1,280 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { useInventory, useInventoryStock } from '@/hooks/useInventory';
+import { useWarehouseLocations } from '@/hooks/useWarehouseLocations';
+import { useCreateStockTransfer } from '@/hooks/useStockTransfers';
+import { useToast } from '@/hooks/use-toast';
+
+interface TransferLine {
+  id: string;
+  inventory_item_id: string;
+  quantity: number;
+}
+
+interface StockTransferModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  fromWarehouseLocationId?: string;
+}
+
+const createEmptyLine = (id = Date.now().toString()): TransferLine => ({
+  id,
+  inventory_item_id: '',
+  quantity: 1
+});
+
+const StockTransferModal: React.FC<StockTransferModalProps> = ({ isOpen, onClose, fromWarehouseLocationId }) => {
+  const [formData, setFormData] = useState({
+    from_warehouse_location_id: '',
+    to_warehouse_location_id: '',
+    notes: ''
+  });
+  const [lines, setLines] = useState<TransferLine[]>([createEmptyLine('1')]);
+
+  const { data: inventory = [] } = useInventory();
+  const { data: stock = [] } = useInventoryStock();
+  const { data: warehouseLocations = [] } = useWarehouseLocations();
+  const createTransfer = useCreateStockTransfer();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData({
+        from_warehouse_location_id: fromWarehouseLocationId || '',
+        to_warehouse_location_id: '',
+        notes: ''
+      });
+      setLines([createEmptyLine('1')]);
+    }
+  }, [isOpen, fromWarehouseLocationId]);
+
+  const getAvailable = (inventoryItemId: string) => {
+    return stock.find(row =>
+      row.inventory_item_id === inventoryItemId &&
+      row.warehouse_location_id === formData.from_warehouse_location_id
+    )?.quantity || 0;
+  };
+
+  const availableItems = inventory.filter(item => getAvailable(item.id) > 0);
+
+  const updateLine = (lineId: string, changes: Partial<TransferLine>) => {
+    setLines(prev => prev.map(line => line.id === lineId ? { ...line, ...changes } : line));
+  };
+
+  // The lines only make sense for the location they were picked from
+  const handleFromChange = (value: string) => {
+    setFormData(prev => ({ ...prev, from_warehouse_location_id: value }));
+    setLines([createEmptyLine('1')]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.from_warehouse_location_id || !formData.to_warehouse_location_id) {
+      toast({
+        title: "Error",
+        description: "Please choose where the stock is moving from and to",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.from_warehouse_location_id === formData.to_warehouse_location_id) {
+      toast({
+        title: "Error",
+        description: "Stock can only be transferred between two different locations",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (lines.some(line => !line.inventory_item_id || line.quantity <= 0)) {
+      toast({
+        title: "Error",
+        description: "Please select an item and quantity for every line",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const overdrawn = lines.find(line => line.quantity > getAvailable(line.inventory_item_id));
+    if (overdrawn) {
+      const itemName = inventory.find(item => item.id === overdrawn.inventory_item_id)?.name;
+      toast({
+        title: "Insufficient Inventory",
+        description: `Only ${getAvailable(overdrawn.inventory_item_id)} units of ${itemName} available to send`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await createTransfer.mutateAsync({
+        transfer: formData,
+        items: lines.map(line => ({
+          inventory_item_id: line.inventory_item_id,
+          quantity: line.quantity
+        }))
+      });
+
+      toast({
+        title: "Success",
+        description: "Stock dispatched and marked in transit",
+      });
+      onClose();
+    } catch (error) {
+      console.error('Transfer error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to transfer stock",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Transfer Stock</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="transfer_from">From *</Label>
+              <Select value={formData.from_warehouse_location_id} onValueChange={handleFromChange}>
+                <SelectTrigger id="transfer_from">
+                  <SelectValue placeholder="Select warehouse location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {warehouseLocations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="transfer_to">To *</Label>
+              <Select
+                value={formData.to_warehouse_location_id}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, to_warehouse_location_id: value }))}
+              >
+                <SelectTrigger id="transfer_to">
+                  <SelectValue placeholder="Select warehouse location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {warehouseLocations
+                    .filter(location => location.id !== formData.from_warehouse_location_id)
+                    .map((location) => (
+                      <SelectItem key={location.id} value={location.id}>
+                        {location.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-4">
+              <Label className="text-lg font-semibold">Items *</Label>
+              <Button
+                type="button"
+                onClick={() => setLines(prev => [...prev, createEmptyLine()])}
+                variant="outline"
+                size="sm"
+                disabled={!formData.from_warehouse_location_id}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Item
+              </Button>
+            </div>
+
+            {!formData.from_warehouse_location_id ? (
+              <p className="text-sm text-gray-600">Choose the location the stock is leaving from to pick items.</p>
+            ) : availableItems.length === 0 ? (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                <p className="text-yellow-800 text-sm">Nothing is in stock at this location.</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {lines.map((line) => (
+                  <div key={line.id} className="flex items-start gap-3">
+                    <div className="flex-1">
+                      <Select value={line.inventory_item_id} onValueChange={(value) => updateLine(line.id, { inventory_item_id: value })}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select inventory item" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {availableItems.map((item) => (
+                            <SelectItem key={item.id} value={item.id}>
+                              {item.name} (available: {getAvailable(item.id)})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="w-28">
+                      <Input
+                        type="number"
+                        min="1"
+                        max={line.inventory_item_id ? getAvailable(line.inventory_item_id) : undefined}
+                        step="1"
+                        className="text-right"
+                        value={line.quantity}
+                        onChange={(e) => updateLine(line.id, { quantity: parseInt(e.target.value) || 0 })}
+                      />
+                    </div>
+                    {lines.length > 1 && (
+                      <Button
+                        type="button"
+                        onClick={() => setLines(prev => prev.filter(l => l.id !== line.id))}
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="transfer_notes">Notes</Label>
+            <Textarea
+              id="transfer_notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={2}
+              placeholder="Truck, driver or waybill number..."
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={createTransfer.isPending}>
+              {createTransfer.isPending ? 'Dispatching...' : 'Dispatch Transfer'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StockTransferModal;
@@ -0,0 +1,413 @@
+import React, { useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Download, Upload } from 'lucide-react';
+import { format } from 'date-fns';
+import { useInventory, useInventoryStock } from '@/hooks/useInventory';
+import { useSaveStocktakeCounts, usePostStocktake } from '@/hooks/useStocktakes';
+import { useToast } from '@/hooks/use-toast';
+import { downloadCsv } from '@/lib/csv';
+import { COUNT_SHEET_HEADERS, getVariance, readCountSheet } from '@/lib/stocktake';
+import { Tables } from '@/integrations/supabase/types';
+
+export type Stocktake = Tables<'stocktakes'> & {
+  stocktake_items: (Tables<'stocktake_items'> & {
+    inventory: { name: string; category: string | null } | null;
+  })[];
+};
+
+interface CountLine {
+  inventory_item_id: string;
+  name: string;
+  category: string | null;
+  expected_quantity: number;
+  unit_cost: number;
+}
+
+interface StocktakeCountModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  stocktake: Stocktake;
+  warehouseName: string;
+}
+
+// Mounted per stocktake, so the counts typed in are not reset when the list refetches
+const StocktakeCountModal: React.FC<StocktakeCountModalProps> = ({ isOpen, onClose, stocktake, warehouseName }) => {
+  const [counts, setCounts] = useState<Record<string, string>>(() => {
+    const initial: Record<string, string> = {};
+    stocktake.stocktake_items.forEach(item => {
+      if (item.counted_quantity !== null) initial[item.inventory_item_id] = String(item.counted_quantity);
+    });
+    return initial;
+  });
+  const [countedBy, setCountedBy] = useState(stocktake.counted_by || '');
+  const [variancesOnly, setVariancesOnly] = useState(stocktake.status !== 'counting');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: inventory = [] } = useInventory();
+  const { data: stock = [] } = useInventoryStock();
+  const saveCounts = useSaveStocktakeCounts();
+  const postStocktake = usePostStocktake();
+  const { toast } = useToast();
+
+  const isEditable = stocktake.status === 'counting';
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-NG', {
+      style: 'currency',
+      currency: 'NGN'
+    }).format(amount);
+  };
+
+  // Items found on the shelves that were not on the sheet are counted against
+  // what the system holds at the location now, as the database will do
+  const sheetLines: CountLine[] = stocktake.stocktake_items.map(item => ({
+    inventory_item_id: item.inventory_item_id,
+    name: item.inventory?.name || 'Unknown item',
+    category: item.inventory?.category || null,
+    expected_quantity: item.expected_quantity,
+    unit_cost: item.unit_cost
+  }));
+  const addedLines: CountLine[] = inventory
+    .filter(item => counts[item.id] !== undefined && !sheetLines.some(line => line.inventory_item_id === item.id))
+    .map(item => ({
+      inventory_item_id: item.id,
+      name: item.name,
+      category: item.category,
+      expected_quantity: stock.find(row =>
+        row.inventory_item_id === item.id &&
+        row.warehouse_location_id === stocktake.warehouse_location_id
+      )?.quantity || 0,
+      unit_cost: item.cost_price
+    }));
+  const lines = [...sheetLines, ...addedLines].sort((a, b) => a.name.localeCompare(b.name));
+
+  const getCounted = (itemId: string) => {
+    const value = (counts[itemId] ?? '').trim();
+    return value === '' ? null : parseInt(value);
+  };
+
+  const reviewed = lines.map(line => {
+    const counted = getCounted(line.inventory_item_id);
+    const variance = getVariance({ expected_quantity: line.expected_quantity, counted_quantity: counted });
+    return { ...line, counted, variance, valueImpact: variance * line.unit_cost };
+  });
+
+  const countedCount = reviewed.filter(line => line.counted !== null).length;
+  const withVariance = reviewed.filter(line => line.variance !== 0);
+  const gains = withVariance.reduce((sum, line) => sum + Math.max(line.valueImpact, 0), 0);
+  const losses = withVariance.reduce((sum, line) => sum + Math.min(line.valueImpact, 0), 0);
+  const visibleLines = variancesOnly ? withVariance : reviewed;
+
+  const handleDownloadSheet = () => {
+    downloadCsv(
+      `count-sheet-${stocktake.stocktake_number}.csv`,
+      COUNT_SHEET_HEADERS,
+      lines.map(line => [line.inventory_item_id, line.name, line.category || '', counts[line.inventory_item_id] ?? ''])
+    );
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = readCountSheet(
+        await file.text(),
+        inventory.map(item => ({ inventory_item_id: item.id, name: item.name }))
+      );
+      const uploaded = Object.keys(result.counts).length;
+      setCounts(prev => {
+        const next = { ...prev };
+        Object.entries(result.counts).forEach(([itemId, quantity]) => {
+          next[itemId] = String(quantity);
+        });
+        return next;
+      });
+
+      const problems = [
+        result.unmatched.length > 0 ? `${result.unmatched.length} row(s) did not match an item: ${result.unmatched.join(', ')}` : '',
+        result.invalid.length > 0 ? `${result.invalid.length} row(s) had an invalid count: ${result.invalid.join(', ')}` : ''
+      ].filter(Boolean);
+
+      toast({
+        title: problems.length > 0 ? "Counts partly imported" : "Success",
+        description: [`${uploaded} count(s) loaded from ${file.name}. Save to keep them.`, ...problems].join(' '),
+        variant: problems.length > 0 ? "destructive" : undefined,
+      });
+    } catch (error) {
+      console.error('Count sheet error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to read count sheet",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const validateCounts = () => {
+    const invalid = reviewed.find(line => {
+      const value = (counts[line.inventory_item_id] ?? '').trim();
+      return value !== '' && !/^\d+$/.test(value);
+    });
+    if (invalid) {
+      toast({
+        title: "Error",
+        description: `The count for ${invalid.name} must be a whole number of zero or more`,
+        variant: "destructive",
+      });
+      return false;
+    }
+    return true;
+  };
+
+  const persistCounts = () => saveCounts.mutateAsync({
+    stocktakeId: stocktake.id,
+    countedBy,
+    counts: lines.map(line => ({
+      inventory_item_id: line.inventory_item_id,
+      counted_quantity: getCounted(line.inventory_item_id)
+    }))
+  });
+
+  const handleSave = async () => {
+    if (!validateCounts()) return;
+
+    try {
+      await persistCounts();
+      toast({
+        title: "Success",
+        description: `${countedCount} of ${lines.length} item(s) counted`,
+      });
+    } catch (error) {
+      console.error('Save counts error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save counts",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePost = async () => {
+    if (!validateCounts()) return;
+
+    if (countedCount === 0) {
+      toast({
+        title: "Error",
+        description: "Enter at least one counted quantity before posting",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const uncounted = lines.length - countedCount;
+    const message = [
+      `Post ${withVariance.length} stock adjustment(s) for ${stocktake.stocktake_number}?`,
+      `Net value impact: ${formatCurrency(gains + losses)}.`,
+      uncounted > 0 ? `${uncounted} item(s) were not counted and will be left as they are.` : '',
+      'This cannot be undone.'
+    ].filter(Boolean).join('\n');
+    if (!confirm(message)) return;
+
+    try {
+      await persistCounts();
+      await postStocktake.mutateAsync(stocktake.id);
+      toast({
+        title: "Success",
+        description: `${stocktake.stocktake_number} posted to inventory`,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Post stocktake error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to post stocktake",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getVarianceClass = (variance: number) => {
+    if (variance > 0) return 'text-green-600';
+    if (variance < 0) return 'text-red-600';
+    return 'text-gray-500';
+  };
+
+  const formatVariance = (variance: number) => variance > 0 ? `+${variance}` : String(variance);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{stocktake.stocktake_number} - {warehouseName}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {isEditable ? (
+            <div className="flex flex-col md:flex-row md:items-end gap-4">
+              <div className="flex-1">
+                <Label htmlFor="stocktake_counted_by">Counted By</Label>
+                <Input
+                  id="stocktake_counted_by"
+                  value={countedBy}
+                  onChange={(e) => setCountedBy(e.target.value)}
+                  placeholder="Names of the people who did the count"
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" onClick={handleDownloadSheet} className="flex items-center gap-2">
+                  <Download className="w-4 h-4" />
+                  Count Sheet
+                </Button>
+                <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2">
+                  <Upload className="w-4 h-4" />
+                  Upload Counts
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,text/csv"
+                  className="hidden"
+                  onChange={handleUpload}
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="text-gray-600">Counted By</p>
+                <p className="font-medium text-gray-900">{stocktake.counted_by || '-'}</p>
+                {stocktake.counted_at && (
+                  <p className="text-gray-500">{format(new Date(stocktake.counted_at), 'MMM d, yyyy h:mm a')}</p>
+                )}
+              </div>
+              <div>
+                <p className="text-gray-600">Approved By</p>
+                <p className="font-medium text-gray-900">{stocktake.approved_by_email || '-'}</p>
+                {stocktake.posted_at && (
+                  <p className="text-gray-500">{format(new Date(stocktake.posted_at), 'MMM d, yyyy h:mm a')}</p>
+                )}
+              </div>
+              <div>
+                <p className="text-gray-600">Status</p>
+                <p className="font-medium text-gray-900 capitalize">{stocktake.status}</p>
+              </div>
+            </div>
+          )}
+
+          {stocktake.notes && <p className="text-sm text-gray-600">{stocktake.notes}</p>}
+
+          {/* Variance summary */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-sm text-gray-600">Counted</p>
+              <p className="text-lg font-semibold text-gray-900">{countedCount} / {lines.length}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-sm text-gray-600">Surplus Value</p>
+              <p className="text-lg font-semibold text-green-600">{formatCurrency(gains)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-sm text-gray-600">Shortage Value</p>
+              <p className="text-lg font-semibold text-red-600">{formatCurrency(losses)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-sm text-gray-600">Net Impact</p>
+              <p className={`text-lg font-semibold ${getVarianceClass(gains + losses)}`}>{formatCurrency(gains + losses)}</p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="stocktake_variances_only"
+              checked={variancesOnly}
+              onCheckedChange={(checked) => setVariancesOnly(checked === true)}
+            />
+            <Label htmlFor="stocktake_variances_only" className="font-normal">Show variances only ({withVariance.length})</Label>
+          </div>
+
+          {visibleLines.length === 0 ? (
+            <div className="text-center py-8 text-gray-600">
+              {variancesOnly ? 'No variances so far.' : 'Nothing to count at this location.'}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Item</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">Expected</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600 w-32">Counted</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">Variance</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">Unit Cost</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-600">Value Impact</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleLines.map(line => (
+                    <tr key={line.inventory_item_id} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-2 px-4">
+                        <div className="font-medium text-gray-900">{line.name}</div>
+                        {line.category && <div className="text-xs text-gray-500">{line.category}</div>}
+                      </td>
+                      <td className="py-2 px-4 text-right text-gray-700">{line.expected_quantity}</td>
+                      <td className="py-2 px-4 text-right">
+                        {isEditable ? (
+                          <Input
+                            type="number"
+                            min="0"
+                            step="1"
+                            className="h-8 text-right"
+                            value={counts[line.inventory_item_id] ?? ''}
+                            onChange={(e) => setCounts(prev => ({ ...prev, [line.inventory_item_id]: e.target.value }))}
+                          />
+                        ) : (
+                          <span className="text-gray-900">{line.counted ?? '-'}</span>
+                        )}
+                      </td>
+                      <td className={`py-2 px-4 text-right font-medium ${getVarianceClass(line.variance)}`}>
+                        {line.counted === null ? '-' : formatVariance(line.variance)}
+                      </td>
+                      <td className="py-2 px-4 text-right text-gray-700">{formatCurrency(line.unit_cost)}</td>
+                      <td className={`py-2 px-4 text-right ${getVarianceClass(line.valueImpact)}`}>
+                        {line.variance === 0 ? '-' : formatCurrency(line.valueImpact)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Close
+            </Button>
+            {isEditable && (
+              <>
+                <Button type="button" variant="outline" onClick={handleSave} disabled={saveCounts.isPending || postStocktake.isPending}>
+                  {saveCounts.isPending ? 'Saving...' : 'Save Counts'}
+                </Button>
+                <Button
+                  type="button"
+                  className="bg-green-600 hover:bg-green-700 text-white"
+                  onClick={handlePost}
+                  disabled={saveCounts.isPending || postStocktake.isPending}
+                >
+                  {postStocktake.isPending ? 'Posting...' : 'Post Adjustments'}
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StocktakeCountModal;
@@ -0,0 +1,172 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useCreateSupplier, useUpdateSupplier } from '@/hooks/useSuppliers';
+import { Tables } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+
+type Supplier = Tables<'suppliers'>;
+
+interface SupplierModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  supplier?: Supplier;
+}
+
+const SupplierModal: React.FC<SupplierModalProps> = ({ isOpen, onClose, supplier }) => {
+  const [formData, setFormData] = useState({
+    company_name: '',
+    contact_name: '',
+    email: '',
+    phone: '',
+    address: '',
+    notes: '',
+  });
+
+  const createSupplier = useCreateSupplier();
+  const updateSupplier = useUpdateSupplier();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (supplier) {
+      setFormData({
+        company_name: supplier.company_name || '',
+        contact_name: supplier.contact_name || '',
+        email: supplier.email || '',
+        phone: supplier.phone || '',
+        address: supplier.address || '',
+        notes: supplier.notes || '',
+      });
+    } else {
+      setFormData({
+        company_name: '',
+        contact_name: '',
+        email: '',
+        phone: '',
+        address: '',
+        notes: '',
+      });
+    }
+  }, [supplier, isOpen]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      if (supplier) {
+        await updateSupplier.mutateAsync({ id: supplier.id, ...formData });
+        toast({
+          title: "Success",
+          description: "Supplier updated successfully",
+        });
+      } else {
+        await createSupplier.mutateAsync(formData);
+        toast({
+          title: "Success",
+          description: "Supplier created successfully",
+        });
+      }
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save supplier",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    setFormData(prev => ({
+      ...prev,
+      [e.target.name]: e.target.value,
+    }));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{supplier ? 'Edit Supplier' : 'New Supplier'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="supplier_company_name">Company Name *</Label>
+            <Input
+              id="supplier_company_name"
+              name="company_name"
+              value={formData.company_name}
+              onChange={handleChange}
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="supplier_contact_name">Contact Name</Label>
+            <Input
+              id="supplier_contact_name"
+              name="contact_name"
+              value={formData.contact_name}
+              onChange={handleChange}
+            />
+          </div>
+          <div>
+            <Label htmlFor="supplier_email">Email</Label>
+            <Input
+              id="supplier_email"
+              name="email"
+              type="email"
+              value={formData.email}
+              onChange={handleChange}
+            />
+          </div>
+          <div>
+            <Label htmlFor="supplier_phone">Phone</Label>
+            <Input
+              id="supplier_phone"
+              name="phone"
+              value={formData.phone}
+              onChange={handleChange}
+            />
+          </div>
+          <div>
+            <Label htmlFor="supplier_address">Address</Label>
+            <Input
+              id="supplier_address"
+              name="address"
+              value={formData.address}
+              onChange={handleChange}
+            />
+          </div>
+          <div>
+            <Label htmlFor="supplier_notes">Notes</Label>
+            <Textarea
+              id="supplier_notes"
+              name="notes"
+              value={formData.notes}
+              onChange={handleChange}
+              rows={2}
+              placeholder="Products supplied, payment terms, lead times..."
+            />
+          </div>
+          <div className="flex gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              className="flex-1"
+              disabled={createSupplier.isPending || updateSupplier.isPending}
+            >
+              {createSupplier.isPending || updateSupplier.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SupplierModal;
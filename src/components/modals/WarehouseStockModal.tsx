@@ -0,0 +1,79 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useInventory, useInventoryStock } from '@/hooks/useInventory';
+import { Tables } from '@/integrations/supabase/types';
+
+type WarehouseLocation = Tables<'warehouse_locations'>;
+
+interface WarehouseStockModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  warehouse?: WarehouseLocation;
+}
+
+const WarehouseStockModal: React.FC<WarehouseStockModalProps> = ({ isOpen, onClose, warehouse }) => {
+  const { data: inventory = [] } = useInventory();
+  const { data: stock = [] } = useInventoryStock();
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-NG', {
+      style: 'currency',
+      currency: 'NGN'
+    }).format(amount);
+  };
+
+  const rows = stock
+    .filter(row => row.warehouse_location_id === warehouse?.id && row.quantity > 0)
+    .flatMap(row => {
+      const item = inventory.find(inv => inv.id === row.inventory_item_id);
+      return item ? [{ id: row.id, quantity: row.quantity, item }] : [];
+    })
+    .sort((a, b) => a.item.name.localeCompare(b.item.name));
+
+  const totalValue = rows.reduce((sum, row) => sum + row.quantity * row.item.unit_price, 0);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Stock on Hand{warehouse ? ` - ${warehouse.name}` : ''}</DialogTitle>
+        </DialogHeader>
+
+        {rows.length === 0 ? (
+          <div className="text-center py-8 text-gray-600">Nothing is in stock at this location.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-3 px-4 font-medium text-gray-600">Item</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-600">Category</th>
+                  <th className="text-right py-3 px-4 font-medium text-gray-600">Quantity</th>
+                  <th className="text-right py-3 px-4 font-medium text-gray-600">Value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.id} className="border-b border-gray-100 hover:bg-gray-50">
+                    <td className="py-3 px-4 font-medium text-gray-900">{row.item.name}</td>
+                    <td className="py-3 px-4 text-gray-700">{row.item.category || '-'}</td>
+                    <td className="py-3 px-4 text-right font-medium text-gray-900">{row.quantity}</td>
+                    <td className="py-3 px-4 text-right text-gray-700">{formatCurrency(row.quantity * row.item.unit_price)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr>
+                  <td colSpan={3} className="py-3 px-4 text-right font-semibold text-gray-900">Total</td>
+                  <td className="py-3 px-4 text-right font-semibold text-gray-900">{formatCurrency(totalValue)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WarehouseStockModal;
@@ -0,0 +1,58 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { summarizeClientHistory } from '@/lib/clientHistory';
+
+// Every invoice for a client, regular and backdated, with the lifetime summary
+export const useClientHistory = (clientId?: string) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['client_history', clientId],
+    queryFn: async () => {
+      if (!user || !clientId) return null;
+
+      const { data: invoices, error: invoicesError } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('client_id', clientId)
+        .order('issue_date', { ascending: false });
+
+      if (invoicesError) throw invoicesError;
+
+      const invoiceIds = invoices.map(invoice => invoice.id);
+      if (invoiceIds.length === 0) {
+        return { invoices, summary: summarizeClientHistory({ invoices, payments: [], items: [] }) };
+      }
+
+      const [{ data: payments, error: paymentsError }, { data: items, error: itemsError }] = await Promise.all([
+        supabase
+          .from('payments')
+          .select('invoice_id, payment_date')
+          .in('invoice_id', invoiceIds),
+        supabase
+          .from('invoice_items')
+          .select(`
+            invoice_id,
+            inventory_item_id,
+            description,
+            quantity,
+            line_total,
+            inventory:inventory_item_id (
+              name
+            )
+          `)
+          .in('invoice_id', invoiceIds),
+      ]);
+
+      if (paymentsError) throw paymentsError;
+      if (itemsError) throw itemsError;
+
+      return {
+        invoices,
+        summary: summarizeClientHistory({ invoices, payments: payments || [], items: items || [] }),
+      };
+    },
+    enabled: !!user && !!clientId,
+  });
+};
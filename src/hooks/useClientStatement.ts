@@ -0,0 +1,55 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { buildClientStatement } from '@/lib/clientStatement';
+
+// Statement of account for a client between two yyyy-MM-dd dates. Drafts were
+// never sent and void invoices are not owed, so neither appears.
+export const useClientStatement = (clientId: string | undefined, from: string, to: string) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['client_statement', clientId, from, to],
+    queryFn: async () => {
+      if (!user || !clientId) return null;
+
+      const [
+        { data: invoices, error: invoicesError },
+        { data: payments, error: paymentsError },
+        { data: creditNotes, error: creditNotesError },
+      ] = await Promise.all([
+        supabase
+          .from('invoices')
+          .select('*')
+          .eq('client_id', clientId)
+          .not('status', 'in', '("draft","void")')
+          .lte('issue_date', to),
+        supabase
+          .from('payments')
+          .select('*, invoices!inner(invoice_number, client_id, status)')
+          .eq('invoices.client_id', clientId)
+          .not('invoices.status', 'in', '("draft","void")')
+          .lte('payment_date', to),
+        supabase
+          .from('credit_notes')
+          .select('*, invoices!inner(invoice_number, client_id, status)')
+          .eq('invoices.client_id', clientId)
+          .not('invoices.status', 'in', '("draft","void")')
+          .lte('issue_date', to),
+      ]);
+
+      if (invoicesError) throw invoicesError;
+      if (paymentsError) throw paymentsError;
+      if (creditNotesError) throw creditNotesError;
+
+      return buildClientStatement({
+        invoices: invoices || [],
+        payments: payments || [],
+        creditNotes: creditNotes || [],
+        from,
+        to,
+      });
+    },
+    enabled: !!user && !!clientId && !!from && !!to,
+  });
+};
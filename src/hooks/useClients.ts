@@ -28,6 +28,27 @@ export const useClients = () => {
   });
 };
 
+export const useClient = (clientId?: string) => {
+  const { user } = useAuth();
+  
+  return useQuery({
+    queryKey: ['clients', 'detail', clientId],
+    queryFn: async () => {
+      if (!user || !clientId) return null;
+      
+      const { data, error } = await supabase
+        .from('clients')
+        .select('*')
+        .eq('id', clientId)
+        .maybeSingle();
+      
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !!clientId,
+  });
+};
+
 export const useCreateClient = () => {
   const queryClient = useQueryClient();
   const { user } = useAuth();
@@ -19,6 +19,9 @@ export const useCompanyInfo = () => {
       const { data, error } = await supabase
         .from('company_info')
         .select('*')
+        .order('created_at')
+        .order('id')
+        .limit(1)
         .maybeSingle();
       
       if (error) throw error;
@@ -40,6 +43,9 @@ export const useUpdateCompanyInfo = () => {
       const { data: existing, error: checkError } = await supabase
         .from('company_info')
         .select('id')
+        .order('created_at')
+        .order('id')
+        .limit(1)
         .maybeSingle();
       
       if (checkError) throw checkError;
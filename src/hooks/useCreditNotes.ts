@@ -0,0 +1,83 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface CreateCreditNoteInput {
+  invoiceId: string;
+  issueDate: string;
+  reason?: string;
+  restock: boolean;
+  items: { invoice_item_id: string; quantity: number }[];
+}
+
+export const useCreditNotes = (invoiceId?: string) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['credit_notes', invoiceId],
+    queryFn: async () => {
+      if (!user || !invoiceId) return [];
+
+      const { data, error } = await supabase
+        .from('credit_notes')
+        .select('*, credit_note_items(*)')
+        .eq('invoice_id', invoiceId)
+        .order('issue_date', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !!invoiceId,
+  });
+};
+
+// A credit note changes the invoice balance and status, can put stock back and
+// reduces revenue, so everything built from those has to be refetched
+const invalidateCreditNoteQueries = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: ['credit_notes'] });
+  queryClient.invalidateQueries({ queryKey: ['invoices'] });
+  queryClient.invalidateQueries({ queryKey: ['backdated-invoices'] });
+  queryClient.invalidateQueries({ queryKey: ['inventory'] });
+  queryClient.invalidateQueries({ queryKey: ['sales_chart_data'] });
+  queryClient.invalidateQueries({ queryKey: ['client_statement'] });
+  queryClient.invalidateQueries({ queryKey: ['client_history'] });
+};
+
+export const useCreateCreditNote = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ invoiceId, issueDate, reason, restock, items }: CreateCreditNoteInput) => {
+      if (!user) throw new Error('User not authenticated');
+
+      // Amounts are worked out by the database from the invoice lines
+      const { data, error } = await supabase.rpc('create_credit_note', {
+        p_invoice_id: invoiceId,
+        p_credit_note: { issue_date: issueDate, reason: reason || null, restock },
+        p_items: items,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      invalidateCreditNoteQueries(queryClient);
+    },
+  });
+};
+
+export const useDeleteCreditNote = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.rpc('delete_credit_note', { p_credit_note_id: id });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateCreditNoteQueries(queryClient);
+    },
+  });
+};
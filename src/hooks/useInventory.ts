@@ -28,19 +28,23 @@ export const useInventory = () => {
   });
 };
 
+// The item and its alternate units are written by a single RPC so a new
+// item is never left without the units it was entered with
 export const useCreateInventoryItem = () => {
   const queryClient = useQueryClient();
   const { user } = useAuth();
   
   return useMutation({
-    mutationFn: async (item: Omit<InventoryInsert, 'user_id' | 'id'>) => {
+    mutationFn: async ({ item, units }: {
+      item: Omit<InventoryInsert, 'user_id' | 'id'>;
+      units: { unit_name: string; factor: number }[];
+    }) => {
       if (!user) throw new Error('User not authenticated');
       
-      const { data, error } = await supabase
-        .from('inventory')
-        .insert({ ...item, user_id: user.id })
-        .select()
-        .single();
+      const { data, error } = await supabase.rpc('create_inventory_item', {
+        p_item: item,
+        p_units: units
+      });
       
       if (error) throw error;
       return data;
@@ -62,12 +66,13 @@ export const useUpdateInventoryItem = () => {
         .eq('id', id)
         .select()
         .single();
-      
+
       if (error) throw error;
       return data;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['inventory'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory_movements'] });
     },
   });
 };
@@ -89,3 +94,145 @@ export const useDeleteInventoryItem = () => {
     },
   });
 };
+
+// Stock held at each warehouse location. Keyed under 'inventory' so every
+// mutation that refreshes the item list refreshes the locations too.
+export const useInventoryStock = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['inventory', 'stock'],
+    queryFn: async () => {
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('inventory_stock')
+        .select('*');
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+};
+
+// Alternate units for every item; stock itself is always in the base unit
+export const useInventoryUnits = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['inventory', 'units'],
+    queryFn: async () => {
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('inventory_units')
+        .select('*')
+        .order('factor');
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+};
+
+export const useSaveInventoryUnits = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ inventoryItemId, units }: {
+      inventoryItemId: string;
+      units: { unit_name: string; factor: number }[];
+    }) => {
+      const { error } = await supabase.rpc('save_inventory_units', {
+        p_inventory_item_id: inventoryItemId,
+        p_units: units
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inventory'] });
+    },
+  });
+};
+
+// Oldest first so the balance reads down the page like a stock card
+export const useInventoryMovements = (inventoryItemId?: string) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['inventory_movements', inventoryItemId],
+    queryFn: async () => {
+      if (!user || !inventoryItemId) return [];
+
+      const { data, error } = await supabase
+        .from('inventory_movements')
+        .select(`
+          *,
+          invoices ( invoice_number ),
+          credit_notes ( credit_note_number ),
+          purchase_orders ( po_number ),
+          stock_transfers ( transfer_number )
+        `)
+        .eq('inventory_item_id', inventoryItemId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !!inventoryItemId,
+  });
+};
+
+// Quantity changes go through these RPCs so the ledger records why
+export const useAdjustInventoryQuantity = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, warehouseLocationId, newQuantity, reason }: { id: string; warehouseLocationId: string; newQuantity: number; reason: string }) => {
+      const { error } = await supabase.rpc('adjust_inventory_quantity', {
+        p_inventory_id: id,
+        p_warehouse_location_id: warehouseLocationId,
+        p_new_quantity: newQuantity,
+        p_reason: reason
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inventory'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory_movements'] });
+    },
+  });
+};
+
+export const useReceiveInventoryStock = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, warehouseLocationId, quantity, reason, unitCost }: {
+      id: string;
+      warehouseLocationId: string;
+      quantity: number;
+      reason: string;
+      unitCost?: number;
+    }) => {
+      // Leaving the cost out keeps the item's average cost as it is
+      const { error } = await supabase.rpc('receive_inventory_stock', {
+        p_inventory_id: id,
+        p_warehouse_location_id: warehouseLocationId,
+        p_quantity: quantity,
+        p_reason: reason,
+        p_unit_cost: unitCost
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inventory'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory_movements'] });
+    },
+  });
+};
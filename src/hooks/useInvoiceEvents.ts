@@ -0,0 +1,99 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Tables } from '@/integrations/supabase/types';
+import { getInvoicePdfBase64, getInvoicePdfFileName } from '@/lib/invoicePdf';
+
+type SendableInvoice = Tables<'invoices'> & {
+  clients?: {
+    company_name: string;
+    contact_name: string;
+    email: string;
+    address: string | null;
+  };
+};
+
+interface SendInvoiceEmailInput {
+  invoice: SendableInvoice;
+  kind?: 'invoice' | 'reminder';
+  message?: string;
+}
+
+export const useInvoiceEvents = (invoiceId?: string) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['invoice_events', invoiceId],
+    queryFn: async () => {
+      if (!user || !invoiceId) return [];
+
+      const { data, error } = await supabase
+        .from('invoice_events')
+        .select('*')
+        .eq('invoice_id', invoiceId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !!invoiceId,
+  });
+};
+
+export const useSendInvoiceEmail = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ invoice, kind = 'invoice', message }: SendInvoiceEmailInput) => {
+      if (!user) throw new Error('User not authenticated');
+
+      const [{ data: items, error: itemsError }, { data: companyInfo, error: companyError }] = await Promise.all([
+        supabase
+          .from('invoice_items')
+          .select('*')
+          .eq('invoice_id', invoice.id)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('company_info')
+          .select('*')
+          .order('created_at')
+          .order('id')
+          .limit(1)
+          .maybeSingle(),
+      ]);
+
+      if (itemsError) throw itemsError;
+      if (companyError) throw companyError;
+
+      // The attachment is the same PDF the Download button produces
+      const pdfData = { invoice, items: items || [], companyInfo, amountPaid: invoice.amount_paid, amountCredited: invoice.amount_credited };
+
+      const { data, error } = await supabase.functions.invoke('send-invoice-email', {
+        body: {
+          invoice_id: invoice.id,
+          kind,
+          message,
+          pdf_base64: getInvoicePdfBase64(pdfData),
+          filename: getInvoicePdfFileName(invoice),
+        },
+      });
+
+      if (error) {
+        // Surface the function's own message rather than the generic status error
+        if (error instanceof FunctionsHttpError) {
+          const body = await error.context.json().catch(() => null);
+          if (body?.error) throw new Error(body.error);
+        }
+        throw error;
+      }
+      return data as { message_id: string; recipient: string };
+    },
+    onSettled: (_data, _error, { invoice }) => {
+      // Failed sends are logged too, so refresh the log either way
+      queryClient.invalidateQueries({ queryKey: ['invoice_events', invoice.id] });
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+    },
+  });
+};
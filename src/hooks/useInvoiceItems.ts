@@ -54,40 +54,3 @@ export const useCreateInvoiceItems = () => {
     },
   });
 };
-
-export const useUpdateInventoryQuantity = () => {
-  const queryClient = useQueryClient();
-  
-  return useMutation({
-    mutationFn: async ({ inventoryId, quantityToReduce }: { inventoryId: string; quantityToReduce: number }) => {
-      // First get current quantity to validate
-      const { data: currentItem, error: fetchError } = await supabase
-        .from('inventory')
-        .select('quantity, name')
-        .eq('id', inventoryId)
-        .single();
-      
-      if (fetchError) throw fetchError;
-      
-      // Check if we have enough quantity
-      if (currentItem.quantity < quantityToReduce) {
-        throw new Error(`Insufficient inventory: Only ${currentItem.quantity} units of ${currentItem.name} available, but ${quantityToReduce} requested`);
-      }
-      
-      const newQuantity = Math.max(0, currentItem.quantity - quantityToReduce);
-      
-      const { data, error } = await supabase
-        .from('inventory')
-        .update({ quantity: newQuantity })
-        .eq('id', inventoryId)
-        .select()
-        .single();
-      
-      if (error) throw error;
-      return data;
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['inventory'] });
-    },
-  });
-};
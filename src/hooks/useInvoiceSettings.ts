@@ -0,0 +1,17 @@
+import { useCompanyInfo } from '@/hooks/useCompanyInfo';
+
+export const DEFAULT_DUE_DAYS = 30;
+export const DEFAULT_REMINDER_DAYS = 7;
+
+// Invoice defaults are stored on the company record; this reads them with
+// fallbacks so forms work before Settings has been saved
+export const useInvoiceSettings = () => {
+  const { data: companyInfo, isLoading } = useCompanyInfo();
+
+  return {
+    defaultDueDays: companyInfo?.default_due_days ?? DEFAULT_DUE_DAYS,
+    defaultTerms: companyInfo?.default_terms ?? '',
+    reminderDays: companyInfo?.reminder_days ?? DEFAULT_REMINDER_DAYS,
+    isLoading,
+  };
+};
@@ -7,6 +7,7 @@ import { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/type
 type Invoice = Tables<'invoices'>;
 type InvoiceInsert = TablesInsert<'invoices'>;
 type InvoiceUpdate = TablesUpdate<'invoices'>;
+type InvoiceItemInsert = TablesInsert<'invoice_items'>;
 
 export const useInvoices = () => {
   const { user } = useAuth();
@@ -68,25 +69,72 @@ export const useBackdatedInvoices = () => {
   });
 };
 
-export const useCreateInvoice = () => {
+// What every sale cost us, for gross margin. Each line carries the cost it
+// was sold at, and restocked returns against it give that cost back.
+export const useCostOfSales = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['invoices', 'cost_of_sales'],
+    queryFn: async () => {
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('invoices')
+        .select(`
+          id,
+          status,
+          is_backdated,
+          subtotal,
+          discount_amount,
+          invoice_items (
+            quantity,
+            unit_cost,
+            line_total,
+            credit_note_items (
+              quantity,
+              line_total,
+              credit_notes ( restock )
+            )
+          ),
+          credit_notes ( subtotal )
+        `)
+        .not('status', 'in', '("void","draft")');
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+};
+
+// Invoice, line items and stock deductions are written by a single RPC so
+// they either all succeed or all roll back
+export const useCreateInvoiceWithItems = () => {
   const queryClient = useQueryClient();
   const { user } = useAuth();
   
   return useMutation({
-    mutationFn: async (invoice: Omit<InvoiceInsert, 'user_id' | 'id'>) => {
+    mutationFn: async ({ invoice, items }: {
+      invoice: Omit<InvoiceInsert, 'user_id' | 'id' | 'is_backdated'>;
+      items: Omit<InvoiceItemInsert, 'invoice_id' | 'id'>[];
+    }) => {
       if (!user) throw new Error('User not authenticated');
       
-      const { data, error } = await supabase
-        .from('invoices')
-        .insert({ ...invoice, user_id: user.id, is_backdated: false })
-        .select()
-        .single();
+      const { data, error } = await supabase.rpc('create_invoice_with_items', {
+        p_invoice: invoice,
+        p_items: items
+      });
       
       if (error) throw error;
       return data;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['invoice_items'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory'] });
+      // The numbering sequence moved on
+      queryClient.invalidateQueries({ queryKey: ['company_info'] });
     },
   });
 };
@@ -110,6 +158,7 @@ export const useCreateBackdatedInvoice = () => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['backdated-invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['company_info'] });
     },
   });
 };
@@ -119,6 +168,9 @@ export const useUpdateInvoice = () => {
   
   return useMutation({
     mutationFn: async ({ id, ...updates }: { id: string } & InvoiceUpdate) => {
+      // Voiding puts stock back, so it only happens through useVoidInvoice
+      if (updates.status === 'void') throw new Error('Use Void to cancel an invoice');
+
       const { data, error } = await supabase
         .from('invoices')
         .update(updates)
@@ -136,21 +188,70 @@ export const useUpdateInvoice = () => {
   });
 };
 
-export const useDeleteInvoice = () => {
+// Saving an edited invoice replaces its line items and moves stock by the
+// per-item difference, all inside one RPC
+export const useUpdateInvoiceWithItems = () => {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: async (id: string) => {
-      const { error } = await supabase
-        .from('invoices')
-        .delete()
-        .eq('id', id);
+    mutationFn: async ({ id, invoice, items }: {
+      id: string;
+      invoice: InvoiceUpdate;
+      items: Omit<InvoiceItemInsert, 'invoice_id' | 'id'>[];
+    }) => {
+      const { error } = await supabase.rpc('update_invoice_with_items', {
+        p_invoice_id: id,
+        p_invoice: invoice,
+        p_items: items
+      });
       
       if (error) throw error;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['invoices'] });
       queryClient.invalidateQueries({ queryKey: ['backdated-invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['invoice_items'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory'] });
     },
   });
 };
+
+// Voiding and deleting both return the invoiced quantities to inventory
+const invalidateInvoiceStockQueries = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: ['invoices'] });
+  queryClient.invalidateQueries({ queryKey: ['backdated-invoices'] });
+  queryClient.invalidateQueries({ queryKey: ['invoice_items'] });
+  queryClient.invalidateQueries({ queryKey: ['inventory'] });
+  queryClient.invalidateQueries({ queryKey: ['sales_chart_data'] });
+};
+
+export const useVoidInvoice = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.rpc('void_invoice', { p_invoice_id: id });
+      
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateInvoiceStockQueries(queryClient);
+      queryClient.invalidateQueries({ queryKey: ['invoice_events'] });
+    },
+  });
+};
+
+export const useDeleteInvoice = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.rpc('delete_invoice', { p_invoice_id: id });
+      
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateInvoiceStockQueries(queryClient);
+    },
+  });
+};
\ No newline at end of file
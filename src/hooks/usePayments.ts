@@ -0,0 +1,78 @@
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { TablesInsert } from '@/integrations/supabase/types';
+
+type PaymentInsert = TablesInsert<'payments'>;
+
+export const usePayments = (invoiceId?: string) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['payments', invoiceId],
+    queryFn: async () => {
+      if (!user || !invoiceId) return [];
+
+      const { data, error } = await supabase
+        .from('payments')
+        .select('*')
+        .eq('invoice_id', invoiceId)
+        .order('payment_date', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !!invoiceId,
+  });
+};
+
+// Invoice amount_paid and status are recalculated by a database trigger,
+// so every invoice list has to be refetched after a payment changes
+const invalidatePaymentQueries = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: ['payments'] });
+  queryClient.invalidateQueries({ queryKey: ['invoices'] });
+  queryClient.invalidateQueries({ queryKey: ['backdated-invoices'] });
+  queryClient.invalidateQueries({ queryKey: ['sales_chart_data'] });
+};
+
+export const useCreatePayment = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (payment: Omit<PaymentInsert, 'user_id' | 'id'>) => {
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('payments')
+        .insert({ ...payment, user_id: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      invalidatePaymentQueries(queryClient);
+    },
+  });
+};
+
+export const useDeletePayment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('payments')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidatePaymentQueries(queryClient);
+    },
+  });
+};
@@ -0,0 +1,123 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { TablesInsert } from '@/integrations/supabase/types';
+
+type PurchaseOrderInsert = TablesInsert<'purchase_orders'>;
+type PurchaseOrderItemInsert = TablesInsert<'purchase_order_items'>;
+
+export const usePurchaseOrders = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['purchase_orders'],
+    queryFn: async () => {
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .select(`
+          *,
+          suppliers (
+            id,
+            company_name,
+            email
+          ),
+          purchase_order_items (*)
+        `)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+};
+
+// Creates the order when no id is given; either way the order and its lines
+// are replaced together in one RPC
+export const useSavePurchaseOrder = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ id, purchaseOrder, items }: {
+      id?: string;
+      purchaseOrder: Omit<PurchaseOrderInsert, 'user_id' | 'id' | 'po_number' | 'total_amount'>;
+      items: Omit<PurchaseOrderItemInsert, 'purchase_order_id' | 'id' | 'quantity_received' | 'line_total'>[];
+    }) => {
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase.rpc('save_purchase_order_with_items', {
+        p_purchase_order_id: id ?? null,
+        p_purchase_order: purchaseOrder,
+        p_items: items
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['purchase_orders'] });
+    },
+  });
+};
+
+export const useMarkPurchaseOrderSent = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.rpc('mark_purchase_order_sent', { p_purchase_order_id: id });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['purchase_orders'] });
+    },
+  });
+};
+
+// Received quantities go into stock at the order's warehouse location
+export const useReceivePurchaseOrder = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, items, reference }: {
+      id: string;
+      items: { purchase_order_item_id: string; quantity: number }[];
+      reference?: string;
+    }) => {
+      const { error } = await supabase.rpc('receive_purchase_order', {
+        p_purchase_order_id: id,
+        p_items: items,
+        p_reference: reference || null
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['purchase_orders'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory_movements'] });
+    },
+  });
+};
+
+export const useDeletePurchaseOrder = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('purchase_orders')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['purchase_orders'] });
+    },
+  });
+};
@@ -0,0 +1,152 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { TablesInsert } from '@/integrations/supabase/types';
+
+type QuoteInsert = TablesInsert<'quotes'>;
+type QuoteItemInsert = TablesInsert<'quote_items'>;
+
+export const useQuotes = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['quotes', user?.id],
+    queryFn: async () => {
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('quotes')
+        .select(`
+          *,
+          clients (
+            id,
+            company_name,
+            contact_name,
+            email,
+            address
+          )
+        `)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+};
+
+export const useQuoteItems = (quoteId?: string) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['quote_items', quoteId],
+    queryFn: async () => {
+      if (!user || !quoteId) return [];
+
+      const { data, error } = await supabase
+        .from('quote_items')
+        .select('*')
+        .eq('quote_id', quoteId)
+        .order('position', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !!quoteId,
+  });
+};
+
+// Creates the quote when no id is given; either way the quote and its items
+// are replaced together in one RPC
+export const useSaveQuote = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ id, quote, items }: {
+      id?: string;
+      quote: Omit<QuoteInsert, 'user_id' | 'id' | 'invoice_id'>;
+      items: Omit<QuoteItemInsert, 'quote_id' | 'id'>[];
+    }) => {
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase.rpc('save_quote_with_items', {
+        p_quote_id: id ?? null,
+        p_quote: quote,
+        p_items: items
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['quotes'] });
+      queryClient.invalidateQueries({ queryKey: ['quote_items'] });
+    },
+  });
+};
+
+export const useUpdateQuoteStatus = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: 'draft' | 'sent' | 'accepted' | 'rejected' }) => {
+      const { data, error } = await supabase
+        .from('quotes')
+        .update({ status, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['quotes'] });
+    },
+  });
+};
+
+export const useDeleteQuote = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('quotes')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['quotes'] });
+    },
+  });
+};
+
+// Stock is only checked and deducted here, when the quote becomes an invoice.
+// The invoice number is left blank so it comes from the numbering sequence.
+export const useConvertQuoteToInvoice = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, dueDate }: { id: string; dueDate: string }) => {
+      const { data, error } = await supabase.rpc('convert_quote_to_invoice', {
+        p_quote_id: id,
+        p_invoice_number: '',
+        p_due_date: dueDate
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['quotes'] });
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['invoice_items'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory'] });
+      queryClient.invalidateQueries({ queryKey: ['company_info'] });
+    },
+  });
+};
@@ -0,0 +1,162 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { TablesInsert } from '@/integrations/supabase/types';
+
+type RecurringInvoiceInsert = TablesInsert<'recurring_invoices'>;
+type RecurringInvoiceItemInsert = TablesInsert<'recurring_invoice_items'>;
+
+export const useRecurringInvoices = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['recurring_invoices', user?.id],
+    queryFn: async () => {
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('recurring_invoices')
+        .select(`
+          *,
+          clients (
+            id,
+            company_name,
+            email
+          )
+        `)
+        .order('next_run_date', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+};
+
+export const useRecurringInvoiceItems = (recurringInvoiceId?: string) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['recurring_invoice_items', recurringInvoiceId],
+    queryFn: async () => {
+      if (!user || !recurringInvoiceId) return [];
+
+      const { data, error } = await supabase
+        .from('recurring_invoice_items')
+        .select('*')
+        .eq('recurring_invoice_id', recurringInvoiceId)
+        .order('position', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !!recurringInvoiceId,
+  });
+};
+
+// Most recent first, with the invoice each run produced
+export const useRecurringInvoiceRuns = (limit = 50) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['recurring_invoice_runs', limit],
+    queryFn: async () => {
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('recurring_invoice_runs')
+        .select(`
+          *,
+          recurring_invoices (
+            name,
+            clients ( company_name )
+          ),
+          invoices (
+            invoice_number,
+            total_amount,
+            status
+          )
+        `)
+        .order('run_date', { ascending: false })
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+};
+
+// Creates the template when no id is given; either way the template and its
+// items are replaced together in one RPC
+export const useSaveRecurringInvoice = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ id, recurringInvoice, items }: {
+      id?: string;
+      recurringInvoice: Omit<RecurringInvoiceInsert, 'user_id' | 'id' | 'next_run_date'>;
+      items: Omit<RecurringInvoiceItemInsert, 'recurring_invoice_id' | 'id'>[];
+    }) => {
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase.rpc('save_recurring_invoice_with_items', {
+        p_recurring_invoice_id: id ?? null,
+        p_recurring_invoice: recurringInvoice,
+        p_items: items
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['recurring_invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['recurring_invoice_items'] });
+    },
+  });
+};
+
+// Pausing keeps the schedule; periods missed while paused are caught up when
+// the template is resumed
+export const useSetRecurringInvoiceActive = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, active }: { id: string; active: boolean }) => {
+      const { data, error } = await supabase
+        .from('recurring_invoices')
+        .update({ active, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['recurring_invoices'] });
+    },
+  });
+};
+
+// Invoices already generated are kept; only the template and its run history go
+export const useDeleteRecurringInvoice = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('recurring_invoices')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['recurring_invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['recurring_invoice_runs'] });
+    },
+  });
+};
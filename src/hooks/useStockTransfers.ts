@@ -0,0 +1,96 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+export const useStockTransfers = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['stock_transfers'],
+    queryFn: async () => {
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('stock_transfers')
+        .select(`
+          *,
+          stock_transfer_items (
+            *,
+            inventory ( name )
+          )
+        `)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+};
+
+// Dispatching takes the stock out of the source location straight away
+export const useCreateStockTransfer = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ transfer, items }: {
+      transfer: { from_warehouse_location_id: string; to_warehouse_location_id: string; notes: string };
+      items: { inventory_item_id: string; quantity: number }[];
+    }) => {
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase.rpc('create_stock_transfer', {
+        p_transfer: transfer,
+        p_items: items
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['stock_transfers'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory_movements'] });
+    },
+  });
+};
+
+export const useReceiveStockTransfer = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.rpc('receive_stock_transfer', {
+        p_stock_transfer_id: id
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['stock_transfers'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory_movements'] });
+    },
+  });
+};
+
+// Puts the stock back at the location it was sent from
+export const useCancelStockTransfer = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.rpc('cancel_stock_transfer', {
+        p_stock_transfer_id: id
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['stock_transfers'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory_movements'] });
+    },
+  });
+};
@@ -0,0 +1,113 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+export const useStocktakes = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['stocktakes'],
+    queryFn: async () => {
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('stocktakes')
+        .select(`
+          *,
+          stocktake_items (
+            *,
+            inventory ( name, category )
+          )
+        `)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+};
+
+// Freezes what the system expects to be at the location when the count starts
+export const useCreateStocktake = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ warehouseLocationId, notes }: { warehouseLocationId: string; notes: string }) => {
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase.rpc('create_stocktake', {
+        p_warehouse_location_id: warehouseLocationId,
+        p_notes: notes
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['stocktakes'] });
+    },
+  });
+};
+
+// A null counted_quantity clears a count entered earlier
+export const useSaveStocktakeCounts = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ stocktakeId, countedBy, counts }: {
+      stocktakeId: string;
+      countedBy: string;
+      counts: { inventory_item_id: string; counted_quantity: number | null }[];
+    }) => {
+      const { error } = await supabase.rpc('save_stocktake_counts', {
+        p_stocktake_id: stocktakeId,
+        p_counted_by: countedBy,
+        p_counts: counts
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['stocktakes'] });
+    },
+  });
+};
+
+// Posts every counted variance as a stock adjustment at the location
+export const usePostStocktake = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.rpc('post_stocktake', {
+        p_stocktake_id: id
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['stocktakes'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory_movements'] });
+    },
+  });
+};
+
+export const useCancelStocktake = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.rpc('cancel_stocktake', {
+        p_stocktake_id: id
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['stocktakes'] });
+    },
+  });
+};
@@ -25,6 +25,7 @@ export type Database = {
           phone: string | null
           updated_at: string | null
           user_id: string
+          vat_exempt: boolean
         }
         Insert: {
           address?: string | null
@@ -36,6 +37,7 @@ export type Database = {
           phone?: string | null
           updated_at?: string | null
           user_id: string
+          vat_exempt?: boolean
         }
         Update: {
           address?: string | null
@@ -47,6 +49,7 @@ export type Database = {
           phone?: string | null
           updated_at?: string | null
           user_id?: string
+          vat_exempt?: boolean
         }
         Relationships: []
       }
@@ -91,241 +94,1521 @@ export type Database = {
           account_name: string | null
           account_number: string | null
           address: string | null
+          auto_reminders_enabled: boolean
           bank_name: string | null
           company_name: string
           created_at: string
+          default_due_days: number
+          default_terms: string | null
           email: string | null
           id: string
+          invoice_number_padding: number
+          invoice_number_reset_yearly: boolean
+          invoice_number_year: number
+          invoice_prefix: string
           logo_url: string | null
+          next_invoice_number: number
+          overdue_reminder_days: number
           phone: string | null
+          remind_on_due_date: boolean
+          reminder_days: number
           sort_code: string | null
           tagline: string | null
           tax_id: string | null
           updated_at: string
           user_id: string
+          vat_rate: number
           website: string | null
+          wht_rate: number
         }
         Insert: {
           account_name?: string | null
           account_number?: string | null
           address?: string | null
+          auto_reminders_enabled?: boolean
           bank_name?: string | null
           company_name?: string
           created_at?: string
+          default_due_days?: number
+          default_terms?: string | null
           email?: string | null
           id?: string
+          invoice_number_padding?: number
+          invoice_number_reset_yearly?: boolean
+          invoice_number_year?: number
+          invoice_prefix?: string
           logo_url?: string | null
+          next_invoice_number?: number
+          overdue_reminder_days?: number
           phone?: string | null
+          remind_on_due_date?: boolean
+          reminder_days?: number
           sort_code?: string | null
           tagline?: string | null
           tax_id?: string | null
           updated_at?: string
           user_id: string
+          vat_rate?: number
           website?: string | null
+          wht_rate?: number
         }
         Update: {
           account_name?: string | null
           account_number?: string | null
           address?: string | null
+          auto_reminders_enabled?: boolean
           bank_name?: string | null
           company_name?: string
           created_at?: string
+          default_due_days?: number
+          default_terms?: string | null
           email?: string | null
           id?: string
+          invoice_number_padding?: number
+          invoice_number_reset_yearly?: boolean
+          invoice_number_year?: number
+          invoice_prefix?: string
           logo_url?: string | null
+          next_invoice_number?: number
+          overdue_reminder_days?: number
           phone?: string | null
+          remind_on_due_date?: boolean
+          reminder_days?: number
           sort_code?: string | null
           tagline?: string | null
           tax_id?: string | null
           updated_at?: string
           user_id?: string
+          vat_rate?: number
           website?: string | null
+          wht_rate?: number
         }
         Relationships: []
       }
+      credit_note_items: {
+        Row: {
+          created_at: string
+          credit_note_id: string
+          description: string
+          id: string
+          inventory_item_id: string | null
+          invoice_item_id: string
+          line_total: number
+          pricing_unit: string
+          quantity: number
+          tax_amount: number
+          unit_factor: number
+          unit_length_m: number | null
+          unit_name: string | null
+          unit_price: number
+          unit_weight_kg: number | null
+        }
+        Insert: {
+          created_at?: string
+          credit_note_id: string
+          description: string
+          id?: string
+          inventory_item_id?: string | null
+          invoice_item_id: string
+          line_total?: number
+          pricing_unit?: string
+          quantity: number
+          tax_amount?: number
+          unit_factor?: number
+          unit_length_m?: number | null
+          unit_name?: string | null
+          unit_price?: number
+          unit_weight_kg?: number | null
+        }
+        Update: {
+          created_at?: string
+          credit_note_id?: string
+          description?: string
+          id?: string
+          inventory_item_id?: string | null
+          invoice_item_id?: string
+          line_total?: number
+          pricing_unit?: string
+          quantity?: number
+          tax_amount?: number
+          unit_factor?: number
+          unit_length_m?: number | null
+          unit_name?: string | null
+          unit_price?: number
+          unit_weight_kg?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_note_items_credit_note_id_fkey"
+            columns: ["credit_note_id"]
+            isOneToOne: false
+            referencedRelation: "credit_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_note_items_inventory_item_id_fkey"
+            columns: ["inventory_item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_note_items_invoice_item_id_fkey"
+            columns: ["invoice_item_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_notes: {
+        Row: {
+          created_at: string
+          credit_note_number: string
+          id: string
+          invoice_id: string
+          issue_date: string
+          reason: string | null
+          restock: boolean
+          subtotal: number
+          tax_amount: number
+          total_amount: number
+          user_id: string | null
+          wht_amount: number
+        }
+        Insert: {
+          created_at?: string
+          credit_note_number?: string
+          id?: string
+          invoice_id: string
+          issue_date?: string
+          reason?: string | null
+          restock?: boolean
+          subtotal?: number
+          tax_amount?: number
+          total_amount?: number
+          user_id?: string | null
+          wht_amount?: number
+        }
+        Update: {
+          created_at?: string
+          credit_note_number?: string
+          id?: string
+          invoice_id?: string
+          issue_date?: string
+          reason?: string | null
+          restock?: boolean
+          subtotal?: number
+          tax_amount?: number
+          total_amount?: number
+          user_id?: string | null
+          wht_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_notes_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       inventory: {
         Row: {
-          category: string | null
+          base_unit: string
+          category: string | null
+          cost_price: number
+          created_at: string
+          description: string | null
+          gauge: number | null
+          grade: string | null
+          height_mm: number | null
+          id: string
+          length_m: number | null
+          name: string
+          outer_diameter_mm: number | null
+          quantity: number
+          reorder_level: number
+          reorder_quantity: number
+          section_type: string | null
+          status: string | null
+          thickness_mm: number | null
+          unit_price: number
+          updated_at: string
+          user_id: string
+          warehouse_location_id: string | null
+          width_mm: number | null
+        }
+        Insert: {
+          base_unit?: string
+          category?: string | null
+          cost_price?: number
+          created_at?: string
+          description?: string | null
+          gauge?: number | null
+          grade?: string | null
+          height_mm?: number | null
+          id?: string
+          length_m?: number | null
+          name: string
+          outer_diameter_mm?: number | null
+          quantity?: number
+          reorder_level?: number
+          reorder_quantity?: number
+          section_type?: string | null
+          status?: string | null
+          thickness_mm?: number | null
+          unit_price?: number
+          updated_at?: string
+          user_id: string
+          warehouse_location_id?: string | null
+          width_mm?: number | null
+        }
+        Update: {
+          base_unit?: string
+          category?: string | null
+          cost_price?: number
+          created_at?: string
+          description?: string | null
+          gauge?: number | null
+          grade?: string | null
+          height_mm?: number | null
+          id?: string
+          length_m?: number | null
+          name?: string
+          outer_diameter_mm?: number | null
+          quantity?: number
+          reorder_level?: number
+          reorder_quantity?: number
+          section_type?: string | null
+          status?: string | null
+          thickness_mm?: number | null
+          unit_price?: number
+          updated_at?: string
+          user_id?: string
+          warehouse_location_id?: string | null
+          width_mm?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_warehouse_location_id_fkey"
+            columns: ["warehouse_location_id"]
+            isOneToOne: false
+            referencedRelation: "warehouse_locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inventory_movements: {
+        Row: {
+          balance_after: number
+          created_at: string
+          created_by: string | null
+          credit_note_id: string | null
+          from_warehouse_location_id: string | null
+          id: string
+          inventory_item_id: string
+          invoice_id: string | null
+          movement_type: string
+          purchase_order_id: string | null
+          quantity_change: number
+          reason: string | null
+          stock_transfer_id: string | null
+          to_warehouse_location_id: string | null
+          warehouse_location_id: string | null
+        }
+        Insert: {
+          balance_after: number
+          created_at?: string
+          created_by?: string | null
+          credit_note_id?: string | null
+          from_warehouse_location_id?: string | null
+          id?: string
+          inventory_item_id: string
+          invoice_id?: string | null
+          movement_type: string
+          purchase_order_id?: string | null
+          quantity_change: number
+          reason?: string | null
+          stock_transfer_id?: string | null
+          to_warehouse_location_id?: string | null
+          warehouse_location_id?: string | null
+        }
+        Update: {
+          balance_after?: number
+          created_at?: string
+          created_by?: string | null
+          credit_note_id?: string | null
+          from_warehouse_location_id?: string | null
+          id?: string
+          inventory_item_id?: string
+          invoice_id?: string | null
+          movement_type?: string
+          purchase_order_id?: string | null
+          quantity_change?: number
+          reason?: string | null
+          stock_transfer_id?: string | null
+          to_warehouse_location_id?: string | null
+          warehouse_location_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_movements_credit_note_id_fkey"
+            columns: ["credit_note_id"]
+            isOneToOne: false
+            referencedRelation: "credit_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_from_warehouse_location_id_fkey"
+            columns: ["from_warehouse_location_id"]
+            isOneToOne: false
+            referencedRelation: "warehouse_locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_inventory_item_id_fkey"
+            columns: ["inventory_item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_stock_transfer_id_fkey"
+            columns: ["stock_transfer_id"]
+            isOneToOne: false
+            referencedRelation: "stock_transfers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_to_warehouse_location_id_fkey"
+            columns: ["to_warehouse_location_id"]
+            isOneToOne: false
+            referencedRelation: "warehouse_locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_warehouse_location_id_fkey"
+            columns: ["warehouse_location_id"]
+            isOneToOne: false
+            referencedRelation: "warehouse_locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inventory_stock: {
+        Row: {
+          created_at: string
+          id: string
+          inventory_item_id: string
+          quantity: number
+          updated_at: string
+          warehouse_location_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          inventory_item_id: string
+          quantity?: number
+          updated_at?: string
+          warehouse_location_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          inventory_item_id?: string
+          quantity?: number
+          updated_at?: string
+          warehouse_location_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_stock_inventory_item_id_fkey"
+            columns: ["inventory_item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_stock_warehouse_location_id_fkey"
+            columns: ["warehouse_location_id"]
+            isOneToOne: false
+            referencedRelation: "warehouse_locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inventory_units: {
+        Row: {
+          created_at: string
+          factor: number
+          id: string
+          inventory_item_id: string
+          unit_name: string
+        }
+        Insert: {
+          created_at?: string
+          factor: number
+          id?: string
+          inventory_item_id: string
+          unit_name: string
+        }
+        Update: {
+          created_at?: string
+          factor?: number
+          id?: string
+          inventory_item_id?: string
+          unit_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_units_inventory_item_id_fkey"
+            columns: ["inventory_item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_events: {
+        Row: {
+          created_at: string
+          details: Json
+          event_type: string
+          id: string
+          invoice_id: string
+          recipient: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          details?: Json
+          event_type: string
+          id?: string
+          invoice_id: string
+          recipient?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          details?: Json
+          event_type?: string
+          id?: string
+          invoice_id?: string
+          recipient?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_events_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_items: {
+        Row: {
+          created_at: string | null
+          description: string
+          discount_amount: number
+          discount_type: string
+          discount_value: number
+          id: string
+          inventory_item_id: string | null
+          invoice_id: string
+          line_total: number
+          pricing_unit: string
+          quantity: number
+          tax_amount: number
+          tax_rate: number
+          unit_cost: number | null
+          unit_factor: number
+          unit_length_m: number | null
+          unit_name: string | null
+          unit_price: number
+          unit_weight_kg: number | null
+          warehouse_location_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          description: string
+          discount_amount?: number
+          discount_type?: string
+          discount_value?: number
+          id?: string
+          inventory_item_id?: string | null
+          invoice_id: string
+          line_total?: number
+          pricing_unit?: string
+          quantity?: number
+          tax_amount?: number
+          tax_rate?: number
+          unit_cost?: number | null
+          unit_factor?: number
+          unit_length_m?: number | null
+          unit_name?: string | null
+          unit_price?: number
+          unit_weight_kg?: number | null
+          warehouse_location_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string
+          discount_amount?: number
+          discount_type?: string
+          discount_value?: number
+          id?: string
+          inventory_item_id?: string | null
+          invoice_id?: string
+          line_total?: number
+          pricing_unit?: string
+          quantity?: number
+          tax_amount?: number
+          tax_rate?: number
+          unit_cost?: number | null
+          unit_factor?: number
+          unit_length_m?: number | null
+          unit_name?: string | null
+          unit_price?: number
+          unit_weight_kg?: number | null
+          warehouse_location_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_items_inventory_item_id_fkey"
+            columns: ["inventory_item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_items_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_items_warehouse_location_id_fkey"
+            columns: ["warehouse_location_id"]
+            isOneToOne: false
+            referencedRelation: "warehouse_locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_reminders: {
+        Row: {
+          attempts: number
+          created_at: string
+          days_offset: number
+          id: string
+          invoice_id: string
+          last_error: string | null
+          scheduled_for: string
+          sent_at: string | null
+          status: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          days_offset: number
+          id?: string
+          invoice_id: string
+          last_error?: string | null
+          scheduled_for: string
+          sent_at?: string | null
+          status?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          days_offset?: number
+          id?: string
+          invoice_id?: string
+          last_error?: string | null
+          scheduled_for?: string
+          sent_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_reminders_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          amount_credited: number
+          amount_paid: number
+          client_id: string
+          created_at: string | null
+          discount_amount: number
+          discount_type: string
+          discount_value: number
+          due_date: string
+          id: string
+          invoice_number: string
+          is_backdated: boolean
+          issue_date: string
+          items_summary: string | null
+          notes: string | null
+          status: string
+          subtotal: number
+          tax_amount: number
+          total_amount: number
+          updated_at: string | null
+          user_id: string
+          wht_amount: number
+          wht_rate: number
+        }
+        Insert: {
+          amount_credited?: number
+          amount_paid?: number
+          client_id: string
+          created_at?: string | null
+          discount_amount?: number
+          discount_type?: string
+          discount_value?: number
+          due_date: string
+          id?: string
+          invoice_number: string
+          is_backdated?: boolean
+          issue_date: string
+          items_summary?: string | null
+          notes?: string | null
+          status?: string
+          subtotal?: number
+          tax_amount?: number
+          total_amount?: number
+          updated_at?: string | null
+          user_id: string
+          wht_amount?: number
+          wht_rate?: number
+        }
+        Update: {
+          amount_credited?: number
+          amount_paid?: number
+          client_id?: string
+          created_at?: string | null
+          discount_amount?: number
+          discount_type?: string
+          discount_value?: number
+          due_date?: string
+          id?: string
+          invoice_number?: string
+          is_backdated?: boolean
+          issue_date?: string
+          items_summary?: string | null
+          notes?: string | null
+          status?: string
+          subtotal?: number
+          tax_amount?: number
+          total_amount?: number
+          updated_at?: string | null
+          user_id?: string
+          wht_amount?: number
+          wht_rate?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          invoice_id: string
+          method: string
+          notes: string | null
+          payment_date: string
+          reference: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          invoice_id: string
+          method?: string
+          notes?: string | null
+          payment_date?: string
+          reference?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          invoice_id?: string
+          method?: string
+          notes?: string | null
+          payment_date?: string
+          reference?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string | null
+          first_name: string | null
+          id: string
+          last_name: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          first_name?: string | null
+          id: string
+          last_name?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          first_name?: string | null
+          id?: string
+          last_name?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      purchase_order_items: {
+        Row: {
+          created_at: string
+          description: string
+          id: string
+          inventory_item_id: string
+          line_total: number
+          purchase_order_id: string
+          quantity_ordered: number
+          quantity_received: number
+          unit_cost: number
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          id?: string
+          inventory_item_id: string
+          line_total?: number
+          purchase_order_id: string
+          quantity_ordered: number
+          quantity_received?: number
+          unit_cost?: number
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          id?: string
+          inventory_item_id?: string
+          line_total?: number
+          purchase_order_id?: string
+          quantity_ordered?: number
+          quantity_received?: number
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_items_inventory_item_id_fkey"
+            columns: ["inventory_item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          created_at: string
+          expected_date: string | null
+          id: string
+          notes: string | null
+          order_date: string
+          po_number: string
+          status: string
+          supplier_id: string
+          total_amount: number
+          updated_at: string
+          user_id: string
+          warehouse_location_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          expected_date?: string | null
+          id?: string
+          notes?: string | null
+          order_date?: string
+          po_number?: string
+          status?: string
+          supplier_id: string
+          total_amount?: number
+          updated_at?: string
+          user_id: string
+          warehouse_location_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          expected_date?: string | null
+          id?: string
+          notes?: string | null
+          order_date?: string
+          po_number?: string
+          status?: string
+          supplier_id?: string
+          total_amount?: number
+          updated_at?: string
+          user_id?: string
+          warehouse_location_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_warehouse_location_id_fkey"
+            columns: ["warehouse_location_id"]
+            isOneToOne: false
+            referencedRelation: "warehouse_locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quote_items: {
+        Row: {
+          created_at: string
+          description: string
+          discount_amount: number
+          discount_type: string
+          discount_value: number
+          id: string
+          inventory_item_id: string | null
+          line_total: number
+          position: number
+          quantity: number
+          quote_id: string
+          tax_amount: number
+          tax_rate: number
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          discount_amount?: number
+          discount_type?: string
+          discount_value?: number
+          id?: string
+          inventory_item_id?: string | null
+          line_total?: number
+          position?: number
+          quantity?: number
+          quote_id: string
+          tax_amount?: number
+          tax_rate?: number
+          unit_price?: number
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          discount_amount?: number
+          discount_type?: string
+          discount_value?: number
+          id?: string
+          inventory_item_id?: string | null
+          line_total?: number
+          position?: number
+          quantity?: number
+          quote_id?: string
+          tax_amount?: number
+          tax_rate?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quote_items_inventory_item_id_fkey"
+            columns: ["inventory_item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quote_items_quote_id_fkey"
+            columns: ["quote_id"]
+            isOneToOne: false
+            referencedRelation: "quotes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quotes: {
+        Row: {
+          client_id: string
+          created_at: string
+          discount_amount: number
+          discount_type: string
+          discount_value: number
+          expiry_date: string
+          id: string
+          invoice_id: string | null
+          issue_date: string
+          notes: string | null
+          quote_number: string
+          status: string
+          subtotal: number
+          tax_amount: number
+          total_amount: number
+          updated_at: string
+          user_id: string
+          wht_amount: number
+          wht_rate: number
+        }
+        Insert: {
+          client_id: string
+          created_at?: string
+          discount_amount?: number
+          discount_type?: string
+          discount_value?: number
+          expiry_date: string
+          id?: string
+          invoice_id?: string | null
+          issue_date?: string
+          notes?: string | null
+          quote_number: string
+          status?: string
+          subtotal?: number
+          tax_amount?: number
+          total_amount?: number
+          updated_at?: string
+          user_id: string
+          wht_amount?: number
+          wht_rate?: number
+        }
+        Update: {
+          client_id?: string
+          created_at?: string
+          discount_amount?: number
+          discount_type?: string
+          discount_value?: number
+          expiry_date?: string
+          id?: string
+          invoice_id?: string | null
+          issue_date?: string
+          notes?: string | null
+          quote_number?: string
+          status?: string
+          subtotal?: number
+          tax_amount?: number
+          total_amount?: number
+          updated_at?: string
+          user_id?: string
+          wht_amount?: number
+          wht_rate?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quotes_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotes_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_invoice_items: {
+        Row: {
+          created_at: string
+          description: string
+          discount_amount: number
+          discount_type: string
+          discount_value: number
+          id: string
+          inventory_item_id: string | null
+          line_total: number
+          position: number
+          quantity: number
+          recurring_invoice_id: string
+          tax_amount: number
+          tax_rate: number
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          discount_amount?: number
+          discount_type?: string
+          discount_value?: number
+          id?: string
+          inventory_item_id?: string | null
+          line_total?: number
+          position?: number
+          quantity?: number
+          recurring_invoice_id: string
+          tax_amount?: number
+          tax_rate?: number
+          unit_price?: number
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          discount_amount?: number
+          discount_type?: string
+          discount_value?: number
+          id?: string
+          inventory_item_id?: string | null
+          line_total?: number
+          position?: number
+          quantity?: number
+          recurring_invoice_id?: string
+          tax_amount?: number
+          tax_rate?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_invoice_items_inventory_item_id_fkey"
+            columns: ["inventory_item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_invoice_items_recurring_invoice_id_fkey"
+            columns: ["recurring_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_invoice_runs: {
+        Row: {
+          created_at: string
+          error: string | null
+          id: string
+          invoice_id: string | null
+          period_number: number
+          recurring_invoice_id: string
+          run_date: string
+          sent_at: string | null
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          id?: string
+          invoice_id?: string | null
+          period_number: number
+          recurring_invoice_id: string
+          run_date: string
+          sent_at?: string | null
+          status: string
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          id?: string
+          invoice_id?: string | null
+          period_number?: number
+          recurring_invoice_id?: string
+          run_date?: string
+          sent_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_invoice_runs_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_invoice_runs_recurring_invoice_id_fkey"
+            columns: ["recurring_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_invoices: {
+        Row: {
+          active: boolean
+          auto_send: boolean
+          client_id: string
+          created_at: string
+          discount_amount: number
+          discount_type: string
+          discount_value: number
+          end_date: string | null
+          frequency: string
+          id: string
+          name: string
+          next_run_date: string
+          notes: string | null
+          payment_terms_days: number
+          start_date: string
+          subtotal: number
+          tax_amount: number
+          total_amount: number
+          updated_at: string
+          user_id: string
+          wht_amount: number
+          wht_rate: number
+        }
+        Insert: {
+          active?: boolean
+          auto_send?: boolean
+          client_id: string
+          created_at?: string
+          discount_amount?: number
+          discount_type?: string
+          discount_value?: number
+          end_date?: string | null
+          frequency?: string
+          id?: string
+          name: string
+          next_run_date: string
+          notes?: string | null
+          payment_terms_days?: number
+          start_date: string
+          subtotal?: number
+          tax_amount?: number
+          total_amount?: number
+          updated_at?: string
+          user_id: string
+          wht_amount?: number
+          wht_rate?: number
+        }
+        Update: {
+          active?: boolean
+          auto_send?: boolean
+          client_id?: string
+          created_at?: string
+          discount_amount?: number
+          discount_type?: string
+          discount_value?: number
+          end_date?: string | null
+          frequency?: string
+          id?: string
+          name?: string
+          next_run_date?: string
+          notes?: string | null
+          payment_terms_days?: number
+          start_date?: string
+          subtotal?: number
+          tax_amount?: number
+          total_amount?: number
+          updated_at?: string
+          user_id?: string
+          wht_amount?: number
+          wht_rate?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_invoices_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_transfer_items: {
+        Row: {
           created_at: string
-          description: string | null
           id: string
-          name: string
+          inventory_item_id: string
           quantity: number
-          status: string | null
-          unit_price: number
+          stock_transfer_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          inventory_item_id: string
+          quantity: number
+          stock_transfer_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          inventory_item_id?: string
+          quantity?: number
+          stock_transfer_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_transfer_items_inventory_item_id_fkey"
+            columns: ["inventory_item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfer_items_stock_transfer_id_fkey"
+            columns: ["stock_transfer_id"]
+            isOneToOne: false
+            referencedRelation: "stock_transfers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_transfers: {
+        Row: {
+          created_at: string
+          dispatched_at: string
+          from_warehouse_location_id: string | null
+          id: string
+          notes: string | null
+          received_at: string | null
+          status: string
+          to_warehouse_location_id: string | null
+          transfer_number: string
           updated_at: string
           user_id: string
-          warehouse_location_id: string | null
         }
         Insert: {
-          category?: string | null
           created_at?: string
-          description?: string | null
+          dispatched_at?: string
+          from_warehouse_location_id?: string | null
           id?: string
-          name: string
-          quantity?: number
-          status?: string | null
-          unit_price?: number
+          notes?: string | null
+          received_at?: string | null
+          status?: string
+          to_warehouse_location_id?: string | null
+          transfer_number?: string
           updated_at?: string
           user_id: string
-          warehouse_location_id?: string | null
         }
         Update: {
-          category?: string | null
           created_at?: string
-          description?: string | null
+          dispatched_at?: string
+          from_warehouse_location_id?: string | null
           id?: string
-          name?: string
-          quantity?: number
-          status?: string | null
-          unit_price?: number
+          notes?: string | null
+          received_at?: string | null
+          status?: string
+          to_warehouse_location_id?: string | null
+          transfer_number?: string
           updated_at?: string
           user_id?: string
-          warehouse_location_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "inventory_warehouse_location_id_fkey"
-            columns: ["warehouse_location_id"]
+            foreignKeyName: "stock_transfers_from_warehouse_location_id_fkey"
+            columns: ["from_warehouse_location_id"]
+            isOneToOne: false
+            referencedRelation: "warehouse_locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfers_to_warehouse_location_id_fkey"
+            columns: ["to_warehouse_location_id"]
             isOneToOne: false
             referencedRelation: "warehouse_locations"
             referencedColumns: ["id"]
           },
         ]
       }
-      invoice_items: {
+      stocktake_items: {
         Row: {
-          created_at: string | null
-          description: string
+          counted_quantity: number | null
+          created_at: string
+          expected_quantity: number
           id: string
-          inventory_item_id: string | null
-          invoice_id: string
-          line_total: number
-          quantity: number
-          unit_price: number
+          inventory_item_id: string
+          stocktake_id: string
+          unit_cost: number
+          updated_at: string
         }
         Insert: {
-          created_at?: string | null
-          description: string
+          counted_quantity?: number | null
+          created_at?: string
+          expected_quantity?: number
           id?: string
-          inventory_item_id?: string | null
-          invoice_id: string
-          line_total?: number
-          quantity?: number
-          unit_price?: number
+          inventory_item_id: string
+          stocktake_id: string
+          unit_cost?: number
+          updated_at?: string
         }
         Update: {
-          created_at?: string | null
-          description?: string
+          counted_quantity?: number | null
+          created_at?: string
+          expected_quantity?: number
           id?: string
-          inventory_item_id?: string | null
-          invoice_id?: string
-          line_total?: number
-          quantity?: number
-          unit_price?: number
+          inventory_item_id?: string
+          stocktake_id?: string
+          unit_cost?: number
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "invoice_items_inventory_item_id_fkey"
+            foreignKeyName: "stocktake_items_inventory_item_id_fkey"
             columns: ["inventory_item_id"]
             isOneToOne: false
             referencedRelation: "inventory"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "invoice_items_invoice_id_fkey"
-            columns: ["invoice_id"]
+            foreignKeyName: "stocktake_items_stocktake_id_fkey"
+            columns: ["stocktake_id"]
             isOneToOne: false
-            referencedRelation: "invoices"
+            referencedRelation: "stocktakes"
             referencedColumns: ["id"]
           },
         ]
       }
-      invoices: {
+      stocktakes: {
         Row: {
-          client_id: string
-          created_at: string | null
-          due_date: string
+          approved_by: string | null
+          approved_by_email: string | null
+          counted_at: string | null
+          counted_by: string | null
+          created_at: string
           id: string
-          invoice_number: string
-          is_backdated: boolean
-          issue_date: string
-          items_summary: string | null
           notes: string | null
+          posted_at: string | null
           status: string
-          subtotal: number
-          tax_amount: number
-          total_amount: number
-          updated_at: string | null
+          stocktake_number: string
+          updated_at: string
           user_id: string
+          warehouse_location_id: string | null
         }
         Insert: {
-          client_id: string
-          created_at?: string | null
-          due_date: string
+          approved_by?: string | null
+          approved_by_email?: string | null
+          counted_at?: string | null
+          counted_by?: string | null
+          created_at?: string
           id?: string
-          invoice_number: string
-          is_backdated?: boolean
-          issue_date: string
-          items_summary?: string | null
           notes?: string | null
+          posted_at?: string | null
           status?: string
-          subtotal?: number
-          tax_amount?: number
-          total_amount?: number
-          updated_at?: string | null
+          stocktake_number?: string
+          updated_at?: string
           user_id: string
+          warehouse_location_id?: string | null
         }
         Update: {
-          client_id?: string
-          created_at?: string | null
-          due_date?: string
+          approved_by?: string | null
+          approved_by_email?: string | null
+          counted_at?: string | null
+          counted_by?: string | null
+          created_at?: string
           id?: string
-          invoice_number?: string
-          is_backdated?: boolean
-          issue_date?: string
-          items_summary?: string | null
           notes?: string | null
+          posted_at?: string | null
           status?: string
-          subtotal?: number
-          tax_amount?: number
-          total_amount?: number
-          updated_at?: string | null
+          stocktake_number?: string
+          updated_at?: string
           user_id?: string
+          warehouse_location_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "invoices_client_id_fkey"
-            columns: ["client_id"]
+            foreignKeyName: "stocktakes_warehouse_location_id_fkey"
+            columns: ["warehouse_location_id"]
             isOneToOne: false
-            referencedRelation: "clients"
+            referencedRelation: "warehouse_locations"
             referencedColumns: ["id"]
           },
         ]
       }
-      profiles: {
+      suppliers: {
         Row: {
-          created_at: string | null
-          first_name: string | null
+          address: string | null
+          company_name: string
+          contact_name: string | null
+          created_at: string
+          email: string | null
           id: string
-          last_name: string | null
-          updated_at: string | null
+          notes: string | null
+          phone: string | null
+          updated_at: string
+          user_id: string
         }
         Insert: {
-          created_at?: string | null
-          first_name?: string | null
-          id: string
-          last_name?: string | null
-          updated_at?: string | null
+          address?: string | null
+          company_name: string
+          contact_name?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          notes?: string | null
+          phone?: string | null
+          updated_at?: string
+          user_id: string
         }
         Update: {
-          created_at?: string | null
-          first_name?: string | null
+          address?: string | null
+          company_name?: string
+          contact_name?: string | null
+          created_at?: string
+          email?: string | null
           id?: string
-          last_name?: string | null
-          updated_at?: string | null
+          notes?: string | null
+          phone?: string | null
+          updated_at?: string
+          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+        ]
       }
       warehouse_locations: {
         Row: {
@@ -359,10 +1642,214 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      add_inventory_stock: {
+        Args: {
+          p_inventory_item_id: string
+          p_quantity: number
+          p_warehouse_location_id: string
+        }
+        Returns: undefined
+      }
+      adjust_inventory_quantity: {
+        Args: {
+          p_inventory_id: string
+          p_new_quantity: number
+          p_reason: string
+          p_warehouse_location_id: string
+        }
+        Returns: undefined
+      }
+      apply_receipt_cost: {
+        Args: {
+          p_inventory_item_id: string
+          p_quantity: number
+          p_unit_cost: number
+        }
+        Returns: undefined
+      }
+      cancel_stock_transfer: {
+        Args: { p_stock_transfer_id: string }
+        Returns: undefined
+      }
+      cancel_stocktake: {
+        Args: { p_stocktake_id: string }
+        Returns: undefined
+      }
+      convert_quote_to_invoice: {
+        Args: { p_due_date: string; p_invoice_number: string; p_quote_id: string }
+        Returns: string
+      }
+      create_credit_note: {
+        Args: { p_credit_note: Json; p_invoice_id: string; p_items: Json }
+        Returns: string
+      }
+      create_inventory_item: {
+        Args: { p_item: Json; p_units: Json }
+        Returns: string
+      }
+      create_invoice_with_items: {
+        Args: { p_invoice: Json; p_items: Json }
+        Returns: string
+      }
+      create_stock_transfer: {
+        Args: { p_items: Json; p_transfer: Json }
+        Returns: string
+      }
+      create_stocktake: {
+        Args: { p_notes?: string; p_warehouse_location_id: string }
+        Returns: string
+      }
+      default_stock_location: {
+        Args: { p_inventory_item_id: string }
+        Returns: string
+      }
+      delete_credit_note: {
+        Args: { p_credit_note_id: string }
+        Returns: undefined
+      }
+      delete_invoice: {
+        Args: { p_invoice_id: string }
+        Returns: undefined
+      }
+      dispatch_invoice_reminders: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      dispatch_recurring_invoices: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      format_invoice_number: {
+        Args: {
+          p_number: number
+          p_padding: number
+          p_prefix: string
+          p_reset_yearly: boolean
+          p_year: number
+        }
+        Returns: string
+      }
+      generate_recurring_invoices: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      mark_overdue_invoices: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      mark_purchase_order_sent: {
+        Args: { p_purchase_order_id: string }
+        Returns: undefined
+      }
+      post_stocktake: {
+        Args: { p_stocktake_id: string }
+        Returns: undefined
+      }
+      queue_invoice_reminders: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      receive_inventory_stock: {
+        Args: {
+          p_inventory_id: string
+          p_quantity: number
+          p_reason: string
+          p_unit_cost?: number
+          p_warehouse_location_id: string
+        }
+        Returns: undefined
+      }
+      receive_purchase_order: {
+        Args: { p_items: Json; p_purchase_order_id: string; p_reference?: string }
+        Returns: undefined
+      }
+      receive_stock_transfer: {
+        Args: { p_stock_transfer_id: string }
+        Returns: undefined
+      }
+      recurring_period_date: {
+        Args: { p_frequency: string; p_period: number; p_start_date: string }
+        Returns: string
+      }
+      resolve_line_stock_locations: {
+        Args: { p_items: Json }
+        Returns: Json
+      }
+      restore_invoice_stock: {
+        Args: { invoice_uuid: string }
+        Returns: undefined
+      }
+      save_inventory_units: {
+        Args: { p_inventory_item_id: string; p_units: Json }
+        Returns: undefined
+      }
+      save_purchase_order_with_items: {
+        Args: {
+          p_items: Json
+          p_purchase_order: Json
+          p_purchase_order_id: string
+        }
+        Returns: string
+      }
+      save_quote_with_items: {
+        Args: { p_items: Json; p_quote: Json; p_quote_id: string }
+        Returns: string
+      }
+      save_recurring_invoice_with_items: {
+        Args: {
+          p_items: Json
+          p_recurring_invoice: Json
+          p_recurring_invoice_id: string
+        }
+        Returns: string
+      }
+      save_stocktake_counts: {
+        Args: { p_counted_by?: string; p_counts: Json; p_stocktake_id: string }
+        Returns: undefined
+      }
+      set_stock_movement_context: {
+        Args: {
+          p_credit_note_id?: string
+          p_invoice_id?: string
+          p_movement_type: string
+          p_purchase_order_id?: string
+          p_reason?: string
+          p_stock_transfer_id?: string
+        }
+        Returns: undefined
+      }
+      sync_invoice_credit_total: {
+        Args: { invoice_uuid: string }
+        Returns: undefined
+      }
+      sync_invoice_payment_status: {
+        Args: { invoice_uuid: string }
+        Returns: undefined
+      }
+      take_inventory_stock: {
+        Args: {
+          p_inventory_item_id: string
+          p_quantity: number
+          p_warehouse_location_id: string
+        }
+        Returns: undefined
+      }
+      take_next_invoice_number: {
+        Args: { p_issue_date: string }
+        Returns: string
+      }
       update_invoice_items_summary: {
         Args: { invoice_uuid: string }
         Returns: undefined
       }
+      update_invoice_with_items: {
+        Args: { p_invoice: Json; p_invoice_id: string; p_items: Json }
+        Returns: undefined
+      }
+      void_invoice: {
+        Args: { p_invoice_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
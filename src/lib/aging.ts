@@ -0,0 +1,107 @@
+// Accounts receivable aging: what is still owed on each invoice, grouped by
+// how many days it is past its due date.
+
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { Tables } from '@/integrations/supabase/types';
+import { getInvoiceBalance } from '@/lib/invoiceTotals';
+
+export type AgingBucketKey = 'current' | '1_30' | '31_60' | '61_90' | '90_plus';
+
+export const AGING_BUCKETS: { key: AgingBucketKey; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: '1_30', label: '1-30 Days' },
+  { key: '31_60', label: '31-60 Days' },
+  { key: '61_90', label: '61-90 Days' },
+  { key: '90_plus', label: '90+ Days' },
+];
+
+export type AgingInvoice = Tables<'invoices'> & {
+  clients?: {
+    id: string;
+    company_name: string;
+    contact_name: string;
+    email: string;
+    address: string | null;
+  } | null;
+};
+
+export interface AgingLine {
+  invoice: AgingInvoice;
+  clientId: string;
+  clientName: string;
+  balance: number;
+  daysPastDue: number;
+  bucket: AgingBucketKey;
+}
+
+export type AgingTotals = Record<AgingBucketKey, number> & { total: number };
+
+export interface AgingClientSummary {
+  clientId: string;
+  clientName: string;
+  totals: AgingTotals;
+}
+
+export interface AgingReport {
+  lines: AgingLine[];
+  clients: AgingClientSummary[];
+  totals: AgingTotals;
+}
+
+export const getAgingBucket = (daysPastDue: number): AgingBucketKey => {
+  if (daysPastDue <= 0) return 'current';
+  if (daysPastDue <= 30) return '1_30';
+  if (daysPastDue <= 60) return '31_60';
+  if (daysPastDue <= 90) return '61_90';
+  return '90_plus';
+};
+
+const emptyTotals = (): AgingTotals => ({
+  current: 0,
+  '1_30': 0,
+  '31_60': 0,
+  '61_90': 0,
+  '90_plus': 0,
+  total: 0,
+});
+
+// Drafts have not been issued and void invoices are not owed
+const isReceivable = (invoice: AgingInvoice) => !['draft', 'void', 'paid'].includes(invoice.status);
+
+export const buildAgingReport = (invoices: AgingInvoice[], asOf: Date = new Date()): AgingReport => {
+  const totals = emptyTotals();
+  const byClient = new Map<string, AgingClientSummary>();
+
+  const lines = invoices
+    .filter(isReceivable)
+    .map((invoice): AgingLine => {
+      const daysPastDue = differenceInCalendarDays(asOf, parseISO(invoice.due_date));
+      return {
+        invoice,
+        clientId: invoice.client_id,
+        clientName: invoice.clients?.company_name || 'Unknown client',
+        balance: getInvoiceBalance(invoice),
+        daysPastDue,
+        bucket: getAgingBucket(daysPastDue),
+      };
+    })
+    .filter(line => line.balance > 0)
+    .sort((a, b) => b.daysPastDue - a.daysPastDue);
+
+  lines.forEach(line => {
+    totals[line.bucket] += line.balance;
+    totals.total += line.balance;
+
+    let summary = byClient.get(line.clientId);
+    if (!summary) {
+      summary = { clientId: line.clientId, clientName: line.clientName, totals: emptyTotals() };
+      byClient.set(line.clientId, summary);
+    }
+    summary.totals[line.bucket] += line.balance;
+    summary.totals.total += line.balance;
+  });
+
+  const clients = Array.from(byClient.values()).sort((a, b) => b.totals.total - a.totals.total);
+
+  return { lines, clients, totals };
+};
@@ -0,0 +1,94 @@
+// Lifetime figures for one client, worked out from their invoices, payments
+// and invoice lines.
+
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { Tables } from '@/integrations/supabase/types';
+import { getInvoiceBalance } from '@/lib/invoiceTotals';
+
+type HistoryItem = Pick<Tables<'invoice_items'>, 'invoice_id' | 'inventory_item_id' | 'description' | 'quantity' | 'line_total'> & {
+  inventory?: { name: string } | null;
+};
+
+type HistoryPayment = Pick<Tables<'payments'>, 'invoice_id' | 'payment_date'>;
+
+export interface TopProduct {
+  inventoryItemId: string;
+  name: string;
+  quantity: number;
+  revenue: number;
+  invoiceCount: number;
+}
+
+export interface ClientHistorySummary {
+  lifetimeRevenue: number;
+  outstandingBalance: number;
+  invoiceCount: number;
+  averageDaysToPay: number | null;
+  topProducts: TopProduct[];
+}
+
+interface ClientHistoryData {
+  invoices: Tables<'invoices'>[];
+  payments: HistoryPayment[];
+  items: HistoryItem[];
+}
+
+// Drafts were never issued and void invoices were cancelled
+const isIssued = (invoice: Tables<'invoices'>) => invoice.status !== 'draft' && invoice.status !== 'void';
+
+export const summarizeClientHistory = ({ invoices, payments, items }: ClientHistoryData, topCount = 10): ClientHistorySummary => {
+  const issued = invoices.filter(isIssued);
+  const issuedIds = new Set(issued.map(invoice => invoice.id));
+
+  // Days to pay runs from the issue date to the payment that settled it
+  const lastPaymentDate = new Map<string, string>();
+  payments.forEach(payment => {
+    const current = lastPaymentDate.get(payment.invoice_id);
+    if (!current || payment.payment_date > current) {
+      lastPaymentDate.set(payment.invoice_id, payment.payment_date);
+    }
+  });
+
+  const daysToPay = issued
+    .filter(invoice => invoice.status === 'paid' && lastPaymentDate.has(invoice.id))
+    .map(invoice => Math.max(0, differenceInCalendarDays(
+      parseISO(lastPaymentDate.get(invoice.id)!),
+      parseISO(invoice.issue_date)
+    )));
+
+  const products = new Map<string, TopProduct & { invoiceIds: Set<string> }>();
+  items.forEach(item => {
+    if (!item.inventory_item_id || !issuedIds.has(item.invoice_id)) return;
+
+    let product = products.get(item.inventory_item_id);
+    if (!product) {
+      product = {
+        inventoryItemId: item.inventory_item_id,
+        name: item.inventory?.name || item.description,
+        quantity: 0,
+        revenue: 0,
+        invoiceCount: 0,
+        invoiceIds: new Set(),
+      };
+      products.set(item.inventory_item_id, product);
+    }
+    product.quantity += item.quantity;
+    product.revenue += item.line_total;
+    product.invoiceIds.add(item.invoice_id);
+  });
+
+  const topProducts = Array.from(products.values())
+    .map(({ invoiceIds, ...product }) => ({ ...product, invoiceCount: invoiceIds.size }))
+    .sort((a, b) => b.revenue - a.revenue)
+    .slice(0, topCount);
+
+  return {
+    lifetimeRevenue: issued.reduce((sum, invoice) => sum + invoice.total_amount - invoice.amount_credited, 0),
+    outstandingBalance: issued.reduce((sum, invoice) => sum + getInvoiceBalance(invoice), 0),
+    invoiceCount: issued.length,
+    averageDaysToPay: daysToPay.length > 0
+      ? daysToPay.reduce((sum, days) => sum + days, 0) / daysToPay.length
+      : null,
+    topProducts,
+  };
+};
@@ -0,0 +1,118 @@
+// Statement of account for one client: everything invoiced, paid and credited
+// before the period rolls up into the opening balance, then each invoice,
+// payment and credit note in the period is listed with a running balance.
+
+import { Tables } from '@/integrations/supabase/types';
+
+export interface StatementLine {
+  date: string;
+  type: 'invoice' | 'payment' | 'credit_note';
+  reference: string;
+  description: string;
+  dueDate?: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface ClientStatement {
+  from: string;
+  to: string;
+  openingBalance: number;
+  lines: StatementLine[];
+  totalInvoiced: number;
+  totalPaid: number;
+  totalCredited: number;
+  closingBalance: number;
+}
+
+type StatementPayment = Tables<'payments'> & {
+  invoices?: { invoice_number: string } | null;
+};
+
+type StatementCreditNote = Tables<'credit_notes'> & {
+  invoices?: { invoice_number: string } | null;
+};
+
+interface StatementData {
+  invoices: Tables<'invoices'>[];
+  payments: StatementPayment[];
+  creditNotes: StatementCreditNote[];
+  from: string;
+  to: string;
+}
+
+// Dates are compared as yyyy-MM-dd strings
+export const buildClientStatement = ({ invoices, payments, creditNotes, from, to }: StatementData): ClientStatement => {
+  let openingBalance = 0;
+  const entries: Omit<StatementLine, 'balance'>[] = [];
+
+  invoices.forEach(invoice => {
+    if (invoice.issue_date > to) return;
+    if (invoice.issue_date < from) {
+      openingBalance += invoice.total_amount;
+      return;
+    }
+    entries.push({
+      date: invoice.issue_date,
+      type: 'invoice',
+      reference: invoice.invoice_number,
+      description: 'Invoice',
+      dueDate: invoice.due_date,
+      debit: invoice.total_amount,
+      credit: 0,
+    });
+  });
+
+  payments.forEach(payment => {
+    if (payment.payment_date > to) return;
+    if (payment.payment_date < from) {
+      openingBalance -= payment.amount;
+      return;
+    }
+    entries.push({
+      date: payment.payment_date,
+      type: 'payment',
+      reference: payment.invoices?.invoice_number || '',
+      description: `Payment - ${payment.method.replace('_', ' ')}${payment.reference ? ` (${payment.reference})` : ''}`,
+      debit: 0,
+      credit: payment.amount,
+    });
+  });
+
+  creditNotes.forEach(creditNote => {
+    if (creditNote.issue_date > to) return;
+    if (creditNote.issue_date < from) {
+      openingBalance -= creditNote.total_amount;
+      return;
+    }
+    entries.push({
+      date: creditNote.issue_date,
+      type: 'credit_note',
+      reference: creditNote.credit_note_number,
+      description: `Credit note against ${creditNote.invoices?.invoice_number || 'invoice'}${creditNote.reason ? ` (${creditNote.reason})` : ''}`,
+      debit: 0,
+      credit: creditNote.total_amount,
+    });
+  });
+
+  // Invoices come before payments and credits made on the same day
+  entries.sort((a, b) => a.date.localeCompare(b.date) || (a.type === b.type ? 0 : a.type === 'invoice' ? -1 : b.type === 'invoice' ? 1 : 0));
+
+  let balance = openingBalance;
+  const lines = entries.map(entry => {
+    balance += entry.debit - entry.credit;
+    return { ...entry, balance };
+  });
+
+  return {
+    from,
+    to,
+    openingBalance,
+    lines,
+    totalInvoiced: lines.reduce((sum, line) => sum + line.debit, 0),
+    totalPaid: lines.filter(line => line.type === 'payment').reduce((sum, line) => sum + line.credit, 0),
+    totalCredited: lines.filter(line => line.type === 'credit_note').reduce((sum, line) => sum + line.credit, 0),
+    closingBalance: balance,
+  };
+};
@@ -0,0 +1,168 @@
+// A4 credit note with the same header and footer as invoice PDFs
+
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { Tables } from '@/integrations/supabase/types';
+import {
+  BRAND_BLUE,
+  LIGHT_BLUE,
+  PAGE_MARGIN,
+  drawBrandedFooters,
+  drawBrandedHeader,
+  formatAmount,
+  formatPdfDate,
+  lastTableY
+} from '@/lib/pdfBranding';
+import { formatWeight, getLineWeight, getPricingUnitShort } from '@/lib/steelWeight';
+import { formatSoldQuantity } from '@/lib/units';
+
+type PdfCreditNote = Tables<'credit_notes'> & {
+  credit_note_items: Tables<'credit_note_items'>[];
+};
+
+interface CreditNotePdfData {
+  creditNote: PdfCreditNote;
+  invoice: Tables<'invoices'> & {
+    clients?: {
+      company_name: string;
+      contact_name: string;
+      email: string;
+      address: string | null;
+    };
+  };
+  companyInfo?: Tables<'company_info'> | null;
+}
+
+// e.g. CN-0007_INV-0042.pdf
+export const getCreditNotePdfFileName = ({ creditNote, invoice }: CreditNotePdfData) => {
+  const number = creditNote.credit_note_number.replace(/[^A-Za-z0-9-]+/g, '-');
+  const invoiceNumber = invoice.invoice_number.replace(/[^A-Za-z0-9-]+/g, '-');
+  return `${number}_${invoiceNumber}.pdf`;
+};
+
+export const buildCreditNotePdf = ({ creditNote, invoice, companyInfo }: CreditNotePdfData) => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  const headerHeight = drawBrandedHeader(doc, companyInfo, 'CREDIT NOTE', [
+    `Credit Note #: ${creditNote.credit_note_number}`,
+    `Date: ${formatPdfDate(creditNote.issue_date)}`,
+    `Invoice #: ${invoice.invoice_number}`
+  ]);
+
+  const creditTo = [
+    invoice.clients?.company_name || 'Client Name',
+    invoice.clients?.address,
+    invoice.clients?.email,
+    invoice.clients?.contact_name && `Contact: ${invoice.clients.contact_name}`
+  ].filter(Boolean).join('\n');
+
+  autoTable(doc, {
+    startY: headerHeight + 8,
+    head: [['Credit To']],
+    body: [[creditTo]],
+    theme: 'grid',
+    headStyles: { fillColor: BRAND_BLUE },
+    bodyStyles: { fillColor: LIGHT_BLUE, textColor: 40 },
+    styles: { fontSize: 9, lineColor: [191, 219, 254] },
+    tableWidth: 90,
+    margin: { left: PAGE_MARGIN }
+  });
+
+  // The weight column only appears when steel lines were returned
+  const items = creditNote.credit_note_items;
+  const hasWeights = items.some(item => item.unit_weight_kg);
+
+  autoTable(doc, {
+    startY: lastTableY(doc) + 8,
+    head: [['Description', 'Qty', ...(hasWeights ? ['Weight'] : []), 'Unit Price', 'VAT', 'Total']],
+    body: items.map(item => [
+      item.description,
+      formatSoldQuantity(item),
+      ...(hasWeights ? [item.unit_weight_kg ? formatWeight(getLineWeight(item) || 0) : '-'] : []),
+      item.pricing_unit !== 'piece'
+        ? `${formatAmount(item.unit_price)}/${getPricingUnitShort(item.pricing_unit)}`
+        : item.unit_name ? `${formatAmount(item.unit_price)}/${item.unit_name}` : formatAmount(item.unit_price),
+      formatAmount(item.tax_amount),
+      formatAmount(item.line_total)
+    ]),
+    theme: 'striped',
+    showHead: 'everyPage',
+    headStyles: { fillColor: BRAND_BLUE, halign: 'right' },
+    alternateRowStyles: { fillColor: LIGHT_BLUE },
+    styles: { fontSize: 9, cellPadding: 2 },
+    columnStyles: hasWeights
+      ? {
+          0: { halign: 'left', cellWidth: 'auto' },
+          1: { halign: 'right', cellWidth: 12 },
+          2: { halign: 'right', cellWidth: 22 },
+          3: { halign: 'right', cellWidth: 30 },
+          4: { halign: 'right', cellWidth: 26 },
+          5: { halign: 'right', cellWidth: 32, fontStyle: 'bold' }
+        }
+      : {
+          0: { halign: 'left', cellWidth: 'auto' },
+          1: { halign: 'right', cellWidth: 14 },
+          2: { halign: 'right', cellWidth: 32 },
+          3: { halign: 'right', cellWidth: 28 },
+          4: { halign: 'right', cellWidth: 34, fontStyle: 'bold' }
+        },
+    didParseCell: (data) => {
+      if (data.section === 'head' && data.column.index === 0) {
+        data.cell.styles.halign = 'left';
+      }
+    },
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN, top: PAGE_MARGIN, bottom: 20 }
+  });
+
+  const totalRows: string[][] = [];
+  if (hasWeights) {
+    totalRows.push(['Weight Returned', formatWeight(items.reduce((sum, item) => sum + (getLineWeight(item) || 0), 0))]);
+  }
+  totalRows.push(['Subtotal', formatAmount(creditNote.subtotal)]);
+  totalRows.push(['VAT', formatAmount(creditNote.tax_amount)]);
+  if (creditNote.wht_amount > 0) {
+    totalRows.push([`Less WHT (${invoice.wht_rate}%)`, `-${formatAmount(creditNote.wht_amount)}`]);
+  }
+  totalRows.push(['Total Credit', formatAmount(creditNote.total_amount)]);
+
+  const totalsWidth = 85;
+  autoTable(doc, {
+    startY: lastTableY(doc) + 4,
+    body: totalRows,
+    theme: 'plain',
+    tableWidth: totalsWidth,
+    margin: { left: pageWidth - PAGE_MARGIN - totalsWidth, top: PAGE_MARGIN, bottom: 20 },
+    rowPageBreak: 'avoid',
+    styles: { fontSize: 9, cellPadding: 1.5, textColor: 60 },
+    columnStyles: { 1: { halign: 'right' } },
+    didParseCell: (data) => {
+      if (data.row.raw[0] === 'Total Credit') {
+        data.cell.styles.fontStyle = 'bold';
+        data.cell.styles.textColor = [30, 64, 175];
+        data.cell.styles.fontSize = 11;
+      }
+    }
+  });
+
+  if (creditNote.reason) {
+    autoTable(doc, {
+      startY: lastTableY(doc) + 6,
+      head: [['Reason']],
+      body: [[creditNote.reason]],
+      theme: 'grid',
+      headStyles: { fillColor: BRAND_BLUE },
+      bodyStyles: { fillColor: LIGHT_BLUE, textColor: 60 },
+      styles: { fontSize: 9, lineColor: [191, 219, 254] },
+      margin: { left: PAGE_MARGIN, right: PAGE_MARGIN, top: PAGE_MARGIN, bottom: 20 }
+    });
+  }
+
+  drawBrandedFooters(doc, companyInfo, creditNote.credit_note_number);
+
+  return doc;
+};
+
+export const downloadCreditNotePdf = (data: CreditNotePdfData) => {
+  buildCreditNotePdf(data).save(getCreditNotePdfFileName(data));
+};
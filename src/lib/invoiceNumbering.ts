@@ -0,0 +1,33 @@
+// Mirrors format_invoice_number() in the database. The database assigns the
+// real number when the invoice is saved; this is only used to preview it.
+
+import { Tables } from '@/integrations/supabase/types';
+
+type NumberingSettings = Pick<
+  Tables<'company_info'>,
+  'invoice_prefix' | 'invoice_number_padding' | 'invoice_number_reset_yearly' | 'next_invoice_number' | 'invoice_number_year'
+>;
+
+export const formatInvoiceNumber = (prefix: string, year: number, sequenceNumber: number, padding: number, resetYearly: boolean) => {
+  return `${prefix}${resetYearly ? `${year}-` : ''}${String(sequenceNumber).padStart(padding, '0')}`;
+};
+
+// After a yearly reset the database restarts at 1 on the first invoice of the
+// year the invoice is issued in
+export const getNextSequenceNumber = (settings: NumberingSettings, year = new Date().getFullYear()) => {
+  const restarts = settings.invoice_number_reset_yearly && settings.invoice_number_year !== year;
+  return restarts ? 1 : settings.next_invoice_number;
+};
+
+export const previewNextInvoiceNumber = (settings?: NumberingSettings | null, issueDate = new Date()) => {
+  const year = issueDate.getFullYear();
+  if (!settings) return formatInvoiceNumber('INV-', year, 1, 4, false);
+
+  return formatInvoiceNumber(
+    settings.invoice_prefix,
+    year,
+    getNextSequenceNumber(settings, year),
+    settings.invoice_number_padding,
+    settings.invoice_number_reset_yearly
+  );
+};
@@ -0,0 +1,221 @@
+// A4 invoice PDF built from the same data as the on-screen invoice. Long item
+// lists run onto further pages with the table header repeated, rather than
+// shrinking the text to squeeze everything onto one page.
+
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { Tables } from '@/integrations/supabase/types';
+import {
+  BRAND_BLUE,
+  LIGHT_BLUE,
+  PAGE_MARGIN,
+  drawBrandedFooters,
+  drawBrandedHeader,
+  formatAmount,
+  formatPdfDate,
+  lastTableY
+} from '@/lib/pdfBranding';
+import { formatWeight, getLineWeight, getPricingUnitShort } from '@/lib/steelWeight';
+import { formatSoldQuantity } from '@/lib/units';
+
+type PdfInvoice = Tables<'invoices'> & {
+  clients?: {
+    company_name: string;
+    contact_name: string;
+    email: string;
+    address: string | null;
+  };
+};
+
+interface InvoicePdfData {
+  invoice: PdfInvoice;
+  items: Tables<'invoice_items'>[];
+  companyInfo?: Tables<'company_info'> | null;
+  amountPaid: number;
+  amountCredited?: number;
+}
+
+const formatPdfDiscount = (type: string, value: number) => {
+  return type === 'fixed' ? formatAmount(value) : `${value}%`;
+};
+
+// e.g. INV-0042_AcmeSteelLtd.pdf
+export const getInvoicePdfFileName = (invoice: PdfInvoice) => {
+  const number = invoice.invoice_number.replace(/[^A-Za-z0-9-]+/g, '-');
+  const client = (invoice.clients?.company_name || 'Client').replace(/[^A-Za-z0-9]+/g, '');
+  return `${number}_${client}.pdf`;
+};
+
+export const buildInvoicePdf = ({ invoice, items, companyInfo, amountPaid, amountCredited = 0 }: InvoicePdfData) => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const isVoid = invoice.status === 'void';
+  const balanceDue = isVoid ? 0 : Math.max(0, invoice.total_amount - amountPaid - amountCredited);
+
+  const headerHeight = drawBrandedHeader(doc, companyInfo, 'INVOICE', [
+    `Invoice #: ${invoice.invoice_number}`,
+    `Issue Date: ${formatPdfDate(invoice.issue_date)}`,
+    `Due Date: ${formatPdfDate(invoice.due_date)}`
+  ]);
+
+  // Bill to
+  const billTo = [
+    invoice.clients?.company_name || 'Client Name',
+    invoice.clients?.address,
+    invoice.clients?.email,
+    invoice.clients?.contact_name && `Contact: ${invoice.clients.contact_name}`
+  ].filter(Boolean).join('\n');
+
+  autoTable(doc, {
+    startY: headerHeight + 8,
+    head: [['Bill To']],
+    body: [[billTo]],
+    theme: 'grid',
+    headStyles: { fillColor: BRAND_BLUE },
+    bodyStyles: { fillColor: LIGHT_BLUE, textColor: 40 },
+    styles: { fontSize: 9, lineColor: [191, 219, 254] },
+    tableWidth: 90,
+    margin: { left: PAGE_MARGIN }
+  });
+
+  // Items. The weight column only appears when there are steel lines.
+  const hasWeights = items.some(item => item.unit_weight_kg);
+  const itemRows = items.length > 0
+    ? items.map(item => [
+        item.description,
+        formatSoldQuantity(item),
+        ...(hasWeights ? [item.unit_weight_kg ? formatWeight(getLineWeight(item) || 0) : '-'] : []),
+        item.pricing_unit !== 'piece'
+          ? `${formatAmount(item.unit_price)}/${getPricingUnitShort(item.pricing_unit)}`
+          : item.unit_name ? `${formatAmount(item.unit_price)}/${item.unit_name}` : formatAmount(item.unit_price),
+        item.discount_amount > 0 ? formatPdfDiscount(item.discount_type, item.discount_value) : '-',
+        item.tax_rate > 0 ? `${item.tax_rate}%` : '-',
+        formatAmount(item.line_total)
+      ])
+    : [['Professional Services', '1', formatAmount(invoice.subtotal), '-', '-', formatAmount(invoice.subtotal)]];
+
+  autoTable(doc, {
+    startY: lastTableY(doc) + 8,
+    head: [['Description', 'Qty', ...(hasWeights ? ['Weight'] : []), 'Unit Price', 'Discount', 'VAT', 'Total']],
+    body: itemRows,
+    theme: 'striped',
+    showHead: 'everyPage',
+    headStyles: { fillColor: BRAND_BLUE, halign: 'right' },
+    alternateRowStyles: { fillColor: LIGHT_BLUE },
+    styles: { fontSize: 9, cellPadding: 2 },
+    columnStyles: hasWeights
+      ? {
+          0: { halign: 'left', cellWidth: 'auto' },
+          1: { halign: 'right', cellWidth: 12 },
+          2: { halign: 'right', cellWidth: 22 },
+          3: { halign: 'right', cellWidth: 30 },
+          4: { halign: 'right', cellWidth: 20 },
+          5: { halign: 'right', cellWidth: 12 },
+          6: { halign: 'right', cellWidth: 30, fontStyle: 'bold' }
+        }
+      : {
+          0: { halign: 'left', cellWidth: 'auto' },
+          1: { halign: 'right', cellWidth: 14 },
+          2: { halign: 'right', cellWidth: 32 },
+          3: { halign: 'right', cellWidth: 26 },
+          4: { halign: 'right', cellWidth: 14 },
+          5: { halign: 'right', cellWidth: 34, fontStyle: 'bold' }
+        },
+    didParseCell: (data) => {
+      if (data.section === 'head' && data.column.index === 0) {
+        data.cell.styles.halign = 'left';
+      }
+    },
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN, top: PAGE_MARGIN, bottom: 20 }
+  });
+
+  // Totals
+  const totalRows: string[][] = [];
+  if (hasWeights) {
+    totalRows.push(['Total Weight', formatWeight(items.reduce((sum, item) => sum + (getLineWeight(item) || 0), 0))]);
+  }
+  totalRows.push(['Subtotal', formatAmount(invoice.subtotal)]);
+  if (invoice.discount_amount > 0) {
+    totalRows.push([`Discount (${formatPdfDiscount(invoice.discount_type, invoice.discount_value)})`, `-${formatAmount(invoice.discount_amount)}`]);
+  }
+  totalRows.push(['VAT', formatAmount(invoice.tax_amount)]);
+  if (invoice.wht_amount > 0) {
+    totalRows.push([`Less WHT (${invoice.wht_rate}%)`, `-${formatAmount(invoice.wht_amount)}`]);
+  }
+  totalRows.push(['Total', formatAmount(invoice.total_amount)]);
+  if (amountPaid > 0) {
+    totalRows.push(['Amount Paid', formatAmount(amountPaid)]);
+  }
+  if (amountCredited > 0) {
+    totalRows.push(['Credited', `-${formatAmount(amountCredited)}`]);
+  }
+  if (amountPaid > 0 || amountCredited > 0) {
+    totalRows.push(['Balance Due', formatAmount(balanceDue)]);
+  }
+
+  const totalsWidth = 85;
+  autoTable(doc, {
+    startY: lastTableY(doc) + 4,
+    body: totalRows,
+    theme: 'plain',
+    tableWidth: totalsWidth,
+    margin: { left: pageWidth - PAGE_MARGIN - totalsWidth, top: PAGE_MARGIN, bottom: 20 },
+    pageBreak: 'auto',
+    rowPageBreak: 'avoid',
+    styles: { fontSize: 9, cellPadding: 1.5, textColor: 60 },
+    columnStyles: { 1: { halign: 'right' } },
+    didParseCell: (data) => {
+      const label = data.row.raw[0];
+      if (label === 'Total' || label === 'Balance Due') {
+        data.cell.styles.fontStyle = 'bold';
+        data.cell.styles.textColor = [30, 64, 175];
+        data.cell.styles.fontSize = label === 'Total' ? 11 : 9;
+      }
+    }
+  });
+
+  // Notes and bank details are tables too so they move to a new page cleanly
+  if (invoice.notes) {
+    autoTable(doc, {
+      startY: lastTableY(doc) + 6,
+      head: [['Notes']],
+      body: [[invoice.notes]],
+      theme: 'grid',
+      headStyles: { fillColor: BRAND_BLUE },
+      bodyStyles: { fillColor: LIGHT_BLUE, textColor: 60 },
+      styles: { fontSize: 9, lineColor: [191, 219, 254] },
+      margin: { left: PAGE_MARGIN, right: PAGE_MARGIN, top: PAGE_MARGIN, bottom: 20 }
+    });
+  }
+
+  if (companyInfo?.bank_name) {
+    autoTable(doc, {
+      startY: lastTableY(doc) + 6,
+      head: [[{ content: 'Payment Information', colSpan: 2 }]],
+      body: [
+        [`Bank: ${companyInfo.bank_name}`, `Account Number: ${companyInfo.account_number || ''}`],
+        [`Account Name: ${companyInfo.account_name || ''}`, `Sort Code: ${companyInfo.sort_code || ''}`]
+      ],
+      theme: 'grid',
+      rowPageBreak: 'avoid',
+      headStyles: { fillColor: BRAND_BLUE },
+      bodyStyles: { fillColor: LIGHT_BLUE, textColor: 60 },
+      styles: { fontSize: 9, lineColor: [191, 219, 254] },
+      margin: { left: PAGE_MARGIN, right: PAGE_MARGIN, top: PAGE_MARGIN, bottom: 20 }
+    });
+  }
+
+  drawBrandedFooters(doc, companyInfo, invoice.invoice_number, isVoid ? 'VOID' : undefined);
+
+  return doc;
+};
+
+export const downloadInvoicePdf = (data: InvoicePdfData) => {
+  buildInvoicePdf(data).save(getInvoicePdfFileName(data.invoice));
+};
+
+// Base64 without the data URI prefix, for attaching the PDF to an email
+export const getInvoicePdfBase64 = (data: InvoicePdfData) => {
+  const dataUri = buildInvoicePdf(data).output('datauristring');
+  return dataUri.substring(dataUri.indexOf(',') + 1);
+};
@@ -0,0 +1,251 @@
+// Invoice maths shared by the invoice modals, the printed invoice and reports,
+// so every screen agrees on how discounts, VAT and withholding tax are applied
+
+import { getPricedQuantity, PricingUnit } from '@/lib/steelWeight';
+
+export const DEFAULT_VAT_RATE = 7.5;
+
+export type DiscountType = 'percentage' | 'fixed';
+
+export interface InvoiceLine {
+  quantity: number;
+  unit_price: number;
+  tax_rate: number;
+  discount_type: DiscountType;
+  discount_value: number;
+  // quantity is in the item's base unit; a line sold in a larger unit is
+  // priced per that unit
+  unit_factor?: number | null;
+  // Invoice lines can be priced by weight or length; anything else is per unit
+  pricing_unit?: string | null;
+  unit_weight_kg?: number | null;
+  unit_length_m?: number | null;
+}
+
+export interface InvoiceAdjustments {
+  discount_type: DiscountType;
+  discount_value: number;
+  wht_rate: number;
+}
+
+// Amounts are stored to the kobo
+export const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+// A discount can never take an amount below zero
+export const calculateDiscount = (amount: number, type: DiscountType, value: number) => {
+  if (!value || value <= 0 || amount <= 0) return 0;
+  if (type === 'fixed') return roundMoney(Math.min(value, amount));
+  return roundMoney(amount * Math.min(value, 100) / 100);
+};
+
+export const formatDiscount = (type: DiscountType | string, value: number) => {
+  return type === 'fixed' ? `₦${value.toLocaleString('en-NG')}` : `${value}%`;
+};
+
+// line_total is stored net of the line discount
+export const calculateLineAmounts = (line: InvoiceLine) => {
+  const gross = roundMoney(getPricedQuantity(line) * line.unit_price);
+  const discount_amount = calculateDiscount(gross, line.discount_type, line.discount_value);
+  const line_total = roundMoney(gross - discount_amount);
+  const tax_amount = roundMoney(line_total * (line.tax_rate || 0) / 100);
+  return { discount_amount, line_total, tax_amount };
+};
+
+// VAT-exempt clients are charged no VAT; everyone else gets the company rate
+export const getDefaultTaxRate = (client: { vat_exempt: boolean } | undefined, companyVatRate?: number | null) => {
+  if (client?.vat_exempt) return 0;
+  return companyVatRate ?? DEFAULT_VAT_RATE;
+};
+
+// Moves the lines still on the previous client's rate over to the new
+// client's, leaving any rate that was changed by hand alone
+export const applyClientTaxRate = <T extends InvoiceLine>(lines: T[], previousRate: number, taxRate: number): T[] => {
+  return lines.map(line => {
+    if (line.tax_rate !== previousRate) return line;
+    const updatedLine = { ...line, tax_rate: taxRate };
+    return { ...updatedLine, ...calculateLineAmounts(updatedLine) };
+  });
+};
+
+// The invoice discount comes off the subtotal of the discounted lines and is
+// shared across them in proportion to their value, so VAT is only charged on
+// what the client actually pays for. Withholding tax is deducted by the client
+// from the amount before VAT, so it reduces what they actually pay us.
+export const calculateInvoiceTotals = (lines: InvoiceLine[], adjustments: InvoiceAdjustments) => {
+  const amounts = lines.map(calculateLineAmounts);
+  const subtotal = roundMoney(amounts.reduce((sum, line) => sum + line.line_total, 0));
+  const discount_amount = calculateDiscount(subtotal, adjustments.discount_type, adjustments.discount_value);
+  const discountShare = subtotal > 0 ? discount_amount / subtotal : 0;
+
+  const lineAmounts = amounts.map((line, index) => ({
+    ...line,
+    tax_amount: roundMoney(line.line_total * (1 - discountShare) * (lines[index].tax_rate || 0) / 100)
+  }));
+
+  const taxable = roundMoney(subtotal - discount_amount);
+  const tax_amount = roundMoney(lineAmounts.reduce((sum, line) => sum + line.tax_amount, 0));
+  const wht_amount = roundMoney(taxable * (adjustments.wht_rate || 0) / 100);
+
+  return {
+    lines: lineAmounts,
+    subtotal,
+    discount_amount,
+    tax_amount,
+    wht_amount,
+    total_amount: roundMoney(taxable + tax_amount - wht_amount)
+  };
+};
+
+export type InvoiceTotals = ReturnType<typeof calculateInvoiceTotals>;
+
+// A line as it is edited in the invoice and quote forms, before it is saved
+export interface EditableLineItem extends InvoiceLine {
+  id: string;
+  inventory_id: string;
+  // Only invoices ship stock, so quotes and templates leave this unset
+  warehouse_location_id?: string;
+  // The unit the line is sold in; null is the item's base unit
+  unit_name: string | null;
+  unit_factor: number;
+  // Weight and length of one piece, taken from the item when it is picked
+  pricing_unit: PricingUnit;
+  unit_weight_kg: number | null;
+  unit_length_m: number | null;
+  description: string;
+  line_total: number;
+  tax_amount: number;
+  discount_amount: number;
+}
+
+export const createEmptyLineItem = (taxRate: number, id = Date.now().toString()): EditableLineItem => ({
+  id,
+  inventory_id: '',
+  description: '',
+  quantity: 1,
+  unit_price: 0,
+  unit_name: null,
+  unit_factor: 1,
+  pricing_unit: 'piece',
+  unit_weight_kg: null,
+  unit_length_m: null,
+  line_total: 0,
+  tax_rate: taxRate,
+  tax_amount: 0,
+  discount_type: 'percentage',
+  discount_value: 0,
+  discount_amount: 0
+});
+
+interface SavedLineItem {
+  id: string;
+  inventory_item_id: string | null;
+  warehouse_location_id?: string | null;
+  unit_name?: string | null;
+  unit_factor?: number | null;
+  pricing_unit?: string | null;
+  unit_weight_kg?: number | null;
+  unit_length_m?: number | null;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  line_total: number;
+  tax_rate: number;
+  tax_amount: number;
+  discount_type: string;
+  discount_value: number;
+  discount_amount: number;
+}
+
+// Invoice and quote items are stored the same way, so both load through here
+export const toEditableLineItem = (line: SavedLineItem): EditableLineItem => ({
+  id: line.id,
+  inventory_id: line.inventory_item_id || '',
+  warehouse_location_id: line.warehouse_location_id || undefined,
+  unit_name: line.unit_name || null,
+  unit_factor: line.unit_factor || 1,
+  pricing_unit: (line.pricing_unit || 'piece') as PricingUnit,
+  unit_weight_kg: line.unit_weight_kg ?? null,
+  unit_length_m: line.unit_length_m ?? null,
+  description: line.description,
+  quantity: line.quantity,
+  unit_price: line.unit_price,
+  line_total: line.line_total,
+  tax_rate: line.tax_rate,
+  tax_amount: line.tax_amount,
+  discount_type: line.discount_type as DiscountType,
+  discount_value: line.discount_value,
+  discount_amount: line.discount_amount
+});
+
+// VAT per line comes from the totals so it reflects the invoice discount
+export const toLineItemPayload = (items: EditableLineItem[], totals: InvoiceTotals) => {
+  return items.map((item, index) => ({
+    inventory_item_id: item.inventory_id || null,
+    warehouse_location_id: item.warehouse_location_id || null,
+    description: item.description,
+    quantity: item.quantity,
+    unit_price: item.unit_price,
+    unit_name: item.unit_name,
+    unit_factor: item.unit_factor,
+    pricing_unit: item.pricing_unit,
+    unit_weight_kg: item.unit_weight_kg,
+    unit_length_m: item.unit_length_m,
+    line_total: item.line_total,
+    tax_rate: item.tax_rate,
+    tax_amount: totals.lines[index].tax_amount,
+    discount_type: item.discount_type,
+    discount_value: item.discount_value,
+    discount_amount: item.discount_amount
+  }));
+};
+
+interface InvoiceBalanceFields {
+  status: string;
+  total_amount: number;
+  amount_paid: number;
+  amount_credited?: number | null;
+}
+
+// Payments and credit notes both settle an invoice; a void invoice is owed nothing
+export const getInvoiceBalance = (invoice: InvoiceBalanceFields) => {
+  if (invoice.status === 'void') return 0;
+  return Math.max(0, roundMoney(invoice.total_amount - invoice.amount_paid - (invoice.amount_credited || 0)));
+};
+
+interface CreditedLine {
+  quantity: number;
+  line_total: number;
+  tax_amount: number;
+}
+
+interface CreditedInvoice {
+  subtotal: number;
+  discount_amount: number;
+  wht_rate: number;
+}
+
+// What returning part of an invoice line is worth. Mirrors create_credit_note
+// in the database, which is what actually stores the amounts: the line's share
+// of the invoice discount comes off first, VAT is returned pro rata and
+// withholding tax is taken off the net the same way it was on the invoice.
+export const calculateCreditLine = (line: CreditedLine, invoice: CreditedInvoice, quantity: number) => {
+  if (!line.quantity || quantity <= 0) return { line_total: 0, tax_amount: 0 };
+  const share = quantity / line.quantity;
+  const discountShare = invoice.subtotal > 0 ? invoice.discount_amount / invoice.subtotal : 0;
+  return {
+    line_total: roundMoney(line.line_total * share * (1 - discountShare)),
+    tax_amount: roundMoney(line.tax_amount * share)
+  };
+};
+
+export const calculateCreditTotals = (lines: { line_total: number; tax_amount: number }[], whtRate: number) => {
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.line_total, 0));
+  const tax_amount = roundMoney(lines.reduce((sum, line) => sum + line.tax_amount, 0));
+  const wht_amount = roundMoney(subtotal * (whtRate || 0) / 100);
+  return {
+    subtotal,
+    tax_amount,
+    wht_amount,
+    total_amount: roundMoney(subtotal + tax_amount - wht_amount)
+  };
+};
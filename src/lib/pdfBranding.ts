@@ -0,0 +1,103 @@
+// Shared look for generated PDFs: the blue company header band, colours and
+// the footer with page numbers, so invoices and statements match.
+
+import { jsPDF } from 'jspdf';
+import { Tables } from '@/integrations/supabase/types';
+
+type DocWithTable = jsPDF & { lastAutoTable: { finalY: number } };
+
+export const PAGE_MARGIN = 15;
+export const BRAND_BLUE: [number, number, number] = [37, 99, 235];
+export const LIGHT_BLUE: [number, number, number] = [239, 246, 255];
+
+// The built-in PDF fonts have no naira sign, so amounts are written as NGN
+export const formatAmount = (amount: number) => {
+  return `NGN ${amount.toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
+export const formatPdfDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+};
+
+export const lastTableY = (doc: jsPDF) => (doc as DocWithTable).lastAutoTable.finalY;
+
+// Draws the header band with the company details on the left and the
+// document title and its details on the right. Returns the band height.
+export const drawBrandedHeader = (
+  doc: jsPDF,
+  companyInfo: Tables<'company_info'> | null | undefined,
+  title: string,
+  detailLines: string[]
+) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const companyLines = [
+    companyInfo?.address,
+    companyInfo?.phone && `Phone: ${companyInfo.phone}`,
+    companyInfo?.email && `Email: ${companyInfo.email}`,
+    companyInfo?.website && `Website: ${companyInfo.website}`,
+    companyInfo?.tax_id && `TIN: ${companyInfo.tax_id}`
+  ].filter(Boolean) as string[];
+  const headerHeight = Math.max(38, 24 + companyLines.length * 4.5);
+
+  doc.setFillColor(...BRAND_BLUE);
+  doc.rect(0, 0, pageWidth, headerHeight, 'F');
+  doc.setTextColor(255, 255, 255);
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text(companyInfo?.company_name || 'Your Company', PAGE_MARGIN, 15);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  if (companyInfo?.tagline) {
+    doc.text(companyInfo.tagline, PAGE_MARGIN, 20);
+  }
+  companyLines.forEach((line, index) => {
+    doc.text(line, PAGE_MARGIN, 26 + index * 4.5);
+  });
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(title, pageWidth - PAGE_MARGIN, 15, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  detailLines.forEach((line, index) => {
+    doc.text(line, pageWidth - PAGE_MARGIN, 22 + index * 4.5, { align: 'right' });
+  });
+
+  return headerHeight;
+};
+
+// Footer and page numbers on every page, plus a diagonal stamp when given
+export const drawBrandedFooters = (
+  doc: jsPDF,
+  companyInfo: Tables<'company_info'> | null | undefined,
+  reference: string,
+  stamp?: string
+) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const pageCount = doc.getNumberOfPages();
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+
+    if (stamp) {
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(110);
+      doc.setTextColor(254, 202, 202);
+      doc.text(stamp, pageWidth / 2, pageHeight / 2 + 20, { align: 'center', angle: 45 });
+    }
+
+    doc.setDrawColor(191, 219, 254);
+    doc.line(PAGE_MARGIN, pageHeight - 16, pageWidth - PAGE_MARGIN, pageHeight - 16);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(107, 114, 128);
+    doc.text(`Thank you for your business! - ${companyInfo?.company_name || 'Your Company'}`, PAGE_MARGIN, pageHeight - 10);
+    doc.text(`${reference} - Page ${page} of ${pageCount}`, pageWidth - PAGE_MARGIN, pageHeight - 10, { align: 'right' });
+  }
+};
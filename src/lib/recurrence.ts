@@ -0,0 +1,52 @@
+// Mirrors recurring_period_date() in the database, which decides when each
+// recurring invoice is actually generated; this is only used to preview the
+// schedule.
+
+import { addMonths, addWeeks, addYears, format, parseISO } from 'date-fns';
+import { Tables } from '@/integrations/supabase/types';
+
+export type RecurringFrequency = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export const RECURRING_FREQUENCIES: { value: RecurringFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+export const getFrequencyLabel = (frequency: string) => {
+  return RECURRING_FREQUENCIES.find(option => option.value === frequency)?.label || frequency;
+};
+
+// Periods are always counted from the start date so month-end contracts stay
+// on the month end
+export const getRecurringPeriodDate = (startDate: string, frequency: string, period: number) => {
+  const start = parseISO(startDate);
+  switch (frequency) {
+    case 'weekly': return format(addWeeks(start, period), 'yyyy-MM-dd');
+    case 'quarterly': return format(addMonths(start, 3 * period), 'yyyy-MM-dd');
+    case 'yearly': return format(addYears(start, period), 'yyyy-MM-dd');
+    default: return format(addMonths(start, period), 'yyyy-MM-dd');
+  }
+};
+
+type ScheduledTemplate = Pick<Tables<'recurring_invoices'>, 'start_date' | 'end_date' | 'frequency' | 'next_run_date' | 'active'>;
+
+// The next few dates an active template will be invoiced on, stopping at its end date
+export const getUpcomingRunDates = (template: ScheduledTemplate, count = 3) => {
+  if (!template.active) return [];
+
+  const dates: string[] = [];
+  let period = 0;
+  // Walk forward from the start to the stored next run, then list from there
+  while (getRecurringPeriodDate(template.start_date, template.frequency, period) < template.next_run_date) {
+    period++;
+  }
+  while (dates.length < count) {
+    const date = getRecurringPeriodDate(template.start_date, template.frequency, period);
+    if (template.end_date && date > template.end_date) break;
+    dates.push(date);
+    period++;
+  }
+  return dates;
+};
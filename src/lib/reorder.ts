@@ -0,0 +1,60 @@
+// Reorder suggestions: which items have fallen below their reorder level and
+// how many to buy, allowing for what is already on order from suppliers.
+
+import { Tables } from '@/integrations/supabase/types';
+
+type InventoryItem = Tables<'inventory'>;
+
+export type ReorderPurchaseOrder = Tables<'purchase_orders'> & {
+  suppliers: { id: string; company_name: string } | null;
+  purchase_order_items: Tables<'purchase_order_items'>[];
+};
+
+export interface ReorderLine {
+  item: InventoryItem;
+  onOrder: number;
+  suggestedQuantity: number;
+  lastSupplier: string | null;
+}
+
+// Orders that have gone to the supplier but not fully arrived yet
+const OPEN_ORDER_STATUSES = ['sent', 'partially_received'];
+
+// Mirrors update_inventory_status in the database
+export const isBelowReorderLevel = (item: InventoryItem) => item.quantity < item.reorder_level;
+
+// A fixed reorder quantity is bought as it is; otherwise enough to bring the
+// item back up to its reorder level. Either way, units already on order count.
+export const getSuggestedOrderQuantity = (item: InventoryItem, onOrder: number) => {
+  const needed = item.reorder_quantity > 0 ? item.reorder_quantity : item.reorder_level - item.quantity;
+  return Math.max(0, needed - onOrder);
+};
+
+// purchaseOrders are expected newest first, as usePurchaseOrders returns them
+export const buildReorderList = (inventory: InventoryItem[], purchaseOrders: ReorderPurchaseOrder[]): ReorderLine[] => {
+  const onOrder: Record<string, number> = {};
+  const lastSupplier: Record<string, string> = {};
+
+  purchaseOrders.forEach(order => {
+    order.purchase_order_items.forEach(line => {
+      if (OPEN_ORDER_STATUSES.includes(order.status)) {
+        onOrder[line.inventory_item_id] = (onOrder[line.inventory_item_id] || 0)
+          + Math.max(0, line.quantity_ordered - line.quantity_received);
+      }
+      if (!lastSupplier[line.inventory_item_id] && order.suppliers) {
+        lastSupplier[line.inventory_item_id] = order.suppliers.company_name;
+      }
+    });
+  });
+
+  return inventory
+    .filter(isBelowReorderLevel)
+    .map(item => ({
+      item,
+      onOrder: onOrder[item.id] || 0,
+      suggestedQuantity: getSuggestedOrderQuantity(item, onOrder[item.id] || 0),
+      lastSupplier: lastSupplier[item.id] || null
+    }))
+    // The emptiest shelves, relative to their reorder level, come first
+    .sort((a, b) => (a.item.quantity / Math.max(a.item.reorder_level, 1)) - (b.item.quantity / Math.max(b.item.reorder_level, 1)));
+};
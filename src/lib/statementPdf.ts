@@ -0,0 +1,145 @@
+// A4 statement of account with the same header and footer as invoice PDFs
+
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { Tables } from '@/integrations/supabase/types';
+import { ClientStatement } from '@/lib/clientStatement';
+import {
+  BRAND_BLUE,
+  LIGHT_BLUE,
+  PAGE_MARGIN,
+  drawBrandedFooters,
+  drawBrandedHeader,
+  formatAmount,
+  formatPdfDate,
+  lastTableY
+} from '@/lib/pdfBranding';
+
+interface StatementPdfData {
+  client: Tables<'clients'>;
+  statement: ClientStatement;
+  companyInfo?: Tables<'company_info'> | null;
+}
+
+// e.g. Statement_AcmeSteelLtd_2026-01-01_2026-10-19.pdf
+export const getStatementPdfFileName = ({ client, statement }: StatementPdfData) => {
+  const name = client.company_name.replace(/[^A-Za-z0-9]+/g, '');
+  return `Statement_${name}_${statement.from}_${statement.to}.pdf`;
+};
+
+export const buildStatementPdf = ({ client, statement, companyInfo }: StatementPdfData) => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  const headerHeight = drawBrandedHeader(doc, companyInfo, 'STATEMENT', [
+    `From: ${formatPdfDate(statement.from)}`,
+    `To: ${formatPdfDate(statement.to)}`,
+    `Balance Due: ${formatAmount(statement.closingBalance)}`
+  ]);
+
+  const account = [
+    client.company_name,
+    client.address,
+    client.email,
+    client.contact_name && `Contact: ${client.contact_name}`
+  ].filter(Boolean).join('\n');
+
+  autoTable(doc, {
+    startY: headerHeight + 8,
+    head: [['Account']],
+    body: [[account]],
+    theme: 'grid',
+    headStyles: { fillColor: BRAND_BLUE },
+    bodyStyles: { fillColor: LIGHT_BLUE, textColor: 40 },
+    styles: { fontSize: 9, lineColor: [191, 219, 254] },
+    tableWidth: 90,
+    margin: { left: PAGE_MARGIN }
+  });
+
+  const rows = [
+    [formatPdfDate(statement.from), '', 'Opening balance', '', '', formatAmount(statement.openingBalance)],
+    ...statement.lines.map(line => [
+      formatPdfDate(line.date),
+      line.reference,
+      line.dueDate ? `${line.description} (due ${formatPdfDate(line.dueDate)})` : line.description,
+      line.debit ? formatAmount(line.debit) : '',
+      line.credit ? formatAmount(line.credit) : '',
+      formatAmount(line.balance)
+    ])
+  ];
+
+  autoTable(doc, {
+    startY: lastTableY(doc) + 8,
+    head: [['Date', 'Reference', 'Details', 'Invoiced', 'Paid / Credited', 'Balance']],
+    body: rows,
+    theme: 'striped',
+    showHead: 'everyPage',
+    headStyles: { fillColor: BRAND_BLUE, halign: 'right' },
+    alternateRowStyles: { fillColor: LIGHT_BLUE },
+    styles: { fontSize: 8.5, cellPadding: 2 },
+    columnStyles: {
+      0: { halign: 'left', cellWidth: 28 },
+      1: { halign: 'left', cellWidth: 24 },
+      2: { halign: 'left', cellWidth: 'auto' },
+      3: { halign: 'right', cellWidth: 28 },
+      4: { halign: 'right', cellWidth: 28 },
+      5: { halign: 'right', cellWidth: 30, fontStyle: 'bold' }
+    },
+    didParseCell: (data) => {
+      if (data.section === 'head' && data.column.index <= 2) {
+        data.cell.styles.halign = 'left';
+      }
+    },
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN, top: PAGE_MARGIN, bottom: 20 }
+  });
+
+  const totalsWidth = 85;
+  autoTable(doc, {
+    startY: lastTableY(doc) + 4,
+    body: [
+      ['Opening Balance', formatAmount(statement.openingBalance)],
+      ['Invoiced', formatAmount(statement.totalInvoiced)],
+      ['Paid', `-${formatAmount(statement.totalPaid)}`],
+      ...(statement.totalCredited > 0 ? [['Credited', `-${formatAmount(statement.totalCredited)}`]] : []),
+      ['Closing Balance', formatAmount(statement.closingBalance)]
+    ],
+    theme: 'plain',
+    tableWidth: totalsWidth,
+    margin: { left: pageWidth - PAGE_MARGIN - totalsWidth, top: PAGE_MARGIN, bottom: 20 },
+    rowPageBreak: 'avoid',
+    styles: { fontSize: 9, cellPadding: 1.5, textColor: 60 },
+    columnStyles: { 1: { halign: 'right' } },
+    didParseCell: (data) => {
+      if (data.row.raw[0] === 'Closing Balance') {
+        data.cell.styles.fontStyle = 'bold';
+        data.cell.styles.textColor = [30, 64, 175];
+        data.cell.styles.fontSize = 11;
+      }
+    }
+  });
+
+  if (companyInfo?.bank_name) {
+    autoTable(doc, {
+      startY: lastTableY(doc) + 6,
+      head: [[{ content: 'Payment Information', colSpan: 2 }]],
+      body: [
+        [`Bank: ${companyInfo.bank_name}`, `Account Number: ${companyInfo.account_number || ''}`],
+        [`Account Name: ${companyInfo.account_name || ''}`, `Sort Code: ${companyInfo.sort_code || ''}`]
+      ],
+      theme: 'grid',
+      rowPageBreak: 'avoid',
+      headStyles: { fillColor: BRAND_BLUE },
+      bodyStyles: { fillColor: LIGHT_BLUE, textColor: 60 },
+      styles: { fontSize: 9, lineColor: [191, 219, 254] },
+      margin: { left: PAGE_MARGIN, right: PAGE_MARGIN, top: PAGE_MARGIN, bottom: 20 }
+    });
+  }
+
+  drawBrandedFooters(doc, companyInfo, `Statement ${client.company_name}`);
+
+  return doc;
+};
+
+export const downloadStatementPdf = (data: StatementPdfData) => {
+  buildStatementPdf(data).save(getStatementPdfFileName(data));
+};
@@ -0,0 +1,185 @@
+// Theoretical steel weights from an item's dimensions, and the pricing units
+// an invoice line can be charged in. Weights use the standard density of
+// carbon steel; mill tolerances mean the weighbridge can differ slightly.
+
+export const STEEL_DENSITY_KG_PER_M3 = 7850;
+
+export type SectionType = 'plate' | 'sheet' | 'pipe' | 'angle' | 'channel';
+
+export type PricingUnit = 'piece' | 'kg' | 'tonne' | 'metre';
+
+export interface SteelDimensions {
+  section_type: string | null;
+  thickness_mm: number | null;
+  width_mm: number | null;
+  height_mm: number | null;
+  outer_diameter_mm: number | null;
+  length_m: number | null;
+}
+
+type DimensionField = 'thickness_mm' | 'width_mm' | 'height_mm' | 'outer_diameter_mm';
+
+// The dimensions each section is measured by, with what they are called on
+// that section. Length is common to all of them.
+export const SECTION_TYPES: { value: SectionType; label: string; dimensions: { field: DimensionField; label: string }[] }[] = [
+  {
+    value: 'plate',
+    label: 'Plate',
+    dimensions: [
+      { field: 'thickness_mm', label: 'Thickness (mm)' },
+      { field: 'width_mm', label: 'Width (mm)' }
+    ]
+  },
+  {
+    value: 'sheet',
+    label: 'Sheet',
+    dimensions: [
+      { field: 'thickness_mm', label: 'Thickness (mm)' },
+      { field: 'width_mm', label: 'Width (mm)' }
+    ]
+  },
+  {
+    value: 'pipe',
+    label: 'Pipe',
+    dimensions: [
+      { field: 'outer_diameter_mm', label: 'Outside Diameter (mm)' },
+      { field: 'thickness_mm', label: 'Wall Thickness (mm)' }
+    ]
+  },
+  {
+    value: 'angle',
+    label: 'Angle',
+    dimensions: [
+      { field: 'width_mm', label: 'Leg A (mm)' },
+      { field: 'height_mm', label: 'Leg B (mm)' },
+      { field: 'thickness_mm', label: 'Thickness (mm)' }
+    ]
+  },
+  {
+    value: 'channel',
+    label: 'Channel',
+    dimensions: [
+      { field: 'height_mm', label: 'Depth (mm)' },
+      { field: 'width_mm', label: 'Flange Width (mm)' },
+      { field: 'thickness_mm', label: 'Thickness (mm)' }
+    ]
+  }
+];
+
+// Manufacturers' standard gauge for steel sheet, in mm
+export const SHEET_GAUGES: { gauge: number; thickness_mm: number }[] = [
+  { gauge: 7, thickness_mm: 4.55 },
+  { gauge: 8, thickness_mm: 4.18 },
+  { gauge: 10, thickness_mm: 3.42 },
+  { gauge: 12, thickness_mm: 2.66 },
+  { gauge: 14, thickness_mm: 1.90 },
+  { gauge: 16, thickness_mm: 1.52 },
+  { gauge: 18, thickness_mm: 1.21 },
+  { gauge: 20, thickness_mm: 0.91 },
+  { gauge: 22, thickness_mm: 0.76 },
+  { gauge: 24, thickness_mm: 0.61 },
+  { gauge: 26, thickness_mm: 0.46 },
+  { gauge: 28, thickness_mm: 0.38 },
+  { gauge: 30, thickness_mm: 0.30 }
+];
+
+export const PRICING_UNITS: { value: PricingUnit; label: string; short: string }[] = [
+  { value: 'piece', label: 'Per piece', short: 'pc' },
+  { value: 'kg', label: 'Per kg', short: 'kg' },
+  { value: 'tonne', label: 'Per tonne', short: 't' },
+  { value: 'metre', label: 'Per metre', short: 'm' }
+];
+
+export const getSectionLabel = (sectionType: string | null) => {
+  return SECTION_TYPES.find(section => section.value === sectionType)?.label || null;
+};
+
+export const getPricingUnitShort = (pricingUnit: string | null | undefined) => {
+  return PRICING_UNITS.find(unit => unit.value === pricingUnit)?.short || 'pc';
+};
+
+// Cross-section in mm². Angles and channels are treated as sharp-cornered
+// with an even thickness, which is close enough for pricing.
+export const getCrossSectionArea = (dimensions: SteelDimensions) => {
+  const t = dimensions.thickness_mm || 0;
+  const w = dimensions.width_mm || 0;
+  const h = dimensions.height_mm || 0;
+  const d = dimensions.outer_diameter_mm || 0;
+  if (t <= 0) return 0;
+
+  switch (dimensions.section_type) {
+    case 'plate':
+    case 'sheet':
+      return t * w;
+    case 'pipe': {
+      if (d <= 0 || t * 2 > d) return 0;
+      const inner = d - 2 * t;
+      return (Math.PI / 4) * (d * d - inner * inner);
+    }
+    case 'angle':
+      return w > 0 && h > 0 ? t * (w + h - t) : 0;
+    case 'channel':
+      return w > 0 && h > 0 ? t * (h + 2 * w - 2 * t) : 0;
+    default:
+      return 0;
+  }
+};
+
+// mm² × kg/m³ gives kg per metre once the 10⁶ mm² in a m² is taken out
+export const getWeightPerMetre = (dimensions: SteelDimensions) => {
+  return getCrossSectionArea(dimensions) * STEEL_DENSITY_KG_PER_M3 / 1000000;
+};
+
+// Weight of one piece, or null when the item is not fully dimensioned
+export const getPieceWeight = (dimensions: SteelDimensions) => {
+  const weight = getWeightPerMetre(dimensions) * (dimensions.length_m || 0);
+  return weight > 0 ? Math.round(weight * 1000) / 1000 : null;
+};
+
+// e.g. "Angle 50 × 50 × 5 mm, 6 m, S275", or null for items that are not steel stock
+export const describeSteelItem = (item: SteelDimensions & { gauge: number | null; grade: string | null }) => {
+  const section = SECTION_TYPES.find(type => type.value === item.section_type);
+  if (!section) return null;
+
+  const sizes = section.dimensions
+    .map(dimension => item[dimension.field])
+    .filter((value): value is number => !!value);
+  return [
+    `${section.label}${sizes.length > 0 ? ` ${sizes.join(' × ')} mm` : ''}${item.gauge ? ` (${item.gauge}G)` : ''}`,
+    item.length_m ? `${item.length_m} m` : null,
+    item.grade
+  ].filter(Boolean).join(', ');
+};
+
+export const formatWeight = (kg: number) => {
+  if (kg >= 1000) return `${(kg / 1000).toLocaleString('en-NG', { maximumFractionDigits: 3 })} t`;
+  return `${kg.toLocaleString('en-NG', { maximumFractionDigits: 2 })} kg`;
+};
+
+export interface PricedLine {
+  quantity: number;
+  unit_factor?: number | null;
+  pricing_unit?: string | null;
+  unit_weight_kg?: number | null;
+  unit_length_m?: number | null;
+}
+
+// Quantity is always counted in the item's base unit, since that is what
+// leaves the yard; the price applies to the pieces' weight or length when the
+// line is sold that way, otherwise to the unit the line is sold in
+export const getPricedQuantity = (line: PricedLine) => {
+  switch (line.pricing_unit) {
+    case 'kg':
+      return line.quantity * (line.unit_weight_kg || 0);
+    case 'tonne':
+      return line.quantity * (line.unit_weight_kg || 0) / 1000;
+    case 'metre':
+      return line.quantity * (line.unit_length_m || 0);
+    default:
+      return line.quantity / (line.unit_factor || 1);
+  }
+};
+
+export const getLineWeight = (line: PricedLine) => {
+  return line.unit_weight_kg ? line.quantity * line.unit_weight_kg : null;
+};
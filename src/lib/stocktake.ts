@@ -0,0 +1,68 @@
+// Stocktake helpers: variances against the frozen snapshot, and reading
+// counted quantities back from a filled-in count sheet.
+
+import { parseCsv } from '@/lib/csv';
+
+export interface CountSheetItem {
+  inventory_item_id: string;
+  name: string;
+}
+
+export interface CountSheetResult {
+  counts: Record<string, number>;
+  unmatched: string[];
+  invalid: string[];
+}
+
+// The columns written by the count sheet export
+export const COUNT_SHEET_HEADERS = ['Item ID', 'Item', 'Category', 'Counted Quantity'];
+
+export const getVariance = (line: { expected_quantity: number; counted_quantity: number | null }) => {
+  return line.counted_quantity === null ? 0 : line.counted_quantity - line.expected_quantity;
+};
+
+const normalise = (value: string) => value.trim().toLowerCase();
+
+// Rows are matched on Item ID when present, otherwise on the item name, so a
+// sheet typed up by hand works as long as the names are spelled as in the
+// system. Rows with an empty count are ignored; anything that cannot be read
+// is reported back rather than guessed at.
+export const readCountSheet = (text: string, items: CountSheetItem[]): CountSheetResult => {
+  const [header = [], ...rows] = parseCsv(text);
+  const columns = header.map(normalise);
+  const idColumn = columns.findIndex(column => column === 'item id' || column === 'id');
+  const nameColumn = columns.findIndex(column => column === 'item' || column === 'name' || column === 'item name');
+  const countColumn = columns.findIndex(column => column.startsWith('counted') || column === 'count' || column === 'quantity');
+
+  if (countColumn === -1 || (idColumn === -1 && nameColumn === -1)) {
+    throw new Error('The file needs an Item (or Item ID) column and a Counted Quantity column');
+  }
+
+  const byId = new Map(items.map(item => [item.inventory_item_id, item.inventory_item_id]));
+  const byName = new Map(items.map(item => [normalise(item.name), item.inventory_item_id]));
+
+  const result: CountSheetResult = { counts: {}, unmatched: [], invalid: [] };
+
+  rows.forEach(row => {
+    const id = idColumn === -1 ? '' : (row[idColumn] || '').trim();
+    const name = nameColumn === -1 ? '' : (row[nameColumn] || '').trim();
+    const counted = (row[countColumn] || '').trim();
+    if (counted === '') return;
+
+    const itemId = (id && byId.get(id)) || byName.get(normalise(name));
+    if (!itemId) {
+      result.unmatched.push(name || id);
+      return;
+    }
+
+    const quantity = Number(counted);
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      result.invalid.push(name || id);
+      return;
+    }
+
+    result.counts[itemId] = quantity;
+  });
+
+  return result;
+};
@@ -0,0 +1,47 @@
+// Units of measure. Stock is always held in an item's base unit; alternate
+// units say how many base units they hold, e.g. 1 bundle = 10 rods.
+
+export interface ItemUnit {
+  unit_name: string;
+  factor: number;
+}
+
+export const DEFAULT_BASE_UNIT = 'pcs';
+
+const formatNumber = (value: number) => value.toLocaleString('en-NG', { maximumFractionDigits: 3 });
+
+export const formatQuantity = (quantity: number, unit: string | null | undefined) => {
+  return `${formatNumber(quantity)} ${unit || DEFAULT_BASE_UNIT}`;
+};
+
+// The base unit first, then the alternate units from smallest to largest
+export const getItemUnits = (baseUnit: string | null | undefined, units: ItemUnit[]): ItemUnit[] => {
+  return [
+    { unit_name: baseUnit || DEFAULT_BASE_UNIT, factor: 1 },
+    ...[...units].sort((a, b) => a.factor - b.factor)
+  ];
+};
+
+// Stock counted in whole base units; a part of a larger unit rounds to the
+// nearest base unit
+export const toBaseQuantity = (quantity: number, factor: number) => Math.round(quantity * factor);
+
+export const fromBaseQuantity = (quantity: number, factor: number) => factor > 0 ? quantity / factor : quantity;
+
+// e.g. "5 bundles" for 50 rods, using the largest alternate unit
+export const formatInLargestUnit = (quantity: number, units: ItemUnit[]) => {
+  const largest = [...units].sort((a, b) => b.factor - a.factor)[0];
+  if (!largest || largest.factor <= 1) return null;
+  return formatQuantity(fromBaseQuantity(quantity, largest.factor), largest.unit_name);
+};
+
+// How much an invoice line sold, in the unit it was sold in. Lines sold in the
+// base unit show just the number, as they always have.
+export const formatSoldQuantity = (line: { quantity: number; unit_name?: string | null; unit_factor?: number | null }) => {
+  if (!line.unit_name) return String(line.quantity);
+  return formatQuantity(fromBaseQuantity(line.quantity, line.unit_factor || 1), line.unit_name);
+};
+
+export const describeUnit = (unit: ItemUnit, baseUnit: string) => {
+  return `1 ${unit.unit_name} = ${formatNumber(unit.factor)} ${baseUnit}`;
+};
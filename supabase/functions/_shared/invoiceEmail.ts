@@ -0,0 +1,122 @@
+// Invoice and reminder email bodies, shared by the manual Send action and the
+// scheduled reminder job so clients get the same message from both.
+
+export type InvoiceEmailKind = 'invoice' | 'reminder';
+
+interface InvoiceEmailData {
+  kind: InvoiceEmailKind;
+  invoice: {
+    invoice_number: string;
+    issue_date: string;
+    due_date: string;
+    total_amount: number;
+    amount_paid: number;
+    amount_credited?: number;
+    clients?: {
+      company_name: string;
+      contact_name: string;
+    } | null;
+  };
+  companyInfo?: {
+    company_name: string | null;
+    bank_name: string | null;
+    account_name: string | null;
+    account_number: string | null;
+  } | null;
+  message?: string;
+  // False when the email goes out without the invoice PDF
+  attached?: boolean;
+}
+
+const escapeHtml = (value: string) => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-NG', {
+    style: 'currency',
+    currency: 'NGN'
+  }).format(amount);
+};
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+};
+
+const reminderIntro = (invoiceNumber: string, balance: string, dueDate: string) => {
+  const today = new Date().toISOString().split('T')[0];
+  if (dueDate < today) {
+    return `Our records show that invoice ${invoiceNumber} is overdue. A balance of ${balance} was due on ${formatDate(dueDate)}.`;
+  }
+  if (dueDate === today) {
+    return `This is a friendly reminder that invoice ${invoiceNumber} with a balance of ${balance} is due today.`;
+  }
+  return `This is a friendly reminder that invoice ${invoiceNumber} has a balance of ${balance} due on ${formatDate(dueDate)}.`;
+};
+
+export const renderInvoiceEmail = ({ kind, invoice, companyInfo, message, attached = true }: InvoiceEmailData) => {
+  const companyName = companyInfo?.company_name || 'Our company';
+  // Credit notes reduce what is owed the same way payments do
+  const balanceDue = Math.max(0, invoice.total_amount - invoice.amount_paid - (invoice.amount_credited || 0));
+  const subject = kind === 'reminder'
+    ? `Reminder: invoice ${invoice.invoice_number} from ${companyName}`
+    : `Invoice ${invoice.invoice_number} from ${companyName}`;
+
+  const intro = kind === 'reminder'
+    ? reminderIntro(invoice.invoice_number, formatCurrency(balanceDue), invoice.due_date)
+    : attached
+      ? `Please find attached invoice ${invoice.invoice_number} for ${formatCurrency(invoice.total_amount)}, due on ${formatDate(invoice.due_date)}.`
+      : `We have issued invoice ${invoice.invoice_number} for ${formatCurrency(invoice.total_amount)}, due on ${formatDate(invoice.due_date)}.`;
+
+  const bankLines = companyInfo?.bank_name
+    ? [
+        `Bank: ${companyInfo.bank_name}`,
+        `Account Name: ${companyInfo.account_name || ''}`,
+        `Account Number: ${companyInfo.account_number || ''}`,
+      ]
+    : [];
+
+  const greeting = `Dear ${invoice.clients?.contact_name || invoice.clients?.company_name || 'Customer'},`;
+  const text = [
+    greeting,
+    '',
+    intro,
+    ...(message ? ['', message] : []),
+    ...(bankLines.length ? ['', 'Payment details:', ...bankLines] : []),
+    '',
+    'Thank you for your business.',
+    companyName,
+  ].join('\n');
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; color: #1f2937; max-width: 600px;">
+      <div style="background: #2563eb; color: #ffffff; padding: 16px 20px;">
+        <h2 style="margin: 0;">${escapeHtml(companyName)}</h2>
+      </div>
+      <div style="padding: 20px;">
+        <p>${escapeHtml(greeting)}</p>
+        <p>${escapeHtml(intro)}</p>
+        ${message ? `<p style="white-space: pre-wrap;">${escapeHtml(message)}</p>` : ''}
+        <table style="border-collapse: collapse; margin: 16px 0;">
+          <tr><td style="padding: 4px 12px 4px 0;">Invoice #</td><td><strong>${escapeHtml(invoice.invoice_number)}</strong></td></tr>
+          <tr><td style="padding: 4px 12px 4px 0;">Issue Date</td><td>${formatDate(invoice.issue_date)}</td></tr>
+          <tr><td style="padding: 4px 12px 4px 0;">Due Date</td><td>${formatDate(invoice.due_date)}</td></tr>
+          <tr><td style="padding: 4px 12px 4px 0;">Total</td><td>${formatCurrency(invoice.total_amount)}</td></tr>
+          <tr><td style="padding: 4px 12px 4px 0;">Balance Due</td><td><strong>${formatCurrency(balanceDue)}</strong></td></tr>
+        </table>
+        ${bankLines.length ? `<p><strong>Payment details</strong><br />${bankLines.map(escapeHtml).join('<br />')}</p>` : ''}
+        <p>Thank you for your business.<br />${escapeHtml(companyName)}</p>
+      </div>
+    </div>
+  `;
+
+  return { subject, html, text };
+};
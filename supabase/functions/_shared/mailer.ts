@@ -0,0 +1,77 @@
+// Outgoing mail for edge functions. The transport is picked from the
+// environment so local development can point at an SMTP catcher such as
+// Inbucket or MailHog instead of a real mail server.
+//
+//   MAIL_TRANSPORT  smtp (default) or console, which only logs the message
+//   MAIL_FROM       sender, e.g. "Marvellous Steel <accounts@example.com>"
+//   SMTP_HOST       e.g. localhost for a local catcher
+//   SMTP_PORT       defaults to 587
+//   SMTP_SECURE     "true" for implicit TLS (usually port 465)
+//   SMTP_USER / SMTP_PASS  optional; catchers normally need neither
+
+import nodemailer from 'npm:nodemailer@6.9.16';
+
+export interface MailAttachment {
+  filename: string;
+  content: string;
+  encoding: 'base64';
+  contentType: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  replyTo?: string;
+  attachments?: MailAttachment[];
+}
+
+export interface Mailer {
+  send: (message: MailMessage) => Promise<{ messageId: string }>;
+}
+
+const createSmtpMailer = (from: string): Mailer => {
+  const host = Deno.env.get('SMTP_HOST');
+  if (!host) {
+    throw new Error('SMTP_HOST is not configured');
+  }
+
+  const user = Deno.env.get('SMTP_USER');
+  const transporter = nodemailer.createTransport({
+    host,
+    port: Number(Deno.env.get('SMTP_PORT') || 587),
+    secure: Deno.env.get('SMTP_SECURE') === 'true',
+    auth: user ? { user, pass: Deno.env.get('SMTP_PASS') || '' } : undefined,
+  });
+
+  return {
+    send: async (message) => {
+      const info = await transporter.sendMail({ from, ...message });
+      return { messageId: info.messageId };
+    },
+  };
+};
+
+const createConsoleMailer = (from: string): Mailer => ({
+  send: async (message) => {
+    console.log('Mail (console transport):', {
+      from,
+      to: message.to,
+      subject: message.subject,
+      attachments: message.attachments?.map((attachment) => attachment.filename) ?? [],
+    });
+    return { messageId: `console-${crypto.randomUUID()}` };
+  },
+});
+
+export const createMailer = (): Mailer => {
+  const from = Deno.env.get('MAIL_FROM') || 'invoices@localhost';
+  const transport = Deno.env.get('MAIL_TRANSPORT') || 'smtp';
+
+  switch (transport) {
+    case 'smtp': return createSmtpMailer(from);
+    case 'console': return createConsoleMailer(from);
+    default: throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`);
+  }
+};
@@ -0,0 +1,149 @@
+// Emails an invoice to its client with the PDF attached and records the send
+// in invoice_events. The PDF is rendered in the browser by the same code as
+// the Download button and posted here as base64.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { createMailer } from '../_shared/mailer.ts';
+import { InvoiceEmailKind, renderInvoiceEmail } from '../_shared/invoiceEmail.ts';
+
+interface SendInvoiceRequest {
+  invoice_id: string;
+  kind?: InvoiceEmailKind;
+  pdf_base64?: string;
+  filename?: string;
+  message?: string;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) {
+    return jsonResponse({ error: 'Missing authorization' }, 401);
+  }
+
+  // Act as the calling user so row level security still applies
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    { global: { headers: { Authorization: authorization } } }
+  );
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return jsonResponse({ error: 'User not authenticated' }, 401);
+  }
+
+  let request: SendInvoiceRequest;
+  try {
+    request = await req.json();
+  } catch {
+    return jsonResponse({ error: 'Invalid request body' }, 400);
+  }
+
+  const kind = request.kind || 'invoice';
+  if (!request.invoice_id) {
+    return jsonResponse({ error: 'invoice_id is required' }, 400);
+  }
+
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .select(`
+      *,
+      clients (
+        company_name,
+        contact_name,
+        email
+      )
+    `)
+    .eq('id', request.invoice_id)
+    .maybeSingle();
+
+  if (invoiceError) {
+    return jsonResponse({ error: invoiceError.message }, 500);
+  }
+  if (!invoice) {
+    return jsonResponse({ error: 'Invoice not found' }, 404);
+  }
+  if (invoice.status === 'void') {
+    return jsonResponse({ error: 'Void invoices cannot be sent' }, 400);
+  }
+
+  const recipient = invoice.clients?.email;
+  if (!recipient) {
+    return jsonResponse({ error: 'This client has no email address' }, 400);
+  }
+
+  const { data: companyInfo } = await supabase
+    .from('company_info')
+    .select('*')
+    .order('created_at')
+    .order('id')
+    .limit(1)
+    .maybeSingle();
+
+  const { subject, html, text } = renderInvoiceEmail({
+    kind,
+    invoice,
+    companyInfo,
+    message: request.message,
+    attached: !!request.pdf_base64,
+  });
+
+  const filename = request.filename || `${invoice.invoice_number}.pdf`;
+
+  try {
+    const mailer = createMailer();
+    const { messageId } = await mailer.send({
+      to: recipient,
+      subject,
+      html,
+      text,
+      replyTo: companyInfo?.email || undefined,
+      attachments: request.pdf_base64
+        ? [{ filename, content: request.pdf_base64, encoding: 'base64', contentType: 'application/pdf' }]
+        : [],
+    });
+
+    await supabase.from('invoice_events').insert({
+      invoice_id: invoice.id,
+      user_id: user.id,
+      event_type: kind === 'reminder' ? 'reminder_sent' : 'sent',
+      recipient,
+      details: { subject, message_id: messageId, attachment: request.pdf_base64 ? filename : null },
+    });
+
+    // Once it has gone to the client a draft is no longer a draft
+    if (invoice.status === 'draft') {
+      await supabase
+        .from('invoices')
+        .update({ status: 'pending' })
+        .eq('id', invoice.id);
+    }
+
+    return jsonResponse({ message_id: messageId, recipient });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to send email';
+    console.error('Send invoice error:', message);
+
+    await supabase.from('invoice_events').insert({
+      invoice_id: invoice.id,
+      user_id: user.id,
+      event_type: 'send_failed',
+      recipient,
+      details: { subject, kind, error: message },
+    });
+
+    return jsonResponse({ error: message }, 502);
+  }
+});
@@ -0,0 +1,125 @@
+// Works through the invoice_reminders queue filled by queue_invoice_reminders().
+// Called daily by pg_cron with the service role key; there is no user session.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { createMailer } from '../_shared/mailer.ts';
+import { renderInvoiceEmail } from '../_shared/invoiceEmail.ts';
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (req.headers.get('Authorization') !== `Bearer ${serviceKey}`) {
+    return jsonResponse({ error: 'Not authorized' }, 401);
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceKey);
+  const today = new Date().toISOString().split('T')[0];
+
+  const { data: reminders, error: remindersError } = await supabase
+    .from('invoice_reminders')
+    .select(`
+      *,
+      invoices (
+        *,
+        clients (
+          company_name,
+          contact_name,
+          email
+        )
+      )
+    `)
+    .eq('status', 'queued')
+    .lte('scheduled_for', today)
+    .order('scheduled_for');
+
+  if (remindersError) {
+    return jsonResponse({ error: remindersError.message }, 500);
+  }
+
+  const { data: companyInfo } = await supabase
+    .from('company_info')
+    .select('*')
+    .order('created_at')
+    .order('id')
+    .limit(1)
+    .maybeSingle();
+
+  let mailer;
+  try {
+    mailer = createMailer();
+  } catch (error) {
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Mail is not configured' }, 500);
+  }
+
+  const result = { sent: 0, failed: 0, cancelled: 0 };
+
+  // One at a time so a slow or throttling SMTP server is not flooded
+  for (const reminder of reminders || []) {
+    const invoice = reminder.invoices;
+    const recipient = invoice?.clients?.email;
+
+    // Paid in the meantime, voided, or the client's email was removed
+    if (!invoice || ['paid', 'void'].includes(invoice.status) || !recipient) {
+      await supabase
+        .from('invoice_reminders')
+        .update({ status: 'cancelled' })
+        .eq('id', reminder.id);
+      result.cancelled++;
+      continue;
+    }
+
+    const { subject, html, text } = renderInvoiceEmail({ kind: 'reminder', invoice, companyInfo });
+
+    try {
+      const { messageId } = await mailer.send({
+        to: recipient,
+        subject,
+        html,
+        text,
+        replyTo: companyInfo?.email || undefined,
+      });
+
+      await supabase
+        .from('invoice_reminders')
+        .update({ status: 'sent', sent_at: new Date().toISOString(), attempts: reminder.attempts + 1 })
+        .eq('id', reminder.id);
+
+      await supabase.from('invoice_events').insert({
+        invoice_id: invoice.id,
+        event_type: 'reminder_sent',
+        recipient,
+        details: { subject, message_id: messageId, days_offset: reminder.days_offset },
+      });
+      result.sent++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to send email';
+      console.error('Send reminder error:', message);
+
+      await supabase
+        .from('invoice_reminders')
+        .update({ status: 'failed', last_error: message, attempts: reminder.attempts + 1 })
+        .eq('id', reminder.id);
+
+      await supabase.from('invoice_events').insert({
+        invoice_id: invoice.id,
+        event_type: 'send_failed',
+        recipient,
+        details: { subject, kind: 'reminder', error: message, days_offset: reminder.days_offset },
+      });
+      result.failed++;
+    }
+  }
+
+  return jsonResponse(result);
+});
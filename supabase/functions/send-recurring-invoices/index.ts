@@ -0,0 +1,150 @@
+// Emails the invoices generate_recurring_invoices() has just raised for
+// templates set to auto-send. Called daily by pg_cron with the service role
+// key; there is no user session. The PDF attached is built by the same code
+// as the Download button, imported from the app through deno.json.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { createMailer } from '../_shared/mailer.ts';
+import { renderInvoiceEmail } from '../_shared/invoiceEmail.ts';
+import { getInvoicePdfBase64, getInvoicePdfFileName } from '@/lib/invoicePdf.ts';
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (req.headers.get('Authorization') !== `Bearer ${serviceKey}`) {
+    return jsonResponse({ error: 'Not authorized' }, 401);
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceKey);
+
+  const { data: runs, error: runsError } = await supabase
+    .from('recurring_invoice_runs')
+    .select(`
+      *,
+      recurring_invoices!inner ( auto_send ),
+      invoices (
+        *,
+        clients (
+          company_name,
+          contact_name,
+          email,
+          address
+        )
+      )
+    `)
+    .eq('status', 'generated')
+    .eq('recurring_invoices.auto_send', true)
+    .order('run_date');
+
+  if (runsError) {
+    return jsonResponse({ error: runsError.message }, 500);
+  }
+
+  const { data: companyInfo } = await supabase
+    .from('company_info')
+    .select('*')
+    .order('created_at')
+    .order('id')
+    .limit(1)
+    .maybeSingle();
+
+  let mailer;
+  try {
+    mailer = createMailer();
+  } catch (error) {
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Mail is not configured' }, 500);
+  }
+
+  const result = { sent: 0, failed: 0 };
+
+  // One at a time so a slow or throttling SMTP server is not flooded
+  for (const run of runs || []) {
+    const invoice = run.invoices;
+    const recipient = invoice?.clients?.email;
+
+    // Deleted or voided since it was generated, or the client has no email
+    if (!invoice || invoice.status === 'void' || !recipient) {
+      await supabase
+        .from('recurring_invoice_runs')
+        .update({
+          status: 'send_failed',
+          error: !invoice || invoice.status === 'void' ? 'Invoice was deleted or voided' : 'This client has no email address',
+        })
+        .eq('id', run.id);
+      result.failed++;
+      continue;
+    }
+
+    const { subject, html, text } = renderInvoiceEmail({ kind: 'invoice', invoice, companyInfo });
+    const filename = getInvoicePdfFileName(invoice);
+
+    try {
+      const { data: items, error: itemsError } = await supabase
+        .from('invoice_items')
+        .select('*')
+        .eq('invoice_id', invoice.id)
+        .order('created_at', { ascending: true });
+
+      if (itemsError) throw itemsError;
+
+      const pdfBase64 = getInvoicePdfBase64({
+        invoice,
+        items: items || [],
+        companyInfo,
+        amountPaid: invoice.amount_paid,
+        amountCredited: invoice.amount_credited,
+      });
+
+      const { messageId } = await mailer.send({
+        to: recipient,
+        subject,
+        html,
+        text,
+        replyTo: companyInfo?.email || undefined,
+        attachments: [{ filename, content: pdfBase64, encoding: 'base64', contentType: 'application/pdf' }],
+      });
+
+      await supabase
+        .from('recurring_invoice_runs')
+        .update({ status: 'sent', sent_at: new Date().toISOString(), error: null })
+        .eq('id', run.id);
+
+      await supabase.from('invoice_events').insert({
+        invoice_id: invoice.id,
+        event_type: 'sent',
+        recipient,
+        details: { subject, message_id: messageId, attachment: filename, recurring_invoice_id: run.recurring_invoice_id },
+      });
+      result.sent++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to send email';
+      console.error('Send recurring invoice error:', message);
+
+      await supabase
+        .from('recurring_invoice_runs')
+        .update({ status: 'send_failed', error: message })
+        .eq('id', run.id);
+
+      await supabase.from('invoice_events').insert({
+        invoice_id: invoice.id,
+        event_type: 'send_failed',
+        recipient,
+        details: { subject, kind: 'invoice', error: message, recurring_invoice_id: run.recurring_invoice_id },
+      });
+      result.failed++;
+    }
+  }
+
+  return jsonResponse(result);
+});
@@ -0,0 +1,138 @@
+-- Payments ledger: deposits and instalments are recorded against an invoice,
+-- and the invoice status is derived from what has actually been paid
+
+-- Running total of payments received, kept in sync by the payments trigger
+ALTER TABLE public.invoices
+ADD COLUMN amount_paid numeric NOT NULL DEFAULT 0;
+
+-- Allow the partially_paid status
+ALTER TABLE public.invoices
+DROP CONSTRAINT IF EXISTS invoices_status_check;
+
+ALTER TABLE public.invoices
+ADD CONSTRAINT invoices_status_check
+CHECK (status IN ('draft', 'pending', 'partially_paid', 'paid', 'overdue'));
+
+-- Create payments table
+CREATE TABLE public.payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users NOT NULL,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  payment_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  method TEXT NOT NULL DEFAULT 'bank_transfer' CHECK (method IN ('bank_transfer', 'cash', 'cheque', 'pos', 'other')),
+  reference TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_payments_invoice_id ON public.payments(invoice_id);
+
+-- Enable RLS on payments table
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+-- Payments are shared across all authenticated users, like invoices
+CREATE POLICY "Authenticated users can view all payments"
+ON public.payments
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can create payments"
+ON public.payments
+FOR INSERT
+WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can update all payments"
+ON public.payments
+FOR UPDATE
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can delete all payments"
+ON public.payments
+FOR DELETE
+USING (auth.role() = 'authenticated');
+
+-- Derive paid / partially_paid from amount_paid whenever the paid amount,
+-- the invoice total or the status itself changes
+CREATE OR REPLACE FUNCTION public.derive_invoice_payment_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.amount_paid > 0 AND NEW.amount_paid >= NEW.total_amount THEN
+    NEW.status := 'paid';
+  ELSIF NEW.amount_paid > 0 THEN
+    NEW.status := 'partially_paid';
+  ELSIF NEW.status IN ('paid', 'partially_paid') THEN
+    NEW.status := 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_invoices_payment_status ON public.invoices;
+CREATE TRIGGER trg_invoices_payment_status
+BEFORE INSERT OR UPDATE OF amount_paid, total_amount, status ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.derive_invoice_payment_status();
+
+-- Recalculate amount_paid for a given invoice from its payments
+CREATE OR REPLACE FUNCTION public.sync_invoice_payment_status(invoice_uuid uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  paid numeric;
+BEGIN
+  SELECT COALESCE(SUM(amount), 0)
+  INTO paid
+  FROM public.payments
+  WHERE invoice_id = invoice_uuid;
+
+  UPDATE public.invoices
+  SET amount_paid = paid
+  WHERE id = invoice_uuid;
+END;
+$$;
+
+-- Trigger function to call the updater when payments change
+CREATE OR REPLACE FUNCTION public.trigger_sync_invoice_payments()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.sync_invoice_payment_status(OLD.invoice_id);
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.invoice_id <> NEW.invoice_id THEN
+    PERFORM public.sync_invoice_payment_status(OLD.invoice_id);
+  END IF;
+
+  PERFORM public.sync_invoice_payment_status(NEW.invoice_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_payments_sync_invoice ON public.payments;
+CREATE TRIGGER trg_payments_sync_invoice
+AFTER INSERT OR UPDATE OR DELETE ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.trigger_sync_invoice_payments();
+
+-- Backfill: invoices already marked as paid by hand get a single payment for
+-- their full total so they keep counting as revenue
+INSERT INTO public.payments (user_id, invoice_id, amount, payment_date, method, notes)
+SELECT i.user_id, i.id, i.total_amount, i.issue_date, 'other', 'Marked as paid before the payments ledger was introduced'
+FROM public.invoices i
+WHERE i.status = 'paid'
+AND i.total_amount > 0
+AND NOT EXISTS (SELECT 1 FROM public.payments p WHERE p.invoice_id = i.id);
@@ -0,0 +1,78 @@
+-- Create an invoice, its line items and the matching stock deductions in a
+-- single transaction so a failure part-way through leaves nothing behind
+CREATE OR REPLACE FUNCTION public.create_invoice_with_items(p_invoice jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_invoice_id uuid;
+  stock record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line item';
+  END IF;
+
+  -- Lock every inventory row being sold in a stable order, so two clerks
+  -- selling the same item queue behind each other instead of overselling
+  FOR stock IN
+    SELECT inv.id, inv.name, inv.quantity, req.requested
+    FROM (
+      SELECT (item->>'inventory_item_id')::uuid AS inventory_item_id,
+             SUM((item->>'quantity')::numeric) AS requested
+      FROM jsonb_array_elements(p_items) AS item
+      WHERE NULLIF(item->>'inventory_item_id', '') IS NOT NULL
+      GROUP BY 1
+    ) req
+    JOIN public.inventory inv ON inv.id = req.inventory_item_id
+    ORDER BY inv.id
+    FOR UPDATE OF inv
+  LOOP
+    IF stock.quantity < stock.requested THEN
+      RAISE EXCEPTION 'Insufficient inventory: Only % units of % available, but % requested',
+        stock.quantity, stock.name, stock.requested;
+    END IF;
+
+    UPDATE public.inventory
+    SET quantity = quantity - stock.requested
+    WHERE id = stock.id;
+  END LOOP;
+
+  INSERT INTO public.invoices (
+    user_id, client_id, invoice_number, issue_date, due_date, notes, status,
+    subtotal, tax_amount, total_amount, is_backdated
+  )
+  VALUES (
+    auth.uid(),
+    (p_invoice->>'client_id')::uuid,
+    p_invoice->>'invoice_number',
+    (p_invoice->>'issue_date')::date,
+    (p_invoice->>'due_date')::date,
+    p_invoice->>'notes',
+    COALESCE(p_invoice->>'status', 'draft'),
+    COALESCE((p_invoice->>'subtotal')::numeric, 0),
+    COALESCE((p_invoice->>'tax_amount')::numeric, 0),
+    COALESCE((p_invoice->>'total_amount')::numeric, 0),
+    false
+  )
+  RETURNING id INTO new_invoice_id;
+
+  -- items_summary is filled in by the invoice_items summary trigger
+  INSERT INTO public.invoice_items (invoice_id, inventory_item_id, description, quantity, unit_price, line_total)
+  SELECT
+    new_invoice_id,
+    NULLIF(item->>'inventory_item_id', '')::uuid,
+    item->>'description',
+    (item->>'quantity')::numeric,
+    (item->>'unit_price')::numeric,
+    COALESCE((item->>'line_total')::numeric, (item->>'quantity')::numeric * (item->>'unit_price')::numeric)
+  FROM jsonb_array_elements(p_items) AS item;
+
+  RETURN new_invoice_id;
+END;
+$$;
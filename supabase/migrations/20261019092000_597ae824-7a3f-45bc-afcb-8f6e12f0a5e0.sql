@@ -0,0 +1,92 @@
+-- Replace an invoice's header and line items in one transaction, moving stock
+-- by the difference between the old and new quantities of each item
+CREATE OR REPLACE FUNCTION public.update_invoice_with_items(p_invoice_id uuid, p_invoice jsonb, p_items jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  backdated boolean;
+  stock record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line item';
+  END IF;
+
+  SELECT is_backdated INTO backdated
+  FROM public.invoices
+  WHERE id = p_invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  -- Backdated invoices record historical sales and never touched stock
+  IF NOT COALESCE(backdated, false) THEN
+    -- Positive delta means more of the item is being sold, negative means
+    -- stock goes back on the shelf
+    FOR stock IN
+      SELECT inv.id, inv.name, inv.quantity, changes.delta
+      FROM (
+        SELECT line.inventory_item_id, SUM(line.quantity) AS delta
+        FROM (
+          SELECT NULLIF(item->>'inventory_item_id', '')::uuid AS inventory_item_id,
+                 (item->>'quantity')::numeric AS quantity
+          FROM jsonb_array_elements(p_items) AS item
+          UNION ALL
+          SELECT ii.inventory_item_id, -ii.quantity
+          FROM public.invoice_items ii
+          WHERE ii.invoice_id = p_invoice_id
+        ) line
+        WHERE line.inventory_item_id IS NOT NULL
+        GROUP BY line.inventory_item_id
+        HAVING SUM(line.quantity) <> 0
+      ) changes
+      JOIN public.inventory inv ON inv.id = changes.inventory_item_id
+      ORDER BY inv.id
+      FOR UPDATE OF inv
+    LOOP
+      IF stock.delta > stock.quantity THEN
+        RAISE EXCEPTION 'Insufficient inventory: Only % more units of % available, but % more requested',
+          stock.quantity, stock.name, stock.delta;
+      END IF;
+
+      UPDATE public.inventory
+      SET quantity = quantity - stock.delta
+      WHERE id = stock.id;
+    END LOOP;
+  END IF;
+
+  DELETE FROM public.invoice_items
+  WHERE invoice_id = p_invoice_id;
+
+  INSERT INTO public.invoice_items (invoice_id, inventory_item_id, description, quantity, unit_price, line_total)
+  SELECT
+    p_invoice_id,
+    NULLIF(item->>'inventory_item_id', '')::uuid,
+    item->>'description',
+    (item->>'quantity')::numeric,
+    (item->>'unit_price')::numeric,
+    COALESCE((item->>'line_total')::numeric, (item->>'quantity')::numeric * (item->>'unit_price')::numeric)
+  FROM jsonb_array_elements(p_items) AS item;
+
+  UPDATE public.invoices
+  SET client_id = (p_invoice->>'client_id')::uuid,
+      invoice_number = p_invoice->>'invoice_number',
+      issue_date = (p_invoice->>'issue_date')::date,
+      due_date = (p_invoice->>'due_date')::date,
+      notes = p_invoice->>'notes',
+      status = COALESCE(p_invoice->>'status', status),
+      subtotal = COALESCE((p_invoice->>'subtotal')::numeric, 0),
+      tax_amount = COALESCE((p_invoice->>'tax_amount')::numeric, 0),
+      total_amount = COALESCE((p_invoice->>'total_amount')::numeric, 0),
+      updated_at = now()
+  WHERE id = p_invoice_id;
+END;
+$$;
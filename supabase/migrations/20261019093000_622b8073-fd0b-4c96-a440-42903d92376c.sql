@@ -0,0 +1,237 @@
+-- Void invoices: cancelling or deleting an invoice puts its stock back, and a
+-- voided invoice stays on file for the audit trail
+
+-- Allow the void status
+ALTER TABLE public.invoices
+DROP CONSTRAINT IF EXISTS invoices_status_check;
+
+ALTER TABLE public.invoices
+ADD CONSTRAINT invoices_status_check
+CHECK (status IN ('draft', 'pending', 'partially_paid', 'paid', 'overdue', 'void'));
+
+-- A void invoice keeps its status no matter what the payments say
+CREATE OR REPLACE FUNCTION public.derive_invoice_payment_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'void' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.amount_paid > 0 AND NEW.amount_paid >= NEW.total_amount THEN
+    NEW.status := 'paid';
+  ELSIF NEW.amount_paid > 0 THEN
+    NEW.status := 'partially_paid';
+  ELSIF NEW.status IN ('paid', 'partially_paid') THEN
+    NEW.status := 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Put the quantities sold on an invoice back into inventory. Backdated
+-- invoices never deducted stock and void ones have already been restored.
+CREATE OR REPLACE FUNCTION public.restore_invoice_stock(invoice_uuid uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  stock record;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.invoices
+    WHERE id = invoice_uuid
+    AND (is_backdated OR status = 'void')
+  ) THEN
+    RETURN;
+  END IF;
+
+  FOR stock IN
+    SELECT inv.id, sold.quantity
+    FROM (
+      SELECT inventory_item_id, SUM(quantity) AS quantity
+      FROM public.invoice_items
+      WHERE invoice_id = invoice_uuid
+      AND inventory_item_id IS NOT NULL
+      GROUP BY inventory_item_id
+    ) sold
+    JOIN public.inventory inv ON inv.id = sold.inventory_item_id
+    ORDER BY inv.id
+    FOR UPDATE OF inv
+  LOOP
+    UPDATE public.inventory
+    SET quantity = quantity + stock.quantity
+    WHERE id = stock.id;
+  END LOOP;
+END;
+$$;
+
+-- Cancel an invoice without deleting it
+CREATE OR REPLACE FUNCTION public.void_invoice(p_invoice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT id, status, amount_paid INTO target
+  FROM public.invoices
+  WHERE id = p_invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF target.status = 'void' THEN
+    RAISE EXCEPTION 'Invoice is already void';
+  END IF;
+
+  IF target.amount_paid > 0 THEN
+    RAISE EXCEPTION 'Remove the payments recorded against this invoice before voiding it';
+  END IF;
+
+  PERFORM public.restore_invoice_stock(p_invoice_id);
+
+  UPDATE public.invoices
+  SET status = 'void',
+      updated_at = now()
+  WHERE id = p_invoice_id;
+END;
+$$;
+
+-- Delete an invoice and return its stock in the same transaction
+CREATE OR REPLACE FUNCTION public.delete_invoice(p_invoice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  PERFORM 1
+  FROM public.invoices
+  WHERE id = p_invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  PERFORM public.restore_invoice_stock(p_invoice_id);
+
+  DELETE FROM public.invoices
+  WHERE id = p_invoice_id;
+END;
+$$;
+
+-- Editing is refused once an invoice has been voided
+CREATE OR REPLACE FUNCTION public.update_invoice_with_items(p_invoice_id uuid, p_invoice jsonb, p_items jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  backdated boolean;
+  current_status text;
+  stock record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line item';
+  END IF;
+
+  SELECT is_backdated, status INTO backdated, current_status
+  FROM public.invoices
+  WHERE id = p_invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF current_status = 'void' THEN
+    RAISE EXCEPTION 'Void invoices cannot be edited';
+  END IF;
+
+  -- Backdated invoices record historical sales and never touched stock
+  IF NOT COALESCE(backdated, false) THEN
+    -- Positive delta means more of the item is being sold, negative means
+    -- stock goes back on the shelf
+    FOR stock IN
+      SELECT inv.id, inv.name, inv.quantity, changes.delta
+      FROM (
+        SELECT line.inventory_item_id, SUM(line.quantity) AS delta
+        FROM (
+          SELECT NULLIF(item->>'inventory_item_id', '')::uuid AS inventory_item_id,
+                 (item->>'quantity')::numeric AS quantity
+          FROM jsonb_array_elements(p_items) AS item
+          UNION ALL
+          SELECT ii.inventory_item_id, -ii.quantity
+          FROM public.invoice_items ii
+          WHERE ii.invoice_id = p_invoice_id
+        ) line
+        WHERE line.inventory_item_id IS NOT NULL
+        GROUP BY line.inventory_item_id
+        HAVING SUM(line.quantity) <> 0
+      ) changes
+      JOIN public.inventory inv ON inv.id = changes.inventory_item_id
+      ORDER BY inv.id
+      FOR UPDATE OF inv
+    LOOP
+      IF stock.delta > stock.quantity THEN
+        RAISE EXCEPTION 'Insufficient inventory: Only % more units of % available, but % more requested',
+          stock.quantity, stock.name, stock.delta;
+      END IF;
+
+      UPDATE public.inventory
+      SET quantity = quantity - stock.delta
+      WHERE id = stock.id;
+    END LOOP;
+  END IF;
+
+  DELETE FROM public.invoice_items
+  WHERE invoice_id = p_invoice_id;
+
+  INSERT INTO public.invoice_items (invoice_id, inventory_item_id, description, quantity, unit_price, line_total)
+  SELECT
+    p_invoice_id,
+    NULLIF(item->>'inventory_item_id', '')::uuid,
+    item->>'description',
+    (item->>'quantity')::numeric,
+    (item->>'unit_price')::numeric,
+    COALESCE((item->>'line_total')::numeric, (item->>'quantity')::numeric * (item->>'unit_price')::numeric)
+  FROM jsonb_array_elements(p_items) AS item;
+
+  UPDATE public.invoices
+  SET client_id = (p_invoice->>'client_id')::uuid,
+      invoice_number = p_invoice->>'invoice_number',
+      issue_date = (p_invoice->>'issue_date')::date,
+      due_date = (p_invoice->>'due_date')::date,
+      notes = p_invoice->>'notes',
+      status = COALESCE(p_invoice->>'status', status),
+      subtotal = COALESCE((p_invoice->>'subtotal')::numeric, 0),
+      tax_amount = COALESCE((p_invoice->>'tax_amount')::numeric, 0),
+      total_amount = COALESCE((p_invoice->>'total_amount')::numeric, 0),
+      updated_at = now()
+  WHERE id = p_invoice_id;
+END;
+$$;
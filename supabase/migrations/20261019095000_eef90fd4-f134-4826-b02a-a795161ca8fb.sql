@@ -0,0 +1,214 @@
+-- Trade discounts: each line can take a percentage or fixed discount, and the
+-- invoice can take one more on top. line_total and subtotal are stored net of
+-- line discounts; total_amount = subtotal - discount_amount + tax_amount - wht_amount.
+
+ALTER TABLE public.invoice_items
+ADD COLUMN discount_type text NOT NULL DEFAULT 'percentage' CHECK (discount_type IN ('percentage', 'fixed')),
+ADD COLUMN discount_value numeric NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+ADD COLUMN discount_amount numeric NOT NULL DEFAULT 0 CHECK (discount_amount >= 0);
+
+ALTER TABLE public.invoices
+ADD COLUMN discount_type text NOT NULL DEFAULT 'percentage' CHECK (discount_type IN ('percentage', 'fixed')),
+ADD COLUMN discount_value numeric NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+ADD COLUMN discount_amount numeric NOT NULL DEFAULT 0 CHECK (discount_amount >= 0);
+
+-- Store the discount columns when invoices are created or edited
+CREATE OR REPLACE FUNCTION public.create_invoice_with_items(p_invoice jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_invoice_id uuid;
+  stock record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line item';
+  END IF;
+
+  -- Lock every inventory row being sold in a stable order, so two clerks
+  -- selling the same item queue behind each other instead of overselling
+  FOR stock IN
+    SELECT inv.id, inv.name, inv.quantity, req.requested
+    FROM (
+      SELECT (item->>'inventory_item_id')::uuid AS inventory_item_id,
+             SUM((item->>'quantity')::numeric) AS requested
+      FROM jsonb_array_elements(p_items) AS item
+      WHERE NULLIF(item->>'inventory_item_id', '') IS NOT NULL
+      GROUP BY 1
+    ) req
+    JOIN public.inventory inv ON inv.id = req.inventory_item_id
+    ORDER BY inv.id
+    FOR UPDATE OF inv
+  LOOP
+    IF stock.quantity < stock.requested THEN
+      RAISE EXCEPTION 'Insufficient inventory: Only % units of % available, but % requested',
+        stock.quantity, stock.name, stock.requested;
+    END IF;
+
+    UPDATE public.inventory
+    SET quantity = quantity - stock.requested
+    WHERE id = stock.id;
+  END LOOP;
+
+  INSERT INTO public.invoices (
+    user_id, client_id, invoice_number, issue_date, due_date, notes, status,
+    subtotal, discount_type, discount_value, discount_amount,
+    tax_amount, wht_rate, wht_amount, total_amount, is_backdated
+  )
+  VALUES (
+    auth.uid(),
+    (p_invoice->>'client_id')::uuid,
+    p_invoice->>'invoice_number',
+    (p_invoice->>'issue_date')::date,
+    (p_invoice->>'due_date')::date,
+    p_invoice->>'notes',
+    COALESCE(p_invoice->>'status', 'draft'),
+    COALESCE((p_invoice->>'subtotal')::numeric, 0),
+    COALESCE(p_invoice->>'discount_type', 'percentage'),
+    COALESCE((p_invoice->>'discount_value')::numeric, 0),
+    COALESCE((p_invoice->>'discount_amount')::numeric, 0),
+    COALESCE((p_invoice->>'tax_amount')::numeric, 0),
+    COALESCE((p_invoice->>'wht_rate')::numeric, 0),
+    COALESCE((p_invoice->>'wht_amount')::numeric, 0),
+    COALESCE((p_invoice->>'total_amount')::numeric, 0),
+    false
+  )
+  RETURNING id INTO new_invoice_id;
+
+  -- items_summary is filled in by the invoice_items summary trigger
+  INSERT INTO public.invoice_items (
+    invoice_id, inventory_item_id, description, quantity, unit_price, line_total,
+    tax_rate, tax_amount, discount_type, discount_value, discount_amount
+  )
+  SELECT
+    new_invoice_id,
+    NULLIF(item->>'inventory_item_id', '')::uuid,
+    item->>'description',
+    (item->>'quantity')::numeric,
+    (item->>'unit_price')::numeric,
+    COALESCE((item->>'line_total')::numeric, (item->>'quantity')::numeric * (item->>'unit_price')::numeric),
+    COALESCE((item->>'tax_rate')::numeric, 0),
+    COALESCE((item->>'tax_amount')::numeric, 0),
+    COALESCE(item->>'discount_type', 'percentage'),
+    COALESCE((item->>'discount_value')::numeric, 0),
+    COALESCE((item->>'discount_amount')::numeric, 0)
+  FROM jsonb_array_elements(p_items) AS item;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_invoice_with_items(p_invoice_id uuid, p_invoice jsonb, p_items jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  backdated boolean;
+  current_status text;
+  stock record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line item';
+  END IF;
+
+  SELECT is_backdated, status INTO backdated, current_status
+  FROM public.invoices
+  WHERE id = p_invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF current_status = 'void' THEN
+    RAISE EXCEPTION 'Void invoices cannot be edited';
+  END IF;
+
+  -- Backdated invoices record historical sales and never touched stock
+  IF NOT COALESCE(backdated, false) THEN
+    -- Positive delta means more of the item is being sold, negative means
+    -- stock goes back on the shelf
+    FOR stock IN
+      SELECT inv.id, inv.name, inv.quantity, changes.delta
+      FROM (
+        SELECT line.inventory_item_id, SUM(line.quantity) AS delta
+        FROM (
+          SELECT NULLIF(item->>'inventory_item_id', '')::uuid AS inventory_item_id,
+                 (item->>'quantity')::numeric AS quantity
+          FROM jsonb_array_elements(p_items) AS item
+          UNION ALL
+          SELECT ii.inventory_item_id, -ii.quantity
+          FROM public.invoice_items ii
+          WHERE ii.invoice_id = p_invoice_id
+        ) line
+        WHERE line.inventory_item_id IS NOT NULL
+        GROUP BY line.inventory_item_id
+        HAVING SUM(line.quantity) <> 0
+      ) changes
+      JOIN public.inventory inv ON inv.id = changes.inventory_item_id
+      ORDER BY inv.id
+      FOR UPDATE OF inv
+    LOOP
+      IF stock.delta > stock.quantity THEN
+        RAISE EXCEPTION 'Insufficient inventory: Only % more units of % available, but % more requested',
+          stock.quantity, stock.name, stock.delta;
+      END IF;
+
+      UPDATE public.inventory
+      SET quantity = quantity - stock.delta
+      WHERE id = stock.id;
+    END LOOP;
+  END IF;
+
+  DELETE FROM public.invoice_items
+  WHERE invoice_id = p_invoice_id;
+
+  INSERT INTO public.invoice_items (
+    invoice_id, inventory_item_id, description, quantity, unit_price, line_total,
+    tax_rate, tax_amount, discount_type, discount_value, discount_amount
+  )
+  SELECT
+    p_invoice_id,
+    NULLIF(item->>'inventory_item_id', '')::uuid,
+    item->>'description',
+    (item->>'quantity')::numeric,
+    (item->>'unit_price')::numeric,
+    COALESCE((item->>'line_total')::numeric, (item->>'quantity')::numeric * (item->>'unit_price')::numeric),
+    COALESCE((item->>'tax_rate')::numeric, 0),
+    COALESCE((item->>'tax_amount')::numeric, 0),
+    COALESCE(item->>'discount_type', 'percentage'),
+    COALESCE((item->>'discount_value')::numeric, 0),
+    COALESCE((item->>'discount_amount')::numeric, 0)
+  FROM jsonb_array_elements(p_items) AS item;
+
+  UPDATE public.invoices
+  SET client_id = (p_invoice->>'client_id')::uuid,
+      invoice_number = p_invoice->>'invoice_number',
+      issue_date = (p_invoice->>'issue_date')::date,
+      due_date = (p_invoice->>'due_date')::date,
+      notes = p_invoice->>'notes',
+      status = COALESCE(p_invoice->>'status', status),
+      subtotal = COALESCE((p_invoice->>'subtotal')::numeric, 0),
+      discount_type = COALESCE(p_invoice->>'discount_type', 'percentage'),
+      discount_value = COALESCE((p_invoice->>'discount_value')::numeric, 0),
+      discount_amount = COALESCE((p_invoice->>'discount_amount')::numeric, 0),
+      tax_amount = COALESCE((p_invoice->>'tax_amount')::numeric, 0),
+      wht_rate = COALESCE((p_invoice->>'wht_rate')::numeric, 0),
+      wht_amount = COALESCE((p_invoice->>'wht_amount')::numeric, 0),
+      total_amount = COALESCE((p_invoice->>'total_amount')::numeric, 0),
+      updated_at = now()
+  WHERE id = p_invoice_id;
+END;
+$$;
@@ -0,0 +1,239 @@
+-- Quotations: priced the same way as invoices but never touch stock until
+-- they are converted into an invoice
+
+CREATE TABLE public.quotes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users NOT NULL,
+  client_id UUID NOT NULL REFERENCES public.clients(id),
+  quote_number TEXT NOT NULL,
+  issue_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  expiry_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'accepted', 'rejected', 'converted')),
+  notes TEXT,
+  subtotal NUMERIC NOT NULL DEFAULT 0,
+  discount_type TEXT NOT NULL DEFAULT 'percentage' CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value NUMERIC NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+  discount_amount NUMERIC NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+  tax_amount NUMERIC NOT NULL DEFAULT 0,
+  wht_rate NUMERIC NOT NULL DEFAULT 0 CHECK (wht_rate >= 0 AND wht_rate <= 100),
+  wht_amount NUMERIC NOT NULL DEFAULT 0,
+  total_amount NUMERIC NOT NULL DEFAULT 0,
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.quote_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  quote_id UUID NOT NULL REFERENCES public.quotes(id) ON DELETE CASCADE,
+  inventory_item_id UUID REFERENCES public.inventory(id),
+  description TEXT NOT NULL,
+  quantity NUMERIC NOT NULL DEFAULT 1,
+  unit_price NUMERIC NOT NULL DEFAULT 0,
+  line_total NUMERIC NOT NULL DEFAULT 0,
+  tax_rate NUMERIC NOT NULL DEFAULT 0 CHECK (tax_rate >= 0 AND tax_rate <= 100),
+  tax_amount NUMERIC NOT NULL DEFAULT 0,
+  discount_type TEXT NOT NULL DEFAULT 'percentage' CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value NUMERIC NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+  discount_amount NUMERIC NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_quotes_client_id ON public.quotes(client_id);
+CREATE INDEX idx_quote_items_quote_id ON public.quote_items(quote_id);
+
+-- Enable RLS
+ALTER TABLE public.quotes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quote_items ENABLE ROW LEVEL SECURITY;
+
+-- Quotes are shared across all authenticated users, like invoices
+CREATE POLICY "Authenticated users can view all quotes"
+ON public.quotes
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can create quotes"
+ON public.quotes
+FOR INSERT
+WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can update all quotes"
+ON public.quotes
+FOR UPDATE
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can delete all quotes"
+ON public.quotes
+FOR DELETE
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can view all quote items"
+ON public.quote_items
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can create quote items"
+ON public.quote_items
+FOR INSERT
+WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can update all quote items"
+ON public.quote_items
+FOR UPDATE
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can delete all quote items"
+ON public.quote_items
+FOR DELETE
+USING (auth.role() = 'authenticated');
+
+-- Create or update a quote together with its line items. Pass a null id to
+-- create a new quote; the quote id is returned either way.
+CREATE OR REPLACE FUNCTION public.save_quote_with_items(p_quote_id uuid, p_quote jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  saved_quote_id uuid := p_quote_id;
+  current_status text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A quote needs at least one line item';
+  END IF;
+
+  IF saved_quote_id IS NULL THEN
+    INSERT INTO public.quotes (user_id, client_id, quote_number, expiry_date)
+    VALUES (
+      auth.uid(),
+      (p_quote->>'client_id')::uuid,
+      p_quote->>'quote_number',
+      (p_quote->>'expiry_date')::date
+    )
+    RETURNING id INTO saved_quote_id;
+  ELSE
+    SELECT status INTO current_status
+    FROM public.quotes
+    WHERE id = saved_quote_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Quote not found';
+    END IF;
+
+    IF current_status = 'converted' THEN
+      RAISE EXCEPTION 'Quotes that have been converted to an invoice cannot be edited';
+    END IF;
+
+    DELETE FROM public.quote_items
+    WHERE quote_id = saved_quote_id;
+  END IF;
+
+  UPDATE public.quotes
+  SET client_id = (p_quote->>'client_id')::uuid,
+      quote_number = p_quote->>'quote_number',
+      issue_date = COALESCE((p_quote->>'issue_date')::date, CURRENT_DATE),
+      expiry_date = (p_quote->>'expiry_date')::date,
+      status = COALESCE(p_quote->>'status', status),
+      notes = p_quote->>'notes',
+      subtotal = COALESCE((p_quote->>'subtotal')::numeric, 0),
+      discount_type = COALESCE(p_quote->>'discount_type', 'percentage'),
+      discount_value = COALESCE((p_quote->>'discount_value')::numeric, 0),
+      discount_amount = COALESCE((p_quote->>'discount_amount')::numeric, 0),
+      tax_amount = COALESCE((p_quote->>'tax_amount')::numeric, 0),
+      wht_rate = COALESCE((p_quote->>'wht_rate')::numeric, 0),
+      wht_amount = COALESCE((p_quote->>'wht_amount')::numeric, 0),
+      total_amount = COALESCE((p_quote->>'total_amount')::numeric, 0),
+      updated_at = now()
+  WHERE id = saved_quote_id;
+
+  INSERT INTO public.quote_items (
+    quote_id, inventory_item_id, description, quantity, unit_price, line_total,
+    tax_rate, tax_amount, discount_type, discount_value, discount_amount
+  )
+  SELECT
+    saved_quote_id,
+    NULLIF(item->>'inventory_item_id', '')::uuid,
+    item->>'description',
+    (item->>'quantity')::numeric,
+    (item->>'unit_price')::numeric,
+    COALESCE((item->>'line_total')::numeric, (item->>'quantity')::numeric * (item->>'unit_price')::numeric),
+    COALESCE((item->>'tax_rate')::numeric, 0),
+    COALESCE((item->>'tax_amount')::numeric, 0),
+    COALESCE(item->>'discount_type', 'percentage'),
+    COALESCE((item->>'discount_value')::numeric, 0),
+    COALESCE((item->>'discount_amount')::numeric, 0)
+  FROM jsonb_array_elements(p_items) AS item;
+
+  RETURN saved_quote_id;
+END;
+$$;
+
+-- Turn a quote into an invoice. Stock is only checked and deducted here, by
+-- the same RPC the invoice form uses, so an unavailable item stops the
+-- conversion and leaves the quote untouched.
+CREATE OR REPLACE FUNCTION public.convert_quote_to_invoice(p_quote_id uuid, p_invoice_number text, p_due_date date)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  quote record;
+  quote_lines jsonb;
+  new_invoice_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT * INTO quote
+  FROM public.quotes
+  WHERE id = p_quote_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  IF quote.status = 'converted' THEN
+    RAISE EXCEPTION 'Quote % has already been converted to an invoice', quote.quote_number;
+  END IF;
+
+  IF quote.status = 'rejected' THEN
+    RAISE EXCEPTION 'Rejected quotes cannot be converted to an invoice';
+  END IF;
+
+  IF quote.expiry_date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'Quote % expired on %; extend the expiry date before converting it', quote.quote_number, quote.expiry_date;
+  END IF;
+
+  SELECT jsonb_agg(to_jsonb(qi) ORDER BY qi.created_at)
+  INTO quote_lines
+  FROM public.quote_items qi
+  WHERE qi.quote_id = p_quote_id;
+
+  new_invoice_id := public.create_invoice_with_items(
+    to_jsonb(quote) || jsonb_build_object(
+      'invoice_number', p_invoice_number,
+      'issue_date', CURRENT_DATE,
+      'due_date', p_due_date,
+      'status', 'pending'
+    ),
+    quote_lines
+  );
+
+  UPDATE public.quotes
+  SET status = 'converted',
+      invoice_id = new_invoice_id,
+      updated_at = now()
+  WHERE id = p_quote_id;
+
+  RETURN new_invoice_id;
+END;
+$$;
@@ -0,0 +1,110 @@
+-- Gap-free invoice numbering. The counter lives on the company record and is
+-- advanced inside the inserting transaction, so a failed insert rolls the
+-- number back instead of burning it.
+
+ALTER TABLE public.company_info
+ADD COLUMN invoice_prefix TEXT NOT NULL DEFAULT 'INV-',
+ADD COLUMN invoice_number_padding INTEGER NOT NULL DEFAULT 4 CHECK (invoice_number_padding BETWEEN 1 AND 10),
+ADD COLUMN invoice_number_reset_yearly BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN next_invoice_number INTEGER NOT NULL DEFAULT 1 CHECK (next_invoice_number > 0),
+ADD COLUMN invoice_number_year INTEGER NOT NULL DEFAULT EXTRACT(YEAR FROM CURRENT_DATE)::integer;
+
+-- Existing numbers were generated from the clock and can clash; keep the
+-- oldest invoice on each number and suffix the rest so they can be told apart
+WITH duplicates AS (
+  SELECT id, invoice_number,
+         ROW_NUMBER() OVER (PARTITION BY invoice_number ORDER BY created_at, id) AS position
+  FROM public.invoices
+)
+UPDATE public.invoices i
+SET invoice_number = d.invoice_number || '-' || d.position
+FROM duplicates d
+WHERE i.id = d.id
+AND d.position > 1;
+
+ALTER TABLE public.invoices
+ADD CONSTRAINT invoices_invoice_number_key UNIQUE (invoice_number);
+
+-- Format a sequence number the way it appears on the invoice, e.g. INV-0042
+-- or INV-2026-0042 when the sequence restarts every year
+CREATE OR REPLACE FUNCTION public.format_invoice_number(p_prefix text, p_year integer, p_number integer, p_padding integer, p_reset_yearly boolean)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_prefix
+    || CASE WHEN p_reset_yearly THEN p_year::text || '-' ELSE '' END
+    || lpad(p_number::text, GREATEST(p_padding, length(p_number::text)), '0');
+$$;
+
+-- Hand out the next invoice number. Numbers already taken by hand-typed or
+-- older invoices are skipped.
+CREATE OR REPLACE FUNCTION public.take_next_invoice_number()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings public.company_info%ROWTYPE;
+  current_year integer := EXTRACT(YEAR FROM CURRENT_DATE)::integer;
+  sequence_number integer;
+  candidate text;
+BEGIN
+  SELECT * INTO settings
+  FROM public.company_info
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Save your company information in Settings before creating invoices';
+  END IF;
+
+  sequence_number := settings.next_invoice_number;
+  IF settings.invoice_number_reset_yearly AND settings.invoice_number_year <> current_year THEN
+    sequence_number := 1;
+  END IF;
+
+  LOOP
+    candidate := public.format_invoice_number(
+      settings.invoice_prefix,
+      current_year,
+      sequence_number,
+      settings.invoice_number_padding,
+      settings.invoice_number_reset_yearly
+    );
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.invoices WHERE invoice_number = candidate);
+    sequence_number := sequence_number + 1;
+  END LOOP;
+
+  UPDATE public.company_info
+  SET next_invoice_number = sequence_number + 1,
+      invoice_number_year = current_year
+  WHERE id = settings.id;
+
+  RETURN candidate;
+END;
+$$;
+
+-- Invoices saved without a number are numbered from the sequence
+CREATE OR REPLACE FUNCTION public.assign_invoice_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.invoice_number IS NULL OR btrim(NEW.invoice_number) = '' THEN
+    NEW.invoice_number := public.take_next_invoice_number();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_invoices_assign_number ON public.invoices;
+CREATE TRIGGER trg_invoices_assign_number
+BEFORE INSERT ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_invoice_number();
@@ -0,0 +1,6 @@
+-- Invoice defaults edited under Settings > Invoice Settings
+
+ALTER TABLE public.company_info
+ADD COLUMN default_due_days INTEGER NOT NULL DEFAULT 30 CHECK (default_due_days >= 0),
+ADD COLUMN default_terms TEXT DEFAULT 'Payment due within 30 days of invoice date.',
+ADD COLUMN reminder_days INTEGER NOT NULL DEFAULT 7 CHECK (reminder_days >= 0);
@@ -0,0 +1,28 @@
+-- Log of invoices emailed to clients, written by the send-invoice-email
+-- edge function
+
+CREATE TABLE public.invoice_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users,
+  event_type TEXT NOT NULL CHECK (event_type IN ('sent', 'reminder_sent', 'send_failed')),
+  recipient TEXT,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_invoice_events_invoice_id ON public.invoice_events(invoice_id);
+
+-- Enable RLS
+ALTER TABLE public.invoice_events ENABLE ROW LEVEL SECURITY;
+
+-- The log is append-only from the app
+CREATE POLICY "Authenticated users can view all invoice events"
+ON public.invoice_events
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can create invoice events"
+ON public.invoice_events
+FOR INSERT
+WITH CHECK (auth.role() = 'authenticated');
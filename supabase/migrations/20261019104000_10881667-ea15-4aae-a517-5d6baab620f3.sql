@@ -0,0 +1,208 @@
+-- Overdue invoices are detected by the database instead of being set by hand,
+-- and reminder emails are queued on a schedule built from Settings:
+-- reminder_days before the due date, on the due date, and
+-- overdue_reminder_days after it. pg_cron runs both jobs daily.
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+ALTER TABLE public.company_info
+ADD COLUMN auto_reminders_enabled BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN remind_on_due_date BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN overdue_reminder_days INTEGER NOT NULL DEFAULT 14 CHECK (overdue_reminder_days >= 0);
+
+-- Anything still owed after its due date is overdue. Drafts have not been
+-- issued yet so they are left alone.
+CREATE OR REPLACE FUNCTION public.derive_invoice_payment_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'void' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.amount_paid > 0 AND NEW.amount_paid >= NEW.total_amount THEN
+    NEW.status := 'paid';
+  ELSIF NEW.amount_paid > 0 THEN
+    NEW.status := 'partially_paid';
+  ELSIF NEW.status IN ('paid', 'partially_paid', 'overdue') THEN
+    NEW.status := 'pending';
+  END IF;
+
+  IF NEW.status IN ('pending', 'partially_paid') AND NEW.due_date < CURRENT_DATE THEN
+    NEW.status := 'overdue';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Moving the due date can make an invoice overdue or bring it back
+DROP TRIGGER IF EXISTS trg_invoices_payment_status ON public.invoices;
+CREATE TRIGGER trg_invoices_payment_status
+BEFORE INSERT OR UPDATE OF amount_paid, total_amount, status, due_date ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.derive_invoice_payment_status();
+
+-- Invoices only cross their due date with the passing of time, so the daily
+-- job nudges them through the trigger above
+CREATE OR REPLACE FUNCTION public.mark_overdue_invoices()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  marked integer;
+BEGIN
+  UPDATE public.invoices
+  SET status = 'overdue',
+      updated_at = now()
+  WHERE status IN ('pending', 'partially_paid')
+    AND due_date < CURRENT_DATE;
+
+  GET DIAGNOSTICS marked = ROW_COUNT;
+  RETURN marked;
+END;
+$$;
+
+-- Reminder queue. One row per invoice and schedule step so a step is never
+-- sent twice, however often the job runs.
+CREATE TABLE public.invoice_reminders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  days_offset INTEGER NOT NULL,
+  scheduled_for DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sent', 'failed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (invoice_id, days_offset)
+);
+
+CREATE INDEX idx_invoice_reminders_status ON public.invoice_reminders(status, scheduled_for);
+
+-- Enable RLS
+ALTER TABLE public.invoice_reminders ENABLE ROW LEVEL SECURITY;
+
+-- Only the scheduled jobs write to the queue
+CREATE POLICY "Authenticated users can view all invoice reminders"
+ON public.invoice_reminders
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+-- Queue today's reminders. Negative offsets are days before the due date.
+CREATE OR REPLACE FUNCTION public.queue_invoice_reminders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings public.company_info%ROWTYPE;
+  offsets integer[] := '{}';
+  queued integer;
+BEGIN
+  SELECT * INTO settings
+  FROM public.company_info
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF NOT FOUND OR NOT settings.auto_reminders_enabled THEN
+    RETURN 0;
+  END IF;
+
+  IF settings.reminder_days > 0 THEN
+    offsets := offsets || -settings.reminder_days;
+  END IF;
+  IF settings.remind_on_due_date THEN
+    offsets := offsets || 0;
+  END IF;
+  IF settings.overdue_reminder_days > 0 THEN
+    offsets := offsets || settings.overdue_reminder_days;
+  END IF;
+
+  -- Invoices settled since their reminder was queued are not chased
+  UPDATE public.invoice_reminders r
+  SET status = 'cancelled'
+  FROM public.invoices i
+  WHERE i.id = r.invoice_id
+    AND r.status = 'queued'
+    AND i.status IN ('paid', 'void');
+
+  INSERT INTO public.invoice_reminders (invoice_id, days_offset, scheduled_for)
+  SELECT i.id, o.days_offset, CURRENT_DATE
+  FROM public.invoices i
+  JOIN public.clients c ON c.id = i.client_id
+  CROSS JOIN unnest(offsets) AS o(days_offset)
+  WHERE i.status IN ('pending', 'partially_paid', 'overdue')
+    AND i.due_date + o.days_offset = CURRENT_DATE
+    AND COALESCE(c.email, '') <> ''
+  ON CONFLICT (invoice_id, days_offset) DO NOTHING;
+
+  GET DIAGNOSTICS queued = ROW_COUNT;
+  RETURN queued;
+END;
+$$;
+
+-- Ask the send-invoice-reminders edge function to work through the queue.
+-- The project URL and service role key are read from Vault:
+--   SELECT vault.create_secret('https://<ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+CREATE OR REPLACE FUNCTION public.dispatch_invoice_reminders()
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  project_url text;
+  service_key text;
+BEGIN
+  SELECT decrypted_secret INTO project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO service_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF project_url IS NULL OR service_key IS NULL THEN
+    RAISE WARNING 'Invoice reminders not sent: add project_url and service_role_key to Vault';
+    RETURN NULL;
+  END IF;
+
+  RETURN net.http_post(
+    url := project_url || '/functions/v1/send-invoice-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_key
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$$;
+
+-- These run from pg_cron, not from the app
+REVOKE EXECUTE ON FUNCTION public.mark_overdue_invoices() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.queue_invoice_reminders() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.dispatch_invoice_reminders() FROM PUBLIC, anon, authenticated;
+
+-- Times are UTC, the same clock CURRENT_DATE uses: statuses just after
+-- midnight, then emails at 9am Lagos time
+SELECT cron.unschedule(jobname)
+FROM cron.job
+WHERE jobname IN ('mark-overdue-invoices', 'send-invoice-reminders');
+
+SELECT cron.schedule(
+  'mark-overdue-invoices',
+  '5 0 * * *',
+  $$SELECT public.mark_overdue_invoices(); SELECT public.queue_invoice_reminders();$$
+);
+
+SELECT cron.schedule(
+  'send-invoice-reminders',
+  '0 8 * * *',
+  $$SELECT public.dispatch_invoice_reminders();$$
+);
+
+-- Catch up invoices that are already late
+SELECT public.mark_overdue_invoices();
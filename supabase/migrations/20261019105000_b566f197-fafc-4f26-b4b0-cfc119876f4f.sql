@@ -0,0 +1,403 @@
+-- Credit notes: goods returned against an invoice are credited line by line.
+-- A credit note reduces what the client owes on the invoice and can put the
+-- returned quantity back into inventory. Amounts are worked out here from the
+-- invoice lines so they always match what was charged, including the share of
+-- the invoice discount, VAT and withholding tax.
+
+ALTER TABLE public.invoices
+ADD COLUMN amount_credited NUMERIC NOT NULL DEFAULT 0;
+
+CREATE SEQUENCE IF NOT EXISTS public.credit_note_number_seq;
+
+CREATE TABLE public.credit_notes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id),
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  credit_note_number TEXT NOT NULL UNIQUE DEFAULT 'CN-' || lpad(nextval('public.credit_note_number_seq')::text, 4, '0'),
+  issue_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  reason TEXT,
+  restock BOOLEAN NOT NULL DEFAULT true,
+  subtotal NUMERIC NOT NULL DEFAULT 0,
+  tax_amount NUMERIC NOT NULL DEFAULT 0,
+  wht_amount NUMERIC NOT NULL DEFAULT 0,
+  total_amount NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- line_total is net of the invoice discount, like the VAT on the invoice
+CREATE TABLE public.credit_note_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  credit_note_id UUID NOT NULL REFERENCES public.credit_notes(id) ON DELETE CASCADE,
+  invoice_item_id UUID NOT NULL REFERENCES public.invoice_items(id) ON DELETE CASCADE,
+  inventory_item_id UUID REFERENCES public.inventory(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  quantity NUMERIC NOT NULL CHECK (quantity > 0),
+  unit_price NUMERIC NOT NULL DEFAULT 0,
+  line_total NUMERIC NOT NULL DEFAULT 0,
+  tax_amount NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_credit_notes_invoice_id ON public.credit_notes(invoice_id);
+CREATE INDEX idx_credit_note_items_credit_note_id ON public.credit_note_items(credit_note_id);
+CREATE INDEX idx_credit_note_items_invoice_item_id ON public.credit_note_items(invoice_item_id);
+
+ALTER TABLE public.credit_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.credit_note_items ENABLE ROW LEVEL SECURITY;
+
+-- Credit notes are written through the functions below so stock and the
+-- invoice balance move in the same transaction
+CREATE POLICY "Authenticated users can view all credit notes"
+ON public.credit_notes
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can view all credit note items"
+ON public.credit_note_items
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+-- Recalculate amount_credited for a given invoice from its credit notes
+CREATE OR REPLACE FUNCTION public.sync_invoice_credit_total(invoice_uuid uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  credited numeric;
+BEGIN
+  SELECT COALESCE(SUM(total_amount), 0)
+  INTO credited
+  FROM public.credit_notes
+  WHERE invoice_id = invoice_uuid;
+
+  UPDATE public.invoices
+  SET amount_credited = credited
+  WHERE id = invoice_uuid;
+END;
+$$;
+
+-- Credits settle an invoice the same way payments do
+CREATE OR REPLACE FUNCTION public.derive_invoice_payment_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  settled numeric := NEW.amount_paid + NEW.amount_credited;
+BEGIN
+  IF NEW.status = 'void' THEN
+    RETURN NEW;
+  END IF;
+
+  IF settled > 0 AND settled >= NEW.total_amount THEN
+    NEW.status := 'paid';
+  ELSIF settled > 0 THEN
+    NEW.status := 'partially_paid';
+  ELSIF NEW.status IN ('paid', 'partially_paid', 'overdue') THEN
+    NEW.status := 'pending';
+  END IF;
+
+  IF NEW.status IN ('pending', 'partially_paid') AND NEW.due_date < CURRENT_DATE THEN
+    NEW.status := 'overdue';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_invoices_payment_status ON public.invoices;
+CREATE TRIGGER trg_invoices_payment_status
+BEFORE INSERT OR UPDATE OF amount_paid, amount_credited, total_amount, status, due_date ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.derive_invoice_payment_status();
+
+-- Stock that a credit note already put back is not restored a second time
+-- when the invoice is voided or deleted
+CREATE OR REPLACE FUNCTION public.restore_invoice_stock(invoice_uuid uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  stock record;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.invoices
+    WHERE id = invoice_uuid
+    AND (is_backdated OR status = 'void')
+  ) THEN
+    RETURN;
+  END IF;
+
+  FOR stock IN
+    SELECT inv.id, SUM(sold.quantity) AS quantity
+    FROM (
+      SELECT inventory_item_id, quantity
+      FROM public.invoice_items
+      WHERE invoice_id = invoice_uuid
+      AND inventory_item_id IS NOT NULL
+      UNION ALL
+      SELECT cni.inventory_item_id, -cni.quantity
+      FROM public.credit_note_items cni
+      JOIN public.credit_notes cn ON cn.id = cni.credit_note_id
+      WHERE cn.invoice_id = invoice_uuid
+      AND cn.restock
+      AND cni.inventory_item_id IS NOT NULL
+    ) sold
+    JOIN public.inventory inv ON inv.id = sold.inventory_item_id
+    GROUP BY inv.id
+    HAVING SUM(sold.quantity) > 0
+    ORDER BY inv.id
+  LOOP
+    UPDATE public.inventory
+    SET quantity = quantity + stock.quantity
+    WHERE id = stock.id;
+  END LOOP;
+END;
+$$;
+
+-- Invoice lines are replaced wholesale when an invoice is edited, which would
+-- orphan the credit notes written against them. Deleting the whole invoice is
+-- still allowed and takes its credit notes with it.
+CREATE OR REPLACE FUNCTION public.prevent_credited_invoice_item_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.invoices WHERE id = OLD.invoice_id)
+    AND EXISTS (SELECT 1 FROM public.credit_note_items WHERE invoice_item_id = OLD.id) THEN
+    RAISE EXCEPTION 'Invoices with credit notes cannot be edited. Delete the credit notes first.';
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_invoice_items_prevent_credited_delete ON public.invoice_items;
+CREATE TRIGGER trg_invoice_items_prevent_credited_delete
+BEFORE DELETE ON public.invoice_items
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_credited_invoice_item_delete();
+
+-- Issue a credit note against an invoice. p_items holds invoice_item_id and
+-- quantity for each line being returned.
+CREATE OR REPLACE FUNCTION public.create_credit_note(p_invoice_id uuid, p_credit_note jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target record;
+  line record;
+  stock record;
+  discount_share numeric;
+  credit_subtotal numeric;
+  credit_tax numeric;
+  credit_wht numeric;
+  credit_total numeric;
+  should_restock boolean;
+  new_credit_note_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A credit note needs at least one line item';
+  END IF;
+
+  SELECT id, status, is_backdated, subtotal, discount_amount, wht_rate, total_amount, amount_credited
+  INTO target
+  FROM public.invoices
+  WHERE id = p_invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF target.status = 'void' THEN
+    RAISE EXCEPTION 'Void invoices cannot be credited';
+  END IF;
+
+  IF target.status = 'draft' THEN
+    RAISE EXCEPTION 'Draft invoices have not been issued yet. Edit the invoice instead.';
+  END IF;
+
+  discount_share := CASE WHEN target.subtotal > 0 THEN target.discount_amount / target.subtotal ELSE 0 END;
+
+  -- Every line must belong to this invoice and the quantity returned across
+  -- all of its credit notes can never exceed what was sold
+  FOR line IN
+    SELECT ii.id, ii.description, ii.quantity AS sold,
+           req.quantity AS returned,
+           COALESCE((
+             SELECT SUM(cni.quantity)
+             FROM public.credit_note_items cni
+             WHERE cni.invoice_item_id = ii.id
+           ), 0) AS already_returned
+    FROM (
+      SELECT (item->>'invoice_item_id')::uuid AS invoice_item_id,
+             SUM((item->>'quantity')::numeric) AS quantity
+      FROM jsonb_array_elements(p_items) AS item
+      GROUP BY 1
+    ) req
+    LEFT JOIN public.invoice_items ii ON ii.id = req.invoice_item_id AND ii.invoice_id = p_invoice_id
+  LOOP
+    IF line.id IS NULL THEN
+      RAISE EXCEPTION 'Credit note lines must come from the invoice being credited';
+    END IF;
+
+    IF line.returned <= 0 THEN
+      RAISE EXCEPTION 'Returned quantity for % must be greater than zero', line.description;
+    END IF;
+
+    IF line.already_returned + line.returned > line.sold THEN
+      RAISE EXCEPTION 'Only % units of % can still be credited, but % requested',
+        line.sold - line.already_returned, line.description, line.returned;
+    END IF;
+  END LOOP;
+
+  -- Backdated invoices never took stock out, so there is nothing to put back
+  should_restock := COALESCE((p_credit_note->>'restock')::boolean, true) AND NOT COALESCE(target.is_backdated, false);
+
+  INSERT INTO public.credit_notes (user_id, invoice_id, issue_date, reason, restock)
+  VALUES (
+    auth.uid(),
+    p_invoice_id,
+    COALESCE((p_credit_note->>'issue_date')::date, CURRENT_DATE),
+    NULLIF(p_credit_note->>'reason', ''),
+    should_restock
+  )
+  RETURNING id INTO new_credit_note_id;
+
+  INSERT INTO public.credit_note_items (
+    credit_note_id, invoice_item_id, inventory_item_id, description,
+    quantity, unit_price, line_total, tax_amount
+  )
+  SELECT
+    new_credit_note_id,
+    ii.id,
+    ii.inventory_item_id,
+    ii.description,
+    req.quantity,
+    ii.unit_price,
+    round(ii.line_total * req.quantity / ii.quantity * (1 - discount_share), 2),
+    round(ii.tax_amount * req.quantity / ii.quantity, 2)
+  FROM (
+    SELECT (item->>'invoice_item_id')::uuid AS invoice_item_id,
+           SUM((item->>'quantity')::numeric) AS quantity
+    FROM jsonb_array_elements(p_items) AS item
+    GROUP BY 1
+  ) req
+  JOIN public.invoice_items ii ON ii.id = req.invoice_item_id;
+
+  SELECT COALESCE(SUM(line_total), 0), COALESCE(SUM(tax_amount), 0)
+  INTO credit_subtotal, credit_tax
+  FROM public.credit_note_items
+  WHERE credit_note_id = new_credit_note_id;
+
+  credit_wht := round(credit_subtotal * COALESCE(target.wht_rate, 0) / 100, 2);
+  -- Rounding per line can leave the last credit a kobo over what is left
+  credit_total := LEAST(credit_subtotal + credit_tax - credit_wht, target.total_amount - target.amount_credited);
+
+  UPDATE public.credit_notes
+  SET subtotal = credit_subtotal,
+      tax_amount = credit_tax,
+      wht_amount = credit_wht,
+      total_amount = credit_total
+  WHERE id = new_credit_note_id;
+
+  IF should_restock THEN
+    FOR stock IN
+      SELECT inv.id, returned.quantity
+      FROM (
+        SELECT inventory_item_id, SUM(quantity) AS quantity
+        FROM public.credit_note_items
+        WHERE credit_note_id = new_credit_note_id
+        AND inventory_item_id IS NOT NULL
+        GROUP BY inventory_item_id
+      ) returned
+      JOIN public.inventory inv ON inv.id = returned.inventory_item_id
+      ORDER BY inv.id
+      FOR UPDATE OF inv
+    LOOP
+      UPDATE public.inventory
+      SET quantity = quantity + stock.quantity
+      WHERE id = stock.id;
+    END LOOP;
+  END IF;
+
+  PERFORM public.sync_invoice_credit_total(p_invoice_id);
+
+  RETURN new_credit_note_id;
+END;
+$$;
+
+-- Delete a credit note and take any restocked goods back out of inventory
+CREATE OR REPLACE FUNCTION public.delete_credit_note(p_credit_note_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  note record;
+  stock record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT cn.id, cn.invoice_id, cn.restock, i.status
+  INTO note
+  FROM public.credit_notes cn
+  JOIN public.invoices i ON i.id = cn.invoice_id
+  WHERE cn.id = p_credit_note_id
+  FOR UPDATE OF cn, i;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Credit note not found';
+  END IF;
+
+  -- Voiding already settled the stock for the whole invoice
+  IF note.status = 'void' THEN
+    RAISE EXCEPTION 'Credit notes on void invoices cannot be deleted';
+  END IF;
+
+  IF note.restock THEN
+    FOR stock IN
+      SELECT inv.id, inv.name, inv.quantity, returned.quantity AS returned
+      FROM (
+        SELECT inventory_item_id, SUM(quantity) AS quantity
+        FROM public.credit_note_items
+        WHERE credit_note_id = p_credit_note_id
+        AND inventory_item_id IS NOT NULL
+        GROUP BY inventory_item_id
+      ) returned
+      JOIN public.inventory inv ON inv.id = returned.inventory_item_id
+      ORDER BY inv.id
+      FOR UPDATE OF inv
+    LOOP
+      IF stock.quantity < stock.returned THEN
+        RAISE EXCEPTION 'Insufficient inventory: Only % units of % available, but % were restocked by this credit note',
+          stock.quantity, stock.name, stock.returned;
+      END IF;
+
+      UPDATE public.inventory
+      SET quantity = quantity - stock.returned
+      WHERE id = stock.id;
+    END LOOP;
+  END IF;
+
+  DELETE FROM public.credit_notes
+  WHERE id = p_credit_note_id;
+
+  PERFORM public.sync_invoice_credit_total(note.invoice_id);
+END;
+$$;
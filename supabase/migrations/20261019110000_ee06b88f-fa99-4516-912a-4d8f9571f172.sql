@@ -0,0 +1,373 @@
+-- Recurring invoices for contract customers. A template holds the client, the
+-- priced line items and the schedule; a daily job turns each period that has
+-- come due into a real invoice through create_invoice_with_items, so stock is
+-- checked and deducted exactly as it is for invoices raised by hand.
+
+CREATE TABLE public.recurring_invoices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users NOT NULL,
+  client_id UUID NOT NULL REFERENCES public.clients(id),
+  name TEXT NOT NULL,
+  frequency TEXT NOT NULL DEFAULT 'monthly' CHECK (frequency IN ('weekly', 'monthly', 'quarterly', 'yearly')),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  next_run_date DATE NOT NULL,
+  payment_terms_days INTEGER NOT NULL DEFAULT 30 CHECK (payment_terms_days >= 0),
+  auto_send BOOLEAN NOT NULL DEFAULT false,
+  active BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+  subtotal NUMERIC NOT NULL DEFAULT 0,
+  discount_type TEXT NOT NULL DEFAULT 'percentage' CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value NUMERIC NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+  discount_amount NUMERIC NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+  tax_amount NUMERIC NOT NULL DEFAULT 0,
+  wht_rate NUMERIC NOT NULL DEFAULT 0 CHECK (wht_rate >= 0 AND wht_rate <= 100),
+  wht_amount NUMERIC NOT NULL DEFAULT 0,
+  total_amount NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE TABLE public.recurring_invoice_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  recurring_invoice_id UUID NOT NULL REFERENCES public.recurring_invoices(id) ON DELETE CASCADE,
+  inventory_item_id UUID REFERENCES public.inventory(id),
+  description TEXT NOT NULL,
+  quantity NUMERIC NOT NULL DEFAULT 1,
+  unit_price NUMERIC NOT NULL DEFAULT 0,
+  line_total NUMERIC NOT NULL DEFAULT 0,
+  tax_rate NUMERIC NOT NULL DEFAULT 0 CHECK (tax_rate >= 0 AND tax_rate <= 100),
+  tax_amount NUMERIC NOT NULL DEFAULT 0,
+  discount_type TEXT NOT NULL DEFAULT 'percentage' CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value NUMERIC NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+  discount_amount NUMERIC NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One row per template and period so a period is never invoiced twice.
+-- A failed run keeps its error and no invoice.
+CREATE TABLE public.recurring_invoice_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  recurring_invoice_id UUID NOT NULL REFERENCES public.recurring_invoices(id) ON DELETE CASCADE,
+  period_number INTEGER NOT NULL,
+  run_date DATE NOT NULL,
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL,
+  status TEXT NOT NULL CHECK (status IN ('generated', 'sent', 'send_failed', 'failed')),
+  error TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (recurring_invoice_id, period_number)
+);
+
+CREATE INDEX idx_recurring_invoices_next_run ON public.recurring_invoices(active, next_run_date);
+CREATE INDEX idx_recurring_invoice_items_recurring_invoice_id ON public.recurring_invoice_items(recurring_invoice_id);
+CREATE INDEX idx_recurring_invoice_runs_recurring_invoice_id ON public.recurring_invoice_runs(recurring_invoice_id);
+
+-- Enable RLS
+ALTER TABLE public.recurring_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_invoice_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_invoice_runs ENABLE ROW LEVEL SECURITY;
+
+-- Templates are shared across all authenticated users, like invoices
+CREATE POLICY "Authenticated users can view all recurring invoices"
+ON public.recurring_invoices
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can create recurring invoices"
+ON public.recurring_invoices
+FOR INSERT
+WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can update all recurring invoices"
+ON public.recurring_invoices
+FOR UPDATE
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can delete all recurring invoices"
+ON public.recurring_invoices
+FOR DELETE
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can view all recurring invoice items"
+ON public.recurring_invoice_items
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can create recurring invoice items"
+ON public.recurring_invoice_items
+FOR INSERT
+WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can update all recurring invoice items"
+ON public.recurring_invoice_items
+FOR UPDATE
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can delete all recurring invoice items"
+ON public.recurring_invoice_items
+FOR DELETE
+USING (auth.role() = 'authenticated');
+
+-- Only the scheduled job writes runs
+CREATE POLICY "Authenticated users can view all recurring invoice runs"
+ON public.recurring_invoice_runs
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+-- Date of a period counted from the start date. Always stepping from the
+-- start keeps a contract that starts on the 31st on month ends instead of
+-- drifting to the 28th after February.
+CREATE OR REPLACE FUNCTION public.recurring_period_date(p_start_date date, p_frequency text, p_period integer)
+RETURNS date
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT (p_start_date + CASE p_frequency
+    WHEN 'weekly' THEN make_interval(weeks => p_period)
+    WHEN 'monthly' THEN make_interval(months => p_period)
+    WHEN 'quarterly' THEN make_interval(months => 3 * p_period)
+    WHEN 'yearly' THEN make_interval(years => p_period)
+  END)::date;
+$$;
+
+-- Create or update a template together with its line items. Pass a null id
+-- to create a new one; the template id is returned either way.
+CREATE OR REPLACE FUNCTION public.save_recurring_invoice_with_items(p_recurring_invoice_id uuid, p_recurring_invoice jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  saved_id uuid := p_recurring_invoice_id;
+  periods_run integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A recurring invoice needs at least one line item';
+  END IF;
+
+  IF saved_id IS NULL THEN
+    INSERT INTO public.recurring_invoices (user_id, client_id, name, start_date, next_run_date)
+    VALUES (
+      auth.uid(),
+      (p_recurring_invoice->>'client_id')::uuid,
+      p_recurring_invoice->>'name',
+      (p_recurring_invoice->>'start_date')::date,
+      (p_recurring_invoice->>'start_date')::date
+    )
+    RETURNING id INTO saved_id;
+  ELSE
+    PERFORM 1
+    FROM public.recurring_invoices
+    WHERE id = saved_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Recurring invoice not found';
+    END IF;
+
+    DELETE FROM public.recurring_invoice_items
+    WHERE recurring_invoice_id = saved_id;
+  END IF;
+
+  SELECT COALESCE(MAX(period_number) + 1, 0) INTO periods_run
+  FROM public.recurring_invoice_runs
+  WHERE recurring_invoice_id = saved_id;
+
+  -- A changed start date or frequency moves the next run, but periods that
+  -- have already been invoiced are never repeated
+  UPDATE public.recurring_invoices
+  SET client_id = (p_recurring_invoice->>'client_id')::uuid,
+      name = p_recurring_invoice->>'name',
+      frequency = COALESCE(p_recurring_invoice->>'frequency', 'monthly'),
+      start_date = (p_recurring_invoice->>'start_date')::date,
+      end_date = NULLIF(p_recurring_invoice->>'end_date', '')::date,
+      next_run_date = public.recurring_period_date(
+        (p_recurring_invoice->>'start_date')::date,
+        COALESCE(p_recurring_invoice->>'frequency', 'monthly'),
+        periods_run
+      ),
+      payment_terms_days = COALESCE((p_recurring_invoice->>'payment_terms_days')::integer, 30),
+      auto_send = COALESCE((p_recurring_invoice->>'auto_send')::boolean, false),
+      active = COALESCE((p_recurring_invoice->>'active')::boolean, active),
+      notes = p_recurring_invoice->>'notes',
+      subtotal = COALESCE((p_recurring_invoice->>'subtotal')::numeric, 0),
+      discount_type = COALESCE(p_recurring_invoice->>'discount_type', 'percentage'),
+      discount_value = COALESCE((p_recurring_invoice->>'discount_value')::numeric, 0),
+      discount_amount = COALESCE((p_recurring_invoice->>'discount_amount')::numeric, 0),
+      tax_amount = COALESCE((p_recurring_invoice->>'tax_amount')::numeric, 0),
+      wht_rate = COALESCE((p_recurring_invoice->>'wht_rate')::numeric, 0),
+      wht_amount = COALESCE((p_recurring_invoice->>'wht_amount')::numeric, 0),
+      total_amount = COALESCE((p_recurring_invoice->>'total_amount')::numeric, 0),
+      updated_at = now()
+  WHERE id = saved_id;
+
+  INSERT INTO public.recurring_invoice_items (
+    recurring_invoice_id, inventory_item_id, description, quantity, unit_price, line_total,
+    tax_rate, tax_amount, discount_type, discount_value, discount_amount
+  )
+  SELECT
+    saved_id,
+    NULLIF(item->>'inventory_item_id', '')::uuid,
+    item->>'description',
+    (item->>'quantity')::numeric,
+    (item->>'unit_price')::numeric,
+    COALESCE((item->>'line_total')::numeric, (item->>'quantity')::numeric * (item->>'unit_price')::numeric),
+    COALESCE((item->>'tax_rate')::numeric, 0),
+    COALESCE((item->>'tax_amount')::numeric, 0),
+    COALESCE(item->>'discount_type', 'percentage'),
+    COALESCE((item->>'discount_value')::numeric, 0),
+    COALESCE((item->>'discount_amount')::numeric, 0)
+  FROM jsonb_array_elements(p_items) AS item;
+
+  RETURN saved_id;
+END;
+$$;
+
+-- Invoice every period that has come due. Missed days are caught up one
+-- period at a time. Each period runs in its own subtransaction, so a line that
+-- is out of stock fails that run alone and is recorded with its error.
+CREATE OR REPLACE FUNCTION public.generate_recurring_invoices()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  template record;
+  template_lines jsonb;
+  period integer;
+  new_invoice_id uuid;
+  generated integer := 0;
+BEGIN
+  FOR template IN
+    SELECT *
+    FROM public.recurring_invoices
+    WHERE active
+      AND next_run_date <= CURRENT_DATE
+      AND (end_date IS NULL OR next_run_date <= end_date)
+    ORDER BY next_run_date
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    SELECT jsonb_agg(to_jsonb(ri) ORDER BY ri.created_at)
+    INTO template_lines
+    FROM public.recurring_invoice_items ri
+    WHERE ri.recurring_invoice_id = template.id;
+
+    SELECT COALESCE(MAX(period_number) + 1, 0) INTO period
+    FROM public.recurring_invoice_runs
+    WHERE recurring_invoice_id = template.id;
+
+    WHILE template.next_run_date <= CURRENT_DATE
+      AND (template.end_date IS NULL OR template.next_run_date <= template.end_date)
+    LOOP
+      BEGIN
+        -- create_invoice_with_items records auth.uid() as the invoice owner;
+        -- there is no session under pg_cron, so act as the template's owner
+        PERFORM set_config(
+          'request.jwt.claims',
+          jsonb_build_object('sub', template.user_id, 'role', 'authenticated')::text,
+          true
+        );
+
+        -- Left unsent templates produce drafts to check and send by hand.
+        -- A null number is filled in from the invoice sequence.
+        new_invoice_id := public.create_invoice_with_items(
+          to_jsonb(template) || jsonb_build_object(
+            'invoice_number', NULL,
+            'issue_date', template.next_run_date,
+            'due_date', template.next_run_date + template.payment_terms_days,
+            'status', CASE WHEN template.auto_send THEN 'pending' ELSE 'draft' END
+          ),
+          template_lines
+        );
+
+        INSERT INTO public.recurring_invoice_runs (recurring_invoice_id, period_number, run_date, invoice_id, status)
+        VALUES (template.id, period, template.next_run_date, new_invoice_id, 'generated');
+
+        generated := generated + 1;
+      EXCEPTION WHEN OTHERS THEN
+        INSERT INTO public.recurring_invoice_runs (recurring_invoice_id, period_number, run_date, status, error)
+        VALUES (template.id, period, template.next_run_date, 'failed', SQLERRM);
+      END;
+
+      period := period + 1;
+      template.next_run_date := public.recurring_period_date(template.start_date, template.frequency, period);
+    END LOOP;
+
+    UPDATE public.recurring_invoices
+    SET next_run_date = template.next_run_date,
+        updated_at = now()
+    WHERE id = template.id;
+  END LOOP;
+
+  PERFORM set_config('request.jwt.claims', '', true);
+
+  RETURN generated;
+END;
+$$;
+
+-- Ask the send-recurring-invoices edge function to email the invoices just
+-- generated for auto-send templates. Uses the same Vault secrets as
+-- dispatch_invoice_reminders().
+CREATE OR REPLACE FUNCTION public.dispatch_recurring_invoices()
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  project_url text;
+  service_key text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.recurring_invoice_runs run
+    JOIN public.recurring_invoices ri ON ri.id = run.recurring_invoice_id
+    WHERE run.status = 'generated'
+      AND ri.auto_send
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT decrypted_secret INTO project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO service_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF project_url IS NULL OR service_key IS NULL THEN
+    RAISE WARNING 'Recurring invoices not sent: add project_url and service_role_key to Vault';
+    RETURN NULL;
+  END IF;
+
+  RETURN net.http_post(
+    url := project_url || '/functions/v1/send-recurring-invoices',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_key
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$$;
+
+-- These run from pg_cron, not from the app
+REVOKE EXECUTE ON FUNCTION public.generate_recurring_invoices() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.dispatch_recurring_invoices() FROM PUBLIC, anon, authenticated;
+
+-- After the overdue job so new invoices are not caught up in it, and in UTC
+-- like the other jobs
+SELECT cron.unschedule(jobname)
+FROM cron.job
+WHERE jobname = 'generate-recurring-invoices';
+
+SELECT cron.schedule(
+  'generate-recurring-invoices',
+  '15 0 * * *',
+  $$SELECT public.generate_recurring_invoices(); SELECT public.dispatch_recurring_invoices();$$
+);
@@ -0,0 +1,688 @@
+-- Stock movement ledger: every change to an inventory item's quantity or
+-- location is recorded by a trigger on inventory, so the on-hand figure can
+-- always be traced back to the sales, returns, adjustments, transfers and
+-- receipts that produced it.
+--
+-- Functions that move stock say why by calling set_stock_movement_context()
+-- before they update inventory. Any other quantity change is treated as a
+-- manual adjustment and must carry a reason.
+
+CREATE TABLE public.inventory_movements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  inventory_item_id UUID NOT NULL REFERENCES public.inventory(id) ON DELETE CASCADE,
+  movement_type TEXT NOT NULL CHECK (movement_type IN ('sale', 'return', 'adjustment', 'transfer', 'receipt')),
+  quantity_change NUMERIC NOT NULL,
+  balance_after NUMERIC NOT NULL,
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL,
+  credit_note_id UUID REFERENCES public.credit_notes(id) ON DELETE SET NULL,
+  from_warehouse_location_id UUID REFERENCES public.warehouse_locations(id) ON DELETE SET NULL,
+  to_warehouse_location_id UUID REFERENCES public.warehouse_locations(id) ON DELETE SET NULL,
+  reason TEXT,
+  created_by UUID REFERENCES auth.users,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_inventory_movements_item ON public.inventory_movements(inventory_item_id, created_at);
+CREATE INDEX idx_inventory_movements_invoice_id ON public.inventory_movements(invoice_id);
+
+ALTER TABLE public.inventory_movements ENABLE ROW LEVEL SECURITY;
+
+-- The ledger is written only by the inventory trigger
+CREATE POLICY "Authenticated users can view all inventory movements"
+ON public.inventory_movements
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+-- Existing stock starts the ledger as a single opening balance per item
+INSERT INTO public.inventory_movements (
+  inventory_item_id, movement_type, quantity_change, balance_after,
+  to_warehouse_location_id, reason, created_by, created_at
+)
+SELECT id, 'adjustment', quantity, quantity, warehouse_location_id, 'Opening balance', user_id, now()
+FROM public.inventory;
+
+-- Tell the ledger trigger what the following inventory updates are for. The
+-- settings are local to the current transaction.
+CREATE OR REPLACE FUNCTION public.set_stock_movement_context(
+  p_movement_type text,
+  p_invoice_id uuid DEFAULT NULL,
+  p_credit_note_id uuid DEFAULT NULL,
+  p_reason text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('stock.movement_type', COALESCE(p_movement_type, ''), true);
+  PERFORM set_config('stock.invoice_id', COALESCE(p_invoice_id::text, ''), true);
+  PERFORM set_config('stock.credit_note_id', COALESCE(p_credit_note_id::text, ''), true);
+  PERFORM set_config('stock.reason', COALESCE(p_reason, ''), true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_stock_movement_context(text, uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.record_inventory_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  context_type text := NULLIF(current_setting('stock.movement_type', true), '');
+  context_invoice_id uuid := NULLIF(current_setting('stock.invoice_id', true), '')::uuid;
+  context_credit_note_id uuid := NULLIF(current_setting('stock.credit_note_id', true), '')::uuid;
+  context_reason text := NULLIF(current_setting('stock.reason', true), '');
+  old_quantity numeric := 0;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    old_quantity := OLD.quantity;
+
+    IF NEW.warehouse_location_id IS DISTINCT FROM OLD.warehouse_location_id THEN
+      INSERT INTO public.inventory_movements (
+        inventory_item_id, movement_type, quantity_change, balance_after,
+        from_warehouse_location_id, to_warehouse_location_id, created_by
+      )
+      VALUES (NEW.id, 'transfer', 0, OLD.quantity, OLD.warehouse_location_id, NEW.warehouse_location_id, auth.uid());
+    END IF;
+  ELSE
+    -- New items start with their opening stock unless a receipt says otherwise
+    context_type := COALESCE(context_type, 'adjustment');
+    context_reason := COALESCE(context_reason, 'Opening stock');
+  END IF;
+
+  IF NEW.quantity IS DISTINCT FROM old_quantity THEN
+    IF context_type IS NULL THEN
+      context_type := 'adjustment';
+    END IF;
+
+    IF context_type = 'adjustment' AND context_reason IS NULL THEN
+      RAISE EXCEPTION 'A reason is required when adjusting stock';
+    END IF;
+
+    INSERT INTO public.inventory_movements (
+      inventory_item_id, movement_type, quantity_change, balance_after,
+      invoice_id, credit_note_id, to_warehouse_location_id, reason, created_by
+    )
+    VALUES (
+      NEW.id,
+      context_type,
+      NEW.quantity - old_quantity,
+      NEW.quantity,
+      context_invoice_id,
+      context_credit_note_id,
+      NEW.warehouse_location_id,
+      context_reason,
+      auth.uid()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_inventory_record_movement ON public.inventory;
+CREATE TRIGGER trg_inventory_record_movement
+AFTER INSERT OR UPDATE OF quantity, warehouse_location_id ON public.inventory
+FOR EACH ROW
+EXECUTE FUNCTION public.record_inventory_movement();
+
+-- Set the quantity on hand after a count, breakage or other correction
+CREATE OR REPLACE FUNCTION public.adjust_inventory_quantity(p_inventory_id uuid, p_new_quantity integer, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF NULLIF(btrim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required when adjusting stock';
+  END IF;
+
+  IF p_new_quantity < 0 THEN
+    RAISE EXCEPTION 'Quantity cannot be negative';
+  END IF;
+
+  PERFORM 1
+  FROM public.inventory
+  WHERE id = p_inventory_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory item not found';
+  END IF;
+
+  PERFORM public.set_stock_movement_context('adjustment', NULL, NULL, btrim(p_reason));
+
+  UPDATE public.inventory
+  SET quantity = p_new_quantity,
+      updated_at = now()
+  WHERE id = p_inventory_id;
+END;
+$$;
+
+-- Add delivered stock to an item
+CREATE OR REPLACE FUNCTION public.receive_inventory_stock(p_inventory_id uuid, p_quantity integer, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Received quantity must be greater than zero';
+  END IF;
+
+  PERFORM 1
+  FROM public.inventory
+  WHERE id = p_inventory_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory item not found';
+  END IF;
+
+  PERFORM public.set_stock_movement_context('receipt', NULL, NULL, NULLIF(btrim(p_reason), ''));
+
+  UPDATE public.inventory
+  SET quantity = quantity + p_quantity,
+      updated_at = now()
+  WHERE id = p_inventory_id;
+END;
+$$;
+
+-- Sales now record their stock movements against the new invoice, so the
+-- invoice is inserted before stock is taken out
+CREATE OR REPLACE FUNCTION public.create_invoice_with_items(p_invoice jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_invoice_id uuid;
+  stock record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line item';
+  END IF;
+
+  INSERT INTO public.invoices (
+    user_id, client_id, invoice_number, issue_date, due_date, notes, status,
+    subtotal, discount_type, discount_value, discount_amount,
+    tax_amount, wht_rate, wht_amount, total_amount, is_backdated
+  )
+  VALUES (
+    auth.uid(),
+    (p_invoice->>'client_id')::uuid,
+    p_invoice->>'invoice_number',
+    (p_invoice->>'issue_date')::date,
+    (p_invoice->>'due_date')::date,
+    p_invoice->>'notes',
+    COALESCE(p_invoice->>'status', 'draft'),
+    COALESCE((p_invoice->>'subtotal')::numeric, 0),
+    COALESCE(p_invoice->>'discount_type', 'percentage'),
+    COALESCE((p_invoice->>'discount_value')::numeric, 0),
+    COALESCE((p_invoice->>'discount_amount')::numeric, 0),
+    COALESCE((p_invoice->>'tax_amount')::numeric, 0),
+    COALESCE((p_invoice->>'wht_rate')::numeric, 0),
+    COALESCE((p_invoice->>'wht_amount')::numeric, 0),
+    COALESCE((p_invoice->>'total_amount')::numeric, 0),
+    false
+  )
+  RETURNING id INTO new_invoice_id;
+
+  PERFORM public.set_stock_movement_context('sale', new_invoice_id);
+
+  -- Lock every inventory row being sold in a stable order, so two clerks
+  -- selling the same item queue behind each other instead of overselling
+  FOR stock IN
+    SELECT inv.id, inv.name, inv.quantity, req.requested
+    FROM (
+      SELECT (item->>'inventory_item_id')::uuid AS inventory_item_id,
+             SUM((item->>'quantity')::numeric) AS requested
+      FROM jsonb_array_elements(p_items) AS item
+      WHERE NULLIF(item->>'inventory_item_id', '') IS NOT NULL
+      GROUP BY 1
+    ) req
+    JOIN public.inventory inv ON inv.id = req.inventory_item_id
+    ORDER BY inv.id
+    FOR UPDATE OF inv
+  LOOP
+    IF stock.quantity < stock.requested THEN
+      RAISE EXCEPTION 'Insufficient inventory: Only % units of % available, but % requested',
+        stock.quantity, stock.name, stock.requested;
+    END IF;
+
+    UPDATE public.inventory
+    SET quantity = quantity - stock.requested
+    WHERE id = stock.id;
+  END LOOP;
+
+  -- items_summary is filled in by the invoice_items summary trigger
+  INSERT INTO public.invoice_items (
+    invoice_id, inventory_item_id, description, quantity, unit_price, line_total,
+    tax_rate, tax_amount, discount_type, discount_value, discount_amount
+  )
+  SELECT
+    new_invoice_id,
+    NULLIF(item->>'inventory_item_id', '')::uuid,
+    item->>'description',
+    (item->>'quantity')::numeric,
+    (item->>'unit_price')::numeric,
+    COALESCE((item->>'line_total')::numeric, (item->>'quantity')::numeric * (item->>'unit_price')::numeric),
+    COALESCE((item->>'tax_rate')::numeric, 0),
+    COALESCE((item->>'tax_amount')::numeric, 0),
+    COALESCE(item->>'discount_type', 'percentage'),
+    COALESCE((item->>'discount_value')::numeric, 0),
+    COALESCE((item->>'discount_amount')::numeric, 0)
+  FROM jsonb_array_elements(p_items) AS item;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+-- Editing an invoice records extra units sold as sales and units taken off
+-- the invoice as returns
+CREATE OR REPLACE FUNCTION public.update_invoice_with_items(p_invoice_id uuid, p_invoice jsonb, p_items jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  backdated boolean;
+  current_status text;
+  stock record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line item';
+  END IF;
+
+  SELECT is_backdated, status INTO backdated, current_status
+  FROM public.invoices
+  WHERE id = p_invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF current_status = 'void' THEN
+    RAISE EXCEPTION 'Void invoices cannot be edited';
+  END IF;
+
+  -- Backdated invoices record historical sales and never touched stock
+  IF NOT COALESCE(backdated, false) THEN
+    -- Positive delta means more of the item is being sold, negative means
+    -- stock goes back on the shelf
+    FOR stock IN
+      SELECT inv.id, inv.name, inv.quantity, changes.delta
+      FROM (
+        SELECT line.inventory_item_id, SUM(line.quantity) AS delta
+        FROM (
+          SELECT NULLIF(item->>'inventory_item_id', '')::uuid AS inventory_item_id,
+                 (item->>'quantity')::numeric AS quantity
+          FROM jsonb_array_elements(p_items) AS item
+          UNION ALL
+          SELECT ii.inventory_item_id, -ii.quantity
+          FROM public.invoice_items ii
+          WHERE ii.invoice_id = p_invoice_id
+        ) line
+        WHERE line.inventory_item_id IS NOT NULL
+        GROUP BY line.inventory_item_id
+        HAVING SUM(line.quantity) <> 0
+      ) changes
+      JOIN public.inventory inv ON inv.id = changes.inventory_item_id
+      ORDER BY inv.id
+      FOR UPDATE OF inv
+    LOOP
+      IF stock.delta > stock.quantity THEN
+        RAISE EXCEPTION 'Insufficient inventory: Only % more units of % available, but % more requested',
+          stock.quantity, stock.name, stock.delta;
+      END IF;
+
+      IF stock.delta > 0 THEN
+        PERFORM public.set_stock_movement_context('sale', p_invoice_id);
+      ELSE
+        PERFORM public.set_stock_movement_context('return', p_invoice_id, NULL, 'Removed from invoice');
+      END IF;
+
+      UPDATE public.inventory
+      SET quantity = quantity - stock.delta
+      WHERE id = stock.id;
+    END LOOP;
+  END IF;
+
+  DELETE FROM public.invoice_items
+  WHERE invoice_id = p_invoice_id;
+
+  INSERT INTO public.invoice_items (
+    invoice_id, inventory_item_id, description, quantity, unit_price, line_total,
+    tax_rate, tax_amount, discount_type, discount_value, discount_amount
+  )
+  SELECT
+    p_invoice_id,
+    NULLIF(item->>'inventory_item_id', '')::uuid,
+    item->>'description',
+    (item->>'quantity')::numeric,
+    (item->>'unit_price')::numeric,
+    COALESCE((item->>'line_total')::numeric, (item->>'quantity')::numeric * (item->>'unit_price')::numeric),
+    COALESCE((item->>'tax_rate')::numeric, 0),
+    COALESCE((item->>'tax_amount')::numeric, 0),
+    COALESCE(item->>'discount_type', 'percentage'),
+    COALESCE((item->>'discount_value')::numeric, 0),
+    COALESCE((item->>'discount_amount')::numeric, 0)
+  FROM jsonb_array_elements(p_items) AS item;
+
+  UPDATE public.invoices
+  SET client_id = (p_invoice->>'client_id')::uuid,
+      invoice_number = p_invoice->>'invoice_number',
+      issue_date = (p_invoice->>'issue_date')::date,
+      due_date = (p_invoice->>'due_date')::date,
+      notes = p_invoice->>'notes',
+      status = COALESCE(p_invoice->>'status', status),
+      subtotal = COALESCE((p_invoice->>'subtotal')::numeric, 0),
+      discount_type = COALESCE(p_invoice->>'discount_type', 'percentage'),
+      discount_value = COALESCE((p_invoice->>'discount_value')::numeric, 0),
+      discount_amount = COALESCE((p_invoice->>'discount_amount')::numeric, 0),
+      tax_amount = COALESCE((p_invoice->>'tax_amount')::numeric, 0),
+      wht_rate = COALESCE((p_invoice->>'wht_rate')::numeric, 0),
+      wht_amount = COALESCE((p_invoice->>'wht_amount')::numeric, 0),
+      total_amount = COALESCE((p_invoice->>'total_amount')::numeric, 0),
+      updated_at = now()
+  WHERE id = p_invoice_id;
+END;
+$$;
+
+-- Voided and deleted invoices record the stock they put back as returns. The
+-- reason keeps the invoice number once a deleted invoice is gone.
+CREATE OR REPLACE FUNCTION public.restore_invoice_stock(invoice_uuid uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  stock record;
+  cancelled_number text;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.invoices
+    WHERE id = invoice_uuid
+    AND (is_backdated OR status = 'void')
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT invoice_number INTO cancelled_number
+  FROM public.invoices
+  WHERE id = invoice_uuid;
+
+  PERFORM public.set_stock_movement_context('return', invoice_uuid, NULL, 'Invoice ' || cancelled_number || ' cancelled');
+
+  FOR stock IN
+    SELECT inv.id, SUM(sold.quantity) AS quantity
+    FROM (
+      SELECT inventory_item_id, quantity
+      FROM public.invoice_items
+      WHERE invoice_id = invoice_uuid
+      AND inventory_item_id IS NOT NULL
+      UNION ALL
+      SELECT cni.inventory_item_id, -cni.quantity
+      FROM public.credit_note_items cni
+      JOIN public.credit_notes cn ON cn.id = cni.credit_note_id
+      WHERE cn.invoice_id = invoice_uuid
+      AND cn.restock
+      AND cni.inventory_item_id IS NOT NULL
+    ) sold
+    JOIN public.inventory inv ON inv.id = sold.inventory_item_id
+    GROUP BY inv.id
+    HAVING SUM(sold.quantity) > 0
+    ORDER BY inv.id
+  LOOP
+    UPDATE public.inventory
+    SET quantity = quantity + stock.quantity
+    WHERE id = stock.id;
+  END LOOP;
+END;
+$$;
+
+-- Restocked credit notes are recorded as returns against the credit note
+CREATE OR REPLACE FUNCTION public.create_credit_note(p_invoice_id uuid, p_credit_note jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target record;
+  line record;
+  stock record;
+  discount_share numeric;
+  credit_subtotal numeric;
+  credit_tax numeric;
+  credit_wht numeric;
+  credit_total numeric;
+  should_restock boolean;
+  new_credit_note_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A credit note needs at least one line item';
+  END IF;
+
+  SELECT id, status, is_backdated, subtotal, discount_amount, wht_rate, total_amount, amount_credited
+  INTO target
+  FROM public.invoices
+  WHERE id = p_invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF target.status = 'void' THEN
+    RAISE EXCEPTION 'Void invoices cannot be credited';
+  END IF;
+
+  IF target.status = 'draft' THEN
+    RAISE EXCEPTION 'Draft invoices have not been issued yet. Edit the invoice instead.';
+  END IF;
+
+  discount_share := CASE WHEN target.subtotal > 0 THEN target.discount_amount / target.subtotal ELSE 0 END;
+
+  -- Every line must belong to this invoice and the quantity returned across
+  -- all of its credit notes can never exceed what was sold
+  FOR line IN
+    SELECT ii.id, ii.description, ii.quantity AS sold,
+           req.quantity AS returned,
+           COALESCE((
+             SELECT SUM(cni.quantity)
+             FROM public.credit_note_items cni
+             WHERE cni.invoice_item_id = ii.id
+           ), 0) AS already_returned
+    FROM (
+      SELECT (item->>'invoice_item_id')::uuid AS invoice_item_id,
+             SUM((item->>'quantity')::numeric) AS quantity
+      FROM jsonb_array_elements(p_items) AS item
+      GROUP BY 1
+    ) req
+    LEFT JOIN public.invoice_items ii ON ii.id = req.invoice_item_id AND ii.invoice_id = p_invoice_id
+  LOOP
+    IF line.id IS NULL THEN
+      RAISE EXCEPTION 'Credit note lines must come from the invoice being credited';
+    END IF;
+
+    IF line.returned <= 0 THEN
+      RAISE EXCEPTION 'Returned quantity for % must be greater than zero', line.description;
+    END IF;
+
+    IF line.already_returned + line.returned > line.sold THEN
+      RAISE EXCEPTION 'Only % units of % can still be credited, but % requested',
+        line.sold - line.already_returned, line.description, line.returned;
+    END IF;
+  END LOOP;
+
+  -- Backdated invoices never took stock out, so there is nothing to put back
+  should_restock := COALESCE((p_credit_note->>'restock')::boolean, true) AND NOT COALESCE(target.is_backdated, false);
+
+  INSERT INTO public.credit_notes (user_id, invoice_id, issue_date, reason, restock)
+  VALUES (
+    auth.uid(),
+    p_invoice_id,
+    COALESCE((p_credit_note->>'issue_date')::date, CURRENT_DATE),
+    NULLIF(p_credit_note->>'reason', ''),
+    should_restock
+  )
+  RETURNING id INTO new_credit_note_id;
+
+  INSERT INTO public.credit_note_items (
+    credit_note_id, invoice_item_id, inventory_item_id, description,
+    quantity, unit_price, line_total, tax_amount
+  )
+  SELECT
+    new_credit_note_id,
+    ii.id,
+    ii.inventory_item_id,
+    ii.description,
+    req.quantity,
+    ii.unit_price,
+    round(ii.line_total * req.quantity / ii.quantity * (1 - discount_share), 2),
+    round(ii.tax_amount * req.quantity / ii.quantity, 2)
+  FROM (
+    SELECT (item->>'invoice_item_id')::uuid AS invoice_item_id,
+           SUM((item->>'quantity')::numeric) AS quantity
+    FROM jsonb_array_elements(p_items) AS item
+    GROUP BY 1
+  ) req
+  JOIN public.invoice_items ii ON ii.id = req.invoice_item_id;
+
+  SELECT COALESCE(SUM(line_total), 0), COALESCE(SUM(tax_amount), 0)
+  INTO credit_subtotal, credit_tax
+  FROM public.credit_note_items
+  WHERE credit_note_id = new_credit_note_id;
+
+  credit_wht := round(credit_subtotal * COALESCE(target.wht_rate, 0) / 100, 2);
+  -- Rounding per line can leave the last credit a kobo over what is left
+  credit_total := LEAST(credit_subtotal + credit_tax - credit_wht, target.total_amount - target.amount_credited);
+
+  UPDATE public.credit_notes
+  SET subtotal = credit_subtotal,
+      tax_amount = credit_tax,
+      wht_amount = credit_wht,
+      total_amount = credit_total
+  WHERE id = new_credit_note_id;
+
+  IF should_restock THEN
+    PERFORM public.set_stock_movement_context('return', p_invoice_id, new_credit_note_id, NULLIF(p_credit_note->>'reason', ''));
+
+    FOR stock IN
+      SELECT inv.id, returned.quantity
+      FROM (
+        SELECT inventory_item_id, SUM(quantity) AS quantity
+        FROM public.credit_note_items
+        WHERE credit_note_id = new_credit_note_id
+        AND inventory_item_id IS NOT NULL
+        GROUP BY inventory_item_id
+      ) returned
+      JOIN public.inventory inv ON inv.id = returned.inventory_item_id
+      ORDER BY inv.id
+      FOR UPDATE OF inv
+    LOOP
+      UPDATE public.inventory
+      SET quantity = quantity + stock.quantity
+      WHERE id = stock.id;
+    END LOOP;
+  END IF;
+
+  PERFORM public.sync_invoice_credit_total(p_invoice_id);
+
+  RETURN new_credit_note_id;
+END;
+$$;
+
+-- Taking restocked goods back out is recorded as a negative return
+CREATE OR REPLACE FUNCTION public.delete_credit_note(p_credit_note_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  note record;
+  stock record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT cn.id, cn.invoice_id, cn.credit_note_number, cn.restock, i.status
+  INTO note
+  FROM public.credit_notes cn
+  JOIN public.invoices i ON i.id = cn.invoice_id
+  WHERE cn.id = p_credit_note_id
+  FOR UPDATE OF cn, i;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Credit note not found';
+  END IF;
+
+  -- Voiding already settled the stock for the whole invoice
+  IF note.status = 'void' THEN
+    RAISE EXCEPTION 'Credit notes on void invoices cannot be deleted';
+  END IF;
+
+  IF note.restock THEN
+    PERFORM public.set_stock_movement_context('return', note.invoice_id, NULL, 'Credit note ' || note.credit_note_number || ' deleted');
+
+    FOR stock IN
+      SELECT inv.id, inv.name, inv.quantity, returned.quantity AS returned
+      FROM (
+        SELECT inventory_item_id, SUM(quantity) AS quantity
+        FROM public.credit_note_items
+        WHERE credit_note_id = p_credit_note_id
+        AND inventory_item_id IS NOT NULL
+        GROUP BY inventory_item_id
+      ) returned
+      JOIN public.inventory inv ON inv.id = returned.inventory_item_id
+      ORDER BY inv.id
+      FOR UPDATE OF inv
+    LOOP
+      IF stock.quantity < stock.returned THEN
+        RAISE EXCEPTION 'Insufficient inventory: Only % units of % available, but % were restocked by this credit note',
+          stock.quantity, stock.name, stock.returned;
+      END IF;
+
+      UPDATE public.inventory
+      SET quantity = quantity - stock.returned
+      WHERE id = stock.id;
+    END LOOP;
+  END IF;
+
+  DELETE FROM public.credit_notes
+  WHERE id = p_credit_note_id;
+
+  PERFORM public.sync_invoice_credit_total(note.invoice_id);
+END;
+$$;
@@ -0,0 +1,378 @@
+-- Purchasing: suppliers and purchase orders. A purchase order moves from
+-- draft to sent when it goes to the supplier, then to partially_received and
+-- received as deliveries arrive. Each delivery adds stock through the
+-- movement ledger as a receipt at the order's warehouse location.
+
+CREATE TABLE public.suppliers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users NOT NULL,
+  company_name TEXT NOT NULL,
+  contact_name TEXT,
+  email TEXT,
+  phone TEXT,
+  address TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE SEQUENCE IF NOT EXISTS public.purchase_order_number_seq;
+
+CREATE TABLE public.purchase_orders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users NOT NULL,
+  supplier_id UUID NOT NULL REFERENCES public.suppliers(id),
+  po_number TEXT NOT NULL UNIQUE DEFAULT 'PO-' || lpad(nextval('public.purchase_order_number_seq')::text, 4, '0'),
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'partially_received', 'received')),
+  order_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  expected_date DATE,
+  warehouse_location_id UUID REFERENCES public.warehouse_locations(id),
+  notes TEXT,
+  total_amount NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.purchase_order_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  purchase_order_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  inventory_item_id UUID NOT NULL REFERENCES public.inventory(id),
+  description TEXT NOT NULL,
+  quantity_ordered INTEGER NOT NULL CHECK (quantity_ordered > 0),
+  quantity_received INTEGER NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+  unit_cost NUMERIC NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  line_total NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (quantity_received <= quantity_ordered)
+);
+
+CREATE INDEX idx_purchase_orders_supplier_id ON public.purchase_orders(supplier_id);
+CREATE INDEX idx_purchase_order_items_purchase_order_id ON public.purchase_order_items(purchase_order_id);
+
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_items ENABLE ROW LEVEL SECURITY;
+
+-- Suppliers are shared across all authenticated users, like clients
+CREATE POLICY "Authenticated users can view all suppliers"
+ON public.suppliers
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can create suppliers"
+ON public.suppliers
+FOR INSERT
+WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can update all suppliers"
+ON public.suppliers
+FOR UPDATE
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can delete all suppliers"
+ON public.suppliers
+FOR DELETE
+USING (auth.role() = 'authenticated');
+
+-- Orders and their lines are saved and received through the functions below.
+-- Only orders that have not had any deliveries can be deleted.
+CREATE POLICY "Authenticated users can view all purchase orders"
+ON public.purchase_orders
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can update all purchase orders"
+ON public.purchase_orders
+FOR UPDATE
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can delete unreceived purchase orders"
+ON public.purchase_orders
+FOR DELETE
+USING (auth.role() = 'authenticated' AND status IN ('draft', 'sent'));
+
+CREATE POLICY "Authenticated users can view all purchase order items"
+ON public.purchase_order_items
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+-- Receipts point back at the purchase order they came from
+ALTER TABLE public.inventory_movements
+ADD COLUMN purchase_order_id UUID REFERENCES public.purchase_orders(id) ON DELETE SET NULL;
+
+-- The ledger context can now name a purchase order and the location stock
+-- was received at
+DROP FUNCTION IF EXISTS public.set_stock_movement_context(text, uuid, uuid, text);
+
+CREATE OR REPLACE FUNCTION public.set_stock_movement_context(
+  p_movement_type text,
+  p_invoice_id uuid DEFAULT NULL,
+  p_credit_note_id uuid DEFAULT NULL,
+  p_reason text DEFAULT NULL,
+  p_purchase_order_id uuid DEFAULT NULL,
+  p_warehouse_location_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('stock.movement_type', COALESCE(p_movement_type, ''), true);
+  PERFORM set_config('stock.invoice_id', COALESCE(p_invoice_id::text, ''), true);
+  PERFORM set_config('stock.credit_note_id', COALESCE(p_credit_note_id::text, ''), true);
+  PERFORM set_config('stock.reason', COALESCE(p_reason, ''), true);
+  PERFORM set_config('stock.purchase_order_id', COALESCE(p_purchase_order_id::text, ''), true);
+  PERFORM set_config('stock.warehouse_location_id', COALESCE(p_warehouse_location_id::text, ''), true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_stock_movement_context(text, uuid, uuid, text, uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.record_inventory_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  context_type text := NULLIF(current_setting('stock.movement_type', true), '');
+  context_invoice_id uuid := NULLIF(current_setting('stock.invoice_id', true), '')::uuid;
+  context_credit_note_id uuid := NULLIF(current_setting('stock.credit_note_id', true), '')::uuid;
+  context_reason text := NULLIF(current_setting('stock.reason', true), '');
+  context_purchase_order_id uuid := NULLIF(current_setting('stock.purchase_order_id', true), '')::uuid;
+  context_location_id uuid := NULLIF(current_setting('stock.warehouse_location_id', true), '')::uuid;
+  old_quantity numeric := 0;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    old_quantity := OLD.quantity;
+
+    IF NEW.warehouse_location_id IS DISTINCT FROM OLD.warehouse_location_id THEN
+      INSERT INTO public.inventory_movements (
+        inventory_item_id, movement_type, quantity_change, balance_after,
+        from_warehouse_location_id, to_warehouse_location_id, created_by
+      )
+      VALUES (NEW.id, 'transfer', 0, OLD.quantity, OLD.warehouse_location_id, NEW.warehouse_location_id, auth.uid());
+    END IF;
+  ELSE
+    -- New items start with their opening stock unless a receipt says otherwise
+    context_type := COALESCE(context_type, 'adjustment');
+    context_reason := COALESCE(context_reason, 'Opening stock');
+  END IF;
+
+  IF NEW.quantity IS DISTINCT FROM old_quantity THEN
+    IF context_type IS NULL THEN
+      context_type := 'adjustment';
+    END IF;
+
+    IF context_type = 'adjustment' AND context_reason IS NULL THEN
+      RAISE EXCEPTION 'A reason is required when adjusting stock';
+    END IF;
+
+    INSERT INTO public.inventory_movements (
+      inventory_item_id, movement_type, quantity_change, balance_after,
+      invoice_id, credit_note_id, purchase_order_id, to_warehouse_location_id, reason, created_by
+    )
+    VALUES (
+      NEW.id,
+      context_type,
+      NEW.quantity - old_quantity,
+      NEW.quantity,
+      context_invoice_id,
+      context_credit_note_id,
+      context_purchase_order_id,
+      COALESCE(context_location_id, NEW.warehouse_location_id),
+      context_reason,
+      auth.uid()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Create or replace a purchase order and its lines in one transaction. Lines
+-- can only be changed until the first delivery is received.
+CREATE OR REPLACE FUNCTION public.save_purchase_order_with_items(p_purchase_order_id uuid, p_purchase_order jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  saved_id uuid := p_purchase_order_id;
+  current_status text;
+  new_status text := COALESCE(p_purchase_order->>'status', 'draft');
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A purchase order needs at least one line item';
+  END IF;
+
+  IF new_status NOT IN ('draft', 'sent') THEN
+    RAISE EXCEPTION 'Purchase orders are marked received by receiving their deliveries';
+  END IF;
+
+  IF saved_id IS NULL THEN
+    INSERT INTO public.purchase_orders (user_id, supplier_id)
+    VALUES (auth.uid(), (p_purchase_order->>'supplier_id')::uuid)
+    RETURNING id INTO saved_id;
+  ELSE
+    SELECT status INTO current_status
+    FROM public.purchase_orders
+    WHERE id = saved_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order not found';
+    END IF;
+
+    IF current_status NOT IN ('draft', 'sent') THEN
+      RAISE EXCEPTION 'Purchase orders cannot be edited once deliveries have been received';
+    END IF;
+
+    DELETE FROM public.purchase_order_items
+    WHERE purchase_order_id = saved_id;
+  END IF;
+
+  INSERT INTO public.purchase_order_items (
+    purchase_order_id, inventory_item_id, description, quantity_ordered, unit_cost, line_total
+  )
+  SELECT
+    saved_id,
+    (item->>'inventory_item_id')::uuid,
+    item->>'description',
+    (item->>'quantity_ordered')::integer,
+    COALESCE((item->>'unit_cost')::numeric, 0),
+    (item->>'quantity_ordered')::integer * COALESCE((item->>'unit_cost')::numeric, 0)
+  FROM jsonb_array_elements(p_items) AS item;
+
+  UPDATE public.purchase_orders
+  SET supplier_id = (p_purchase_order->>'supplier_id')::uuid,
+      status = new_status,
+      order_date = COALESCE((p_purchase_order->>'order_date')::date, order_date),
+      expected_date = NULLIF(p_purchase_order->>'expected_date', '')::date,
+      warehouse_location_id = NULLIF(p_purchase_order->>'warehouse_location_id', '')::uuid,
+      notes = p_purchase_order->>'notes',
+      total_amount = (
+        SELECT COALESCE(SUM(line_total), 0)
+        FROM public.purchase_order_items
+        WHERE purchase_order_id = saved_id
+      ),
+      updated_at = now()
+  WHERE id = saved_id;
+
+  RETURN saved_id;
+END;
+$$;
+
+-- Receive a delivery against a purchase order. p_items holds
+-- purchase_order_item_id and quantity for each line delivered.
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(p_purchase_order_id uuid, p_items jsonb, p_reference text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target record;
+  line record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Enter a received quantity for at least one line';
+  END IF;
+
+  SELECT id, po_number, status, warehouse_location_id INTO target
+  FROM public.purchase_orders
+  WHERE id = p_purchase_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF target.status = 'draft' THEN
+    RAISE EXCEPTION 'Mark the purchase order as sent before receiving deliveries';
+  END IF;
+
+  IF target.status = 'received' THEN
+    RAISE EXCEPTION 'This purchase order has already been received in full';
+  END IF;
+
+  -- The order row lock above keeps two deliveries against the same order
+  -- from both passing these checks
+  FOR line IN
+    SELECT poi.id, poi.description, poi.quantity_ordered, poi.quantity_received, req.quantity
+    FROM (
+      SELECT (item->>'purchase_order_item_id')::uuid AS purchase_order_item_id,
+             SUM((item->>'quantity')::integer) AS quantity
+      FROM jsonb_array_elements(p_items) AS item
+      GROUP BY 1
+    ) req
+    LEFT JOIN public.purchase_order_items poi
+      ON poi.id = req.purchase_order_item_id AND poi.purchase_order_id = p_purchase_order_id
+  LOOP
+    IF line.id IS NULL THEN
+      RAISE EXCEPTION 'Received lines must come from this purchase order';
+    END IF;
+
+    IF line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Received quantity for % must be greater than zero', line.description;
+    END IF;
+
+    IF line.quantity_received + line.quantity > line.quantity_ordered THEN
+      RAISE EXCEPTION 'Only % units of % are still outstanding, but % received',
+        line.quantity_ordered - line.quantity_received, line.description, line.quantity;
+    END IF;
+  END LOOP;
+
+  PERFORM public.set_stock_movement_context(
+    'receipt', NULL, NULL,
+    NULLIF(btrim(p_reference), ''),
+    p_purchase_order_id,
+    target.warehouse_location_id
+  );
+
+  -- Lock the stock rows in a stable order, as invoicing does
+  FOR line IN
+    SELECT poi.id, poi.inventory_item_id, req.quantity
+    FROM (
+      SELECT (item->>'purchase_order_item_id')::uuid AS purchase_order_item_id,
+             SUM((item->>'quantity')::integer) AS quantity
+      FROM jsonb_array_elements(p_items) AS item
+      GROUP BY 1
+    ) req
+    JOIN public.purchase_order_items poi ON poi.id = req.purchase_order_item_id
+    JOIN public.inventory inv ON inv.id = poi.inventory_item_id
+    ORDER BY inv.id
+    FOR UPDATE OF inv
+  LOOP
+    UPDATE public.purchase_order_items
+    SET quantity_received = quantity_received + line.quantity
+    WHERE id = line.id;
+
+    UPDATE public.inventory
+    SET quantity = quantity + line.quantity,
+        updated_at = now()
+    WHERE id = line.inventory_item_id;
+  END LOOP;
+
+  UPDATE public.purchase_orders
+  SET status = CASE
+        WHEN EXISTS (
+          SELECT 1 FROM public.purchase_order_items
+          WHERE purchase_order_id = p_purchase_order_id
+          AND quantity_received < quantity_ordered
+        ) THEN 'partially_received'
+        ELSE 'received'
+      END,
+      updated_at = now()
+  WHERE id = p_purchase_order_id;
+END;
+$$;
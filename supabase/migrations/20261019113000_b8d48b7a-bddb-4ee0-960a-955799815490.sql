@@ -0,0 +1,1277 @@
+-- Per-location stock: inventory_stock holds how much of each item is at each
+-- warehouse location, so one product can be kept in several yards.
+-- inventory.quantity stays as the total across every location and is kept in
+-- step by the ledger trigger, which now watches inventory_stock.
+-- inventory.warehouse_location_id becomes the item's default location, where
+-- opening stock is put and where sales ship from unless a line says otherwise.
+--
+-- Stock transfers move goods between locations in two steps. Dispatching takes
+-- the stock out of the source location and the transfer is in transit until it
+-- is received at the destination, or cancelled, which puts it back.
+
+CREATE TABLE public.inventory_stock (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  inventory_item_id UUID NOT NULL REFERENCES public.inventory(id) ON DELETE CASCADE,
+  warehouse_location_id UUID NOT NULL REFERENCES public.warehouse_locations(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (inventory_item_id, warehouse_location_id)
+);
+
+CREATE INDEX idx_inventory_stock_warehouse_location_id ON public.inventory_stock(warehouse_location_id);
+
+CREATE SEQUENCE IF NOT EXISTS public.stock_transfer_number_seq;
+
+CREATE TABLE public.stock_transfers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users NOT NULL,
+  transfer_number TEXT NOT NULL UNIQUE DEFAULT 'TR-' || lpad(nextval('public.stock_transfer_number_seq')::text, 4, '0'),
+  from_warehouse_location_id UUID REFERENCES public.warehouse_locations(id) ON DELETE SET NULL,
+  to_warehouse_location_id UUID REFERENCES public.warehouse_locations(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'in_transit' CHECK (status IN ('in_transit', 'received', 'cancelled')),
+  notes TEXT,
+  dispatched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  received_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (from_warehouse_location_id <> to_warehouse_location_id)
+);
+
+CREATE TABLE public.stock_transfer_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  stock_transfer_id UUID NOT NULL REFERENCES public.stock_transfers(id) ON DELETE CASCADE,
+  inventory_item_id UUID NOT NULL REFERENCES public.inventory(id),
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_stock_transfer_items_stock_transfer_id ON public.stock_transfer_items(stock_transfer_id);
+
+ALTER TABLE public.inventory_stock ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_transfers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_transfer_items ENABLE ROW LEVEL SECURITY;
+
+-- Stock levels and transfers only change through the functions below
+CREATE POLICY "Authenticated users can view all inventory stock"
+ON public.inventory_stock
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can view all stock transfers"
+ON public.stock_transfers
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can view all stock transfer items"
+ON public.stock_transfer_items
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+-- Each invoice line remembers where it shipped from, so voids and returns put
+-- the stock back in the same place
+ALTER TABLE public.invoice_items
+ADD COLUMN warehouse_location_id UUID REFERENCES public.warehouse_locations(id) ON DELETE SET NULL;
+
+-- Movements now say which location the stock changed at. For transfers the
+-- from and to columns hold the route.
+ALTER TABLE public.inventory_movements
+ADD COLUMN warehouse_location_id UUID REFERENCES public.warehouse_locations(id) ON DELETE SET NULL,
+ADD COLUMN stock_transfer_id UUID REFERENCES public.stock_transfers(id) ON DELETE SET NULL;
+
+-- The default location is only a preference now, so removing a location
+-- should not be blocked by it
+ALTER TABLE public.inventory
+DROP CONSTRAINT IF EXISTS inventory_warehouse_location_id_fkey,
+ADD CONSTRAINT inventory_warehouse_location_id_fkey
+  FOREIGN KEY (warehouse_location_id) REFERENCES public.warehouse_locations(id) ON DELETE SET NULL;
+
+-- The ledger moves to inventory_stock below; stop it watching inventory first
+-- so the backfill is not recorded as movements
+DROP TRIGGER IF EXISTS trg_inventory_record_movement ON public.inventory;
+
+UPDATE public.inventory_movements
+SET warehouse_location_id = to_warehouse_location_id
+WHERE movement_type <> 'transfer';
+
+-- Stock that was never given a location goes to the oldest one
+INSERT INTO public.warehouse_locations (user_id, name, address)
+SELECT inv.user_id, 'Main Warehouse', 'Main warehouse location'
+FROM public.inventory inv
+WHERE inv.warehouse_location_id IS NULL
+AND inv.quantity > 0
+AND NOT EXISTS (SELECT 1 FROM public.warehouse_locations)
+LIMIT 1;
+
+UPDATE public.inventory
+SET warehouse_location_id = (
+  SELECT id FROM public.warehouse_locations ORDER BY created_at LIMIT 1
+)
+WHERE warehouse_location_id IS NULL
+AND quantity > 0;
+
+INSERT INTO public.inventory_stock (inventory_item_id, warehouse_location_id, quantity)
+SELECT id, warehouse_location_id, quantity
+FROM public.inventory
+WHERE warehouse_location_id IS NOT NULL;
+
+UPDATE public.invoice_items ii
+SET warehouse_location_id = inv.warehouse_location_id
+FROM public.inventory inv
+WHERE inv.id = ii.inventory_item_id;
+
+-- The ledger context names a stock transfer in place of a location; the
+-- location now comes from the inventory_stock row being changed
+DROP FUNCTION IF EXISTS public.set_stock_movement_context(text, uuid, uuid, text, uuid, uuid);
+
+CREATE OR REPLACE FUNCTION public.set_stock_movement_context(
+  p_movement_type text,
+  p_invoice_id uuid DEFAULT NULL,
+  p_credit_note_id uuid DEFAULT NULL,
+  p_reason text DEFAULT NULL,
+  p_purchase_order_id uuid DEFAULT NULL,
+  p_stock_transfer_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('stock.movement_type', COALESCE(p_movement_type, ''), true);
+  PERFORM set_config('stock.invoice_id', COALESCE(p_invoice_id::text, ''), true);
+  PERFORM set_config('stock.credit_note_id', COALESCE(p_credit_note_id::text, ''), true);
+  PERFORM set_config('stock.reason', COALESCE(p_reason, ''), true);
+  PERFORM set_config('stock.purchase_order_id', COALESCE(p_purchase_order_id::text, ''), true);
+  PERFORM set_config('stock.stock_transfer_id', COALESCE(p_stock_transfer_id::text, ''), true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_stock_movement_context(text, uuid, uuid, text, uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Record a change to an item's stock at one location and bring the item's
+-- total back in line
+CREATE OR REPLACE FUNCTION public.record_inventory_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  context_type text := NULLIF(current_setting('stock.movement_type', true), '');
+  context_invoice_id uuid := NULLIF(current_setting('stock.invoice_id', true), '')::uuid;
+  context_credit_note_id uuid := NULLIF(current_setting('stock.credit_note_id', true), '')::uuid;
+  context_reason text := NULLIF(current_setting('stock.reason', true), '');
+  context_purchase_order_id uuid := NULLIF(current_setting('stock.purchase_order_id', true), '')::uuid;
+  context_transfer_id uuid := NULLIF(current_setting('stock.stock_transfer_id', true), '')::uuid;
+  quantity_change numeric := NEW.quantity;
+  new_balance numeric;
+  route_from uuid;
+  route_to uuid;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    quantity_change := NEW.quantity - OLD.quantity;
+  END IF;
+
+  IF quantity_change = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.inventory
+  SET quantity = (
+        SELECT COALESCE(SUM(quantity), 0)
+        FROM public.inventory_stock
+        WHERE inventory_item_id = NEW.inventory_item_id
+      ),
+      updated_at = now()
+  WHERE id = NEW.inventory_item_id
+  RETURNING quantity INTO new_balance;
+
+  IF context_type IS NULL THEN
+    context_type := 'adjustment';
+
+    -- New items start with their opening stock
+    IF TG_OP = 'INSERT' THEN
+      context_reason := COALESCE(context_reason, 'Opening stock');
+    END IF;
+  END IF;
+
+  IF context_type = 'adjustment' AND context_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required when adjusting stock';
+  END IF;
+
+  IF context_transfer_id IS NOT NULL THEN
+    SELECT from_warehouse_location_id, to_warehouse_location_id
+    INTO route_from, route_to
+    FROM public.stock_transfers
+    WHERE id = context_transfer_id;
+  END IF;
+
+  INSERT INTO public.inventory_movements (
+    inventory_item_id, movement_type, quantity_change, balance_after,
+    invoice_id, credit_note_id, purchase_order_id, stock_transfer_id,
+    warehouse_location_id, from_warehouse_location_id, to_warehouse_location_id,
+    reason, created_by
+  )
+  VALUES (
+    NEW.inventory_item_id,
+    context_type,
+    quantity_change,
+    new_balance,
+    context_invoice_id,
+    context_credit_note_id,
+    context_purchase_order_id,
+    context_transfer_id,
+    NEW.warehouse_location_id,
+    route_from,
+    route_to,
+    context_reason,
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_inventory_stock_record_movement ON public.inventory_stock;
+CREATE TRIGGER trg_inventory_stock_record_movement
+AFTER INSERT OR UPDATE OF quantity ON public.inventory_stock
+FOR EACH ROW
+EXECUTE FUNCTION public.record_inventory_movement();
+
+-- The quantity entered for a new item is put at its default location
+CREATE OR REPLACE FUNCTION public.create_opening_inventory_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.warehouse_location_id IS NULL THEN
+    IF NEW.quantity > 0 THEN
+      RAISE EXCEPTION 'Choose the warehouse location the opening stock of % is held at', NEW.name;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.inventory_stock (inventory_item_id, warehouse_location_id, quantity)
+  VALUES (NEW.id, NEW.warehouse_location_id, NEW.quantity);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_inventory_opening_stock ON public.inventory;
+CREATE TRIGGER trg_inventory_opening_stock
+AFTER INSERT ON public.inventory
+FOR EACH ROW
+EXECUTE FUNCTION public.create_opening_inventory_stock();
+
+-- inventory.quantity is only ever the sum of the item's stock rows
+CREATE OR REPLACE FUNCTION public.check_inventory_quantity()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.quantity IS DISTINCT FROM OLD.quantity
+    AND NEW.quantity <> (
+      SELECT COALESCE(SUM(quantity), 0)
+      FROM public.inventory_stock
+      WHERE inventory_item_id = NEW.id
+    ) THEN
+    RAISE EXCEPTION 'Stock is held per warehouse location. Use Adjust Stock to change the quantity.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_inventory_check_quantity ON public.inventory;
+CREATE TRIGGER trg_inventory_check_quantity
+BEFORE UPDATE OF quantity ON public.inventory
+FOR EACH ROW
+EXECUTE FUNCTION public.check_inventory_quantity();
+
+-- A location can only be removed once nothing is held there or on its way
+CREATE OR REPLACE FUNCTION public.prevent_stocked_warehouse_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.inventory_stock
+    WHERE warehouse_location_id = OLD.id
+    AND quantity > 0
+  ) THEN
+    RAISE EXCEPTION '% still holds stock. Transfer or adjust it out before deleting the location.', OLD.name;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.stock_transfers
+    WHERE status = 'in_transit'
+    AND OLD.id IN (from_warehouse_location_id, to_warehouse_location_id)
+  ) THEN
+    RAISE EXCEPTION '% has transfers in transit. Receive or cancel them before deleting the location.', OLD.name;
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_warehouse_locations_prevent_stocked_delete ON public.warehouse_locations;
+CREATE TRIGGER trg_warehouse_locations_prevent_stocked_delete
+BEFORE DELETE ON public.warehouse_locations
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_stocked_warehouse_delete();
+
+-- Where a line ships from when the caller does not say: the item's default
+-- location if it has stock there, otherwise wherever most of it is held
+CREATE OR REPLACE FUNCTION public.default_stock_location(p_inventory_item_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT s.warehouse_location_id
+      FROM public.inventory_stock s
+      JOIN public.inventory inv ON inv.id = s.inventory_item_id
+      WHERE s.inventory_item_id = p_inventory_item_id
+      AND s.quantity > 0
+      ORDER BY s.warehouse_location_id IS NOT DISTINCT FROM inv.warehouse_location_id DESC, s.quantity DESC
+      LIMIT 1
+    ),
+    (SELECT warehouse_location_id FROM public.inventory WHERE id = p_inventory_item_id),
+    (SELECT id FROM public.warehouse_locations ORDER BY created_at LIMIT 1)
+  );
+$$;
+
+-- Fill in the ship-from location on every inventory line up front, so the
+-- stock taken and the location stored on the line always agree
+CREATE OR REPLACE FUNCTION public.resolve_line_stock_locations(p_items jsonb)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_agg(
+    item || jsonb_build_object(
+      'warehouse_location_id',
+      CASE WHEN NULLIF(item->>'inventory_item_id', '') IS NOT NULL THEN
+        COALESCE(
+          NULLIF(item->>'warehouse_location_id', '')::uuid,
+          public.default_stock_location((item->>'inventory_item_id')::uuid)
+        )
+      END
+    )
+    ORDER BY position
+  ), '[]'::jsonb)
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS line(item, position);
+$$;
+
+-- Put stock into a location. Callers lock the inventory row first and set the
+-- movement context.
+CREATE OR REPLACE FUNCTION public.add_inventory_stock(p_inventory_item_id uuid, p_warehouse_location_id uuid, p_quantity numeric)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF p_warehouse_location_id IS NULL THEN
+    RAISE EXCEPTION 'Choose the warehouse location the stock goes to';
+  END IF;
+
+  INSERT INTO public.inventory_stock (inventory_item_id, warehouse_location_id, quantity)
+  VALUES (p_inventory_item_id, p_warehouse_location_id, p_quantity)
+  ON CONFLICT (inventory_item_id, warehouse_location_id)
+  DO UPDATE SET quantity = inventory_stock.quantity + EXCLUDED.quantity,
+                updated_at = now();
+END;
+$$;
+
+-- Take stock out of a location, refusing to go below what is there
+CREATE OR REPLACE FUNCTION public.take_inventory_stock(p_inventory_item_id uuid, p_warehouse_location_id uuid, p_quantity numeric)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  available integer;
+  item_name text;
+  location_name text;
+BEGIN
+  SELECT name INTO item_name
+  FROM public.inventory
+  WHERE id = p_inventory_item_id;
+
+  IF p_warehouse_location_id IS NULL THEN
+    RAISE EXCEPTION 'Choose the warehouse location % ships from', item_name;
+  END IF;
+
+  SELECT quantity INTO available
+  FROM public.inventory_stock
+  WHERE inventory_item_id = p_inventory_item_id
+  AND warehouse_location_id = p_warehouse_location_id
+  FOR UPDATE;
+
+  IF COALESCE(available, 0) < p_quantity THEN
+    SELECT name INTO location_name
+    FROM public.warehouse_locations
+    WHERE id = p_warehouse_location_id;
+
+    RAISE EXCEPTION 'Insufficient inventory: Only % units of % available at %, but % requested',
+      COALESCE(available, 0), item_name, location_name, p_quantity;
+  END IF;
+
+  UPDATE public.inventory_stock
+  SET quantity = quantity - p_quantity,
+      updated_at = now()
+  WHERE inventory_item_id = p_inventory_item_id
+  AND warehouse_location_id = p_warehouse_location_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_inventory_stock(uuid, uuid, numeric) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.take_inventory_stock(uuid, uuid, numeric) FROM PUBLIC, anon, authenticated;
+
+-- Manual corrections and deliveries now name the location they apply to
+DROP FUNCTION IF EXISTS public.adjust_inventory_quantity(uuid, integer, text);
+DROP FUNCTION IF EXISTS public.receive_inventory_stock(uuid, integer, text);
+
+-- Set the quantity on hand at one location after a count, breakage or other
+-- correction
+CREATE OR REPLACE FUNCTION public.adjust_inventory_quantity(
+  p_inventory_id uuid,
+  p_warehouse_location_id uuid,
+  p_new_quantity integer,
+  p_reason text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF NULLIF(btrim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required when adjusting stock';
+  END IF;
+
+  IF p_new_quantity < 0 THEN
+    RAISE EXCEPTION 'Quantity cannot be negative';
+  END IF;
+
+  IF p_warehouse_location_id IS NULL THEN
+    RAISE EXCEPTION 'Choose the warehouse location being adjusted';
+  END IF;
+
+  PERFORM 1
+  FROM public.inventory
+  WHERE id = p_inventory_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory item not found';
+  END IF;
+
+  PERFORM public.set_stock_movement_context('adjustment', NULL, NULL, btrim(p_reason));
+
+  INSERT INTO public.inventory_stock (inventory_item_id, warehouse_location_id, quantity)
+  VALUES (p_inventory_id, p_warehouse_location_id, p_new_quantity)
+  ON CONFLICT (inventory_item_id, warehouse_location_id)
+  DO UPDATE SET quantity = EXCLUDED.quantity,
+                updated_at = now();
+END;
+$$;
+
+-- Add delivered stock to an item at one location
+CREATE OR REPLACE FUNCTION public.receive_inventory_stock(
+  p_inventory_id uuid,
+  p_warehouse_location_id uuid,
+  p_quantity integer,
+  p_reason text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Received quantity must be greater than zero';
+  END IF;
+
+  PERFORM 1
+  FROM public.inventory
+  WHERE id = p_inventory_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory item not found';
+  END IF;
+
+  PERFORM public.set_stock_movement_context('receipt', NULL, NULL, NULLIF(btrim(p_reason), ''));
+  PERFORM public.add_inventory_stock(p_inventory_id, p_warehouse_location_id, p_quantity);
+END;
+$$;
+
+-- Deliveries go into stock at the order's warehouse location
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(p_purchase_order_id uuid, p_items jsonb, p_reference text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target record;
+  line record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Enter a received quantity for at least one line';
+  END IF;
+
+  SELECT id, po_number, status, warehouse_location_id INTO target
+  FROM public.purchase_orders
+  WHERE id = p_purchase_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF target.status = 'draft' THEN
+    RAISE EXCEPTION 'Mark the purchase order as sent before receiving deliveries';
+  END IF;
+
+  IF target.status = 'received' THEN
+    RAISE EXCEPTION 'This purchase order has already been received in full';
+  END IF;
+
+  IF target.warehouse_location_id IS NULL THEN
+    RAISE EXCEPTION 'Choose the warehouse location this order is delivered to before receiving it';
+  END IF;
+
+  -- The order row lock above keeps two deliveries against the same order
+  -- from both passing these checks
+  FOR line IN
+    SELECT poi.id, poi.description, poi.quantity_ordered, poi.quantity_received, req.quantity
+    FROM (
+      SELECT (item->>'purchase_order_item_id')::uuid AS purchase_order_item_id,
+             SUM((item->>'quantity')::integer) AS quantity
+      FROM jsonb_array_elements(p_items) AS item
+      GROUP BY 1
+    ) req
+    LEFT JOIN public.purchase_order_items poi
+      ON poi.id = req.purchase_order_item_id AND poi.purchase_order_id = p_purchase_order_id
+  LOOP
+    IF line.id IS NULL THEN
+      RAISE EXCEPTION 'Received lines must come from this purchase order';
+    END IF;
+
+    IF line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Received quantity for % must be greater than zero', line.description;
+    END IF;
+
+    IF line.quantity_received + line.quantity > line.quantity_ordered THEN
+      RAISE EXCEPTION 'Only % units of % are still outstanding, but % received',
+        line.quantity_ordered - line.quantity_received, line.description, line.quantity;
+    END IF;
+  END LOOP;
+
+  PERFORM public.set_stock_movement_context(
+    'receipt', NULL, NULL,
+    NULLIF(btrim(p_reference), ''),
+    p_purchase_order_id
+  );
+
+  -- Lock the stock rows in a stable order, as invoicing does
+  FOR line IN
+    SELECT poi.id, poi.inventory_item_id, req.quantity
+    FROM (
+      SELECT (item->>'purchase_order_item_id')::uuid AS purchase_order_item_id,
+             SUM((item->>'quantity')::integer) AS quantity
+      FROM jsonb_array_elements(p_items) AS item
+      GROUP BY 1
+    ) req
+    JOIN public.purchase_order_items poi ON poi.id = req.purchase_order_item_id
+    JOIN public.inventory inv ON inv.id = poi.inventory_item_id
+    ORDER BY inv.id
+    FOR UPDATE OF inv
+  LOOP
+    UPDATE public.purchase_order_items
+    SET quantity_received = quantity_received + line.quantity
+    WHERE id = line.id;
+
+    PERFORM public.add_inventory_stock(line.inventory_item_id, target.warehouse_location_id, line.quantity);
+  END LOOP;
+
+  UPDATE public.purchase_orders
+  SET status = CASE
+        WHEN EXISTS (
+          SELECT 1 FROM public.purchase_order_items
+          WHERE purchase_order_id = p_purchase_order_id
+          AND quantity_received < quantity_ordered
+        ) THEN 'partially_received'
+        ELSE 'received'
+      END,
+      updated_at = now()
+  WHERE id = p_purchase_order_id;
+END;
+$$;
+
+-- Each line ships from its own location. Lines that do not name one ship
+-- from the item's default location.
+CREATE OR REPLACE FUNCTION public.create_invoice_with_items(p_invoice jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_invoice_id uuid;
+  resolved_items jsonb;
+  stock record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line item';
+  END IF;
+
+  resolved_items := public.resolve_line_stock_locations(p_items);
+
+  INSERT INTO public.invoices (
+    user_id, client_id, invoice_number, issue_date, due_date, notes, status,
+    subtotal, discount_type, discount_value, discount_amount,
+    tax_amount, wht_rate, wht_amount, total_amount, is_backdated
+  )
+  VALUES (
+    auth.uid(),
+    (p_invoice->>'client_id')::uuid,
+    p_invoice->>'invoice_number',
+    (p_invoice->>'issue_date')::date,
+    (p_invoice->>'due_date')::date,
+    p_invoice->>'notes',
+    COALESCE(p_invoice->>'status', 'draft'),
+    COALESCE((p_invoice->>'subtotal')::numeric, 0),
+    COALESCE(p_invoice->>'discount_type', 'percentage'),
+    COALESCE((p_invoice->>'discount_value')::numeric, 0),
+    COALESCE((p_invoice->>'discount_amount')::numeric, 0),
+    COALESCE((p_invoice->>'tax_amount')::numeric, 0),
+    COALESCE((p_invoice->>'wht_rate')::numeric, 0),
+    COALESCE((p_invoice->>'wht_amount')::numeric, 0),
+    COALESCE((p_invoice->>'total_amount')::numeric, 0),
+    false
+  )
+  RETURNING id INTO new_invoice_id;
+
+  PERFORM public.set_stock_movement_context('sale', new_invoice_id);
+
+  -- Lock every inventory row being sold in a stable order, so two clerks
+  -- selling the same item queue behind each other instead of overselling
+  FOR stock IN
+    SELECT inv.id, req.warehouse_location_id, req.requested
+    FROM (
+      SELECT (item->>'inventory_item_id')::uuid AS inventory_item_id,
+             NULLIF(item->>'warehouse_location_id', '')::uuid AS warehouse_location_id,
+             SUM((item->>'quantity')::numeric) AS requested
+      FROM jsonb_array_elements(resolved_items) AS item
+      WHERE NULLIF(item->>'inventory_item_id', '') IS NOT NULL
+      GROUP BY 1, 2
+    ) req
+    JOIN public.inventory inv ON inv.id = req.inventory_item_id
+    ORDER BY inv.id, req.warehouse_location_id
+    FOR UPDATE OF inv
+  LOOP
+    PERFORM public.take_inventory_stock(stock.id, stock.warehouse_location_id, stock.requested);
+  END LOOP;
+
+  -- items_summary is filled in by the invoice_items summary trigger
+  INSERT INTO public.invoice_items (
+    invoice_id, inventory_item_id, warehouse_location_id, description, quantity, unit_price, line_total,
+    tax_rate, tax_amount, discount_type, discount_value, discount_amount
+  )
+  SELECT
+    new_invoice_id,
+    NULLIF(item->>'inventory_item_id', '')::uuid,
+    NULLIF(item->>'warehouse_location_id', '')::uuid,
+    item->>'description',
+    (item->>'quantity')::numeric,
+    (item->>'unit_price')::numeric,
+    COALESCE((item->>'line_total')::numeric, (item->>'quantity')::numeric * (item->>'unit_price')::numeric),
+    COALESCE((item->>'tax_rate')::numeric, 0),
+    COALESCE((item->>'tax_amount')::numeric, 0),
+    COALESCE(item->>'discount_type', 'percentage'),
+    COALESCE((item->>'discount_value')::numeric, 0),
+    COALESCE((item->>'discount_amount')::numeric, 0)
+  FROM jsonb_array_elements(resolved_items) AS item;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+-- Stock is reconciled per item and location, so moving a line to ship from
+-- another yard puts it back at the old one and takes it from the new one
+CREATE OR REPLACE FUNCTION public.update_invoice_with_items(p_invoice_id uuid, p_invoice jsonb, p_items jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  backdated boolean;
+  current_status text;
+  resolved_items jsonb;
+  stock record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line item';
+  END IF;
+
+  SELECT is_backdated, status INTO backdated, current_status
+  FROM public.invoices
+  WHERE id = p_invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF current_status = 'void' THEN
+    RAISE EXCEPTION 'Void invoices cannot be edited';
+  END IF;
+
+  resolved_items := public.resolve_line_stock_locations(p_items);
+
+  -- Backdated invoices record historical sales and never touched stock
+  IF NOT COALESCE(backdated, false) THEN
+    -- Positive delta means more of the item is being sold from that location,
+    -- negative means stock goes back on the shelf there
+    FOR stock IN
+      SELECT inv.id, changes.warehouse_location_id, changes.delta
+      FROM (
+        SELECT line.inventory_item_id, line.warehouse_location_id, SUM(line.quantity) AS delta
+        FROM (
+          SELECT NULLIF(item->>'inventory_item_id', '')::uuid AS inventory_item_id,
+                 NULLIF(item->>'warehouse_location_id', '')::uuid AS warehouse_location_id,
+                 (item->>'quantity')::numeric AS quantity
+          FROM jsonb_array_elements(resolved_items) AS item
+          UNION ALL
+          SELECT ii.inventory_item_id,
+                 COALESCE(ii.warehouse_location_id, public.default_stock_location(ii.inventory_item_id)),
+                 -ii.quantity
+          FROM public.invoice_items ii
+          WHERE ii.invoice_id = p_invoice_id
+        ) line
+        WHERE line.inventory_item_id IS NOT NULL
+        GROUP BY line.inventory_item_id, line.warehouse_location_id
+        HAVING SUM(line.quantity) <> 0
+      ) changes
+      JOIN public.inventory inv ON inv.id = changes.inventory_item_id
+      ORDER BY inv.id, changes.warehouse_location_id
+      FOR UPDATE OF inv
+    LOOP
+      IF stock.delta > 0 THEN
+        PERFORM public.set_stock_movement_context('sale', p_invoice_id);
+        PERFORM public.take_inventory_stock(stock.id, stock.warehouse_location_id, stock.delta);
+      ELSE
+        PERFORM public.set_stock_movement_context('return', p_invoice_id, NULL, 'Removed from invoice');
+        PERFORM public.add_inventory_stock(stock.id, stock.warehouse_location_id, -stock.delta);
+      END IF;
+    END LOOP;
+  END IF;
+
+  DELETE FROM public.invoice_items
+  WHERE invoice_id = p_invoice_id;
+
+  INSERT INTO public.invoice_items (
+    invoice_id, inventory_item_id, warehouse_location_id, description, quantity, unit_price, line_total,
+    tax_rate, tax_amount, discount_type, discount_value, discount_amount
+  )
+  SELECT
+    p_invoice_id,
+    NULLIF(item->>'inventory_item_id', '')::uuid,
+    NULLIF(item->>'warehouse_location_id', '')::uuid,
+    item->>'description',
+    (item->>'quantity')::numeric,
+    (item->>'unit_price')::numeric,
+    COALESCE((item->>'line_total')::numeric, (item->>'quantity')::numeric * (item->>'unit_price')::numeric),
+    COALESCE((item->>'tax_rate')::numeric, 0),
+    COALESCE((item->>'tax_amount')::numeric, 0),
+    COALESCE(item->>'discount_type', 'percentage'),
+    COALESCE((item->>'discount_value')::numeric, 0),
+    COALESCE((item->>'discount_amount')::numeric, 0)
+  FROM jsonb_array_elements(resolved_items) AS item;
+
+  UPDATE public.invoices
+  SET client_id = (p_invoice->>'client_id')::uuid,
+      invoice_number = p_invoice->>'invoice_number',
+      issue_date = (p_invoice->>'issue_date')::date,
+      due_date = (p_invoice->>'due_date')::date,
+      notes = p_invoice->>'notes',
+      status = COALESCE(p_invoice->>'status', status),
+      subtotal = COALESCE((p_invoice->>'subtotal')::numeric, 0),
+      discount_type = COALESCE(p_invoice->>'discount_type', 'percentage'),
+      discount_value = COALESCE((p_invoice->>'discount_value')::numeric, 0),
+      discount_amount = COALESCE((p_invoice->>'discount_amount')::numeric, 0),
+      tax_amount = COALESCE((p_invoice->>'tax_amount')::numeric, 0),
+      wht_rate = COALESCE((p_invoice->>'wht_rate')::numeric, 0),
+      wht_amount = COALESCE((p_invoice->>'wht_amount')::numeric, 0),
+      total_amount = COALESCE((p_invoice->>'total_amount')::numeric, 0),
+      updated_at = now()
+  WHERE id = p_invoice_id;
+END;
+$$;
+
+-- Voided and deleted invoices put their stock back where it shipped from
+CREATE OR REPLACE FUNCTION public.restore_invoice_stock(invoice_uuid uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  stock record;
+  cancelled_number text;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.invoices
+    WHERE id = invoice_uuid
+    AND (is_backdated OR status = 'void')
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT invoice_number INTO cancelled_number
+  FROM public.invoices
+  WHERE id = invoice_uuid;
+
+  PERFORM public.set_stock_movement_context('return', invoice_uuid, NULL, 'Invoice ' || cancelled_number || ' cancelled');
+
+  FOR stock IN
+    SELECT inv.id, sold.warehouse_location_id, SUM(sold.quantity) AS quantity
+    FROM (
+      SELECT ii.inventory_item_id,
+             COALESCE(ii.warehouse_location_id, public.default_stock_location(ii.inventory_item_id)) AS warehouse_location_id,
+             ii.quantity
+      FROM public.invoice_items ii
+      WHERE ii.invoice_id = invoice_uuid
+      AND ii.inventory_item_id IS NOT NULL
+      UNION ALL
+      SELECT cni.inventory_item_id,
+             COALESCE(ii.warehouse_location_id, public.default_stock_location(cni.inventory_item_id)),
+             -cni.quantity
+      FROM public.credit_note_items cni
+      JOIN public.credit_notes cn ON cn.id = cni.credit_note_id
+      JOIN public.invoice_items ii ON ii.id = cni.invoice_item_id
+      WHERE cn.invoice_id = invoice_uuid
+      AND cn.restock
+      AND cni.inventory_item_id IS NOT NULL
+    ) sold
+    JOIN public.inventory inv ON inv.id = sold.inventory_item_id
+    GROUP BY inv.id, sold.warehouse_location_id
+    HAVING SUM(sold.quantity) > 0
+    ORDER BY inv.id, sold.warehouse_location_id
+  LOOP
+    PERFORM public.add_inventory_stock(stock.id, stock.warehouse_location_id, stock.quantity);
+  END LOOP;
+END;
+$$;
+
+-- Restocked goods go back to the location the invoice line shipped from
+CREATE OR REPLACE FUNCTION public.create_credit_note(p_invoice_id uuid, p_credit_note jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target record;
+  line record;
+  stock record;
+  discount_share numeric;
+  credit_subtotal numeric;
+  credit_tax numeric;
+  credit_wht numeric;
+  credit_total numeric;
+  should_restock boolean;
+  new_credit_note_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A credit note needs at least one line item';
+  END IF;
+
+  SELECT id, status, is_backdated, subtotal, discount_amount, wht_rate, total_amount, amount_credited
+  INTO target
+  FROM public.invoices
+  WHERE id = p_invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF target.status = 'void' THEN
+    RAISE EXCEPTION 'Void invoices cannot be credited';
+  END IF;
+
+  IF target.status = 'draft' THEN
+    RAISE EXCEPTION 'Draft invoices have not been issued yet. Edit the invoice instead.';
+  END IF;
+
+  discount_share := CASE WHEN target.subtotal > 0 THEN target.discount_amount / target.subtotal ELSE 0 END;
+
+  -- Every line must belong to this invoice and the quantity returned across
+  -- all of its credit notes can never exceed what was sold
+  FOR line IN
+    SELECT ii.id, ii.description, ii.quantity AS sold,
+           req.quantity AS returned,
+           COALESCE((
+             SELECT SUM(cni.quantity)
+             FROM public.credit_note_items cni
+             WHERE cni.invoice_item_id = ii.id
+           ), 0) AS already_returned
+    FROM (
+      SELECT (item->>'invoice_item_id')::uuid AS invoice_item_id,
+             SUM((item->>'quantity')::numeric) AS quantity
+      FROM jsonb_array_elements(p_items) AS item
+      GROUP BY 1
+    ) req
+    LEFT JOIN public.invoice_items ii ON ii.id = req.invoice_item_id AND ii.invoice_id = p_invoice_id
+  LOOP
+    IF line.id IS NULL THEN
+      RAISE EXCEPTION 'Credit note lines must come from the invoice being credited';
+    END IF;
+
+    IF line.returned <= 0 THEN
+      RAISE EXCEPTION 'Returned quantity for % must be greater than zero', line.description;
+    END IF;
+
+    IF line.already_returned + line.returned > line.sold THEN
+      RAISE EXCEPTION 'Only % units of % can still be credited, but % requested',
+        line.sold - line.already_returned, line.description, line.returned;
+    END IF;
+  END LOOP;
+
+  -- Backdated invoices never took stock out, so there is nothing to put back
+  should_restock := COALESCE((p_credit_note->>'restock')::boolean, true) AND NOT COALESCE(target.is_backdated, false);
+
+  INSERT INTO public.credit_notes (user_id, invoice_id, issue_date, reason, restock)
+  VALUES (
+    auth.uid(),
+    p_invoice_id,
+    COALESCE((p_credit_note->>'issue_date')::date, CURRENT_DATE),
+    NULLIF(p_credit_note->>'reason', ''),
+    should_restock
+  )
+  RETURNING id INTO new_credit_note_id;
+
+  INSERT INTO public.credit_note_items (
+    credit_note_id, invoice_item_id, inventory_item_id, description,
+    quantity, unit_price, line_total, tax_amount
+  )
+  SELECT
+    new_credit_note_id,
+    ii.id,
+    ii.inventory_item_id,
+    ii.description,
+    req.quantity,
+    ii.unit_price,
+    round(ii.line_total * req.quantity / ii.quantity * (1 - discount_share), 2),
+    round(ii.tax_amount * req.quantity / ii.quantity, 2)
+  FROM (
+    SELECT (item->>'invoice_item_id')::uuid AS invoice_item_id,
+           SUM((item->>'quantity')::numeric) AS quantity
+    FROM jsonb_array_elements(p_items) AS item
+    GROUP BY 1
+  ) req
+  JOIN public.invoice_items ii ON ii.id = req.invoice_item_id;
+
+  SELECT COALESCE(SUM(line_total), 0), COALESCE(SUM(tax_amount), 0)
+  INTO credit_subtotal, credit_tax
+  FROM public.credit_note_items
+  WHERE credit_note_id = new_credit_note_id;
+
+  credit_wht := round(credit_subtotal * COALESCE(target.wht_rate, 0) / 100, 2);
+  -- Rounding per line can leave the last credit a kobo over what is left
+  credit_total := LEAST(credit_subtotal + credit_tax - credit_wht, target.total_amount - target.amount_credited);
+
+  UPDATE public.credit_notes
+  SET subtotal = credit_subtotal,
+      tax_amount = credit_tax,
+      wht_amount = credit_wht,
+      total_amount = credit_total
+  WHERE id = new_credit_note_id;
+
+  IF should_restock THEN
+    PERFORM public.set_stock_movement_context('return', p_invoice_id, new_credit_note_id, NULLIF(p_credit_note->>'reason', ''));
+
+    FOR stock IN
+      SELECT inv.id, returned.warehouse_location_id, returned.quantity
+      FROM (
+        SELECT cni.inventory_item_id,
+               COALESCE(ii.warehouse_location_id, public.default_stock_location(cni.inventory_item_id)) AS warehouse_location_id,
+               SUM(cni.quantity) AS quantity
+        FROM public.credit_note_items cni
+        JOIN public.invoice_items ii ON ii.id = cni.invoice_item_id
+        WHERE cni.credit_note_id = new_credit_note_id
+        AND cni.inventory_item_id IS NOT NULL
+        GROUP BY 1, 2
+      ) returned
+      JOIN public.inventory inv ON inv.id = returned.inventory_item_id
+      ORDER BY inv.id, returned.warehouse_location_id
+      FOR UPDATE OF inv
+    LOOP
+      PERFORM public.add_inventory_stock(stock.id, stock.warehouse_location_id, stock.quantity);
+    END LOOP;
+  END IF;
+
+  PERFORM public.sync_invoice_credit_total(p_invoice_id);
+
+  RETURN new_credit_note_id;
+END;
+$$;
+
+-- Restocked goods are taken back out of the location they were returned to
+CREATE OR REPLACE FUNCTION public.delete_credit_note(p_credit_note_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  note record;
+  stock record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT cn.id, cn.invoice_id, cn.credit_note_number, cn.restock, i.status
+  INTO note
+  FROM public.credit_notes cn
+  JOIN public.invoices i ON i.id = cn.invoice_id
+  WHERE cn.id = p_credit_note_id
+  FOR UPDATE OF cn, i;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Credit note not found';
+  END IF;
+
+  -- Voiding already settled the stock for the whole invoice
+  IF note.status = 'void' THEN
+    RAISE EXCEPTION 'Credit notes on void invoices cannot be deleted';
+  END IF;
+
+  IF note.restock THEN
+    PERFORM public.set_stock_movement_context('return', note.invoice_id, NULL, 'Credit note ' || note.credit_note_number || ' deleted');
+
+    FOR stock IN
+      SELECT inv.id, returned.warehouse_location_id, returned.quantity
+      FROM (
+        SELECT cni.inventory_item_id,
+               COALESCE(ii.warehouse_location_id, public.default_stock_location(cni.inventory_item_id)) AS warehouse_location_id,
+               SUM(cni.quantity) AS quantity
+        FROM public.credit_note_items cni
+        JOIN public.invoice_items ii ON ii.id = cni.invoice_item_id
+        WHERE cni.credit_note_id = p_credit_note_id
+        AND cni.inventory_item_id IS NOT NULL
+        GROUP BY 1, 2
+      ) returned
+      JOIN public.inventory inv ON inv.id = returned.inventory_item_id
+      ORDER BY inv.id, returned.warehouse_location_id
+      FOR UPDATE OF inv
+    LOOP
+      PERFORM public.take_inventory_stock(stock.id, stock.warehouse_location_id, stock.quantity);
+    END LOOP;
+  END IF;
+
+  DELETE FROM public.credit_notes
+  WHERE id = p_credit_note_id;
+
+  PERFORM public.sync_invoice_credit_total(note.invoice_id);
+END;
+$$;
+
+-- Dispatch stock from one location to another. p_items holds
+-- inventory_item_id and quantity for each item sent. The goods leave the
+-- source straight away and the transfer stays in transit until received.
+CREATE OR REPLACE FUNCTION public.create_stock_transfer(p_transfer jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  from_location uuid := NULLIF(p_transfer->>'from_warehouse_location_id', '')::uuid;
+  to_location uuid := NULLIF(p_transfer->>'to_warehouse_location_id', '')::uuid;
+  new_transfer_id uuid;
+  line record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF from_location IS NULL OR to_location IS NULL THEN
+    RAISE EXCEPTION 'Choose the locations the stock moves from and to';
+  END IF;
+
+  IF from_location = to_location THEN
+    RAISE EXCEPTION 'Stock can only be transferred between two different locations';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A transfer needs at least one item';
+  END IF;
+
+  INSERT INTO public.stock_transfers (user_id, from_warehouse_location_id, to_warehouse_location_id, notes)
+  VALUES (auth.uid(), from_location, to_location, NULLIF(p_transfer->>'notes', ''))
+  RETURNING id INTO new_transfer_id;
+
+  INSERT INTO public.stock_transfer_items (stock_transfer_id, inventory_item_id, quantity)
+  SELECT new_transfer_id, (item->>'inventory_item_id')::uuid, SUM((item->>'quantity')::integer)
+  FROM jsonb_array_elements(p_items) AS item
+  GROUP BY 2;
+
+  PERFORM public.set_stock_movement_context('transfer', NULL, NULL, NULL, NULL, new_transfer_id);
+
+  FOR line IN
+    SELECT inv.id, sti.quantity
+    FROM public.stock_transfer_items sti
+    JOIN public.inventory inv ON inv.id = sti.inventory_item_id
+    WHERE sti.stock_transfer_id = new_transfer_id
+    ORDER BY inv.id
+    FOR UPDATE OF inv
+  LOOP
+    PERFORM public.take_inventory_stock(line.id, from_location, line.quantity);
+  END LOOP;
+
+  RETURN new_transfer_id;
+END;
+$$;
+
+-- Book a transfer in at its destination
+CREATE OR REPLACE FUNCTION public.receive_stock_transfer(p_stock_transfer_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target record;
+  line record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT id, status, to_warehouse_location_id INTO target
+  FROM public.stock_transfers
+  WHERE id = p_stock_transfer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock transfer not found';
+  END IF;
+
+  IF target.status <> 'in_transit' THEN
+    RAISE EXCEPTION 'Only transfers in transit can be received';
+  END IF;
+
+  PERFORM public.set_stock_movement_context('transfer', NULL, NULL, NULL, NULL, p_stock_transfer_id);
+
+  FOR line IN
+    SELECT inv.id, sti.quantity
+    FROM public.stock_transfer_items sti
+    JOIN public.inventory inv ON inv.id = sti.inventory_item_id
+    WHERE sti.stock_transfer_id = p_stock_transfer_id
+    ORDER BY inv.id
+    FOR UPDATE OF inv
+  LOOP
+    PERFORM public.add_inventory_stock(line.id, target.to_warehouse_location_id, line.quantity);
+  END LOOP;
+
+  UPDATE public.stock_transfers
+  SET status = 'received',
+      received_at = now(),
+      updated_at = now()
+  WHERE id = p_stock_transfer_id;
+END;
+$$;
+
+-- Call off a transfer that never arrived and put the stock back at the source
+CREATE OR REPLACE FUNCTION public.cancel_stock_transfer(p_stock_transfer_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target record;
+  line record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT id, transfer_number, status, from_warehouse_location_id INTO target
+  FROM public.stock_transfers
+  WHERE id = p_stock_transfer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock transfer not found';
+  END IF;
+
+  IF target.status <> 'in_transit' THEN
+    RAISE EXCEPTION 'Only transfers in transit can be cancelled';
+  END IF;
+
+  PERFORM public.set_stock_movement_context(
+    'transfer', NULL, NULL,
+    'Transfer ' || target.transfer_number || ' cancelled',
+    NULL,
+    p_stock_transfer_id
+  );
+
+  FOR line IN
+    SELECT inv.id, sti.quantity
+    FROM public.stock_transfer_items sti
+    JOIN public.inventory inv ON inv.id = sti.inventory_item_id
+    WHERE sti.stock_transfer_id = p_stock_transfer_id
+    ORDER BY inv.id
+    FOR UPDATE OF inv
+  LOOP
+    PERFORM public.add_inventory_stock(line.id, target.from_warehouse_location_id, line.quantity);
+  END LOOP;
+
+  UPDATE public.stock_transfers
+  SET status = 'cancelled',
+      updated_at = now()
+  WHERE id = p_stock_transfer_id;
+END;
+$$;
@@ -0,0 +1,372 @@
+-- Cost price and cost of goods sold. inventory.cost_price is the weighted
+-- average purchase cost of the units on hand: every delivery is blended in at
+-- what it cost, while sales, returns, transfers and corrections leave it as it
+-- is. Each invoice line snapshots the average cost when it is sold, so gross
+-- margin for past sales does not move when later deliveries cost more.
+
+ALTER TABLE public.inventory
+  ADD COLUMN IF NOT EXISTS cost_price NUMERIC NOT NULL DEFAULT 0 CHECK (cost_price >= 0);
+
+-- NULL means the cost is not known, as on lines typed in without an item
+ALTER TABLE public.invoice_items
+  ADD COLUMN IF NOT EXISTS unit_cost NUMERIC CHECK (unit_cost >= 0);
+
+-- Start each item at the average of what has been received against purchase
+-- orders so far
+UPDATE public.inventory inv
+SET cost_price = ROUND(received.cost, 2)
+FROM (
+  SELECT inventory_item_id, SUM(quantity_received * unit_cost) / SUM(quantity_received) AS cost
+  FROM public.purchase_order_items
+  WHERE quantity_received > 0
+  GROUP BY inventory_item_id
+) received
+WHERE received.inventory_item_id = inv.id;
+
+-- Past sales have no record of what they cost, so the current average is the
+-- best estimate there is
+UPDATE public.invoice_items ii
+SET unit_cost = inv.cost_price
+FROM public.inventory inv
+WHERE inv.id = ii.inventory_item_id
+AND ii.unit_cost IS NULL;
+
+-- Lines that do not bring their own cost are sold at the item's average cost
+CREATE OR REPLACE FUNCTION public.snapshot_invoice_item_cost()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.unit_cost IS NULL AND NEW.inventory_item_id IS NOT NULL THEN
+    SELECT cost_price INTO NEW.unit_cost
+    FROM public.inventory
+    WHERE id = NEW.inventory_item_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_invoice_items_snapshot_cost ON public.invoice_items;
+CREATE TRIGGER trg_invoice_items_snapshot_cost
+  BEFORE INSERT ON public.invoice_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.snapshot_invoice_item_cost();
+
+-- Blend a delivery into the item's average cost. Call before the stock is
+-- added, with the inventory row locked. Goods in transit between locations
+-- are still ours, so they count towards the units already held.
+CREATE OR REPLACE FUNCTION public.apply_receipt_cost(p_inventory_item_id uuid, p_quantity numeric, p_unit_cost numeric)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  held numeric;
+BEGIN
+  IF p_unit_cost IS NULL OR p_quantity IS NULL OR p_quantity <= 0 THEN
+    RETURN;
+  END IF;
+
+  IF p_unit_cost < 0 THEN
+    RAISE EXCEPTION 'Unit cost cannot be negative';
+  END IF;
+
+  SELECT GREATEST(inv.quantity, 0) + COALESCE((
+    SELECT SUM(sti.quantity)
+    FROM public.stock_transfer_items sti
+    JOIN public.stock_transfers st ON st.id = sti.stock_transfer_id
+    WHERE st.status = 'in_transit'
+    AND sti.inventory_item_id = inv.id
+  ), 0) INTO held
+  FROM public.inventory inv
+  WHERE inv.id = p_inventory_item_id;
+
+  UPDATE public.inventory
+  SET cost_price = ROUND((held * cost_price + p_quantity * p_unit_cost) / (held + p_quantity), 2),
+      updated_at = now()
+  WHERE id = p_inventory_item_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_receipt_cost(uuid, numeric, numeric) FROM PUBLIC, anon, authenticated;
+
+-- Deliveries booked outside a purchase order can say what they cost
+DROP FUNCTION IF EXISTS public.receive_inventory_stock(uuid, uuid, integer, text);
+
+CREATE OR REPLACE FUNCTION public.receive_inventory_stock(
+  p_inventory_id uuid,
+  p_warehouse_location_id uuid,
+  p_quantity integer,
+  p_reason text,
+  p_unit_cost numeric DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Received quantity must be greater than zero';
+  END IF;
+
+  PERFORM 1
+  FROM public.inventory
+  WHERE id = p_inventory_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory item not found';
+  END IF;
+
+  PERFORM public.apply_receipt_cost(p_inventory_id, p_quantity, p_unit_cost);
+  PERFORM public.set_stock_movement_context('receipt', NULL, NULL, NULLIF(btrim(p_reason), ''));
+  PERFORM public.add_inventory_stock(p_inventory_id, p_warehouse_location_id, p_quantity);
+END;
+$$;
+
+-- Each delivery is costed at the price on the order line
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(p_purchase_order_id uuid, p_items jsonb, p_reference text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target record;
+  line record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Enter a received quantity for at least one line';
+  END IF;
+
+  SELECT id, po_number, status, warehouse_location_id INTO target
+  FROM public.purchase_orders
+  WHERE id = p_purchase_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF target.status = 'draft' THEN
+    RAISE EXCEPTION 'Mark the purchase order as sent before receiving deliveries';
+  END IF;
+
+  IF target.status = 'received' THEN
+    RAISE EXCEPTION 'This purchase order has already been received in full';
+  END IF;
+
+  IF target.warehouse_location_id IS NULL THEN
+    RAISE EXCEPTION 'Choose the warehouse location this order is delivered to before receiving it';
+  END IF;
+
+  -- The order row lock above keeps two deliveries against the same order
+  -- from both passing these checks
+  FOR line IN
+    SELECT poi.id, poi.description, poi.quantity_ordered, poi.quantity_received, req.quantity
+    FROM (
+      SELECT (item->>'purchase_order_item_id')::uuid AS purchase_order_item_id,
+             SUM((item->>'quantity')::integer) AS quantity
+      FROM jsonb_array_elements(p_items) AS item
+      GROUP BY 1
+    ) req
+    LEFT JOIN public.purchase_order_items poi
+      ON poi.id = req.purchase_order_item_id AND poi.purchase_order_id = p_purchase_order_id
+  LOOP
+    IF line.id IS NULL THEN
+      RAISE EXCEPTION 'Received lines must come from this purchase order';
+    END IF;
+
+    IF line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Received quantity for % must be greater than zero', line.description;
+    END IF;
+
+    IF line.quantity_received + line.quantity > line.quantity_ordered THEN
+      RAISE EXCEPTION 'Only % units of % are still outstanding, but % received',
+        line.quantity_ordered - line.quantity_received, line.description, line.quantity;
+    END IF;
+  END LOOP;
+
+  PERFORM public.set_stock_movement_context(
+    'receipt', NULL, NULL,
+    NULLIF(btrim(p_reference), ''),
+    p_purchase_order_id
+  );
+
+  -- Lock the stock rows in a stable order, as invoicing does
+  FOR line IN
+    SELECT poi.id, poi.inventory_item_id, poi.unit_cost, req.quantity
+    FROM (
+      SELECT (item->>'purchase_order_item_id')::uuid AS purchase_order_item_id,
+             SUM((item->>'quantity')::integer) AS quantity
+      FROM jsonb_array_elements(p_items) AS item
+      GROUP BY 1
+    ) req
+    JOIN public.purchase_order_items poi ON poi.id = req.purchase_order_item_id
+    JOIN public.inventory inv ON inv.id = poi.inventory_item_id
+    ORDER BY inv.id
+    FOR UPDATE OF inv
+  LOOP
+    UPDATE public.purchase_order_items
+    SET quantity_received = quantity_received + line.quantity
+    WHERE id = line.id;
+
+    PERFORM public.apply_receipt_cost(line.inventory_item_id, line.quantity, line.unit_cost);
+    PERFORM public.add_inventory_stock(line.inventory_item_id, target.warehouse_location_id, line.quantity);
+  END LOOP;
+
+  UPDATE public.purchase_orders
+  SET status = CASE
+        WHEN EXISTS (
+          SELECT 1 FROM public.purchase_order_items
+          WHERE purchase_order_id = p_purchase_order_id
+          AND quantity_received < quantity_ordered
+        ) THEN 'partially_received'
+        ELSE 'received'
+      END,
+      updated_at = now()
+  WHERE id = p_purchase_order_id;
+END;
+$$;
+
+-- Lines are replaced on every save, so items that were already on the invoice
+-- keep the cost they were sold at; new ones pick up today's average cost
+CREATE OR REPLACE FUNCTION public.update_invoice_with_items(p_invoice_id uuid, p_invoice jsonb, p_items jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  backdated boolean;
+  current_status text;
+  resolved_items jsonb;
+  previous_costs jsonb;
+  stock record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line item';
+  END IF;
+
+  SELECT is_backdated, status INTO backdated, current_status
+  FROM public.invoices
+  WHERE id = p_invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF current_status = 'void' THEN
+    RAISE EXCEPTION 'Void invoices cannot be edited';
+  END IF;
+
+  resolved_items := public.resolve_line_stock_locations(p_items);
+
+  -- Backdated invoices record historical sales and never touched stock
+  IF NOT COALESCE(backdated, false) THEN
+    -- Positive delta means more of the item is being sold from that location,
+    -- negative means stock goes back on the shelf there
+    FOR stock IN
+      SELECT inv.id, changes.warehouse_location_id, changes.delta
+      FROM (
+        SELECT line.inventory_item_id, line.warehouse_location_id, SUM(line.quantity) AS delta
+        FROM (
+          SELECT NULLIF(item->>'inventory_item_id', '')::uuid AS inventory_item_id,
+                 NULLIF(item->>'warehouse_location_id', '')::uuid AS warehouse_location_id,
+                 (item->>'quantity')::numeric AS quantity
+          FROM jsonb_array_elements(resolved_items) AS item
+          UNION ALL
+          SELECT ii.inventory_item_id,
+                 COALESCE(ii.warehouse_location_id, public.default_stock_location(ii.inventory_item_id)),
+                 -ii.quantity
+          FROM public.invoice_items ii
+          WHERE ii.invoice_id = p_invoice_id
+        ) line
+        WHERE line.inventory_item_id IS NOT NULL
+        GROUP BY line.inventory_item_id, line.warehouse_location_id
+        HAVING SUM(line.quantity) <> 0
+      ) changes
+      JOIN public.inventory inv ON inv.id = changes.inventory_item_id
+      ORDER BY inv.id, changes.warehouse_location_id
+      FOR UPDATE OF inv
+    LOOP
+      IF stock.delta > 0 THEN
+        PERFORM public.set_stock_movement_context('sale', p_invoice_id);
+        PERFORM public.take_inventory_stock(stock.id, stock.warehouse_location_id, stock.delta);
+      ELSE
+        PERFORM public.set_stock_movement_context('return', p_invoice_id, NULL, 'Removed from invoice');
+        PERFORM public.add_inventory_stock(stock.id, stock.warehouse_location_id, -stock.delta);
+      END IF;
+    END LOOP;
+  END IF;
+
+  SELECT jsonb_object_agg(costs.inventory_item_id, costs.unit_cost) INTO previous_costs
+  FROM (
+    SELECT inventory_item_id, MAX(unit_cost) AS unit_cost
+    FROM public.invoice_items
+    WHERE invoice_id = p_invoice_id
+    AND inventory_item_id IS NOT NULL
+    AND unit_cost IS NOT NULL
+    GROUP BY inventory_item_id
+  ) costs;
+
+  DELETE FROM public.invoice_items
+  WHERE invoice_id = p_invoice_id;
+
+  INSERT INTO public.invoice_items (
+    invoice_id, inventory_item_id, warehouse_location_id, description, quantity, unit_price, unit_cost, line_total,
+    tax_rate, tax_amount, discount_type, discount_value, discount_amount
+  )
+  SELECT
+    p_invoice_id,
+    NULLIF(item->>'inventory_item_id', '')::uuid,
+    NULLIF(item->>'warehouse_location_id', '')::uuid,
+    item->>'description',
+    (item->>'quantity')::numeric,
+    (item->>'unit_price')::numeric,
+    (previous_costs->>(item->>'inventory_item_id'))::numeric,
+    COALESCE((item->>'line_total')::numeric, (item->>'quantity')::numeric * (item->>'unit_price')::numeric),
+    COALESCE((item->>'tax_rate')::numeric, 0),
+    COALESCE((item->>'tax_amount')::numeric, 0),
+    COALESCE(item->>'discount_type', 'percentage'),
+    COALESCE((item->>'discount_value')::numeric, 0),
+    COALESCE((item->>'discount_amount')::numeric, 0)
+  FROM jsonb_array_elements(resolved_items) AS item;
+
+  UPDATE public.invoices
+  SET client_id = (p_invoice->>'client_id')::uuid,
+      invoice_number = p_invoice->>'invoice_number',
+      issue_date = (p_invoice->>'issue_date')::date,
+      due_date = (p_invoice->>'due_date')::date,
+      notes = p_invoice->>'notes',
+      status = COALESCE(p_invoice->>'status', status),
+      subtotal = COALESCE((p_invoice->>'subtotal')::numeric, 0),
+      discount_type = COALESCE(p_invoice->>'discount_type', 'percentage'),
+      discount_value = COALESCE((p_invoice->>'discount_value')::numeric, 0),
+      discount_amount = COALESCE((p_invoice->>'discount_amount')::numeric, 0),
+      tax_amount = COALESCE((p_invoice->>'tax_amount')::numeric, 0),
+      wht_rate = COALESCE((p_invoice->>'wht_rate')::numeric, 0),
+      wht_amount = COALESCE((p_invoice->>'wht_amount')::numeric, 0),
+      total_amount = COALESCE((p_invoice->>'total_amount')::numeric, 0),
+      updated_at = now()
+  WHERE id = p_invoice_id;
+END;
+$$;
@@ -0,0 +1,28 @@
+-- Reorder points per item. Low stock used to mean fewer than 25 of anything,
+-- which is far too many 12m I-beams and nowhere near enough bolts.
+-- reorder_level is the quantity below which an item counts as low stock, and
+-- reorder_quantity is how many to buy when it gets there. 0 means top it back
+-- up to the reorder level. The default of 25 keeps every item's status as it
+-- was until someone sets its own level.
+
+ALTER TABLE public.inventory
+  ADD COLUMN IF NOT EXISTS reorder_level INTEGER NOT NULL DEFAULT 25 CHECK (reorder_level >= 0),
+  ADD COLUMN IF NOT EXISTS reorder_quantity INTEGER NOT NULL DEFAULT 0 CHECK (reorder_quantity >= 0);
+
+CREATE OR REPLACE FUNCTION public.update_inventory_status()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SET search_path = ''
+AS $function$
+BEGIN
+  IF NEW.quantity <= 0 THEN
+    NEW.status = 'out_of_stock';
+  ELSIF NEW.quantity < NEW.reorder_level THEN
+    NEW.status = 'low_stock';
+  ELSE
+    NEW.status = 'in_stock';
+  END IF;
+  
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,257 @@
+-- Stocktakes. A count is started for one warehouse location, which freezes
+-- what the system expects to be on each shelf there. Counts are entered
+-- against that snapshot (by hand or from a CSV of the count sheets), the
+-- variances reviewed, and then posted as stock adjustments in one go.
+--
+-- Sales and deliveries carry on while the yard is being counted, so posting
+-- applies the variance (counted minus expected) to whatever is on hand at
+-- the time rather than overwriting it with the counted figure.
+
+CREATE SEQUENCE IF NOT EXISTS public.stocktake_number_seq;
+
+CREATE TABLE public.stocktakes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users NOT NULL,
+  stocktake_number TEXT NOT NULL UNIQUE DEFAULT 'ST-' || lpad(nextval('public.stocktake_number_seq')::text, 4, '0'),
+  warehouse_location_id UUID REFERENCES public.warehouse_locations(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'counting' CHECK (status IN ('counting', 'posted', 'cancelled')),
+  notes TEXT,
+  -- The people who did the count, as written on the count sheets
+  counted_by TEXT,
+  counted_at TIMESTAMP WITH TIME ZONE,
+  -- The user who reviewed the variances and posted them
+  approved_by UUID REFERENCES auth.users,
+  approved_by_email TEXT,
+  posted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One count at a time per location
+CREATE UNIQUE INDEX idx_stocktakes_open_location
+ON public.stocktakes(warehouse_location_id)
+WHERE status = 'counting';
+
+-- expected_quantity and unit_cost are frozen when the count starts.
+-- counted_quantity stays NULL until the item has been counted.
+CREATE TABLE public.stocktake_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  stocktake_id UUID NOT NULL REFERENCES public.stocktakes(id) ON DELETE CASCADE,
+  inventory_item_id UUID NOT NULL REFERENCES public.inventory(id) ON DELETE CASCADE,
+  expected_quantity INTEGER NOT NULL DEFAULT 0,
+  counted_quantity INTEGER CHECK (counted_quantity >= 0),
+  unit_cost NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (stocktake_id, inventory_item_id)
+);
+
+ALTER TABLE public.stocktakes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stocktake_items ENABLE ROW LEVEL SECURITY;
+
+-- Stocktakes only change through the functions below
+CREATE POLICY "Authenticated users can view all stocktakes"
+ON public.stocktakes
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can view all stocktake items"
+ON public.stocktake_items
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+-- Start a count at one location. The sheet lists every item held there, plus
+-- items that call it their default location even if none are left.
+CREATE OR REPLACE FUNCTION public.create_stocktake(p_warehouse_location_id uuid, p_notes text DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_stocktake_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_warehouse_location_id IS NULL THEN
+    RAISE EXCEPTION 'Choose the warehouse location being counted';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.stocktakes
+    WHERE warehouse_location_id = p_warehouse_location_id
+    AND status = 'counting'
+  ) THEN
+    RAISE EXCEPTION 'A stocktake is already in progress at this location';
+  END IF;
+
+  INSERT INTO public.stocktakes (user_id, warehouse_location_id, notes)
+  VALUES (auth.uid(), p_warehouse_location_id, NULLIF(btrim(p_notes), ''))
+  RETURNING id INTO new_stocktake_id;
+
+  INSERT INTO public.stocktake_items (stocktake_id, inventory_item_id, expected_quantity, unit_cost)
+  SELECT new_stocktake_id, inv.id, COALESCE(s.quantity, 0), inv.cost_price
+  FROM public.inventory inv
+  LEFT JOIN public.inventory_stock s
+    ON s.inventory_item_id = inv.id AND s.warehouse_location_id = p_warehouse_location_id
+  WHERE s.quantity > 0
+  OR inv.warehouse_location_id = p_warehouse_location_id;
+
+  RETURN new_stocktake_id;
+END;
+$$;
+
+-- Record counted quantities. p_counts holds inventory_item_id and
+-- counted_quantity for each item; a NULL count clears it. Items found that
+-- were not on the sheet are added, expecting what the system holds now.
+CREATE OR REPLACE FUNCTION public.save_stocktake_counts(p_stocktake_id uuid, p_counts jsonb, p_counted_by text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT id, status, warehouse_location_id INTO target
+  FROM public.stocktakes
+  WHERE id = p_stocktake_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake not found';
+  END IF;
+
+  IF target.status <> 'counting' THEN
+    RAISE EXCEPTION 'Counts can only be changed while the stocktake is in progress';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(p_counts, '[]'::jsonb)) AS item
+    WHERE (item->>'counted_quantity')::integer < 0
+  ) THEN
+    RAISE EXCEPTION 'Counted quantities cannot be negative';
+  END IF;
+
+  INSERT INTO public.stocktake_items (stocktake_id, inventory_item_id, expected_quantity, counted_quantity, unit_cost)
+  SELECT p_stocktake_id, inv.id, COALESCE(s.quantity, 0), counts.counted_quantity, inv.cost_price
+  FROM (
+    SELECT DISTINCT ON ((item->>'inventory_item_id')::uuid)
+           (item->>'inventory_item_id')::uuid AS inventory_item_id,
+           (item->>'counted_quantity')::integer AS counted_quantity
+    FROM jsonb_array_elements(COALESCE(p_counts, '[]'::jsonb)) AS item
+  ) counts
+  JOIN public.inventory inv ON inv.id = counts.inventory_item_id
+  LEFT JOIN public.inventory_stock s
+    ON s.inventory_item_id = inv.id AND s.warehouse_location_id = target.warehouse_location_id
+  ON CONFLICT (stocktake_id, inventory_item_id)
+  DO UPDATE SET counted_quantity = EXCLUDED.counted_quantity,
+                updated_at = now();
+
+  UPDATE public.stocktakes
+  SET counted_by = COALESCE(NULLIF(btrim(p_counted_by), ''), counted_by),
+      counted_at = now(),
+      updated_at = now()
+  WHERE id = p_stocktake_id;
+END;
+$$;
+
+-- Post the variances as adjustments at the counted location. Items that were
+-- never counted are left as they are.
+CREATE OR REPLACE FUNCTION public.post_stocktake(p_stocktake_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target record;
+  line record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT id, stocktake_number, status, warehouse_location_id INTO target
+  FROM public.stocktakes
+  WHERE id = p_stocktake_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake not found';
+  END IF;
+
+  IF target.status <> 'counting' THEN
+    RAISE EXCEPTION 'Only stocktakes in progress can be posted';
+  END IF;
+
+  IF target.warehouse_location_id IS NULL THEN
+    RAISE EXCEPTION 'The location counted in this stocktake has been removed';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.stocktake_items
+    WHERE stocktake_id = p_stocktake_id
+    AND counted_quantity IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Enter at least one counted quantity before posting';
+  END IF;
+
+  PERFORM public.set_stock_movement_context('adjustment', NULL, NULL, 'Stocktake ' || target.stocktake_number);
+
+  FOR line IN
+    SELECT inv.id, sti.counted_quantity - sti.expected_quantity AS variance
+    FROM public.stocktake_items sti
+    JOIN public.inventory inv ON inv.id = sti.inventory_item_id
+    WHERE sti.stocktake_id = p_stocktake_id
+    AND sti.counted_quantity IS NOT NULL
+    AND sti.counted_quantity <> sti.expected_quantity
+    ORDER BY inv.id
+    FOR UPDATE OF inv
+  LOOP
+    IF line.variance > 0 THEN
+      PERFORM public.add_inventory_stock(line.id, target.warehouse_location_id, line.variance);
+    ELSE
+      PERFORM public.take_inventory_stock(line.id, target.warehouse_location_id, -line.variance);
+    END IF;
+  END LOOP;
+
+  UPDATE public.stocktakes
+  SET status = 'posted',
+      approved_by = auth.uid(),
+      approved_by_email = auth.jwt()->>'email',
+      posted_at = now(),
+      updated_at = now()
+  WHERE id = p_stocktake_id;
+END;
+$$;
+
+-- Abandon a count without touching stock
+CREATE OR REPLACE FUNCTION public.cancel_stocktake(p_stocktake_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  UPDATE public.stocktakes
+  SET status = 'cancelled',
+      updated_at = now()
+  WHERE id = p_stocktake_id
+  AND status = 'counting';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only stocktakes in progress can be cancelled';
+  END IF;
+END;
+$$;
@@ -0,0 +1,257 @@
+-- Steel dimensions and weight-based pricing. Items can record the section
+-- they are and its dimensions, from which the app works out the theoretical
+-- weight of a piece. Invoice lines still count pieces, since that is what
+-- leaves the yard and comes off stock, but can be priced per kg, per tonne or
+-- per metre of those pieces instead.
+
+ALTER TABLE public.inventory
+  ADD COLUMN IF NOT EXISTS section_type TEXT CHECK (section_type IN ('plate', 'sheet', 'pipe', 'angle', 'channel')),
+  ADD COLUMN IF NOT EXISTS gauge INTEGER CHECK (gauge > 0),
+  ADD COLUMN IF NOT EXISTS thickness_mm NUMERIC CHECK (thickness_mm > 0),
+  ADD COLUMN IF NOT EXISTS width_mm NUMERIC CHECK (width_mm > 0),
+  ADD COLUMN IF NOT EXISTS height_mm NUMERIC CHECK (height_mm > 0),
+  ADD COLUMN IF NOT EXISTS outer_diameter_mm NUMERIC CHECK (outer_diameter_mm > 0),
+  ADD COLUMN IF NOT EXISTS length_m NUMERIC CHECK (length_m > 0),
+  ADD COLUMN IF NOT EXISTS grade TEXT;
+
+-- unit_price is per pricing_unit. The weight and length of one piece are
+-- copied onto the line when it is sold, so the invoice keeps its weight if
+-- the item's dimensions are corrected later.
+ALTER TABLE public.invoice_items
+  ADD COLUMN IF NOT EXISTS pricing_unit TEXT NOT NULL DEFAULT 'piece' CHECK (pricing_unit IN ('piece', 'kg', 'tonne', 'metre')),
+  ADD COLUMN IF NOT EXISTS unit_weight_kg NUMERIC CHECK (unit_weight_kg > 0),
+  ADD COLUMN IF NOT EXISTS unit_length_m NUMERIC CHECK (unit_length_m > 0);
+
+ALTER TABLE public.invoice_items
+  ADD CONSTRAINT invoice_items_pricing_measure_check CHECK (
+    (pricing_unit NOT IN ('kg', 'tonne') OR unit_weight_kg IS NOT NULL)
+    AND (pricing_unit <> 'metre' OR unit_length_m IS NOT NULL)
+  );
+
+-- Both save paths store the pricing unit and piece measurements sent with
+-- each line
+CREATE OR REPLACE FUNCTION public.create_invoice_with_items(p_invoice jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_invoice_id uuid;
+  resolved_items jsonb;
+  stock record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line item';
+  END IF;
+
+  resolved_items := public.resolve_line_stock_locations(p_items);
+
+  INSERT INTO public.invoices (
+    user_id, client_id, invoice_number, issue_date, due_date, notes, status,
+    subtotal, discount_type, discount_value, discount_amount,
+    tax_amount, wht_rate, wht_amount, total_amount, is_backdated
+  )
+  VALUES (
+    auth.uid(),
+    (p_invoice->>'client_id')::uuid,
+    p_invoice->>'invoice_number',
+    (p_invoice->>'issue_date')::date,
+    (p_invoice->>'due_date')::date,
+    p_invoice->>'notes',
+    COALESCE(p_invoice->>'status', 'draft'),
+    COALESCE((p_invoice->>'subtotal')::numeric, 0),
+    COALESCE(p_invoice->>'discount_type', 'percentage'),
+    COALESCE((p_invoice->>'discount_value')::numeric, 0),
+    COALESCE((p_invoice->>'discount_amount')::numeric, 0),
+    COALESCE((p_invoice->>'tax_amount')::numeric, 0),
+    COALESCE((p_invoice->>'wht_rate')::numeric, 0),
+    COALESCE((p_invoice->>'wht_amount')::numeric, 0),
+    COALESCE((p_invoice->>'total_amount')::numeric, 0),
+    false
+  )
+  RETURNING id INTO new_invoice_id;
+
+  PERFORM public.set_stock_movement_context('sale', new_invoice_id);
+
+  -- Lock every inventory row being sold in a stable order, so two clerks
+  -- selling the same item queue behind each other instead of overselling
+  FOR stock IN
+    SELECT inv.id, req.warehouse_location_id, req.requested
+    FROM (
+      SELECT (item->>'inventory_item_id')::uuid AS inventory_item_id,
+             NULLIF(item->>'warehouse_location_id', '')::uuid AS warehouse_location_id,
+             SUM((item->>'quantity')::numeric) AS requested
+      FROM jsonb_array_elements(resolved_items) AS item
+      WHERE NULLIF(item->>'inventory_item_id', '') IS NOT NULL
+      GROUP BY 1, 2
+    ) req
+    JOIN public.inventory inv ON inv.id = req.inventory_item_id
+    ORDER BY inv.id, req.warehouse_location_id
+    FOR UPDATE OF inv
+  LOOP
+    PERFORM public.take_inventory_stock(stock.id, stock.warehouse_location_id, stock.requested);
+  END LOOP;
+
+  -- items_summary is filled in by the invoice_items summary trigger
+  INSERT INTO public.invoice_items (
+    invoice_id, inventory_item_id, warehouse_location_id, description, quantity, unit_price,
+    pricing_unit, unit_weight_kg, unit_length_m, line_total,
+    tax_rate, tax_amount, discount_type, discount_value, discount_amount
+  )
+  SELECT
+    new_invoice_id,
+    NULLIF(item->>'inventory_item_id', '')::uuid,
+    NULLIF(item->>'warehouse_location_id', '')::uuid,
+    item->>'description',
+    (item->>'quantity')::numeric,
+    (item->>'unit_price')::numeric,
+    COALESCE(NULLIF(item->>'pricing_unit', ''), 'piece'),
+    (item->>'unit_weight_kg')::numeric,
+    (item->>'unit_length_m')::numeric,
+    COALESCE((item->>'line_total')::numeric, (item->>'quantity')::numeric * (item->>'unit_price')::numeric),
+    COALESCE((item->>'tax_rate')::numeric, 0),
+    COALESCE((item->>'tax_amount')::numeric, 0),
+    COALESCE(item->>'discount_type', 'percentage'),
+    COALESCE((item->>'discount_value')::numeric, 0),
+    COALESCE((item->>'discount_amount')::numeric, 0)
+  FROM jsonb_array_elements(resolved_items) AS item;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_invoice_with_items(p_invoice_id uuid, p_invoice jsonb, p_items jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  backdated boolean;
+  current_status text;
+  resolved_items jsonb;
+  previous_costs jsonb;
+  stock record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line item';
+  END IF;
+
+  SELECT is_backdated, status INTO backdated, current_status
+  FROM public.invoices
+  WHERE id = p_invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF current_status = 'void' THEN
+    RAISE EXCEPTION 'Void invoices cannot be edited';
+  END IF;
+
+  resolved_items := public.resolve_line_stock_locations(p_items);
+
+  -- Backdated invoices record historical sales and never touched stock
+  IF NOT COALESCE(backdated, false) THEN
+    -- Positive delta means more of the item is being sold from that location,
+    -- negative means stock goes back on the shelf there
+    FOR stock IN
+      SELECT inv.id, changes.warehouse_location_id, changes.delta
+      FROM (
+        SELECT line.inventory_item_id, line.warehouse_location_id, SUM(line.quantity) AS delta
+        FROM (
+          SELECT NULLIF(item->>'inventory_item_id', '')::uuid AS inventory_item_id,
+                 NULLIF(item->>'warehouse_location_id', '')::uuid AS warehouse_location_id,
+                 (item->>'quantity')::numeric AS quantity
+          FROM jsonb_array_elements(resolved_items) AS item
+          UNION ALL
+          SELECT ii.inventory_item_id,
+                 COALESCE(ii.warehouse_location_id, public.default_stock_location(ii.inventory_item_id)),
+                 -ii.quantity
+          FROM public.invoice_items ii
+          WHERE ii.invoice_id = p_invoice_id
+        ) line
+        WHERE line.inventory_item_id IS NOT NULL
+        GROUP BY line.inventory_item_id, line.warehouse_location_id
+        HAVING SUM(line.quantity) <> 0
+      ) changes
+      JOIN public.inventory inv ON inv.id = changes.inventory_item_id
+      ORDER BY inv.id, changes.warehouse_location_id
+      FOR UPDATE OF inv
+    LOOP
+      IF stock.delta > 0 THEN
+        PERFORM public.set_stock_movement_context('sale', p_invoice_id);
+        PERFORM public.take_inventory_stock(stock.id, stock.warehouse_location_id, stock.delta);
+      ELSE
+        PERFORM public.set_stock_movement_context('return', p_invoice_id, NULL, 'Removed from invoice');
+        PERFORM public.add_inventory_stock(stock.id, stock.warehouse_location_id, -stock.delta);
+      END IF;
+    END LOOP;
+  END IF;
+
+  SELECT jsonb_object_agg(costs.inventory_item_id, costs.unit_cost) INTO previous_costs
+  FROM (
+    SELECT inventory_item_id, MAX(unit_cost) AS unit_cost
+    FROM public.invoice_items
+    WHERE invoice_id = p_invoice_id
+    AND inventory_item_id IS NOT NULL
+    AND unit_cost IS NOT NULL
+    GROUP BY inventory_item_id
+  ) costs;
+
+  DELETE FROM public.invoice_items
+  WHERE invoice_id = p_invoice_id;
+
+  INSERT INTO public.invoice_items (
+    invoice_id, inventory_item_id, warehouse_location_id, description, quantity, unit_price,
+    pricing_unit, unit_weight_kg, unit_length_m, unit_cost, line_total,
+    tax_rate, tax_amount, discount_type, discount_value, discount_amount
+  )
+  SELECT
+    p_invoice_id,
+    NULLIF(item->>'inventory_item_id', '')::uuid,
+    NULLIF(item->>'warehouse_location_id', '')::uuid,
+    item->>'description',
+    (item->>'quantity')::numeric,
+    (item->>'unit_price')::numeric,
+    COALESCE(NULLIF(item->>'pricing_unit', ''), 'piece'),
+    (item->>'unit_weight_kg')::numeric,
+    (item->>'unit_length_m')::numeric,
+    (previous_costs->>(item->>'inventory_item_id'))::numeric,
+    COALESCE((item->>'line_total')::numeric, (item->>'quantity')::numeric * (item->>'unit_price')::numeric),
+    COALESCE((item->>'tax_rate')::numeric, 0),
+    COALESCE((item->>'tax_amount')::numeric, 0),
+    COALESCE(item->>'discount_type', 'percentage'),
+    COALESCE((item->>'discount_value')::numeric, 0),
+    COALESCE((item->>'discount_amount')::numeric, 0)
+  FROM jsonb_array_elements(resolved_items) AS item;
+
+  UPDATE public.invoices
+  SET client_id = (p_invoice->>'client_id')::uuid,
+      invoice_number = p_invoice->>'invoice_number',
+      issue_date = (p_invoice->>'issue_date')::date,
+      due_date = (p_invoice->>'due_date')::date,
+      notes = p_invoice->>'notes',
+      status = COALESCE(p_invoice->>'status', status),
+      subtotal = COALESCE((p_invoice->>'subtotal')::numeric, 0),
+      discount_type = COALESCE(p_invoice->>'discount_type', 'percentage'),
+      discount_value = COALESCE((p_invoice->>'discount_value')::numeric, 0),
+      discount_amount = COALESCE((p_invoice->>'discount_amount')::numeric, 0),
+      tax_amount = COALESCE((p_invoice->>'tax_amount')::numeric, 0),
+      wht_rate = COALESCE((p_invoice->>'wht_rate')::numeric, 0),
+      wht_amount = COALESCE((p_invoice->>'wht_amount')::numeric, 0),
+      total_amount = COALESCE((p_invoice->>'total_amount')::numeric, 0),
+      updated_at = now()
+  WHERE id = p_invoice_id;
+END;
+$$;
@@ -0,0 +1,337 @@
+-- Units of measure. Every item keeps its stock in a base unit (pcs, rods,
+-- kg...) and can list alternate units it is also sold in, each with how many
+-- base units it holds, e.g. 1 bundle = 10 rods or 1 tonne = 1000 kg.
+
+ALTER TABLE public.inventory
+  ADD COLUMN IF NOT EXISTS base_unit TEXT NOT NULL DEFAULT 'pcs' CHECK (btrim(base_unit) <> '');
+
+CREATE TABLE public.inventory_units (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  inventory_item_id UUID NOT NULL REFERENCES public.inventory(id) ON DELETE CASCADE,
+  unit_name TEXT NOT NULL CHECK (btrim(unit_name) <> ''),
+  -- Base units in one of this unit
+  factor NUMERIC NOT NULL CHECK (factor > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (inventory_item_id, unit_name)
+);
+
+ALTER TABLE public.inventory_units ENABLE ROW LEVEL SECURITY;
+
+-- Units only change through save_inventory_units
+CREATE POLICY "Authenticated users can view all inventory units"
+ON public.inventory_units
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+-- An invoice line records the unit it was sold in and its conversion at the
+-- time. quantity stays in the base unit, so stock, costs and credit notes
+-- carry on working in base units; the quantity sold is quantity / unit_factor.
+-- A NULL unit_name means the line was sold in the base unit.
+ALTER TABLE public.invoice_items
+  ADD COLUMN IF NOT EXISTS unit_name TEXT,
+  ADD COLUMN IF NOT EXISTS unit_factor NUMERIC NOT NULL DEFAULT 1 CHECK (unit_factor > 0);
+
+-- Replace an item's alternate units. p_units holds unit_name and factor for
+-- each; units already used on invoices are unaffected, as each line keeps its
+-- own copy of the conversion.
+CREATE OR REPLACE FUNCTION public.save_inventory_units(p_inventory_item_id uuid, p_units jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  item_base_unit text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT base_unit INTO item_base_unit
+  FROM public.inventory
+  WHERE id = p_inventory_item_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory item not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(p_units, '[]'::jsonb)) AS unit
+    WHERE NULLIF(btrim(unit->>'unit_name'), '') IS NULL
+    OR COALESCE((unit->>'factor')::numeric, 0) <= 0
+  ) THEN
+    RAISE EXCEPTION 'Every unit needs a name and a conversion greater than zero';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(p_units, '[]'::jsonb)) AS unit
+    WHERE lower(btrim(unit->>'unit_name')) = lower(item_base_unit)
+  ) THEN
+    RAISE EXCEPTION 'An alternate unit cannot have the same name as the base unit';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) <> COUNT(DISTINCT lower(btrim(unit->>'unit_name')))
+    FROM jsonb_array_elements(COALESCE(p_units, '[]'::jsonb)) AS unit
+  ) THEN
+    RAISE EXCEPTION 'Each unit can only be listed once';
+  END IF;
+
+  DELETE FROM public.inventory_units
+  WHERE inventory_item_id = p_inventory_item_id;
+
+  INSERT INTO public.inventory_units (inventory_item_id, unit_name, factor)
+  SELECT p_inventory_item_id, btrim(unit->>'unit_name'), (unit->>'factor')::numeric
+  FROM jsonb_array_elements(COALESCE(p_units, '[]'::jsonb)) AS unit;
+END;
+$$;
+
+-- Both save paths store the unit each line was sold in. Quantities arrive in
+-- the base unit and must come to a whole number of it, as stock is counted
+-- in whole base units.
+CREATE OR REPLACE FUNCTION public.create_invoice_with_items(p_invoice jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_invoice_id uuid;
+  resolved_items jsonb;
+  stock record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line item';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_items) AS item
+    WHERE NULLIF(item->>'inventory_item_id', '') IS NOT NULL
+    AND (item->>'quantity')::numeric <> trunc((item->>'quantity')::numeric)
+  ) THEN
+    RAISE EXCEPTION 'Each stock line must come to a whole number of the item''s base unit';
+  END IF;
+
+  resolved_items := public.resolve_line_stock_locations(p_items);
+
+  INSERT INTO public.invoices (
+    user_id, client_id, invoice_number, issue_date, due_date, notes, status,
+    subtotal, discount_type, discount_value, discount_amount,
+    tax_amount, wht_rate, wht_amount, total_amount, is_backdated
+  )
+  VALUES (
+    auth.uid(),
+    (p_invoice->>'client_id')::uuid,
+    p_invoice->>'invoice_number',
+    (p_invoice->>'issue_date')::date,
+    (p_invoice->>'due_date')::date,
+    p_invoice->>'notes',
+    COALESCE(p_invoice->>'status', 'draft'),
+    COALESCE((p_invoice->>'subtotal')::numeric, 0),
+    COALESCE(p_invoice->>'discount_type', 'percentage'),
+    COALESCE((p_invoice->>'discount_value')::numeric, 0),
+    COALESCE((p_invoice->>'discount_amount')::numeric, 0),
+    COALESCE((p_invoice->>'tax_amount')::numeric, 0),
+    COALESCE((p_invoice->>'wht_rate')::numeric, 0),
+    COALESCE((p_invoice->>'wht_amount')::numeric, 0),
+    COALESCE((p_invoice->>'total_amount')::numeric, 0),
+    false
+  )
+  RETURNING id INTO new_invoice_id;
+
+  PERFORM public.set_stock_movement_context('sale', new_invoice_id);
+
+  -- Lock every inventory row being sold in a stable order, so two clerks
+  -- selling the same item queue behind each other instead of overselling
+  FOR stock IN
+    SELECT inv.id, req.warehouse_location_id, req.requested
+    FROM (
+      SELECT (item->>'inventory_item_id')::uuid AS inventory_item_id,
+             NULLIF(item->>'warehouse_location_id', '')::uuid AS warehouse_location_id,
+             SUM((item->>'quantity')::numeric) AS requested
+      FROM jsonb_array_elements(resolved_items) AS item
+      WHERE NULLIF(item->>'inventory_item_id', '') IS NOT NULL
+      GROUP BY 1, 2
+    ) req
+    JOIN public.inventory inv ON inv.id = req.inventory_item_id
+    ORDER BY inv.id, req.warehouse_location_id
+    FOR UPDATE OF inv
+  LOOP
+    PERFORM public.take_inventory_stock(stock.id, stock.warehouse_location_id, stock.requested);
+  END LOOP;
+
+  -- items_summary is filled in by the invoice_items summary trigger
+  INSERT INTO public.invoice_items (
+    invoice_id, inventory_item_id, warehouse_location_id, description, quantity, unit_price,
+    unit_name, unit_factor, pricing_unit, unit_weight_kg, unit_length_m, line_total,
+    tax_rate, tax_amount, discount_type, discount_value, discount_amount
+  )
+  SELECT
+    new_invoice_id,
+    NULLIF(item->>'inventory_item_id', '')::uuid,
+    NULLIF(item->>'warehouse_location_id', '')::uuid,
+    item->>'description',
+    (item->>'quantity')::numeric,
+    (item->>'unit_price')::numeric,
+    NULLIF(btrim(item->>'unit_name'), ''),
+    COALESCE((item->>'unit_factor')::numeric, 1),
+    COALESCE(NULLIF(item->>'pricing_unit', ''), 'piece'),
+    (item->>'unit_weight_kg')::numeric,
+    (item->>'unit_length_m')::numeric,
+    COALESCE((item->>'line_total')::numeric, (item->>'quantity')::numeric * (item->>'unit_price')::numeric),
+    COALESCE((item->>'tax_rate')::numeric, 0),
+    COALESCE((item->>'tax_amount')::numeric, 0),
+    COALESCE(item->>'discount_type', 'percentage'),
+    COALESCE((item->>'discount_value')::numeric, 0),
+    COALESCE((item->>'discount_amount')::numeric, 0)
+  FROM jsonb_array_elements(resolved_items) AS item;
+
+  RETURN new_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_invoice_with_items(p_invoice_id uuid, p_invoice jsonb, p_items jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  backdated boolean;
+  current_status text;
+  resolved_items jsonb;
+  previous_costs jsonb;
+  stock record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line item';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_items) AS item
+    WHERE NULLIF(item->>'inventory_item_id', '') IS NOT NULL
+    AND (item->>'quantity')::numeric <> trunc((item->>'quantity')::numeric)
+  ) THEN
+    RAISE EXCEPTION 'Each stock line must come to a whole number of the item''s base unit';
+  END IF;
+
+  SELECT is_backdated, status INTO backdated, current_status
+  FROM public.invoices
+  WHERE id = p_invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF current_status = 'void' THEN
+    RAISE EXCEPTION 'Void invoices cannot be edited';
+  END IF;
+
+  resolved_items := public.resolve_line_stock_locations(p_items);
+
+  -- Backdated invoices record historical sales and never touched stock
+  IF NOT COALESCE(backdated, false) THEN
+    -- Positive delta means more of the item is being sold from that location,
+    -- negative means stock goes back on the shelf there
+    FOR stock IN
+      SELECT inv.id, changes.warehouse_location_id, changes.delta
+      FROM (
+        SELECT line.inventory_item_id, line.warehouse_location_id, SUM(line.quantity) AS delta
+        FROM (
+          SELECT NULLIF(item->>'inventory_item_id', '')::uuid AS inventory_item_id,
+                 NULLIF(item->>'warehouse_location_id', '')::uuid AS warehouse_location_id,
+                 (item->>'quantity')::numeric AS quantity
+          FROM jsonb_array_elements(resolved_items) AS item
+          UNION ALL
+          SELECT ii.inventory_item_id,
+                 COALESCE(ii.warehouse_location_id, public.default_stock_location(ii.inventory_item_id)),
+                 -ii.quantity
+          FROM public.invoice_items ii
+          WHERE ii.invoice_id = p_invoice_id
+        ) line
+        WHERE line.inventory_item_id IS NOT NULL
+        GROUP BY line.inventory_item_id, line.warehouse_location_id
+        HAVING SUM(line.quantity) <> 0
+      ) changes
+      JOIN public.inventory inv ON inv.id = changes.inventory_item_id
+      ORDER BY inv.id, changes.warehouse_location_id
+      FOR UPDATE OF inv
+    LOOP
+      IF stock.delta > 0 THEN
+        PERFORM public.set_stock_movement_context('sale', p_invoice_id);
+        PERFORM public.take_inventory_stock(stock.id, stock.warehouse_location_id, stock.delta);
+      ELSE
+        PERFORM public.set_stock_movement_context('return', p_invoice_id, NULL, 'Removed from invoice');
+        PERFORM public.add_inventory_stock(stock.id, stock.warehouse_location_id, -stock.delta);
+      END IF;
+    END LOOP;
+  END IF;
+
+  SELECT jsonb_object_agg(costs.inventory_item_id, costs.unit_cost) INTO previous_costs
+  FROM (
+    SELECT inventory_item_id, MAX(unit_cost) AS unit_cost
+    FROM public.invoice_items
+    WHERE invoice_id = p_invoice_id
+    AND inventory_item_id IS NOT NULL
+    AND unit_cost IS NOT NULL
+    GROUP BY inventory_item_id
+  ) costs;
+
+  DELETE FROM public.invoice_items
+  WHERE invoice_id = p_invoice_id;
+
+  INSERT INTO public.invoice_items (
+    invoice_id, inventory_item_id, warehouse_location_id, description, quantity, unit_price,
+    unit_name, unit_factor, pricing_unit, unit_weight_kg, unit_length_m, unit_cost, line_total,
+    tax_rate, tax_amount, discount_type, discount_value, discount_amount
+  )
+  SELECT
+    p_invoice_id,
+    NULLIF(item->>'inventory_item_id', '')::uuid,
+    NULLIF(item->>'warehouse_location_id', '')::uuid,
+    item->>'description',
+    (item->>'quantity')::numeric,
+    (item->>'unit_price')::numeric,
+    NULLIF(btrim(item->>'unit_name'), ''),
+    COALESCE((item->>'unit_factor')::numeric, 1),
+    COALESCE(NULLIF(item->>'pricing_unit', ''), 'piece'),
+    (item->>'unit_weight_kg')::numeric,
+    (item->>'unit_length_m')::numeric,
+    (previous_costs->>(item->>'inventory_item_id'))::numeric,
+    COALESCE((item->>'line_total')::numeric, (item->>'quantity')::numeric * (item->>'unit_price')::numeric),
+    COALESCE((item->>'tax_rate')::numeric, 0),
+    COALESCE((item->>'tax_amount')::numeric, 0),
+    COALESCE(item->>'discount_type', 'percentage'),
+    COALESCE((item->>'discount_value')::numeric, 0),
+    COALESCE((item->>'discount_amount')::numeric, 0)
+  FROM jsonb_array_elements(resolved_items) AS item;
+
+  UPDATE public.invoices
+  SET client_id = (p_invoice->>'client_id')::uuid,
+      invoice_number = p_invoice->>'invoice_number',
+      issue_date = (p_invoice->>'issue_date')::date,
+      due_date = (p_invoice->>'due_date')::date,
+      notes = p_invoice->>'notes',
+      status = COALESCE(p_invoice->>'status', status),
+      subtotal = COALESCE((p_invoice->>'subtotal')::numeric, 0),
+      discount_type = COALESCE(p_invoice->>'discount_type', 'percentage'),
+      discount_value = COALESCE((p_invoice->>'discount_value')::numeric, 0),
+      discount_amount = COALESCE((p_invoice->>'discount_amount')::numeric, 0),
+      tax_amount = COALESCE((p_invoice->>'tax_amount')::numeric, 0),
+      wht_rate = COALESCE((p_invoice->>'wht_rate')::numeric, 0),
+      wht_amount = COALESCE((p_invoice->>'wht_amount')::numeric, 0),
+      total_amount = COALESCE((p_invoice->>'total_amount')::numeric, 0),
+      updated_at = now()
+  WHERE id = p_invoice_id;
+END;
+$$;
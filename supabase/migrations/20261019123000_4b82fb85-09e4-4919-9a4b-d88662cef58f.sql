@@ -0,0 +1,61 @@
+-- Payments belong to live invoices: none can be recorded against a void
+-- invoice, and an invoice with payments on it cannot be deleted, since that
+-- would take the payments with it
+
+CREATE OR REPLACE FUNCTION public.check_payment_invoice_not_void()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.invoices
+    WHERE id = NEW.invoice_id
+    AND status = 'void'
+  ) THEN
+    RAISE EXCEPTION 'Payments cannot be recorded against a void invoice';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_payments_check_invoice_not_void ON public.payments;
+CREATE TRIGGER trg_payments_check_invoice_not_void
+BEFORE INSERT OR UPDATE OF invoice_id ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.check_payment_invoice_not_void();
+
+-- Delete an invoice and return its stock in the same transaction. Paid
+-- invoices keep their payment history; remove the payments first.
+CREATE OR REPLACE FUNCTION public.delete_invoice(p_invoice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  PERFORM 1
+  FROM public.invoices
+  WHERE id = p_invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.payments WHERE invoice_id = p_invoice_id) THEN
+    RAISE EXCEPTION 'Remove the payments recorded against this invoice before deleting it';
+  END IF;
+
+  PERFORM public.restore_invoice_stock(p_invoice_id);
+
+  DELETE FROM public.invoices
+  WHERE id = p_invoice_id;
+END;
+$$;
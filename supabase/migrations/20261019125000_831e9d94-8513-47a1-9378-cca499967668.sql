@@ -0,0 +1,212 @@
+-- Recurring invoice fixes: template lines keep the order they were entered
+-- in, and a period whose invoice could not be generated stays due and is
+-- tried again on the next run instead of being skipped
+
+ALTER TABLE public.recurring_invoice_items
+ADD COLUMN position integer NOT NULL DEFAULT 0;
+
+-- Existing lines keep whatever order they have been showing in
+UPDATE public.recurring_invoice_items ri
+SET position = numbered.position
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY recurring_invoice_id ORDER BY created_at, id) AS position
+  FROM public.recurring_invoice_items
+) numbered
+WHERE numbered.id = ri.id;
+
+-- Create or update a template together with its line items. Pass a null id
+-- to create a new one; the template id is returned either way.
+CREATE OR REPLACE FUNCTION public.save_recurring_invoice_with_items(p_recurring_invoice_id uuid, p_recurring_invoice jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  saved_id uuid := p_recurring_invoice_id;
+  periods_run integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A recurring invoice needs at least one line item';
+  END IF;
+
+  IF saved_id IS NULL THEN
+    INSERT INTO public.recurring_invoices (user_id, client_id, name, start_date, next_run_date)
+    VALUES (
+      auth.uid(),
+      (p_recurring_invoice->>'client_id')::uuid,
+      p_recurring_invoice->>'name',
+      (p_recurring_invoice->>'start_date')::date,
+      (p_recurring_invoice->>'start_date')::date
+    )
+    RETURNING id INTO saved_id;
+  ELSE
+    PERFORM 1
+    FROM public.recurring_invoices
+    WHERE id = saved_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Recurring invoice not found';
+    END IF;
+
+    DELETE FROM public.recurring_invoice_items
+    WHERE recurring_invoice_id = saved_id;
+  END IF;
+
+  SELECT COALESCE(MAX(period_number) + 1, 0) INTO periods_run
+  FROM public.recurring_invoice_runs
+  WHERE recurring_invoice_id = saved_id
+  AND status <> 'failed';
+
+  -- A changed start date or frequency moves the next run, but periods that
+  -- have already been invoiced are never repeated
+  UPDATE public.recurring_invoices
+  SET client_id = (p_recurring_invoice->>'client_id')::uuid,
+      name = p_recurring_invoice->>'name',
+      frequency = COALESCE(p_recurring_invoice->>'frequency', 'monthly'),
+      start_date = (p_recurring_invoice->>'start_date')::date,
+      end_date = NULLIF(p_recurring_invoice->>'end_date', '')::date,
+      next_run_date = public.recurring_period_date(
+        (p_recurring_invoice->>'start_date')::date,
+        COALESCE(p_recurring_invoice->>'frequency', 'monthly'),
+        periods_run
+      ),
+      payment_terms_days = COALESCE((p_recurring_invoice->>'payment_terms_days')::integer, 30),
+      auto_send = COALESCE((p_recurring_invoice->>'auto_send')::boolean, false),
+      active = COALESCE((p_recurring_invoice->>'active')::boolean, active),
+      notes = p_recurring_invoice->>'notes',
+      subtotal = COALESCE((p_recurring_invoice->>'subtotal')::numeric, 0),
+      discount_type = COALESCE(p_recurring_invoice->>'discount_type', 'percentage'),
+      discount_value = COALESCE((p_recurring_invoice->>'discount_value')::numeric, 0),
+      discount_amount = COALESCE((p_recurring_invoice->>'discount_amount')::numeric, 0),
+      tax_amount = COALESCE((p_recurring_invoice->>'tax_amount')::numeric, 0),
+      wht_rate = COALESCE((p_recurring_invoice->>'wht_rate')::numeric, 0),
+      wht_amount = COALESCE((p_recurring_invoice->>'wht_amount')::numeric, 0),
+      total_amount = COALESCE((p_recurring_invoice->>'total_amount')::numeric, 0),
+      updated_at = now()
+  WHERE id = saved_id;
+
+  INSERT INTO public.recurring_invoice_items (
+    recurring_invoice_id, inventory_item_id, description, quantity, unit_price, line_total,
+    tax_rate, tax_amount, discount_type, discount_value, discount_amount, position
+  )
+  SELECT
+    saved_id,
+    NULLIF(item->>'inventory_item_id', '')::uuid,
+    item->>'description',
+    (item->>'quantity')::numeric,
+    (item->>'unit_price')::numeric,
+    COALESCE((item->>'line_total')::numeric, (item->>'quantity')::numeric * (item->>'unit_price')::numeric),
+    COALESCE((item->>'tax_rate')::numeric, 0),
+    COALESCE((item->>'tax_amount')::numeric, 0),
+    COALESCE(item->>'discount_type', 'percentage'),
+    COALESCE((item->>'discount_value')::numeric, 0),
+    COALESCE((item->>'discount_amount')::numeric, 0),
+    line.position
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS line(item, position);
+
+  RETURN saved_id;
+END;
+$$;
+
+-- Invoice every period that has come due. Missed days are caught up one
+-- period at a time. Each period runs in its own subtransaction, so a line that
+-- is out of stock fails that run alone and is recorded with its error. The
+-- template then stays on the failed period, which is tried again next time.
+CREATE OR REPLACE FUNCTION public.generate_recurring_invoices()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  template record;
+  template_lines jsonb;
+  period integer;
+  new_invoice_id uuid;
+  generated integer := 0;
+BEGIN
+  FOR template IN
+    SELECT *
+    FROM public.recurring_invoices
+    WHERE active
+      AND next_run_date <= CURRENT_DATE
+      AND (end_date IS NULL OR next_run_date <= end_date)
+    ORDER BY next_run_date
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    SELECT jsonb_agg(to_jsonb(ri) ORDER BY ri.position)
+    INTO template_lines
+    FROM public.recurring_invoice_items ri
+    WHERE ri.recurring_invoice_id = template.id;
+
+    SELECT COALESCE(MAX(period_number) + 1, 0) INTO period
+    FROM public.recurring_invoice_runs
+    WHERE recurring_invoice_id = template.id
+    AND status <> 'failed';
+
+    WHILE template.next_run_date <= CURRENT_DATE
+      AND (template.end_date IS NULL OR template.next_run_date <= template.end_date)
+    LOOP
+      BEGIN
+        -- create_invoice_with_items records auth.uid() as the invoice owner;
+        -- there is no session under pg_cron, so act as the template's owner
+        PERFORM set_config(
+          'request.jwt.claims',
+          jsonb_build_object('sub', template.user_id, 'role', 'authenticated')::text,
+          true
+        );
+
+        -- Left unsent templates produce drafts to check and send by hand.
+        -- A null number is filled in from the invoice sequence.
+        new_invoice_id := public.create_invoice_with_items(
+          to_jsonb(template) || jsonb_build_object(
+            'invoice_number', NULL,
+            'issue_date', template.next_run_date,
+            'due_date', template.next_run_date + template.payment_terms_days,
+            'status', CASE WHEN template.auto_send THEN 'pending' ELSE 'draft' END
+          ),
+          template_lines
+        );
+
+        -- A retried period replaces its failed run
+        INSERT INTO public.recurring_invoice_runs (recurring_invoice_id, period_number, run_date, invoice_id, status)
+        VALUES (template.id, period, template.next_run_date, new_invoice_id, 'generated')
+        ON CONFLICT (recurring_invoice_id, period_number) DO UPDATE
+        SET invoice_id = EXCLUDED.invoice_id,
+            status = EXCLUDED.status,
+            error = NULL,
+            created_at = now();
+
+        generated := generated + 1;
+      EXCEPTION WHEN OTHERS THEN
+        INSERT INTO public.recurring_invoice_runs (recurring_invoice_id, period_number, run_date, status, error)
+        VALUES (template.id, period, template.next_run_date, 'failed', SQLERRM)
+        ON CONFLICT (recurring_invoice_id, period_number) DO UPDATE
+        SET error = EXCLUDED.error,
+            created_at = now();
+
+        -- Later periods wait until this one has been invoiced
+        EXIT;
+      END;
+
+      period := period + 1;
+      template.next_run_date := public.recurring_period_date(template.start_date, template.frequency, period);
+    END LOOP;
+
+    UPDATE public.recurring_invoices
+    SET next_run_date = template.next_run_date,
+        updated_at = now()
+    WHERE id = template.id;
+  END LOOP;
+
+  PERFORM set_config('request.jwt.claims', '', true);
+
+  RETURN generated;
+END;
+$$;
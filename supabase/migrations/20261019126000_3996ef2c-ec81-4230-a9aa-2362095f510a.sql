@@ -0,0 +1,38 @@
+-- Purchase orders only change through their functions, which keep them on
+-- the draft -> sent -> received path. Sending an order gets a function of its
+-- own and the open update policy goes.
+
+DROP POLICY IF EXISTS "Authenticated users can update all purchase orders" ON public.purchase_orders;
+
+CREATE OR REPLACE FUNCTION public.mark_purchase_order_sent(p_purchase_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT id, po_number, status INTO target
+  FROM public.purchase_orders
+  WHERE id = p_purchase_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF target.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft purchase orders can be marked sent; % is %', target.po_number, target.status;
+  END IF;
+
+  UPDATE public.purchase_orders
+  SET status = 'sent',
+      updated_at = now()
+  WHERE id = p_purchase_order_id;
+END;
+$$;
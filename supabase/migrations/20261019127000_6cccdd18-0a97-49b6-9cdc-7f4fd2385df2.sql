@@ -0,0 +1,82 @@
+-- Posting a stocktake no longer fails when stock was sold from the location
+-- while it was being counted. A shortfall is written off against what is
+-- left on the shelf, never more.
+
+CREATE OR REPLACE FUNCTION public.post_stocktake(p_stocktake_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target record;
+  line record;
+  on_hand numeric;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT id, stocktake_number, status, warehouse_location_id INTO target
+  FROM public.stocktakes
+  WHERE id = p_stocktake_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake not found';
+  END IF;
+
+  IF target.status <> 'counting' THEN
+    RAISE EXCEPTION 'Only stocktakes in progress can be posted';
+  END IF;
+
+  IF target.warehouse_location_id IS NULL THEN
+    RAISE EXCEPTION 'The location counted in this stocktake has been removed';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.stocktake_items
+    WHERE stocktake_id = p_stocktake_id
+    AND counted_quantity IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Enter at least one counted quantity before posting';
+  END IF;
+
+  PERFORM public.set_stock_movement_context('adjustment', NULL, NULL, 'Stocktake ' || target.stocktake_number);
+
+  FOR line IN
+    SELECT inv.id, sti.counted_quantity - sti.expected_quantity AS variance
+    FROM public.stocktake_items sti
+    JOIN public.inventory inv ON inv.id = sti.inventory_item_id
+    WHERE sti.stocktake_id = p_stocktake_id
+    AND sti.counted_quantity IS NOT NULL
+    AND sti.counted_quantity <> sti.expected_quantity
+    ORDER BY inv.id
+    FOR UPDATE OF inv
+  LOOP
+    IF line.variance > 0 THEN
+      PERFORM public.add_inventory_stock(line.id, target.warehouse_location_id, line.variance);
+    ELSE
+      -- Sales made during the count may already have taken some of the
+      -- shortfall off the shelf
+      SELECT quantity INTO on_hand
+      FROM public.inventory_stock
+      WHERE inventory_item_id = line.id
+      AND warehouse_location_id = target.warehouse_location_id
+      FOR UPDATE;
+
+      IF COALESCE(on_hand, 0) > 0 THEN
+        PERFORM public.take_inventory_stock(line.id, target.warehouse_location_id, LEAST(-line.variance, on_hand));
+      END IF;
+    END IF;
+  END LOOP;
+
+  UPDATE public.stocktakes
+  SET status = 'posted',
+      approved_by = auth.uid(),
+      approved_by_email = auth.jwt()->>'email',
+      posted_at = now(),
+      updated_at = now()
+  WHERE id = p_stocktake_id;
+END;
+$$;
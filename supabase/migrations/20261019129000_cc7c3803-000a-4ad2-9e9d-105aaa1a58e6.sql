@@ -0,0 +1,176 @@
+-- Credit note lines keep the unit the invoice line was sold in. quantity stays
+-- in the item's base unit, like invoice_items, so stock and the amounts
+-- credited are unchanged; the quantity returned is quantity / unit_factor.
+
+ALTER TABLE public.credit_note_items
+  ADD COLUMN IF NOT EXISTS unit_name TEXT,
+  ADD COLUMN IF NOT EXISTS unit_factor NUMERIC NOT NULL DEFAULT 1 CHECK (unit_factor > 0);
+
+UPDATE public.credit_note_items cni
+SET unit_name = ii.unit_name,
+    unit_factor = ii.unit_factor
+FROM public.invoice_items ii
+WHERE ii.id = cni.invoice_item_id;
+
+-- Restocked goods go back to the location the invoice line shipped from
+CREATE OR REPLACE FUNCTION public.create_credit_note(p_invoice_id uuid, p_credit_note jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target record;
+  line record;
+  stock record;
+  discount_share numeric;
+  credit_subtotal numeric;
+  credit_tax numeric;
+  credit_wht numeric;
+  credit_total numeric;
+  should_restock boolean;
+  new_credit_note_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A credit note needs at least one line item';
+  END IF;
+
+  SELECT id, status, is_backdated, subtotal, discount_amount, wht_rate, total_amount, amount_credited
+  INTO target
+  FROM public.invoices
+  WHERE id = p_invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF target.status = 'void' THEN
+    RAISE EXCEPTION 'Void invoices cannot be credited';
+  END IF;
+
+  IF target.status = 'draft' THEN
+    RAISE EXCEPTION 'Draft invoices have not been issued yet. Edit the invoice instead.';
+  END IF;
+
+  discount_share := CASE WHEN target.subtotal > 0 THEN target.discount_amount / target.subtotal ELSE 0 END;
+
+  -- Every line must belong to this invoice and the quantity returned across
+  -- all of its credit notes can never exceed what was sold
+  FOR line IN
+    SELECT ii.id, ii.description, ii.quantity AS sold,
+           req.quantity AS returned,
+           COALESCE((
+             SELECT SUM(cni.quantity)
+             FROM public.credit_note_items cni
+             WHERE cni.invoice_item_id = ii.id
+           ), 0) AS already_returned
+    FROM (
+      SELECT (item->>'invoice_item_id')::uuid AS invoice_item_id,
+             SUM((item->>'quantity')::numeric) AS quantity
+      FROM jsonb_array_elements(p_items) AS item
+      GROUP BY 1
+    ) req
+    LEFT JOIN public.invoice_items ii ON ii.id = req.invoice_item_id AND ii.invoice_id = p_invoice_id
+  LOOP
+    IF line.id IS NULL THEN
+      RAISE EXCEPTION 'Credit note lines must come from the invoice being credited';
+    END IF;
+
+    IF line.returned <= 0 THEN
+      RAISE EXCEPTION 'Returned quantity for % must be greater than zero', line.description;
+    END IF;
+
+    IF line.already_returned + line.returned > line.sold THEN
+      RAISE EXCEPTION 'Only % units of % can still be credited, but % requested',
+        line.sold - line.already_returned, line.description, line.returned;
+    END IF;
+  END LOOP;
+
+  -- Backdated invoices never took stock out, so there is nothing to put back
+  should_restock := COALESCE((p_credit_note->>'restock')::boolean, true) AND NOT COALESCE(target.is_backdated, false);
+
+  INSERT INTO public.credit_notes (user_id, invoice_id, issue_date, reason, restock)
+  VALUES (
+    auth.uid(),
+    p_invoice_id,
+    COALESCE((p_credit_note->>'issue_date')::date, CURRENT_DATE),
+    NULLIF(p_credit_note->>'reason', ''),
+    should_restock
+  )
+  RETURNING id INTO new_credit_note_id;
+
+  INSERT INTO public.credit_note_items (
+    credit_note_id, invoice_item_id, inventory_item_id, description,
+    quantity, unit_name, unit_factor, unit_price, pricing_unit, unit_weight_kg, unit_length_m, line_total, tax_amount
+  )
+  SELECT
+    new_credit_note_id,
+    ii.id,
+    ii.inventory_item_id,
+    ii.description,
+    req.quantity,
+    ii.unit_name,
+    ii.unit_factor,
+    ii.unit_price,
+    ii.pricing_unit,
+    ii.unit_weight_kg,
+    ii.unit_length_m,
+    round(ii.line_total * req.quantity / ii.quantity * (1 - discount_share), 2),
+    round(ii.tax_amount * req.quantity / ii.quantity, 2)
+  FROM (
+    SELECT (item->>'invoice_item_id')::uuid AS invoice_item_id,
+           SUM((item->>'quantity')::numeric) AS quantity
+    FROM jsonb_array_elements(p_items) AS item
+    GROUP BY 1
+  ) req
+  JOIN public.invoice_items ii ON ii.id = req.invoice_item_id;
+
+  SELECT COALESCE(SUM(line_total), 0), COALESCE(SUM(tax_amount), 0)
+  INTO credit_subtotal, credit_tax
+  FROM public.credit_note_items
+  WHERE credit_note_id = new_credit_note_id;
+
+  credit_wht := round(credit_subtotal * COALESCE(target.wht_rate, 0) / 100, 2);
+  -- Rounding per line can leave the last credit a kobo over what is left
+  credit_total := LEAST(credit_subtotal + credit_tax - credit_wht, target.total_amount - target.amount_credited);
+
+  UPDATE public.credit_notes
+  SET subtotal = credit_subtotal,
+      tax_amount = credit_tax,
+      wht_amount = credit_wht,
+      total_amount = credit_total
+  WHERE id = new_credit_note_id;
+
+  IF should_restock THEN
+    PERFORM public.set_stock_movement_context('return', p_invoice_id, new_credit_note_id, NULLIF(p_credit_note->>'reason', ''));
+
+    FOR stock IN
+      SELECT inv.id, returned.warehouse_location_id, returned.quantity
+      FROM (
+        SELECT cni.inventory_item_id,
+               COALESCE(ii.warehouse_location_id, public.default_stock_location(cni.inventory_item_id)) AS warehouse_location_id,
+               SUM(cni.quantity) AS quantity
+        FROM public.credit_note_items cni
+        JOIN public.invoice_items ii ON ii.id = cni.invoice_item_id
+        WHERE cni.credit_note_id = new_credit_note_id
+        AND cni.inventory_item_id IS NOT NULL
+        GROUP BY 1, 2
+      ) returned
+      JOIN public.inventory inv ON inv.id = returned.inventory_item_id
+      ORDER BY inv.id, returned.warehouse_location_id
+      FOR UPDATE OF inv
+    LOOP
+      PERFORM public.add_inventory_stock(stock.id, stock.warehouse_location_id, stock.quantity);
+    END LOOP;
+  END IF;
+
+  PERFORM public.sync_invoice_credit_total(p_invoice_id);
+
+  RETURN new_credit_note_id;
+END;
+$$;
@@ -0,0 +1,84 @@
+-- Invoices are only voided through void_invoice, which puts the stock back
+-- and logs the void. Saving an invoice, by update_invoice_with_items or a
+-- direct update, can no longer set the void status or take it off again.
+
+ALTER TABLE public.invoice_events
+DROP CONSTRAINT IF EXISTS invoice_events_event_type_check;
+
+ALTER TABLE public.invoice_events
+ADD CONSTRAINT invoice_events_event_type_check
+CHECK (event_type IN ('sent', 'reminder_sent', 'send_failed', 'voided'));
+
+CREATE OR REPLACE FUNCTION public.check_invoice_void_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status = 'void' AND NEW.status <> 'void' THEN
+    RAISE EXCEPTION 'Void invoices cannot be reopened';
+  END IF;
+
+  IF NEW.status = 'void'
+    AND (TG_OP = 'INSERT' OR OLD.status <> 'void')
+    AND COALESCE(current_setting('app.voiding_invoice_id', true), '') <> NEW.id::text THEN
+    RAISE EXCEPTION 'Invoices can only be voided with Void, which returns their stock';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_invoices_check_void_status ON public.invoices;
+CREATE TRIGGER trg_invoices_check_void_status
+BEFORE INSERT OR UPDATE OF status ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.check_invoice_void_status();
+
+-- Cancel an invoice without deleting it
+CREATE OR REPLACE FUNCTION public.void_invoice(p_invoice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT id, status, amount_paid INTO target
+  FROM public.invoices
+  WHERE id = p_invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF target.status = 'void' THEN
+    RAISE EXCEPTION 'Invoice is already void';
+  END IF;
+
+  IF target.amount_paid > 0 THEN
+    RAISE EXCEPTION 'Remove the payments recorded against this invoice before voiding it';
+  END IF;
+
+  PERFORM public.restore_invoice_stock(p_invoice_id);
+
+  -- Lets the status trigger tell this apart from an ordinary save
+  PERFORM set_config('app.voiding_invoice_id', p_invoice_id::text, true);
+
+  UPDATE public.invoices
+  SET status = 'void',
+      updated_at = now()
+  WHERE id = p_invoice_id;
+
+  PERFORM set_config('app.voiding_invoice_id', '', true);
+
+  INSERT INTO public.invoice_events (invoice_id, user_id, event_type)
+  VALUES (p_invoice_id, auth.uid(), 'voided');
+END;
+$$;
@@ -0,0 +1,81 @@
+-- Invoice numbers take their year from the invoice's issue date rather than
+-- the day it was saved, so an invoice dated in December but entered in
+-- January is numbered in December's sequence.
+
+DROP FUNCTION IF EXISTS public.take_next_invoice_number();
+
+-- Hand out the next invoice number for an invoice issued on p_issue_date.
+-- Numbers already taken by hand-typed or older invoices are skipped. The
+-- counter only follows the current or a later year; an invoice dated in an
+-- earlier year gets the first free number of that year and leaves the
+-- counter alone.
+CREATE OR REPLACE FUNCTION public.take_next_invoice_number(p_issue_date date)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings public.company_info%ROWTYPE;
+  issue_year integer := EXTRACT(YEAR FROM COALESCE(p_issue_date, CURRENT_DATE))::integer;
+  is_earlier_year boolean;
+  sequence_number integer;
+  candidate text;
+BEGIN
+  -- The oldest row is the company record everywhere else reads; id breaks
+  -- ties so concurrent callers always lock the same row
+  SELECT * INTO settings
+  FROM public.company_info
+  ORDER BY created_at, id
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Save your company information in Settings before creating invoices';
+  END IF;
+
+  is_earlier_year := settings.invoice_number_reset_yearly AND issue_year < settings.invoice_number_year;
+
+  sequence_number := settings.next_invoice_number;
+  IF settings.invoice_number_reset_yearly AND settings.invoice_number_year <> issue_year THEN
+    sequence_number := 1;
+  END IF;
+
+  LOOP
+    candidate := public.format_invoice_number(
+      settings.invoice_prefix,
+      issue_year,
+      sequence_number,
+      settings.invoice_number_padding,
+      settings.invoice_number_reset_yearly
+    );
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.invoices WHERE invoice_number = candidate);
+    sequence_number := sequence_number + 1;
+  END LOOP;
+
+  IF NOT is_earlier_year THEN
+    UPDATE public.company_info
+    SET next_invoice_number = sequence_number + 1,
+        invoice_number_year = GREATEST(invoice_number_year, issue_year)
+    WHERE id = settings.id;
+  END IF;
+
+  RETURN candidate;
+END;
+$$;
+
+-- Invoices saved without a number are numbered from the sequence
+CREATE OR REPLACE FUNCTION public.assign_invoice_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.invoice_number IS NULL OR btrim(NEW.invoice_number) = '' THEN
+    NEW.invoice_number := public.take_next_invoice_number(NEW.issue_date);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,66 @@
+-- Reminders whose day has passed are still queued on the next run, so a day
+-- the cron job did not run no longer loses them. Only the latest reminder
+-- that has come due is queued; an invoice that is already overdue is not also
+-- sent the reminders meant for before its due date.
+
+CREATE OR REPLACE FUNCTION public.queue_invoice_reminders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings public.company_info%ROWTYPE;
+  offsets integer[] := '{}';
+  queued integer;
+BEGIN
+  SELECT * INTO settings
+  FROM public.company_info
+  ORDER BY created_at, id
+  LIMIT 1;
+
+  IF NOT FOUND OR NOT settings.auto_reminders_enabled THEN
+    RETURN 0;
+  END IF;
+
+  IF settings.reminder_days > 0 THEN
+    offsets := offsets || -settings.reminder_days;
+  END IF;
+  IF settings.remind_on_due_date THEN
+    offsets := offsets || 0;
+  END IF;
+  IF settings.overdue_reminder_days > 0 THEN
+    offsets := offsets || settings.overdue_reminder_days;
+  END IF;
+
+  -- Invoices settled since their reminder was queued are not chased
+  UPDATE public.invoice_reminders r
+  SET status = 'cancelled'
+  FROM public.invoices i
+  WHERE i.id = r.invoice_id
+    AND r.status = 'queued'
+    AND i.status IN ('paid', 'void');
+
+  -- Skips an invoice once it has a reminder for the same or a later point in
+  -- the schedule, so each step is only ever queued once
+  INSERT INTO public.invoice_reminders (invoice_id, days_offset, scheduled_for)
+  SELECT DISTINCT ON (i.id) i.id, o.days_offset, CURRENT_DATE
+  FROM public.invoices i
+  JOIN public.clients c ON c.id = i.client_id
+  CROSS JOIN unnest(offsets) AS o(days_offset)
+  WHERE i.status IN ('pending', 'partially_paid', 'overdue')
+    AND i.due_date + o.days_offset <= CURRENT_DATE
+    AND COALESCE(c.email, '') <> ''
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.invoice_reminders r
+      WHERE r.invoice_id = i.id
+        AND r.days_offset >= o.days_offset
+    )
+  ORDER BY i.id, o.days_offset DESC
+  ON CONFLICT (invoice_id, days_offset) DO NOTHING;
+
+  GET DIAGNOSTICS queued = ROW_COUNT;
+  RETURN queued;
+END;
+$$;
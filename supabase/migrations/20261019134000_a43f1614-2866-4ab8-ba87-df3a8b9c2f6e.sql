@@ -0,0 +1,78 @@
+-- Stock, movements and every conversion are counted in an item's base unit,
+-- so once any of them exist the base unit can no longer be renamed. New items
+-- are created with their alternate units in one call, so a failure saving
+-- the units does not leave the item behind without them.
+
+CREATE OR REPLACE FUNCTION public.check_inventory_base_unit()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.quantity <> 0
+    OR EXISTS (SELECT 1 FROM public.inventory_stock WHERE inventory_item_id = OLD.id AND quantity <> 0)
+    OR EXISTS (SELECT 1 FROM public.inventory_movements WHERE inventory_item_id = OLD.id)
+  THEN
+    RAISE EXCEPTION 'The base unit of % cannot be changed once it has stock or stock movements', OLD.name;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_inventory_check_base_unit ON public.inventory;
+CREATE TRIGGER trg_inventory_check_base_unit
+BEFORE UPDATE OF base_unit ON public.inventory
+FOR EACH ROW
+WHEN (OLD.base_unit IS DISTINCT FROM NEW.base_unit)
+EXECUTE FUNCTION public.check_inventory_base_unit();
+
+-- Create an inventory item together with its alternate units. p_units takes
+-- the same shape as save_inventory_units.
+CREATE OR REPLACE FUNCTION public.create_inventory_item(p_item jsonb, p_units jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_item_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  INSERT INTO public.inventory (
+    user_id, name, description, quantity, unit_price, cost_price,
+    reorder_level, reorder_quantity, category, base_unit, status, warehouse_location_id,
+    section_type, gauge, thickness_mm, width_mm, height_mm, outer_diameter_mm, length_m, grade
+  )
+  VALUES (
+    auth.uid(),
+    p_item->>'name',
+    NULLIF(p_item->>'description', ''),
+    COALESCE((p_item->>'quantity')::integer, 0),
+    COALESCE((p_item->>'unit_price')::numeric, 0),
+    COALESCE((p_item->>'cost_price')::numeric, 0),
+    COALESCE((p_item->>'reorder_level')::integer, 25),
+    COALESCE((p_item->>'reorder_quantity')::integer, 0),
+    NULLIF(p_item->>'category', ''),
+    COALESCE(NULLIF(btrim(p_item->>'base_unit'), ''), 'pcs'),
+    COALESCE(p_item->>'status', 'in_stock'),
+    NULLIF(p_item->>'warehouse_location_id', '')::uuid,
+    p_item->>'section_type',
+    (p_item->>'gauge')::integer,
+    (p_item->>'thickness_mm')::numeric,
+    (p_item->>'width_mm')::numeric,
+    (p_item->>'height_mm')::numeric,
+    (p_item->>'outer_diameter_mm')::numeric,
+    (p_item->>'length_m')::numeric,
+    p_item->>'grade'
+  )
+  RETURNING id INTO new_item_id;
+
+  PERFORM public.save_inventory_units(new_item_id, p_units);
+
+  RETURN new_item_id;
+END;
+$$;